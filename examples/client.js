@@ -210,6 +210,7 @@ async function performOAuthFlow(clientId, clientSecret) {
     `response_type=code&` +
     `code_challenge=${codeChallenge}&` +
     `code_challenge_method=S256&` +
+    `resource=${encodeURIComponent(`${MCP_SERVER}/mcp`)}&` +
     `state=demo-state`;
 
   console.log('1. Open this URL in your browser:');
@@ -244,7 +245,8 @@ async function performOAuthFlow(clientId, clientSecret) {
               `redirect_uri=${encodeURIComponent(REDIRECT_URI)}&` +
               `client_id=${clientId}&` +
               `client_secret=${clientSecret}&` +
-              `code_verifier=${codeVerifier}`
+              `code_verifier=${codeVerifier}&` +
+              `resource=${encodeURIComponent(`${MCP_SERVER}/mcp`)}`
       });
 
       if (tokenResponse.data.access_token) {
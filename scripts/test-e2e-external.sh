@@ -99,7 +99,7 @@ echo "   ✅ OAuth metadata correctly points to external auth server"
 echo ""
 echo "📝 Step 2: Register OAuth client with auth server"
 CLIENT_RESPONSE=$(curl -s -X POST -H "Content-Type: application/json" \
-  -d "{\"client_name\":\"e2e-external-test\",\"redirect_uris\":[\"http://localhost:3000/callback\"]}" \
+  -d "{\"client_name\":\"e2e-external-test\",\"token_endpoint_auth_method\":\"client_secret_post\",\"redirect_uris\":[\"http://localhost:3000/callback\"]}" \
   "$AUTH_SERVER/register")
 
 CLIENT_ID=$(echo "$CLIENT_RESPONSE" | jq -r .client_id)
@@ -117,7 +117,9 @@ echo "   Code verifier generated"
 echo ""
 echo "🎫 Step 4: Get authorization code from auth server"
 STATE_PARAM="e2e-external-$(date +%s)"
-AUTH_URL="$AUTH_SERVER/authorize?response_type=code&client_id=$CLIENT_ID&redirect_uri=http://localhost:3000/callback&code_challenge=$CODE_CHALLENGE&code_challenge_method=S256&state=$STATE_PARAM"
+# Bind the tokens to the MCP server (RFC 8707), which only accepts tokens for itself
+RESOURCE=$(jq -rn --arg resource "$MCP_SERVER/mcp" '$resource | @uri')
+AUTH_URL="$AUTH_SERVER/authorize?response_type=code&client_id=$CLIENT_ID&redirect_uri=http://localhost:3000/callback&code_challenge=$CODE_CHALLENGE&code_challenge_method=S256&state=$STATE_PARAM&resource=$RESOURCE"
 
 AUTH_PAGE=$(curl -s "$AUTH_URL")
 AUTH_CODE=$(echo "$AUTH_PAGE" | grep -o 'state=[^"&]*' | cut -d= -f2 | head -1)
@@ -147,7 +149,7 @@ fi
 echo ""
 echo "🎟️  Step 6: Exchange code for access token"
 TOKEN_RESPONSE=$(curl -s -X POST -H "Content-Type: application/x-www-form-urlencoded" \
-  -d "grant_type=authorization_code&client_id=$CLIENT_ID&client_secret=$CLIENT_SECRET&code=$AUTH_CODE&redirect_uri=http://localhost:3000/callback&code_verifier=$CODE_VERIFIER" \
+  -d "grant_type=authorization_code&client_id=$CLIENT_ID&client_secret=$CLIENT_SECRET&code=$AUTH_CODE&redirect_uri=http://localhost:3000/callback&code_verifier=$CODE_VERIFIER&resource=$RESOURCE" \
   "$AUTH_SERVER/token")
 
 ACCESS_TOKEN=$(echo "$TOKEN_RESPONSE" | jq -r .access_token)
@@ -68,7 +68,7 @@ echo "   Token endpoint: $TOKEN_ENDPOINT"
 echo ""
 echo "📝 Step 2: Register OAuth client"
 CLIENT_RESPONSE=$(curl -s -X POST -H "Content-Type: application/json" \
-  -d "{\"client_name\":\"e2e-internal-test\",\"redirect_uris\":[\"http://localhost:3000/callback\"]}" \
+  -d "{\"client_name\":\"e2e-internal-test\",\"token_endpoint_auth_method\":\"client_secret_post\",\"redirect_uris\":[\"http://localhost:3000/callback\"]}" \
   "$SERVER_URL/register")
 
 CLIENT_ID=$(echo "$CLIENT_RESPONSE" | jq -r .client_id)
@@ -86,7 +86,9 @@ echo "   Code verifier generated"
 echo ""
 echo "🎫 Step 4: Get authorization code"
 STATE_PARAM="e2e-internal-$(date +%s)"
-AUTH_URL="$SERVER_URL/authorize?response_type=code&client_id=$CLIENT_ID&redirect_uri=http://localhost:3000/callback&code_challenge=$CODE_CHALLENGE&code_challenge_method=S256&state=$STATE_PARAM"
+# Bind the tokens to the MCP server (RFC 8707), which only accepts tokens for itself
+RESOURCE=$(jq -rn --arg resource "$SERVER_URL/mcp" '$resource | @uri')
+AUTH_URL="$SERVER_URL/authorize?response_type=code&client_id=$CLIENT_ID&redirect_uri=http://localhost:3000/callback&code_challenge=$CODE_CHALLENGE&code_challenge_method=S256&state=$STATE_PARAM&resource=$RESOURCE"
 
 AUTH_PAGE=$(curl -s "$AUTH_URL")
 AUTH_CODE=$(echo "$AUTH_PAGE" | grep -o 'state=[^"&]*' | cut -d= -f2 | head -1)
@@ -116,7 +118,7 @@ fi
 echo ""
 echo "🎟️  Step 6: Exchange code for access token"
 TOKEN_RESPONSE=$(curl -s -X POST -H "Content-Type: application/x-www-form-urlencoded" \
-  -d "grant_type=authorization_code&client_id=$CLIENT_ID&client_secret=$CLIENT_SECRET&code=$AUTH_CODE&redirect_uri=http://localhost:3000/callback&code_verifier=$CODE_VERIFIER" \
+  -d "grant_type=authorization_code&client_id=$CLIENT_ID&client_secret=$CLIENT_SECRET&code=$AUTH_CODE&redirect_uri=http://localhost:3000/callback&code_verifier=$CODE_VERIFIER&resource=$RESOURCE" \
   "$SERVER_URL/token")
 
 ACCESS_TOKEN=$(echo "$TOKEN_RESPONSE" | jq -r .access_token)
@@ -18,6 +18,23 @@ export interface Config {
   auth: {
     mode: 'internal' | 'external' | 'auth_server';
     externalUrl?: string; // URL of external auth server (if mode=external)
+    accessTokenFormat: 'opaque' | 'jwt';
+    acceptUnboundTokens: boolean; // Accept tokens issued without an RFC 8707 resource
+    jwt: {
+      algorithm: 'RS256' | 'ES256';
+      keyRotationIntervalMs: number; // How long a signing key is used before rotating
+    };
+    upstream: {
+      provider: 'mock' | 'oidc'; // Where users sign in
+      oidc?: {
+        issuer: string;
+        clientId: string;
+        clientSecret?: string;
+        scopes: string[];
+      };
+      tokenSecret?: string; // Shared by the auth server and external MCP servers for /upstream-token
+      apiUrl: string; // Upstream API the demo tool calls on the user's behalf
+    };
   };
 
   // Redis configuration (optional)
@@ -26,6 +43,28 @@ export interface Config {
     url?: string;
     tls?: boolean;
   };
+
+  // Graceful shutdown configuration
+  shutdown: {
+    drainTimeoutMs: number; // How long SIGTERM waits for in-flight requests
+  };
+
+  // MCP transport configuration
+  mcp: {
+    sessionMode: 'stateful' | 'stateless';
+    responseMode: 'sse' | 'json' | 'negotiate';
+    sessionRecovery: boolean; // Rehydrate sessions orphaned by a node going away
+    sessionTimeouts: {
+      inactivityTimeoutMs: number;
+      maxLifetimeMs: number; // 0 = unlimited
+    };
+    adminUserIds: string[]; // Users allowed to use the session admin API
+    sessionLimits: {
+      maxSessionsPerUser: number; // 0 = unlimited
+      maxSessionsPerClient: number; // 0 = unlimited
+      onLimitExceeded: 'reject' | 'evict_oldest';
+    };
+  };
 }
 
 /**
@@ -33,11 +72,67 @@ export interface Config {
  */
 function loadConfig(): Config {
   const authMode = (process.env.AUTH_MODE || 'internal') as 'internal' | 'external' | 'auth_server';
+  const sessionMode = (process.env.MCP_SESSION_MODE || 'stateful') as 'stateful' | 'stateless';
+  const responseMode = (process.env.MCP_RESPONSE_MODE || 'sse') as 'sse' | 'json' | 'negotiate';
+  const maxSessionsPerUser = Number(process.env.MCP_MAX_SESSIONS_PER_USER || 0);
+  const maxSessionsPerClient = Number(process.env.MCP_MAX_SESSIONS_PER_CLIENT || 0);
+  const onLimitExceeded = (process.env.MCP_SESSION_LIMIT_STRATEGY || 'reject') as 'reject' | 'evict_oldest';
+  const inactivityTimeoutSec = Number(process.env.MCP_SESSION_INACTIVITY_TIMEOUT_SEC || 300);
+  const maxLifetimeSec = Number(process.env.MCP_SESSION_MAX_LIFETIME_SEC || 0);
+  const drainTimeoutSec = Number(process.env.SHUTDOWN_DRAIN_TIMEOUT_SEC || 25);
+  const accessTokenFormat = (process.env.AUTH_ACCESS_TOKEN_FORMAT || 'opaque') as 'opaque' | 'jwt';
+  const jwtAlgorithm = (process.env.AUTH_JWT_ALGORITHM || 'RS256') as 'RS256' | 'ES256';
+  const jwtKeyRotationSec = Number(process.env.AUTH_JWT_KEY_ROTATION_SEC || 24 * 60 * 60);
+  const upstreamProvider = (process.env.UPSTREAM_IDP || 'mock') as 'mock' | 'oidc';
+  const oidcScopes = (process.env.UPSTREAM_OIDC_SCOPES || 'openid profile email').split(/\s+/).filter(Boolean);
 
   // Validate configuration
   if (authMode === 'external' && !process.env.AUTH_SERVER_URL) {
     throw new Error('AUTH_SERVER_URL must be set when AUTH_MODE=external');
   }
+  if (accessTokenFormat !== 'opaque' && accessTokenFormat !== 'jwt') {
+    throw new Error('AUTH_ACCESS_TOKEN_FORMAT must be either "opaque" or "jwt"');
+  }
+  if (jwtAlgorithm !== 'RS256' && jwtAlgorithm !== 'ES256') {
+    throw new Error('AUTH_JWT_ALGORITHM must be either "RS256" or "ES256"');
+  }
+  if (!Number.isInteger(jwtKeyRotationSec) || jwtKeyRotationSec <= 0) {
+    throw new Error('AUTH_JWT_KEY_ROTATION_SEC must be a positive integer');
+  }
+  if (upstreamProvider !== 'mock' && upstreamProvider !== 'oidc') {
+    throw new Error('UPSTREAM_IDP must be either "mock" or "oidc"');
+  }
+  if (upstreamProvider === 'oidc') {
+    if (!process.env.UPSTREAM_OIDC_ISSUER || !process.env.UPSTREAM_OIDC_CLIENT_ID) {
+      throw new Error('UPSTREAM_OIDC_ISSUER and UPSTREAM_OIDC_CLIENT_ID must be set when UPSTREAM_IDP=oidc');
+    }
+    if (!oidcScopes.includes('openid')) {
+      throw new Error('UPSTREAM_OIDC_SCOPES must include "openid"');
+    }
+  }
+  if (sessionMode !== 'stateful' && sessionMode !== 'stateless') {
+    throw new Error('MCP_SESSION_MODE must be either "stateful" or "stateless"');
+  }
+  if (!['sse', 'json', 'negotiate'].includes(responseMode)) {
+    throw new Error('MCP_RESPONSE_MODE must be one of "sse", "json" or "negotiate"');
+  }
+  for (const [name, value] of [['MCP_MAX_SESSIONS_PER_USER', maxSessionsPerUser], ['MCP_MAX_SESSIONS_PER_CLIENT', maxSessionsPerClient]] as const) {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`${name} must be a non-negative integer`);
+    }
+  }
+  if (onLimitExceeded !== 'reject' && onLimitExceeded !== 'evict_oldest') {
+    throw new Error('MCP_SESSION_LIMIT_STRATEGY must be either "reject" or "evict_oldest"');
+  }
+  if (!Number.isInteger(inactivityTimeoutSec) || inactivityTimeoutSec <= 0) {
+    throw new Error('MCP_SESSION_INACTIVITY_TIMEOUT_SEC must be a positive integer');
+  }
+  if (!Number.isInteger(maxLifetimeSec) || maxLifetimeSec < 0) {
+    throw new Error('MCP_SESSION_MAX_LIFETIME_SEC must be a non-negative integer');
+  }
+  if (!Number.isInteger(drainTimeoutSec) || drainTimeoutSec < 0) {
+    throw new Error('SHUTDOWN_DRAIN_TIMEOUT_SEC must be a non-negative integer');
+  }
 
   return {
     // Server configuration
@@ -48,7 +143,26 @@ function loadConfig(): Config {
     // Auth configuration
     auth: {
       mode: authMode,
-      externalUrl: process.env.AUTH_SERVER_URL
+      externalUrl: process.env.AUTH_SERVER_URL,
+      accessTokenFormat,
+      acceptUnboundTokens: process.env.AUTH_ACCEPT_UNBOUND_TOKENS === '1' || process.env.AUTH_ACCEPT_UNBOUND_TOKENS === 'true',
+      jwt: {
+        algorithm: jwtAlgorithm,
+        keyRotationIntervalMs: jwtKeyRotationSec * 1000
+      },
+      upstream: {
+        provider: upstreamProvider,
+        oidc: upstreamProvider === 'oidc' ? {
+          issuer: process.env.UPSTREAM_OIDC_ISSUER!,
+          clientId: process.env.UPSTREAM_OIDC_CLIENT_ID!,
+          clientSecret: process.env.UPSTREAM_OIDC_CLIENT_SECRET || undefined,
+          scopes: oidcScopes
+        } : undefined,
+        tokenSecret: process.env.AUTH_UPSTREAM_TOKEN_SECRET || undefined,
+        // The mock upstream API is served by the (demo) auth server
+        apiUrl: process.env.UPSTREAM_API_URL
+          || `${authMode === 'external' ? process.env.AUTH_SERVER_URL : process.env.BASE_URI || 'http://localhost:3232'}/mock-upstream-api`
+      }
     },
 
     // Redis configuration
@@ -56,6 +170,31 @@ function loadConfig(): Config {
       enabled: !!process.env.REDIS_URL,
       url: process.env.REDIS_URL,
       tls: process.env.REDIS_TLS === '1' || process.env.REDIS_TLS === 'true'
+    },
+
+    // Graceful shutdown configuration
+    shutdown: {
+      drainTimeoutMs: drainTimeoutSec * 1000
+    },
+
+    // MCP transport configuration
+    mcp: {
+      sessionMode,
+      responseMode,
+      sessionRecovery: process.env.MCP_SESSION_RECOVERY === '1' || process.env.MCP_SESSION_RECOVERY === 'true',
+      sessionTimeouts: {
+        inactivityTimeoutMs: inactivityTimeoutSec * 1000,
+        maxLifetimeMs: maxLifetimeSec * 1000
+      },
+      adminUserIds: (process.env.MCP_ADMIN_USER_IDS || '')
+        .split(',')
+        .map(id => id.trim())
+        .filter(Boolean),
+      sessionLimits: {
+        maxSessionsPerUser,
+        maxSessionsPerClient,
+        onLimitExceeded
+      }
     }
   };
 }
@@ -71,5 +210,31 @@ console.log('   Auth Mode:', config.auth.mode);
 if (config.auth.mode === 'external') {
   console.log('   Auth Server:', config.auth.externalUrl);
 }
+console.log('   Access Token Format:', config.auth.accessTokenFormat === 'jwt'
+  ? `JWT (${config.auth.jwt.algorithm}, keys rotated every ${config.auth.jwt.keyRotationIntervalMs / 1000}s)`
+  : 'opaque');
+if (config.auth.acceptUnboundTokens) {
+  console.log('   Unbound Access Tokens: accepted');
+}
+if (config.auth.mode !== 'external') {
+  console.log('   Upstream IdP:', config.auth.upstream.oidc
+    ? `OpenID Connect (${config.auth.upstream.oidc.issuer})`
+    : 'mock (demo only)');
+}
+if (config.auth.mode !== 'auth_server') {
+  console.log('   Upstream API:', config.auth.mode === 'external' && !config.auth.upstream.tokenSecret
+    ? 'disabled (AUTH_UPSTREAM_TOKEN_SECRET not set)'
+    : config.auth.upstream.apiUrl);
+}
 console.log('   Redis:', config.redis.enabled ? 'enabled' : 'disabled');
+console.log('   Shutdown Drain Timeout:', `${config.shutdown.drainTimeoutMs / 1000}s`);
+console.log('   MCP Session Mode:', config.mcp.sessionMode);
+console.log('   MCP Response Mode:', config.mcp.responseMode);
+if (config.mcp.sessionLimits.maxSessionsPerUser || config.mcp.sessionLimits.maxSessionsPerClient) {
+  const { maxSessionsPerUser, maxSessionsPerClient, onLimitExceeded } = config.mcp.sessionLimits;
+  console.log('   MCP Session Limits:', `${maxSessionsPerUser || 'unlimited'} per user, ${maxSessionsPerClient || 'unlimited'} per client (${onLimitExceeded})`);
+}
+console.log('   MCP Session Timeouts:', `${config.mcp.sessionTimeouts.inactivityTimeoutMs / 1000}s inactivity, ${config.mcp.sessionTimeouts.maxLifetimeMs ? `${config.mcp.sessionTimeouts.maxLifetimeMs / 1000}s` : 'unlimited'} lifetime`);
+console.log('   MCP Session Recovery:', config.mcp.sessionRecovery ? 'enabled' : 'disabled');
+console.log('   MCP Admin Users:', config.mcp.adminUserIds.length || 'none (admin API disabled)');
 console.log('');
\ No newline at end of file
@@ -20,13 +20,20 @@ import { config } from './config.js';
 import { AuthModule } from './modules/auth/index.js';
 import { MCPModule } from './modules/mcp/index.js';
 import { ExampleAppsModule, AVAILABLE_EXAMPLES } from './modules/example-apps/index.js';
-import { ExternalTokenValidator, InternalTokenValidator, ITokenValidator } from './interfaces/auth-validator.js';
+import { HealthModule } from './modules/health/index.js';
+import { introspectionCheck, ReadinessCheck, redisCheck } from './modules/health/checks.js';
+import { ExternalTokenValidator, InternalTokenValidator, ITokenValidator, JwtTokenValidator } from './interfaces/auth-validator.js';
+import { isTokenIdDenied } from './interfaces/token-denylist.js';
+import { ExternalUpstreamTokenSource, InternalUpstreamTokenSource, IUpstreamTokenSource } from './interfaces/upstream-tokens.js';
 import { redisClient } from './modules/shared/redis.js';
 import { logger } from './modules/shared/logger.js';
+import { ShutdownCoordinator } from './modules/shared/shutdown.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+const packageJson = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8')) as { version: string };
+
 // Format slug to human-readable name (e.g., 'budget-allocator' -> 'Budget Allocator')
 function formatServerName(slug: string): string {
   return slug.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
@@ -44,6 +51,9 @@ async function main() {
 
   const app = express();
 
+  // Drains in-flight requests and releases resources on SIGTERM/SIGINT
+  const shutdown = new ShutdownCoordinator({ drainTimeoutMs: config.shutdown.drainTimeoutMs });
+
   // Trust proxy headers (X-Forwarded-For, etc.) when behind reverse proxy (Cloudflare, etc.)
   // This is required for rate limiting to work correctly with real client IPs
   app.set('trust proxy', true);
@@ -55,11 +65,14 @@ async function main() {
   app.use(express.json());
   app.use(express.urlencoded({ extended: false }));
   app.use(logger.middleware());
+  app.use(shutdown.middleware());
 
   // Connect to Redis if configured
+  let redisConnected = false;
   if (config.redis.enabled && config.redis.url) {
     try {
       await redisClient.connect();
+      redisConnected = true;
       console.log('Connected to Redis');
     } catch (error) {
       logger.error('Failed to connect to Redis', error as Error);
@@ -70,40 +83,16 @@ async function main() {
     }
   }
 
-  // OAuth metadata discovery endpoint
-  // Only served by MCP servers (not standalone auth servers)
-  if (config.auth.mode !== 'auth_server') {
-    app.get('/.well-known/oauth-authorization-server', (req, res) => {
-      // Log the metadata discovery request
-      logger.info('OAuth metadata discovery', {
-        userAgent: req.get('user-agent'),
-        authMode: config.auth.mode,
-        ip: req.ip
-      });
-
-      // Determine the auth server URL based on mode
-      const authServerUrl = config.auth.mode === 'internal'
-        ? config.baseUri  // Internal mode: auth is in same process
-        : config.auth.externalUrl!;  // External mode: separate auth server
-
-      res.json({
-        issuer: authServerUrl,
-        authorization_endpoint: `${authServerUrl}/authorize`,
-        token_endpoint: `${authServerUrl}/token`,
-        registration_endpoint: `${authServerUrl}/register`,
-        introspection_endpoint: `${authServerUrl}/introspect`,
-        revocation_endpoint: `${authServerUrl}/revoke`,
-        token_endpoint_auth_methods_supported: ['none'],
-        response_types_supported: ['code'],
-        grant_types_supported: ['authorization_code', 'refresh_token'],
-        code_challenge_methods_supported: ['S256'],
-        service_documentation: 'https://modelcontextprotocol.io'
-      });
-    });
-  }
-
   // Initialize modules based on auth mode
   let tokenValidator: ITokenValidator | undefined;
+  let upstreamTokens: IUpstreamTokenSource | undefined;
+  let authModule: AuthModule | undefined;
+  let mcpModule: MCPModule | undefined;
+
+  // Resource URI the MCP server answers to (RFC 8707). Not the server root,
+  // which in internal mode is also the auth server's issuer.
+  const mcpAudience = [`${config.baseUri}/mcp`];
+  const jwtAccessTokens = config.auth.accessTokenFormat === 'jwt';
 
   if (config.auth.mode === 'internal' || config.auth.mode === 'auth_server') {
     // ========================================
@@ -119,18 +108,23 @@ async function main() {
     console.log('');
 
     // Create auth module
-    const authModule = new AuthModule({
+    authModule = new AuthModule({
       baseUri: config.baseUri,
       authServerUrl: config.baseUri, // Points to itself
-      redisUrl: config.redis.url
+      redisUrl: config.redis.url,
+      jwt: jwtAccessTokens ? config.auth.jwt : undefined,
+      oidc: config.auth.upstream.oidc,
+      upstreamTokenSecret: config.auth.upstream.tokenSecret
     });
 
-    // Mount auth routes
-    app.use('/', authModule.getRouter());
-
     // Create internal token validator for MCP (if not auth-only mode)
     if (config.auth.mode === 'internal') {
-      tokenValidator = new InternalTokenValidator(authModule);
+      // Tokens issued without a resource carry the issuer as their audience
+      tokenValidator = new InternalTokenValidator(
+        authModule,
+        config.auth.acceptUnboundTokens ? [...mcpAudience, config.baseUri] : mcpAudience
+      );
+      upstreamTokens = new InternalUpstreamTokenSource(authModule);
     }
 
     console.log('Auth Endpoints:');
@@ -139,6 +133,13 @@ async function main() {
     console.log(`   Get Token: POST ${config.baseUri}/token`);
     console.log(`   Introspect: POST ${config.baseUri}/introspect`);
     console.log(`   Revoke: POST ${config.baseUri}/revoke`);
+    console.log(`   Connected Apps: GET ${config.baseUri}/connected-apps`);
+    if (config.auth.upstream.tokenSecret) {
+      console.log(`   Upstream Token: POST ${config.baseUri}/upstream-token`);
+    }
+    if (jwtAccessTokens) {
+      console.log(`   JWKS: GET ${config.baseUri}/.well-known/jwks.json`);
+    }
 
   } else if (config.auth.mode === 'external') {
     // ========================================
@@ -148,8 +149,32 @@ async function main() {
     console.log(`   Using external auth server: ${config.auth.externalUrl}`);
     console.log('');
 
-    // Create external token validator (HTTP calls)
-    tokenValidator = new ExternalTokenValidator(config.auth.externalUrl!);
+    // Tokens issued without an RFC 8707 resource carry the auth server itself
+    // as their audience, and are valid for every MCP server using it
+    const externalAudience = config.auth.acceptUnboundTokens
+      ? [...mcpAudience, config.auth.externalUrl!]
+      : mcpAudience;
+
+    if (jwtAccessTokens) {
+      // Verify JWT access tokens locally; revocations are seen through the
+      // denylist the auth server keeps in the shared Redis
+      if (!redisConnected) {
+        console.log('WARNING: Redis not connected; revoked JWT access tokens stay valid until they expire');
+      }
+      tokenValidator = new JwtTokenValidator(
+        config.auth.externalUrl!,
+        externalAudience,
+        redisConnected ? tokenId => isTokenIdDenied(redisClient, tokenId) : undefined
+      );
+    } else {
+      // Create external token validator (HTTP calls)
+      tokenValidator = new ExternalTokenValidator(config.auth.externalUrl!, externalAudience);
+    }
+
+    // Upstream tokens for tools calling upstream APIs on the user's behalf
+    if (config.auth.upstream.tokenSecret) {
+      upstreamTokens = new ExternalUpstreamTokenSource(config.auth.externalUrl!, config.auth.upstream.tokenSecret);
+    }
   }
 
   // ========================================
@@ -160,17 +185,44 @@ async function main() {
       throw new Error('Token validator not initialized');
     }
 
-    const mcpModule = new MCPModule(
+    mcpModule = new MCPModule(
       {
         baseUri: config.baseUri,
-        redisUrl: config.redis.url
+        authServerUrl: config.auth.mode === 'internal'
+          ? config.baseUri  // Internal mode: auth is in same process
+          : config.auth.externalUrl!,  // External mode: separate auth server
+        authServerJwksUri: jwtAccessTokens
+          ? `${config.auth.mode === 'internal' ? config.baseUri : config.auth.externalUrl}/.well-known/jwks.json`
+          : undefined,
+        redisUrl: config.redis.url,
+        sessionMode: config.mcp.sessionMode,
+        responseMode: config.mcp.responseMode,
+        sessionLimits: config.mcp.sessionLimits,
+        sessionRecovery: config.mcp.sessionRecovery,
+        sessionTimeouts: config.mcp.sessionTimeouts,
+        isDraining: () => shutdown.isDraining,
+        adminUserIds: config.mcp.adminUserIds,
+        upstreamApiUrl: config.auth.upstream.apiUrl
       },
-      tokenValidator
+      tokenValidator,
+      upstreamTokens
     );
 
-    // Mount MCP routes
+    // Mount MCP routes (ahead of the auth routes, so its discovery metadata
+    // takes precedence over the auth router's defaults in internal mode)
     app.use('/', mcpModule.getRouter());
 
+    // Mount session admin API (stateful sessions only, when admins are configured)
+    const adminEnabled = config.mcp.sessionMode === 'stateful' && config.mcp.adminUserIds.length > 0;
+    if (adminEnabled) {
+      app.use('/admin', mcpModule.getAdminRouter());
+    }
+
+    // End sessions as soon as the grants they were opened under are revoked
+    if (config.mcp.sessionMode === 'stateful') {
+      await mcpModule.startRevocationListener();
+    }
+
     // Mount Example Apps module (MCP Apps servers at /:slug/mcp)
     const exampleAppsModule = new ExampleAppsModule(
       { baseUri: config.baseUri },
@@ -179,8 +231,12 @@ async function main() {
 
     console.log('');
     console.log('MCP Endpoints:');
-    console.log(`   Streamable HTTP: ${config.baseUri}/mcp`);
+    console.log(`   Streamable HTTP: ${config.baseUri}/mcp (${config.mcp.sessionMode})`);
     console.log(`   SSE (legacy): ${config.baseUri}/sse`);
+    if (adminEnabled) {
+      console.log(`   Session Admin: ${config.baseUri}/admin/sessions`);
+    }
+    console.log(`   Protected Resource Metadata: ${config.baseUri}/.well-known/oauth-protected-resource/mcp`);
     console.log(`   OAuth Metadata: ${config.baseUri}/.well-known/oauth-authorization-server`);
     console.log('');
     console.log('MCP App Example Servers:');
@@ -189,6 +245,39 @@ async function main() {
     }
   }
 
+  // Mount auth routes
+  if (authModule) {
+    app.use('/', authModule.getRouter());
+  }
+
+  // ========================================
+  // Health Module (probes for load balancers and orchestrators)
+  // ========================================
+  const readinessChecks: ReadinessCheck[] = [];
+  if (redisConnected) {
+    readinessChecks.push(redisCheck());
+  }
+  if (config.auth.mode === 'external') {
+    readinessChecks.push(introspectionCheck(config.auth.externalUrl!));
+  }
+  const healthModule = new HealthModule({
+    version: packageJson.version,
+    authMode: config.auth.mode,
+    sessionMode: mcpModule ? config.mcp.sessionMode : undefined,
+    responseMode: mcpModule ? config.mcp.responseMode : undefined,
+    exampleApps: mcpModule ? AVAILABLE_EXAMPLES : [],
+    checks: readinessChecks,
+    isDraining: () => shutdown.isDraining,
+    getLocalSessionCount: mcpModule ? () => mcpModule?.getLocalSessionCount() ?? 0 : undefined
+  });
+  app.use('/', healthModule.getRouter());
+
+  console.log('');
+  console.log('Health Endpoints:');
+  console.log(`   Liveness: ${config.baseUri}/healthz`);
+  console.log(`   Readiness: ${config.baseUri}/readyz`);
+  console.log(`   Status: ${config.baseUri}/status`);
+
   // Rate limiter for splash page (moderate limit)
   const splashPageLimiter = rateLimit({
     windowMs: 60 * 1000, // 1 minute
@@ -264,7 +353,7 @@ async function main() {
   });
 
   // Start server
-  app.listen(config.port, () => {
+  const httpServer = app.listen(config.port, () => {
     console.log('');
     console.log('========================================');
     console.log(`Server running at: ${config.baseUri}`);
@@ -289,6 +378,29 @@ async function main() {
     }
     console.log('');
   });
+
+  // Shutdown steps, run in order once in-flight requests have drained
+  shutdown.onShutdown('session servers', async () => {
+    await mcpModule?.shutdown();
+  });
+  shutdown.onShutdown('http server', () => new Promise<void>((resolve) => {
+    httpServer.close(() => resolve());
+    // Ends the GET /mcp and /sse streams that are still open
+    httpServer.closeAllConnections();
+  }));
+  if (tokenValidator instanceof ExternalTokenValidator) {
+    const validator = tokenValidator;
+    shutdown.onShutdown('token validator', () => validator.close());
+  }
+  if (redisConnected) {
+    shutdown.onShutdown('redis', () => redisClient.disconnect());
+  }
+
+  for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+    process.once(signal, () => {
+      shutdown.shutdown(signal).finally(() => process.exit(0));
+    });
+  }
 }
 
 // Start the server
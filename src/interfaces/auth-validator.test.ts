@@ -0,0 +1,157 @@
+import { InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { CryptoKey, exportJWK, generateKeyPair, JWK, SignJWT } from 'jose';
+import type { AuthModule } from '../modules/auth/index.js';
+import { InternalTokenValidator, JwtTokenValidator, TokenIntrospectionResponse } from './auth-validator.js';
+
+describe('Token validators', () => {
+  const audience = ['https://mcp.example.com/mcp', 'https://mcp.example.com'];
+
+  // An in-process validator whose auth module reports the given introspection result
+  const validatorFor = (result: Partial<TokenIntrospectionResponse>, expectedAudience?: string[]) => {
+    const authModule = {
+      introspectToken: async () => ({
+        active: true,
+        client_id: 'client-1',
+        scope: 'tools:read',
+        exp: Date.now() / 1000 + 60,
+        sub: 'user-1',
+        ...result
+      })
+    } as unknown as AuthModule;
+    return new InternalTokenValidator(authModule, expectedAudience);
+  };
+
+  it('should accept tokens issued for this server', async () => {
+    const authInfo = await validatorFor({ aud: 'https://mcp.example.com/mcp' }, audience).verifyAccessToken('token');
+
+    expect(authInfo).toEqual(expect.objectContaining({ clientId: 'client-1', scopes: ['tools:read'] }));
+  });
+
+  it('should ignore a trailing slash on the audience', async () => {
+    await expect(validatorFor({ aud: 'https://mcp.example.com/' }, audience).verifyAccessToken('token'))
+      .resolves.toBeDefined();
+  });
+
+  it('should accept tokens with several audiences if one matches', async () => {
+    await expect(validatorFor({ aud: ['https://other.example.com', 'https://mcp.example.com/mcp'] }, audience).verifyAccessToken('token'))
+      .resolves.toBeDefined();
+  });
+
+  it('should reject tokens issued for another server', async () => {
+    await expect(validatorFor({ aud: 'https://other.example.com/mcp' }, audience).verifyAccessToken('token'))
+      .rejects.toThrow(new InvalidTokenError('Token audience mismatch'));
+  });
+
+  it('should reject tokens without an audience', async () => {
+    await expect(validatorFor({}, audience).verifyAccessToken('token'))
+      .rejects.toThrow('Token audience mismatch');
+  });
+
+  it('should not check the audience when none is configured', async () => {
+    await expect(validatorFor({ aud: 'https://other.example.com/mcp' }).verifyAccessToken('token'))
+      .resolves.toBeDefined();
+  });
+
+  it('should reject inactive tokens', async () => {
+    await expect(validatorFor({ active: false }, audience).verifyAccessToken('token'))
+      .rejects.toThrow('Token is not active');
+  });
+});
+
+describe('JwtTokenValidator', () => {
+  const audience = ['https://mcp.example.com/mcp', 'https://mcp.example.com'];
+  let server: Server;
+  let authServerUrl: string;
+  let privateKey: CryptoKey;
+  let jwks: { keys: JWK[] };
+  let jwksRequests: number;
+
+  beforeAll(async () => {
+    const keyPair = await generateKeyPair('ES256');
+    privateKey = keyPair.privateKey;
+    jwks = { keys: [{ ...await exportJWK(keyPair.publicKey), kid: 'key-1', alg: 'ES256' }] };
+
+    // Stand-in auth server publishing its JWKS
+    server = createServer((req, res) => {
+      jwksRequests++;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(jwks));
+    });
+    server.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    authServerUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jwksRequests = 0;
+  });
+
+  const sign = (claims: Record<string, unknown> = {}, { issuer = authServerUrl, kid = 'key-1', typ = 'at+jwt' } = {}) =>
+    new SignJWT({ client_id: 'client-1', scope: 'tools:read tools:call', ...claims })
+      .setProtectedHeader({ alg: 'ES256', kid, typ })
+      .setIssuer(issuer)
+      .setSubject('user-1')
+      .setAudience('https://mcp.example.com/mcp')
+      .setIssuedAt()
+      .setExpirationTime('1h')
+      .setJti('token-1')
+      .sign(privateKey);
+
+  it('should accept tokens signed by the auth server', async () => {
+    const authInfo = await new JwtTokenValidator(authServerUrl, audience).verifyAccessToken(await sign());
+
+    expect(authInfo).toEqual(expect.objectContaining({
+      clientId: 'client-1',
+      scopes: ['tools:read', 'tools:call'],
+      extra: expect.objectContaining({ userId: 'user-1', issuer: authServerUrl })
+    }));
+  });
+
+  it('should pass on the grant the token belongs to', async () => {
+    const authInfo = await new JwtTokenValidator(authServerUrl, audience).verifyAccessToken(await sign({ grant_id: 'grant-1' }));
+
+    expect(authInfo.extra?.grantId).toBe('grant-1');
+  });
+
+  it('should fetch the JWKS once for many tokens', async () => {
+    const validator = new JwtTokenValidator(authServerUrl, audience);
+
+    await validator.verifyAccessToken(await sign());
+    await validator.verifyAccessToken(await sign({ scope: 'tools:read' }));
+
+    expect(jwksRequests).toBe(1);
+  });
+
+  it('should reject tokens from another issuer', async () => {
+    await expect(new JwtTokenValidator(authServerUrl, audience).verifyAccessToken(await sign({}, { issuer: 'https://other.example.com' })))
+      .rejects.toThrow('Token is not active');
+  });
+
+  it('should reject tokens that are not access tokens', async () => {
+    await expect(new JwtTokenValidator(authServerUrl, audience).verifyAccessToken(await sign({}, { typ: 'JWT' })))
+      .rejects.toThrow('Token is not active');
+  });
+
+  it('should reject tokens signed with an unknown key', async () => {
+    await expect(new JwtTokenValidator(authServerUrl, audience).verifyAccessToken(await sign({}, { kid: 'key-2' })))
+      .rejects.toThrow('Token is not active');
+  });
+
+  it('should reject tokens issued for another server', async () => {
+    await expect(new JwtTokenValidator(authServerUrl, ['https://other.example.com/mcp']).verifyAccessToken(await sign()))
+      .rejects.toThrow('Token audience mismatch');
+  });
+
+  it('should reject revoked tokens', async () => {
+    const isRevoked = async (tokenId: string) => tokenId === 'token-1';
+
+    await expect(new JwtTokenValidator(authServerUrl, audience, isRevoked).verifyAccessToken(await sign()))
+      .rejects.toThrow('Token is not active');
+  });
+});
@@ -10,6 +10,7 @@
 
 import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { createRemoteJWKSet, jwtVerify } from 'jose';
 import type { AuthModule } from '../modules/auth/index.js';
 
 /**
@@ -28,6 +29,9 @@ export interface TokenIntrospectionResponse {
   iss?: string;
   nbf?: number;
   iat?: number;
+  jti?: string;
+  /** The grant (authorization and its refreshed tokens) the token belongs to */
+  grant_id?: string;
 }
 
 /**
@@ -46,10 +50,28 @@ export interface ITokenValidator {
   verifyAccessToken(token: string): Promise<AuthInfo>;
 }
 
+/**
+ * Compares resource URIs ignoring a trailing slash, so `https://mcp.example.com`
+ * and `https://mcp.example.com/` name the same server
+ */
+function normalizeResource(uri: string): string {
+  try {
+    return new URL(uri).href.replace(/\/$/, '');
+  } catch {
+    return uri;
+  }
+}
+
 /**
  * Base validator with shared logic for converting introspection to AuthInfo
  */
 abstract class BaseTokenValidator implements ITokenValidator {
+  /**
+   * @param audience Resource URIs this server answers to (RFC 8707). When
+   *   set, tokens must carry one of them as their audience.
+   */
+  constructor(private audience?: string[]) {}
+
   abstract introspect(token: string): Promise<TokenIntrospectionResponse>;
 
   /**
@@ -67,6 +89,16 @@ abstract class BaseTokenValidator implements ITokenValidator {
       throw new InvalidTokenError('Token has expired');
     }
 
+    // Validate the token was issued for this server, so tokens minted for
+    // another server sharing the auth server are refused
+    if (this.audience) {
+      const expected = this.audience.map(normalizeResource);
+      const tokenAudience = [result.aud ?? []].flat().map(normalizeResource);
+      if (!tokenAudience.some(aud => expected.includes(aud))) {
+        throw new InvalidTokenError('Token audience mismatch');
+      }
+    }
+
     return {
       token,
       clientId: result.client_id || 'unknown',
@@ -76,7 +108,8 @@ abstract class BaseTokenValidator implements ITokenValidator {
         userId: result.sub || 'unknown',
         audience: result.aud,
         username: result.username,
-        issuer: result.iss
+        issuer: result.iss,
+        grantId: result.grant_id
       }
     };
   }
@@ -93,11 +126,21 @@ export class ExternalTokenValidator extends BaseTokenValidator {
     expiresAt: number;
   }>();
 
-  constructor(private authServerUrl: string) {
-    super();
+  private cleanupInterval: NodeJS.Timeout;
+
+  constructor(private authServerUrl: string, audience?: string[]) {
+    super(audience);
 
     // Clean up expired cache entries every minute
-    setInterval(() => this.cleanupCache(), 60 * 1000);
+    this.cleanupInterval = setInterval(() => this.cleanupCache(), 60 * 1000);
+  }
+
+  /**
+   * Stops the cache cleanup interval so the process can exit.
+   */
+  close(): void {
+    clearInterval(this.cleanupInterval);
+    this.cache.clear();
   }
 
   async introspect(token: string): Promise<TokenIntrospectionResponse> {
@@ -161,8 +204,8 @@ export class ExternalTokenValidator extends BaseTokenValidator {
  * The auth module is a stand-in for an external OAuth server.
  */
 export class InternalTokenValidator extends BaseTokenValidator {
-  constructor(private authModule: AuthModule) {
-    super();
+  constructor(private authModule: AuthModule, audience?: string[]) {
+    super(audience);
   }
 
   async introspect(token: string): Promise<TokenIntrospectionResponse> {
@@ -171,4 +214,66 @@ export class InternalTokenValidator extends BaseTokenValidator {
     // architecturally, just running in the same process for convenience
     return this.authModule.introspectToken(token);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * JWT token validator - verifies self-contained JWT access tokens locally
+ * against the auth server's published JWKS
+ * Used when AUTH_MODE=external and AUTH_ACCESS_TOKEN_FORMAT=jwt
+ *
+ * Unlike ExternalTokenValidator this never calls the auth server per token;
+ * the JWKS is fetched once, cached, and refetched when a token is signed with
+ * a key it doesn't know yet (after a key rotation). Revoked tokens are caught
+ * by checking their ID against the revocation denylist.
+ */
+export class JwtTokenValidator extends BaseTokenValidator {
+  private jwks: ReturnType<typeof createRemoteJWKSet>;
+
+  /**
+   * @param isRevoked Checks a token ID against the revocation denylist.
+   *   Without it, revoked tokens stay valid until they expire.
+   */
+  constructor(
+    private authServerUrl: string,
+    audience?: string[],
+    private isRevoked?: (tokenId: string) => Promise<boolean>
+  ) {
+    super(audience);
+    this.jwks = createRemoteJWKSet(new URL(`${authServerUrl}/.well-known/jwks.json`), {
+      cacheMaxAge: 10 * 60 * 1000, // Refetch keys every 10 minutes
+      cooldownDuration: 30 * 1000 // At most one refetch per 30 seconds for unknown keys
+    });
+  }
+
+  async introspect(token: string): Promise<TokenIntrospectionResponse> {
+    try {
+      const { payload } = await jwtVerify(token, this.jwks, {
+        issuer: this.authServerUrl,
+        typ: 'at+jwt',
+        algorithms: ['RS256', 'ES256']
+      });
+
+      if (payload.jti && await this.isRevoked?.(payload.jti)) {
+        return { active: false };
+      }
+
+      return {
+        active: true,
+        client_id: payload.client_id as string | undefined,
+        scope: payload.scope as string | undefined,
+        exp: payload.exp,
+        iat: payload.iat,
+        sub: payload.sub,
+        aud: payload.aud,
+        iss: payload.iss,
+        jti: payload.jti,
+        grant_id: payload.grant_id as string | undefined,
+        token_type: 'Bearer'
+      };
+
+    } catch (error) {
+      console.error('Failed to verify JWT access token:', (error as Error).message);
+      return { active: false };
+    }
+  }
+}
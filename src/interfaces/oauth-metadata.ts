@@ -0,0 +1,36 @@
+/**
+ * Authorization server capabilities - shared between the Auth and MCP modules
+ *
+ * The auth server advertises these in its RFC 8414 metadata, and the MCP
+ * server repeats them for clients that look for the metadata on the MCP
+ * server, so both take them from here rather than keeping copies.
+ */
+
+/**
+ * How clients may authenticate at the token, revocation and introspection endpoints
+ */
+export const TOKEN_ENDPOINT_AUTH_METHODS = ['client_secret_basic', 'client_secret_post', 'private_key_jwt', 'none'] as const;
+export type TokenEndpointAuthMethod = typeof TOKEN_ENDPOINT_AUTH_METHODS[number];
+
+/**
+ * Algorithms private_key_jwt assertions may be signed with; only asymmetric ones,
+ * as the server never holds a client's signing key
+ */
+export const CLIENT_ASSERTION_SIGNING_ALGORITHMS = [
+  'RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512', 'EdDSA'
+];
+
+/**
+ * RFC 8628 grant type devices poll the token endpoint with
+ */
+export const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+
+/**
+ * Grants the token endpoint supports, besides the device code grant
+ */
+export const GRANT_TYPES = ['authorization_code', 'refresh_token', 'client_credentials'];
+
+/**
+ * Path of the RFC 8628 device authorization endpoint
+ */
+export const DEVICE_AUTHORIZATION_PATH = '/device_authorization';
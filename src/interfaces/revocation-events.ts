@@ -0,0 +1,66 @@
+/**
+ * Revocation events - shared between the Auth and MCP modules
+ *
+ * Revoking a token stops it validating, but an MCP session opened with it
+ * keeps its open streams until the client next sends a request. So that
+ * "disconnect this app" takes effect immediately, the auth server announces
+ * each revoked grant here and MCP servers end the sessions opened under it.
+ *
+ * Events travel over Redis pub/sub, so they reach MCP servers sharing the
+ * auth server's Redis whether they run in-process or not. Servers that are
+ * offline when a grant is revoked miss the event; their sessions still fail
+ * on the next request.
+ */
+
+import { RedisClient } from '../modules/shared/redis.js';
+import { logger } from '../modules/shared/logger.js';
+
+const REVOCATION_CHANNEL = 'auth:revocations';
+
+/**
+ * A user's grant to a client that has been revoked
+ */
+export interface RevocationEvent {
+  userId: string;
+  clientId: string;
+  /**
+   * The revoked grant, as in access tokens' `grant_id`. Absent when all of
+   * the user's grants to the client are revoked, e.g. when disconnecting it.
+   */
+  grantId?: string;
+}
+
+/**
+ * Announces that a user's grant to a client, or one grant of it, has been revoked.
+ */
+export async function publishRevocation(redisClient: RedisClient, event: RevocationEvent): Promise<void> {
+  await redisClient.publish(REVOCATION_CHANNEL, JSON.stringify(event));
+}
+
+/**
+ * Calls onRevocation for every grant revoked from now on.
+ * @returns A function that ends the subscription
+ */
+export async function subscribeToRevocations(
+  redisClient: RedisClient,
+  onRevocation: (event: RevocationEvent) => void | Promise<void>
+): Promise<() => Promise<void>> {
+  return redisClient.createSubscription(
+    REVOCATION_CHANNEL,
+    (message) => {
+      let event: RevocationEvent;
+      try {
+        event = JSON.parse(message);
+      } catch (error) {
+        logger.error('Malformed revocation event', error as Error);
+        return;
+      }
+      Promise.resolve(onRevocation(event)).catch((error: Error) => {
+        logger.error('Failed to handle revocation event', error, { ...event });
+      });
+    },
+    (error) => {
+      logger.error('Revocation subscription error', error);
+    }
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * OAuth scope catalog - shared vocabulary between the Auth and MCP modules
+ *
+ * The auth server grants these scopes and the MCP server enforces them, so
+ * they live alongside the token validator interface rather than in either
+ * module.
+ */
+
+export const SCOPE_CATALOG = {
+  'tools:read': 'See which tools are available',
+  'tools:call': 'Run tools on your behalf',
+  'resources:read': 'Read and subscribe to resources',
+  'sampling': 'Let the server ask your AI client to generate text',
+} as const;
+
+export type Scope = keyof typeof SCOPE_CATALOG;
+
+export const ALL_SCOPES = Object.keys(SCOPE_CATALOG) as Scope[];
+
+/**
+ * Scopes service principals can be granted through the client_credentials
+ * grant. Sampling is left out, as there is no person behind the client to
+ * review what the server asks it to generate.
+ */
+export const SERVICE_SCOPES: Scope[] = ['tools:read', 'tools:call', 'resources:read'];
+
+/**
+ * The only scope granted before the catalog existed. Tokens and
+ * installations that carry it keep full access.
+ */
+export const LEGACY_FULL_ACCESS_SCOPE = 'mcp';
+
+export function isKnownScope(scope: string): scope is Scope {
+  return Object.hasOwn(SCOPE_CATALOG, scope);
+}
+
+export function hasScope(grantedScopes: string[], required: Scope): boolean {
+  return grantedScopes.includes(required) || grantedScopes.includes(LEGACY_FULL_ACCESS_SCOPE);
+}
@@ -0,0 +1,40 @@
+/**
+ * Revoked token denylist - shared between the Auth and MCP modules
+ *
+ * Self-contained (JWT) access tokens are validated without asking the auth
+ * server, so revoking one can't be seen by looking the token up. Instead the
+ * auth server records the revoked token's ID (its `jti`) here, and MCP servers
+ * validating JWTs check it before accepting a token.
+ *
+ * Entries only need to outlive the token they deny, so each one expires when
+ * its token would have, keeping the list short.
+ */
+
+import crypto from 'crypto';
+import { RedisClient } from '../modules/shared/redis.js';
+
+const REVOKED_TOKEN_PREFIX = 'auth:revoked:';
+
+function revokedTokenKey(tokenId: string): string {
+  return REVOKED_TOKEN_PREFIX + crypto.createHash('sha256').update(tokenId).digest('hex');
+}
+
+/**
+ * Denies the token with the given ID until it expires.
+ * @param expiresAt Unix timestamp (seconds) when the token expires
+ */
+export async function denyTokenId(redisClient: RedisClient, tokenId: string, expiresAt: number): Promise<void> {
+  const ttl = Math.ceil(expiresAt - Date.now() / 1000);
+  if (ttl <= 0) {
+    // Already expired, so validators refuse it anyway
+    return;
+  }
+  await redisClient.set(revokedTokenKey(tokenId), '1', { EX: ttl });
+}
+
+/**
+ * Whether the token with the given ID has been revoked.
+ */
+export async function isTokenIdDenied(redisClient: RedisClient, tokenId: string): Promise<boolean> {
+  return redisClient.exists(revokedTokenKey(tokenId));
+}
@@ -0,0 +1,68 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { AuthModule } from '../modules/auth/index.js';
+import { generateMcpTokens, saveMcpInstallation } from '../modules/auth/services/auth.js';
+import { issueMockUpstreamTokens } from '../modules/auth/upstream/mock-tokens.js';
+import { MockRedisClient, setRedisClient } from '../modules/shared/redis.js';
+import { ExternalUpstreamTokenSource, UpstreamTokenUnavailableError } from './upstream-tokens.js';
+
+describe('ExternalUpstreamTokenSource', () => {
+  const secret = 'shared-upstream-token-secret';
+  let server: Server;
+  let authServerUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(new AuthModule({ baseUri: 'http://localhost', upstreamTokenSecret: secret }).getRouter());
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    authServerUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    setRedisClient(new MockRedisClient());
+  });
+
+  // Authorizes a client for a user and returns its MCP access token and upstream tokens
+  const install = async () => {
+    const mcpTokens = generateMcpTokens();
+    const upstreamInstallation = await issueMockUpstreamTokens('user-1');
+    await saveMcpInstallation(mcpTokens.access_token, {
+      upstreamInstallation,
+      mcpTokens,
+      clientId: 'client-1',
+      userId: 'user-1',
+      issuedAt: Date.now() / 1000,
+    });
+    return { mcpAccessToken: mcpTokens.access_token, upstreamInstallation };
+  };
+
+  it('should get the user\'s upstream token from the auth server', async () => {
+    const { mcpAccessToken, upstreamInstallation } = await install();
+
+    const token = await new ExternalUpstreamTokenSource(authServerUrl, secret).getUpstreamToken(mcpAccessToken);
+
+    expect(token).toEqual({
+      provider: 'mock',
+      accessToken: upstreamInstallation.accessToken,
+      expiresAt: upstreamInstallation.expiresAt,
+    });
+  });
+
+  it('should fail for unknown access tokens', async () => {
+    await expect(new ExternalUpstreamTokenSource(authServerUrl, secret).getUpstreamToken('unknown-token'))
+      .rejects.toThrow(UpstreamTokenUnavailableError);
+  });
+
+  it('should be refused without the shared secret', async () => {
+    const { mcpAccessToken } = await install();
+
+    await expect(new ExternalUpstreamTokenSource(authServerUrl, 'wrong-secret').getUpstreamToken(mcpAccessToken))
+      .rejects.toThrow('Upstream token request failed: 401');
+  });
+});
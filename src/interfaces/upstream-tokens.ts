@@ -0,0 +1,109 @@
+/**
+ * Upstream token access - how MCP tools act on behalf of the user
+ *
+ * The auth server signs users in with an upstream identity provider and
+ * keeps the tokens that provider issued with each MCP installation. Tools
+ * calling the upstream provider's APIs ask for the user's upstream access
+ * token through this interface, and the auth server refreshes it first when
+ * it is about to expire. Upstream tokens are only ever handed to the MCP
+ * server, never to MCP clients.
+ *
+ * Like token validation, this works in-process (internal mode) or over HTTP
+ * (external mode).
+ */
+
+import type { AuthModule } from '../modules/auth/index.js';
+
+/**
+ * An upstream access token, valid for a while yet
+ */
+export interface UpstreamToken {
+  /** Name of the upstream identity provider that issued it */
+  provider: string;
+  accessToken: string;
+  /** Unix timestamp (seconds) when it expires, if the provider said */
+  expiresAt?: number;
+}
+
+/**
+ * There is no usable upstream token for the MCP access token: it is unknown
+ * or expired, or the upstream token has expired and can't be refreshed. The
+ * user has to authorize the client again.
+ */
+export class UpstreamTokenUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UpstreamTokenUnavailableError';
+  }
+}
+
+/**
+ * Source of upstream tokens
+ */
+export interface IUpstreamTokenSource {
+  /**
+   * Returns a valid upstream access token for the user and client the MCP
+   * access token was issued to.
+   * @throws UpstreamTokenUnavailableError
+   */
+  getUpstreamToken(mcpAccessToken: string): Promise<UpstreamToken>;
+}
+
+/**
+ * Upstream token response of the auth server's /upstream-token endpoint
+ */
+interface UpstreamTokenResponse {
+  provider: string;
+  access_token: string;
+  expires_at?: number;
+}
+
+/**
+ * External upstream token source - asks the auth server over HTTP
+ * Used when AUTH_MODE=external
+ *
+ * The /upstream-token endpoint hands out tokens for other services, so it
+ * only answers callers presenting the secret shared with the auth server.
+ */
+export class ExternalUpstreamTokenSource implements IUpstreamTokenSource {
+  constructor(private authServerUrl: string, private secret: string) {}
+
+  async getUpstreamToken(mcpAccessToken: string): Promise<UpstreamToken> {
+    const response = await fetch(`${this.authServerUrl}/upstream-token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Authorization': `Bearer ${this.secret}`
+      },
+      body: `token=${encodeURIComponent(mcpAccessToken)}`,
+      signal: AbortSignal.timeout(10 * 1000)
+    });
+
+    if (response.status === 400) {
+      const { error_description } = await response.json() as { error_description?: string };
+      throw new UpstreamTokenUnavailableError(error_description ?? 'No upstream token for this access token');
+    }
+    if (!response.ok) {
+      throw new Error(`Upstream token request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const result = await response.json() as UpstreamTokenResponse;
+    return {
+      provider: result.provider,
+      accessToken: result.access_token,
+      expiresAt: result.expires_at
+    };
+  }
+}
+
+/**
+ * Internal upstream token source - asks the auth module via direct method call
+ * Used when AUTH_MODE=internal
+ */
+export class InternalUpstreamTokenSource implements IUpstreamTokenSource {
+  constructor(private authModule: AuthModule) {}
+
+  async getUpstreamToken(mcpAccessToken: string): Promise<UpstreamToken> {
+    return this.authModule.getUpstreamToken(mcpAccessToken);
+  }
+}
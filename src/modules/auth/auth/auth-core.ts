@@ -30,6 +30,17 @@ export function sha256(data: string): string {
   return crypto.createHash("sha256").update(data).digest("hex");
 }
 
+/**
+ * Public ID of a token family (an authorization and the refresh tokens
+ * rotated from it), so resource servers can tell grants apart. The family
+ * ID itself encrypts the family's record, so it is never shared.
+ * @param familyId The token family's ID
+ * @returns Hexadecimal grant ID
+ */
+export function grantIdOf(familyId: string): string {
+  return sha256(`grant:${familyId}`);
+}
+
 /**
  * Encrypts a string using AES-256-CBC encryption.
  * @param text The plaintext to encrypt
@@ -0,0 +1,266 @@
+import crypto from 'crypto';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { CryptoKey, exportJWK, generateKeyPair, JWK, SignJWT } from 'jose';
+import { AuthModule } from '../index.js';
+import { getClientRegistration } from '../services/auth.js';
+import { MockRedisClient, setRedisClient } from '../../shared/redis.js';
+import { CLIENT_ASSERTION_TYPE } from './client-auth.js';
+
+describe('client authentication', () => {
+  let server: Server;
+  let baseUrl: string;
+  let privateKey: CryptoKey;
+  let publicJwk: JWK;
+
+  beforeAll(async () => {
+    const keys = await generateKeyPair('ES256');
+    privateKey = keys.privateKey;
+    publicJwk = { ...await exportJWK(keys.publicKey), kid: 'client-key', alg: 'ES256' };
+
+    const app = express();
+    app.use(new AuthModule({ baseUri: 'http://localhost' }).getRouter());
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    setRedisClient(new MockRedisClient());
+  });
+
+  const register = async (metadata: Record<string, unknown>) => {
+    const response = await fetch(`${baseUrl}/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ redirect_uris: ['http://localhost:3000/callback'], ...metadata })
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  const post = (path: string, params: Record<string, string>, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${path}`, { method: 'POST', headers, body: new URLSearchParams(params) });
+
+  const basic = (clientId: string, secret: string) => ({
+    Authorization: `Basic ${Buffer.from(`${clientId}:${secret}`).toString('base64')}`
+  });
+
+  // The SDK only gets to refusing the grant type once the client is authenticated
+  const unsupportedGrant = { grant_type: 'password' };
+
+  const signAssertion = (clientId: string, key = privateKey, claims: { audience?: string; expiresIn?: string; jti?: string } = {}) =>
+    new SignJWT({})
+      .setProtectedHeader({ alg: 'ES256', kid: 'client-key' })
+      .setIssuer(clientId)
+      .setSubject(clientId)
+      .setAudience(claims.audience ?? 'http://localhost/token')
+      .setIssuedAt()
+      .setExpirationTime(claims.expiresIn ?? '1m')
+      .setJti(claims.jti ?? crypto.randomUUID())
+      .sign(key);
+
+  describe('registration', () => {
+    it('registers client_secret_basic clients by default and stores only a hash of the secret', async () => {
+      const { status, body } = await register({ client_name: 'Backend agent' });
+
+      expect(status).toBe(201);
+      expect(body.token_endpoint_auth_method).toBe('client_secret_basic');
+      expect(body.client_secret).toEqual(expect.any(String));
+
+      const stored = await getClientRegistration(body.client_id);
+      expect(stored).not.toHaveProperty('client_secret');
+      expect(stored!.client_secret_hash).toEqual(expect.any(String));
+      expect(stored!.client_secret_hash).not.toBe(body.client_secret);
+    });
+
+    it('registers public clients without a secret', async () => {
+      const { body } = await register({ token_endpoint_auth_method: 'none' });
+
+      expect(body.token_endpoint_auth_method).toBe('none');
+      expect(body).not.toHaveProperty('client_secret');
+    });
+
+    it('registers private_key_jwt clients with their keys and no secret', async () => {
+      const { status, body } = await register({ token_endpoint_auth_method: 'private_key_jwt', jwks: { keys: [publicJwk] } });
+
+      expect(status).toBe(201);
+      expect(body).not.toHaveProperty('client_secret');
+      expect((await getClientRegistration(body.client_id))!.client_secret_hash).toBeUndefined();
+    });
+
+    it('refuses private_key_jwt clients without public keys', async () => {
+      const withoutKeys = await register({ token_endpoint_auth_method: 'private_key_jwt' });
+      const withPrivateKey = await register({
+        token_endpoint_auth_method: 'private_key_jwt',
+        jwks: { keys: [{ ...publicJwk, d: 'private' }] }
+      });
+
+      expect(withoutKeys.status).toBe(400);
+      expect(withoutKeys.body.error).toBe('invalid_client_metadata');
+      expect(withPrivateKey.status).toBe(400);
+    });
+
+    it('refuses unsupported authentication methods', async () => {
+      const { status, body } = await register({ token_endpoint_auth_method: 'client_secret_jwt' });
+
+      expect(status).toBe(400);
+      expect(body.error).toBe('invalid_client_metadata');
+    });
+  });
+
+  describe('client_secret_basic', () => {
+    it('authenticates clients with the secret in the Authorization header', async () => {
+      const { body: client } = await register({});
+
+      const response = await post('/token', unsupportedGrant, basic(client.client_id, client.client_secret));
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('unsupported_grant_type');
+    });
+
+    it('refuses a wrong secret with a Basic challenge', async () => {
+      const { body: client } = await register({});
+
+      const response = await post('/token', unsupportedGrant, basic(client.client_id, 'wrong-secret'));
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('www-authenticate')).toBe('Basic');
+      expect((await response.json()).error).toBe('invalid_client');
+    });
+
+    it('refuses the secret in the request body', async () => {
+      const { body: client } = await register({});
+
+      const response = await post('/token', { ...unsupportedGrant, client_id: client.client_id, client_secret: client.client_secret });
+
+      expect(response.status).toBe(401);
+      expect((await response.json()).error_description).toBe('Client must authenticate with client_secret_basic');
+    });
+
+    it('refuses the client without its secret', async () => {
+      const { body: client } = await register({});
+
+      const response = await post('/token', { ...unsupportedGrant, client_id: client.client_id });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('client_secret_post', () => {
+    it('authenticates clients with the secret in the request body', async () => {
+      const { body: client } = await register({ token_endpoint_auth_method: 'client_secret_post' });
+
+      const response = await post('/token', { ...unsupportedGrant, client_id: client.client_id, client_secret: client.client_secret });
+
+      expect((await response.json()).error).toBe('unsupported_grant_type');
+    });
+
+    it('authenticates revocation requests', async () => {
+      const { body: client } = await register({ token_endpoint_auth_method: 'client_secret_post' });
+
+      const accepted = await post('/revoke', { token: 'unknown-token', client_id: client.client_id, client_secret: client.client_secret });
+      const refused = await post('/revoke', { token: 'unknown-token', client_id: client.client_id, client_secret: 'wrong-secret' });
+
+      expect(accepted.status).toBe(200);
+      expect(refused.status).toBe(401);
+    });
+  });
+
+  describe('private_key_jwt', () => {
+    const assertionParams = (assertion: string) => ({
+      ...unsupportedGrant,
+      client_assertion_type: CLIENT_ASSERTION_TYPE,
+      client_assertion: assertion
+    });
+
+    it('authenticates clients with an assertion signed by their key', async () => {
+      const { body: client } = await register({ token_endpoint_auth_method: 'private_key_jwt', jwks: { keys: [publicJwk] } });
+
+      const response = await post('/token', assertionParams(await signAssertion(client.client_id)));
+
+      expect((await response.json()).error).toBe('unsupported_grant_type');
+    });
+
+    it('refuses a replayed assertion', async () => {
+      const { body: client } = await register({ token_endpoint_auth_method: 'private_key_jwt', jwks: { keys: [publicJwk] } });
+      const assertion = await signAssertion(client.client_id);
+
+      await post('/token', assertionParams(assertion));
+      const response = await post('/token', assertionParams(assertion));
+
+      expect(response.status).toBe(401);
+      expect((await response.json()).error_description).toBe('Client assertion has already been used');
+    });
+
+    it('refuses assertions signed with another key, for another audience or valid for too long', async () => {
+      const { body: client } = await register({ token_endpoint_auth_method: 'private_key_jwt', jwks: { keys: [publicJwk] } });
+      const { privateKey: otherKey } = await generateKeyPair('ES256');
+
+      for (const assertion of [
+        await signAssertion(client.client_id, otherKey),
+        await signAssertion(client.client_id, privateKey, { audience: 'https://other.example.com' }),
+        await signAssertion(client.client_id, privateKey, { expiresIn: '1h' }),
+      ]) {
+        const response = await post('/token', assertionParams(assertion));
+        expect(response.status).toBe(401);
+      }
+    });
+  });
+
+  describe('client_credentials grant', () => {
+    it('issues a token for the service principal once the client has authenticated', async () => {
+      const { body: client } = await register({ grant_types: ['client_credentials'], scope: 'tools:read tools:call' });
+
+      const refused = await post('/token', { grant_type: 'client_credentials' }, basic(client.client_id, 'wrong-secret'));
+      const response = await post('/token', { grant_type: 'client_credentials' }, basic(client.client_id, client.client_secret));
+      const tokens = await response.json();
+
+      expect(refused.status).toBe(401);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('cache-control')).toBe('no-store');
+      expect(tokens).toEqual(expect.objectContaining({ token_type: 'Bearer', scope: 'tools:read tools:call' }));
+      expect(tokens).not.toHaveProperty('refresh_token');
+
+      const introspection = await (await post('/introspect', { token: tokens.access_token })).json();
+      expect(introspection).toEqual(expect.objectContaining({ active: true, sub: `svc:${client.client_id}` }));
+    });
+
+    it('refuses public clients at registration', async () => {
+      const { status } = await register({ token_endpoint_auth_method: 'none', grant_types: ['client_credentials'] });
+
+      expect(status).toBe(400);
+    });
+  });
+
+  describe('introspection', () => {
+    it('authenticates clients that identify themselves', async () => {
+      const { body: client } = await register({});
+
+      const accepted = await post('/introspect', { token: 'unknown-token' }, basic(client.client_id, client.client_secret));
+      const refused = await post('/introspect', { token: 'unknown-token' }, basic(client.client_id, 'wrong-secret'));
+
+      expect(accepted.status).toBe(200);
+      expect(await accepted.json()).toEqual({ active: false });
+      expect(refused.status).toBe(401);
+    });
+
+    it('still answers resource servers that send no client credentials', async () => {
+      const response = await post('/introspect', { token: 'unknown-token' });
+
+      expect(await response.json()).toEqual({ active: false });
+    });
+  });
+
+  it('advertises the supported client authentication methods', async () => {
+    const metadata = await (await fetch(`${baseUrl}/.well-known/oauth-authorization-server`)).json();
+
+    expect(metadata.token_endpoint_auth_methods_supported).toEqual(['client_secret_basic', 'client_secret_post', 'private_key_jwt', 'none']);
+    expect(metadata.introspection_endpoint_auth_methods_supported).toEqual(metadata.token_endpoint_auth_methods_supported);
+    expect(metadata.token_endpoint_auth_signing_alg_values_supported).toContain('ES256');
+  });
+});
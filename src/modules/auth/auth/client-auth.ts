@@ -0,0 +1,356 @@
+import crypto from 'crypto';
+import { Request, RequestHandler, Response } from 'express';
+import { createLocalJWKSet, createRemoteJWKSet, decodeJwt, JSONWebKeySet, jwtVerify, JWTVerifyGetKey } from 'jose';
+import { OAuthClientInformationFull } from '@modelcontextprotocol/sdk/shared/auth.js';
+import {
+  InvalidClientError,
+  InvalidClientMetadataError,
+  InvalidRequestError,
+  OAuthError,
+  ServerError
+} from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { recordClientAssertion } from '../services/auth.js';
+import { ClientRegistration } from '../types.js';
+import { sha256 } from './auth-core.js';
+import { logger } from '../../shared/logger.js';
+import {
+  CLIENT_ASSERTION_SIGNING_ALGORITHMS,
+  TOKEN_ENDPOINT_AUTH_METHODS,
+  TokenEndpointAuthMethod
+} from '../../../interfaces/oauth-metadata.js';
+
+/**
+ * RFC 7523 client assertion type for private_key_jwt
+ */
+export const CLIENT_ASSERTION_TYPE = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+
+/**
+ * Assertions valid for longer than this are refused, which bounds how long
+ * their IDs are remembered to stop them being replayed
+ */
+export const CLIENT_ASSERTION_MAX_LIFETIME_SEC = 5 * 60;
+
+function isTokenEndpointAuthMethod(method: string): method is TokenEndpointAuthMethod {
+  return (TOKEN_ENDPOINT_AUTH_METHODS as readonly string[]).includes(method);
+}
+
+/**
+ * Checks the keys a private_key_jwt client registered: a public JWK Set
+ * either inline or behind an https URL, but not both (RFC 7591 section 2)
+ */
+function validateClientKeys(client: OAuthClientInformationFull): void {
+  if (!client.jwks === !client.jwks_uri) {
+    throw new InvalidClientMetadataError('private_key_jwt clients must register exactly one of jwks and jwks_uri');
+  }
+  if (client.jwks_uri && new URL(client.jwks_uri).protocol !== 'https:') {
+    throw new InvalidClientMetadataError('jwks_uri must be an https URL');
+  }
+  if (client.jwks) {
+    const keys = (client.jwks as Partial<JSONWebKeySet>).keys;
+    if (!Array.isArray(keys) || keys.length === 0) {
+      throw new InvalidClientMetadataError('jwks must be a JWK Set with at least one key');
+    }
+    if (keys.some(key => !key || typeof key !== 'object' || 'd' in key || 'k' in key)) {
+      throw new InvalidClientMetadataError('jwks must only contain public keys');
+    }
+  }
+}
+
+/**
+ * Checks that a client's metadata describes a client this server supports:
+ * a supported authentication method, keys for private_key_jwt, and no
+ * client_credentials grant for public clients.
+ * @returns The client's authentication method
+ * @throws InvalidClientMetadataError
+ */
+export function validateClientMetadata(client: OAuthClientInformationFull): TokenEndpointAuthMethod {
+  const method = client.token_endpoint_auth_method ?? (client.client_secret ? 'client_secret_basic' : 'none');
+  if (!isTokenEndpointAuthMethod(method)) {
+    throw new InvalidClientMetadataError(`Unsupported token_endpoint_auth_method: ${method}`);
+  }
+
+  if (method === 'none' && client.grant_types?.includes('client_credentials')) {
+    throw new InvalidClientMetadataError('Public clients cannot use the client_credentials grant');
+  }
+  if (method === 'private_key_jwt') {
+    validateClientKeys(client);
+  }
+  return method;
+}
+
+/**
+ * Turns the client information the SDK's registration handler built into the
+ * record to store and the response to send. The SDK generates a secret for
+ * every client that isn't public: it is stored hashed and returned only in
+ * the response, or dropped for private_key_jwt clients, which sign assertions
+ * with their own keys instead. Clients that don't name a method get
+ * client_secret_basic, the RFC 7591 default.
+ * @throws InvalidClientMetadataError
+ */
+export function prepareClientRegistration(client: OAuthClientInformationFull): {
+  registration: ClientRegistration;
+  response: OAuthClientInformationFull;
+} {
+  const method = validateClientMetadata(client);
+
+  const { client_secret, client_secret_expires_at, ...metadata } = client;
+  if (method === 'none' || method === 'private_key_jwt') {
+    const registration = { ...metadata, token_endpoint_auth_method: method };
+    return { registration, response: registration };
+  }
+
+  if (!client_secret) {
+    throw new InvalidClientMetadataError(`${method} clients need a client secret`);
+  }
+  return {
+    registration: {
+      ...metadata,
+      token_endpoint_auth_method: method,
+      client_secret_hash: sha256(client_secret),
+      client_secret_expires_at
+    },
+    response: { ...metadata, token_endpoint_auth_method: method, client_secret, client_secret_expires_at }
+  };
+}
+
+/**
+ * Client information for the SDK's handlers, which check client secrets
+ * themselves. The secret hash is left out, so they only look the client up;
+ * the secret was checked by requireClientAuthentication.
+ */
+export function toClientInformation(registration: ClientRegistration): OAuthClientInformationFull {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { client_secret_hash, registration_access_token_hash, ...client } = registration;
+  return client;
+}
+
+/**
+ * Looks up the registration of the client a request identifies itself as
+ */
+export type ClientLookup = (clientId: string) => Promise<ClientRegistration | undefined>;
+
+/**
+ * The client credentials a request carries, however they were sent
+ */
+interface ClientCredentials {
+  method: TokenEndpointAuthMethod;
+  clientId: string;
+  secret?: string;
+  assertion?: string;
+}
+
+function decodeBasicCredentials(authorization: string): { clientId: string; secret: string } {
+  const decoded = Buffer.from(authorization.slice('Basic '.length).trim(), 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator < 0) {
+    throw new InvalidClientError('Malformed Basic authorization header');
+  }
+  // Both parts are form-encoded (RFC 6749 section 2.3.1)
+  const decode = (value: string) => decodeURIComponent(value.replace(/\+/g, ' '));
+  try {
+    return { clientId: decode(decoded.slice(0, separator)), secret: decode(decoded.slice(separator + 1)) };
+  } catch {
+    throw new InvalidClientError('Malformed Basic authorization header');
+  }
+}
+
+/**
+ * Reads the client credentials from a request, or returns undefined if the
+ * request doesn't identify a client at all
+ * @throws InvalidRequestError if several authentication methods are mixed
+ */
+function readClientCredentials(req: Request): ClientCredentials | undefined {
+  const body = req.body ?? {};
+  const authorization = req.get('authorization');
+  const basic = authorization?.toLowerCase().startsWith('basic ') ? authorization : undefined;
+  const bodyClientId = typeof body.client_id === 'string' ? body.client_id : undefined;
+
+  const presented = [basic, body.client_secret, body.client_assertion].filter(value => value !== undefined);
+  if (presented.length > 1) {
+    throw new InvalidRequestError('Only one client authentication method may be used');
+  }
+
+  let credentials: ClientCredentials;
+  if (basic) {
+    const { clientId, secret } = decodeBasicCredentials(basic);
+    credentials = { method: 'client_secret_basic', clientId, secret };
+  } else if (body.client_assertion !== undefined) {
+    if (body.client_assertion_type !== CLIENT_ASSERTION_TYPE || typeof body.client_assertion !== 'string') {
+      throw new InvalidClientError('Unsupported client_assertion_type');
+    }
+    let subject: string | undefined;
+    try {
+      subject = decodeJwt(body.client_assertion).sub;
+    } catch {
+      throw new InvalidClientError('Malformed client assertion');
+    }
+    if (!subject) {
+      throw new InvalidClientError('Client assertion has no subject');
+    }
+    credentials = { method: 'private_key_jwt', clientId: subject, assertion: body.client_assertion };
+  } else if (body.client_secret !== undefined) {
+    if (!bodyClientId || typeof body.client_secret !== 'string') {
+      throw new InvalidRequestError('client_secret must be sent with a client_id');
+    }
+    credentials = { method: 'client_secret_post', clientId: bodyClientId, secret: body.client_secret };
+  } else if (bodyClientId) {
+    credentials = { method: 'none', clientId: bodyClientId };
+  } else {
+    return undefined;
+  }
+
+  if (bodyClientId && bodyClientId !== credentials.clientId) {
+    throw new InvalidRequestError('client_id does not match the client credentials');
+  }
+  return credentials;
+}
+
+/**
+ * How many remote key sets are kept; anyone can register clients, so the
+ * least recently used are dropped beyond this
+ */
+const MAX_REMOTE_KEY_SETS = 1000;
+
+// Remote key sets of private_key_jwt clients, by jwks_uri, least recently
+// used first; jose caches the keys
+const remoteKeySets = new Map<string, JWTVerifyGetKey>();
+
+function clientKeySet(client: ClientRegistration): JWTVerifyGetKey {
+  if (client.jwks) {
+    return createLocalJWKSet(client.jwks as JSONWebKeySet);
+  }
+  if (client.jwks_uri) {
+    const keySet = remoteKeySets.get(client.jwks_uri) ?? createRemoteJWKSet(new URL(client.jwks_uri));
+    remoteKeySets.delete(client.jwks_uri);
+    remoteKeySets.set(client.jwks_uri, keySet);
+    if (remoteKeySets.size > MAX_REMOTE_KEY_SETS) {
+      remoteKeySets.delete(remoteKeySets.keys().next().value!);
+    }
+    return keySet;
+  }
+  throw new InvalidClientError('Client has no registered keys');
+}
+
+/**
+ * Verifies an RFC 7523 client assertion: signed with one of the client's
+ * keys, issued by and about the client, for this server, short-lived and
+ * never seen before
+ */
+async function verifyClientAssertion(client: ClientRegistration, assertion: string, audience: string[]): Promise<void> {
+  let payload;
+  try {
+    ({ payload } = await jwtVerify(assertion, clientKeySet(client), {
+      issuer: client.client_id,
+      subject: client.client_id,
+      audience,
+      algorithms: CLIENT_ASSERTION_SIGNING_ALGORITHMS,
+      requiredClaims: ['exp', 'jti']
+    }));
+  } catch (error) {
+    logger.debug('Client assertion verification failed', { clientId: client.client_id, error: (error as Error).message });
+    throw new InvalidClientError('Invalid client assertion');
+  }
+
+  const expiresInSec = payload.exp! - Date.now() / 1000;
+  if (expiresInSec > CLIENT_ASSERTION_MAX_LIFETIME_SEC) {
+    throw new InvalidClientError('Client assertion expires too far in the future');
+  }
+  if (!await recordClientAssertion(client.client_id, payload.jti!, expiresInSec)) {
+    throw new InvalidClientError('Client assertion has already been used');
+  }
+}
+
+/**
+ * Compares a secret with the hash it is stored as, in constant time
+ */
+export function secretMatches(secret: string, hash: string): boolean {
+  const presented = Buffer.from(sha256(secret), 'hex');
+  const expected = Buffer.from(hash, 'hex');
+  return presented.length === expected.length && crypto.timingSafeEqual(presented, expected);
+}
+
+/**
+ * Authenticates the client a token, revocation or introspection request
+ * comes from, with the method it registered.
+ * @param audience Values accepted as the audience of client assertions
+ * @returns The client's registration, or undefined if the request doesn't identify a client
+ * @throws InvalidClientError, InvalidRequestError
+ */
+export async function authenticateClientRequest(
+  req: Request,
+  findClient: ClientLookup,
+  audience: string[]
+): Promise<ClientRegistration | undefined> {
+  const credentials = readClientCredentials(req);
+  if (!credentials) {
+    return undefined;
+  }
+
+  const client = await findClient(credentials.clientId);
+  if (!client) {
+    throw new InvalidClientError('Invalid client_id');
+  }
+
+  const method = client.token_endpoint_auth_method ?? 'none';
+  if (credentials.method !== method) {
+    throw new InvalidClientError(`Client must authenticate with ${method}`);
+  }
+
+  if (method === 'private_key_jwt') {
+    await verifyClientAssertion(client, credentials.assertion!, audience);
+  } else if (method !== 'none') {
+    if (!client.client_secret_hash || !secretMatches(credentials.secret!, client.client_secret_hash)) {
+      throw new InvalidClientError('Invalid client_secret');
+    }
+    if (client.client_secret_expires_at && client.client_secret_expires_at < Math.floor(Date.now() / 1000)) {
+      throw new InvalidClientError('Client secret has expired');
+    }
+  }
+  return client;
+}
+
+/**
+ * Responds with the OAuth error a failed client authentication ends in.
+ * Clients that tried HTTP Basic authentication get a 401 with a challenge
+ * (RFC 6749 section 5.2).
+ */
+export function sendClientAuthenticationError(req: Request, res: Response, error: unknown): void {
+  if (error instanceof OAuthError && !(error instanceof ServerError)) {
+    if (error instanceof InvalidClientError) {
+      if (req.get('authorization')) {
+        res.setHeader('WWW-Authenticate', 'Basic');
+      }
+      res.status(401);
+    } else {
+      res.status(400);
+    }
+    res.json(error.toResponseObject());
+    return;
+  }
+  logger.error('Client authentication error', error as Error);
+  res.status(500).json(new ServerError('Internal Server Error').toResponseObject());
+}
+
+/**
+ * Middleware authenticating the client in front of the SDK's token and
+ * revocation handlers. Once it has, the credentials are replaced with the
+ * plain client_id the SDK's own client check expects.
+ * @param audience Values accepted as the audience of client assertions
+ */
+export function requireClientAuthentication(findClient: ClientLookup, audience: string[]): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const client = await authenticateClientRequest(req, findClient, audience);
+      if (!client) {
+        throw new InvalidRequestError('Missing client_id');
+      }
+      delete req.body.client_secret;
+      delete req.body.client_assertion;
+      delete req.body.client_assertion_type;
+      req.body.client_id = client.client_id;
+      next();
+    } catch (error) {
+      sendClientAuthenticationError(req, res, error);
+    }
+  };
+}
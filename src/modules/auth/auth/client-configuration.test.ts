@@ -0,0 +1,140 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { AuthModule } from '../index.js';
+import { getClientRegistration } from '../services/auth.js';
+import { MockRedisClient, setRedisClient } from '../../shared/redis.js';
+
+describe('client configuration endpoint', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(new AuthModule({ baseUri: 'http://localhost' }).getRouter());
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    setRedisClient(new MockRedisClient());
+  });
+
+  const register = async (metadata: Record<string, unknown> = {}) => {
+    const response = await fetch(`${baseUrl}/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ redirect_uris: ['http://localhost:3000/callback'], ...metadata })
+    });
+    return response.json();
+  };
+
+  const configure = (clientId: string, token: string, method = 'GET', body?: unknown) =>
+    fetch(`${baseUrl}/register/${encodeURIComponent(clientId)}`, {
+      method,
+      headers: { Authorization: `Bearer ${token}`, ...body ? { 'Content-Type': 'application/json' } : {} },
+      body: body && JSON.stringify(body)
+    });
+
+  it('issues a registration access token and the configuration endpoint at registration', async () => {
+    const client = await register();
+
+    expect(client.registration_access_token).toEqual(expect.any(String));
+    expect(client.registration_client_uri).toBe(`http://localhost/register/${client.client_id}`);
+    expect(await getClientRegistration(client.client_id)).not.toHaveProperty('registration_access_token');
+  });
+
+  it('reads the registration and rotates the registration access token', async () => {
+    const client = await register({ client_name: 'Example App' });
+
+    const response = await configure(client.client_id, client.registration_access_token);
+    const configuration = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toBe('no-store');
+    expect(configuration).toEqual(expect.objectContaining({ client_id: client.client_id, client_name: 'Example App' }));
+    expect(configuration).not.toHaveProperty('client_secret');
+    expect(configuration.registration_access_token).not.toBe(client.registration_access_token);
+    expect((await configure(client.client_id, client.registration_access_token)).status).toBe(401);
+    expect((await configure(client.client_id, configuration.registration_access_token)).status).toBe(200);
+  });
+
+  it('refuses wrong or missing tokens, and tokens for another client', async () => {
+    const client = await register();
+    const other = await register();
+
+    const wrong = await configure(client.client_id, 'wrong-token');
+    const missing = await fetch(`${baseUrl}/register/${client.client_id}`);
+    const otherClients = await configure(client.client_id, other.registration_access_token);
+    const unknown = await configure('unknown-client', client.registration_access_token);
+
+    for (const response of [wrong, missing, otherClients, unknown]) {
+      expect(response.status).toBe(401);
+      expect(response.headers.get('www-authenticate')).toMatch(/^Bearer error="invalid_token"/);
+    }
+  });
+
+  it('replaces the metadata, keeping the secret and authentication method', async () => {
+    const client = await register({ client_name: 'Example App', scope: 'tools:read' });
+
+    const response = await configure(client.client_id, client.registration_access_token, 'PUT', {
+      client_id: client.client_id,
+      client_secret: client.client_secret,
+      redirect_uris: ['http://localhost:4000/callback'],
+    });
+    const configuration = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(configuration.redirect_uris).toEqual(['http://localhost:4000/callback']);
+    expect(configuration).not.toHaveProperty('client_name');
+    expect(configuration).not.toHaveProperty('scope');
+    expect(configuration.token_endpoint_auth_method).toBe('client_secret_basic');
+    expect(configuration.client_id_issued_at).toBe(client.client_id_issued_at);
+    expect((await getClientRegistration(client.client_id))!.client_secret_hash).toEqual(expect.any(String));
+  });
+
+  it('refuses updates for another client_id, with a new secret or authentication method', async () => {
+    const client = await register();
+    const update = async (metadata: Record<string, unknown>) => {
+      const response = await configure(client.client_id, client.registration_access_token, 'PUT', { redirect_uris: client.redirect_uris, ...metadata });
+      return { status: response.status, error: (await response.json()).error };
+    };
+
+    expect(await update({ client_id: 'other-client' })).toEqual({ status: 400, error: 'invalid_request' });
+    expect(await update({ client_id: client.client_id, client_secret: 'chosen-secret' }))
+      .toEqual({ status: 400, error: 'invalid_client_metadata' });
+    expect(await update({ client_id: client.client_id, token_endpoint_auth_method: 'none' }))
+      .toEqual({ status: 400, error: 'invalid_client_metadata' });
+    expect(await update({ client_id: client.client_id, redirect_uris: 'not-a-list' }))
+      .toEqual({ status: 400, error: 'invalid_client_metadata' });
+
+    // Refused updates don't rotate the token
+    expect((await configure(client.client_id, client.registration_access_token)).status).toBe(200);
+  });
+
+  it('deletes the client and revokes the tokens issued to it', async () => {
+    const client = await register({ grant_types: ['client_credentials'] });
+    const basic = `Basic ${Buffer.from(`${client.client_id}:${client.client_secret}`).toString('base64')}`;
+    const { access_token } = await (await fetch(`${baseUrl}/token`, {
+      method: 'POST',
+      headers: { Authorization: basic },
+      body: new URLSearchParams({ grant_type: 'client_credentials' })
+    })).json();
+
+    const response = await configure(client.client_id, client.registration_access_token, 'DELETE');
+
+    expect(response.status).toBe(204);
+    expect(await getClientRegistration(client.client_id)).toBeUndefined();
+    const introspection = await (await fetch(`${baseUrl}/introspect`, {
+      method: 'POST',
+      body: new URLSearchParams({ token: access_token })
+    })).json();
+    expect(introspection).toEqual({ active: false });
+    expect((await configure(client.client_id, client.registration_access_token)).status).toBe(401);
+  });
+});
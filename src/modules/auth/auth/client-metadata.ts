@@ -0,0 +1,303 @@
+import dns from 'dns';
+import https from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { Readable } from 'stream';
+import { OAuthClientMetadataSchema } from '@modelcontextprotocol/sdk/shared/auth.js';
+import {
+  readClientMetadataDocument,
+  readClientMetadataDocumentFailure,
+  saveClientMetadataDocument,
+  saveClientMetadataDocumentFailure,
+} from '../services/auth.js';
+import { ClientRegistration } from '../types.js';
+import { prepareClientRegistration } from './client-auth.js';
+import { logger } from '../../shared/logger.js';
+
+/**
+ * ============================================================================
+ * CLIENT ID METADATA DOCUMENTS
+ * ============================================================================
+ *
+ * Instead of registering, a client can use an https URL as its client_id.
+ * The URL serves a JSON document with the client's metadata, as it would
+ * have registered it, and the client's own URL as client_id. The auth
+ * server fetches the document the first time it meets the client, and
+ * keeps it for as long as the response's HTTP caching headers allow.
+ *
+ * As the document is public, so is everything in it: such clients are
+ * public clients, or authenticate with private_key_jwt, never with a secret.
+ *
+ * ============================================================================
+ */
+
+const FETCH_TIMEOUT_MS = 5 * 1000;
+
+/**
+ * Documents larger than this are refused
+ */
+export const CLIENT_METADATA_DOCUMENT_MAX_BYTES = 5 * 1024;
+
+/**
+ * How long documents are kept when the response doesn't say, and at most
+ */
+export const CLIENT_METADATA_DOCUMENT_DEFAULT_MAX_AGE_SEC = 5 * 60;
+export const CLIENT_METADATA_DOCUMENT_MAX_AGE_SEC = 24 * 60 * 60;
+
+/**
+ * How long a client_id whose document was refused is refused without
+ * fetching it again
+ */
+export const CLIENT_METADATA_DOCUMENT_FAILURE_TTL_SEC = 60;
+
+/**
+ * Fetches a Client ID Metadata Document. Pluggable so tests can serve
+ * documents without an https server.
+ */
+export type ClientMetadataFetcher = (url: URL) => Promise<Response>;
+
+// Anyone can make the server fetch a client_id, so only public addresses
+// may be fetched, not the server's own network. IPv4-mapped IPv6 addresses
+// are checked against the IPv4 subnets.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is on the public internet, rather than loopback,
+ * private, link-local or otherwise reserved
+ */
+export function isPublicAddress(address: string, family: 4 | 6): boolean {
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Checks the addresses the connection is actually made to, so a host can't
+// resolve to a public address for a check and a private one for the fetch
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, '');
+    }
+    const refused = addresses.find(({ address, family }) => !isPublicAddress(address, family === 4 ? 4 : 6));
+    if (refused || addresses.length === 0) {
+      return callback(new Error(`${hostname} does not resolve to a public address`), '');
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+export const fetchClientMetadataDocument: ClientMetadataFetcher = url => new Promise((resolve, reject) => {
+  // Addresses are connected to without a lookup
+  const address = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  const family = isIP(address);
+  if (family && !isPublicAddress(address, family === 4 ? 4 : 6)) {
+    reject(new Error(`${url.hostname} does not resolve to a public address`));
+    return;
+  }
+
+  const request = https.get(url, {
+    headers: { Accept: 'application/json' },
+    lookup: lookupPublicAddress,
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+  }, response => {
+    const headers = new Headers();
+    for (let i = 0; i < response.rawHeaders.length; i += 2) {
+      headers.append(response.rawHeaders[i], response.rawHeaders[i + 1]);
+    }
+    const status = response.statusCode ?? 500;
+    // Redirects aren't followed: the document must be served from the client_id itself
+    if (status < 200 || status > 299) {
+      response.resume();
+      resolve(new Response(null, { status, headers }));
+      return;
+    }
+    resolve(new Response(Readable.toWeb(response) as ReadableStream<Uint8Array>, { status, headers }));
+  });
+  request.on('error', reject);
+});
+
+/**
+ * Reads a response body, giving up as soon as it is larger than maxBytes
+ * rather than once all of it has arrived.
+ */
+async function readBody(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) {
+    return '';
+  }
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error('Client metadata document is too large');
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Whether a client_id is a URL the client's metadata document is served
+ * from: https, with a path, and no fragment, credentials or dot segments
+ */
+export function isClientIdMetadataDocumentUrl(clientId: string): boolean {
+  if (!URL.canParse(clientId)) {
+    return false;
+  }
+  const url = new URL(clientId);
+  return url.protocol === 'https:'
+    && url.pathname !== '/'
+    && !url.hash
+    && !url.username
+    && !url.password
+    // Parsing resolves dot segments, so a client_id with any isn't its own href
+    && url.href === clientId;
+}
+
+/**
+ * How many seconds a response may be reused for, from its Cache-Control,
+ * Expires and Age headers (RFC 9111 section 4.2). Responses that mustn't be
+ * reused without revalidation get 0.
+ */
+export function cacheLifetimeSec(headers: Headers, now = Date.now()): number {
+  const directives = (headers.get('cache-control') ?? '')
+    .toLowerCase()
+    .split(',')
+    .map(directive => directive.trim());
+  if (directives.includes('no-store') || directives.includes('no-cache')) {
+    return 0;
+  }
+  const seconds = (name: string) => {
+    const directive = directives.find(d => d.startsWith(`${name}=`));
+    const value = directive && Number.parseInt(directive.slice(name.length + 1).replace(/"/g, ''), 10);
+    return typeof value === 'number' && !Number.isNaN(value) ? value : undefined;
+  };
+
+  let lifetime = seconds('s-maxage') ?? seconds('max-age');
+  if (lifetime === undefined) {
+    const expires = headers.get('expires');
+    if (expires) {
+      // Invalid dates mean already expired
+      const date = Date.parse(headers.get('date') ?? '');
+      lifetime = (Date.parse(expires) - (Number.isNaN(date) ? now : date)) / 1000 || 0;
+    } else {
+      lifetime = CLIENT_METADATA_DOCUMENT_DEFAULT_MAX_AGE_SEC;
+    }
+  }
+  lifetime -= Number.parseInt(headers.get('age') ?? '0', 10) || 0;
+  return Math.min(Math.max(Math.floor(lifetime), 0), CLIENT_METADATA_DOCUMENT_MAX_AGE_SEC);
+}
+
+/**
+ * Validates a client's metadata document and turns it into the registration
+ * the client would have had, had it registered.
+ * @throws if the document doesn't describe the client it was fetched for
+ */
+function parseClientMetadataDocument(clientId: string, document: unknown): ClientRegistration {
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    throw new Error('Client metadata document is not a JSON object');
+  }
+  if ((document as { client_id?: unknown }).client_id !== clientId) {
+    throw new Error('Client metadata document is for another client_id');
+  }
+  if ('client_secret' in document || 'client_secret_expires_at' in document) {
+    throw new Error('Client metadata document must not contain a client secret');
+  }
+
+  const parseResult = OAuthClientMetadataSchema.safeParse(document);
+  if (!parseResult.success) {
+    throw new Error(`Invalid client metadata: ${parseResult.error.message}`);
+  }
+  const metadata = parseResult.data;
+  const method = metadata.token_endpoint_auth_method ?? 'none';
+  if (method !== 'none' && method !== 'private_key_jwt') {
+    throw new Error(`Clients with metadata documents cannot use ${method}`);
+  }
+  // Keys behind a jwks_uri would be fetched from wherever the document's
+  // author points, outside the checks documents themselves go through
+  if (metadata.jwks_uri) {
+    throw new Error('Client metadata document must include its keys as jwks rather than jwks_uri');
+  }
+
+  return prepareClientRegistration({ ...metadata, client_id: clientId, token_endpoint_auth_method: method }).registration;
+}
+
+/**
+ * Clients identified by the URL of their metadata document, fetched on
+ * first use and cached in Redis
+ */
+export class ClientMetadataDocuments {
+  constructor(private fetchDocument: ClientMetadataFetcher = fetchClientMetadataDocument) {}
+
+  /**
+   * The client a metadata document URL identifies.
+   * @returns undefined if the document can't be fetched or is invalid
+   */
+  async getClient(clientId: string): Promise<ClientRegistration | undefined> {
+    const cached = await readClientMetadataDocument(clientId);
+    if (cached) {
+      return cached;
+    }
+    const failure = await readClientMetadataDocumentFailure(clientId);
+    if (failure) {
+      logger.debug('Client metadata document recently refused', { clientId, error: failure });
+      return undefined;
+    }
+
+    let registration: ClientRegistration;
+    let maxAgeSec: number;
+    try {
+      ({ registration, maxAgeSec } = await this.fetchClient(clientId));
+    } catch (error) {
+      logger.warning('Client metadata document refused', { clientId, error: (error as Error).message });
+      await saveClientMetadataDocumentFailure(clientId, (error as Error).message, CLIENT_METADATA_DOCUMENT_FAILURE_TTL_SEC);
+      return undefined;
+    }
+
+    if (maxAgeSec > 0) {
+      await saveClientMetadataDocument(clientId, registration, maxAgeSec);
+    }
+    logger.info('Fetched client metadata document', { clientId, maxAgeSec });
+    return registration;
+  }
+
+  private async fetchClient(clientId: string): Promise<{ registration: ClientRegistration; maxAgeSec: number }> {
+    const response = await this.fetchDocument(new URL(clientId));
+    if (!response.ok) {
+      throw new Error(`Client metadata document request failed: ${response.status}`);
+    }
+    if (Number(response.headers.get('content-length')) > CLIENT_METADATA_DOCUMENT_MAX_BYTES) {
+      throw new Error('Client metadata document is too large');
+    }
+    const body = await readBody(response, CLIENT_METADATA_DOCUMENT_MAX_BYTES);
+
+    let document: unknown;
+    try {
+      document = JSON.parse(body);
+    } catch {
+      throw new Error('Client metadata document is not valid JSON');
+    }
+    return {
+      registration: parseClientMetadataDocument(clientId, document),
+      maxAgeSec: cacheLifetimeSec(response.headers)
+    };
+  }
+}
@@ -0,0 +1,154 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { AuthModule } from '../index.js';
+import { MockRedisClient, setRedisClient } from '../../shared/redis.js';
+import { REDIS_KEY_PREFIXES } from '../services/redis-auth.js';
+import { sha256 } from './auth-core.js';
+import { generateUserCode, normalizeUserCode } from './device.js';
+import { DEVICE_CODE_GRANT_TYPE } from '../../../interfaces/oauth-metadata.js';
+
+describe('user codes', () => {
+  it('generates codes that survive normalization', () => {
+    const userCode = generateUserCode();
+
+    expect(userCode).toMatch(/^[A-Z]{4}-[A-Z]{4}$/);
+    expect(normalizeUserCode(userCode)).toBe(userCode);
+  });
+
+  it('ignores case, spaces and dashes in typed codes', () => {
+    expect(normalizeUserCode('wdjb mjht')).toBe('WDJB-MJHT');
+    expect(normalizeUserCode(' WdJb-MjHt ')).toBe('WDJB-MJHT');
+  });
+
+  it('refuses codes that could not have been generated', () => {
+    expect(normalizeUserCode('WDJB-MJH')).toBeUndefined();
+    expect(normalizeUserCode('WDJB-MJHA')).toBeUndefined();
+    expect(normalizeUserCode('<script>')).toBeUndefined();
+  });
+});
+
+describe('device authorization flow', () => {
+  let server: Server;
+  let baseUrl: string;
+  let mockRedis: MockRedisClient;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(new AuthModule({ baseUri: 'http://localhost' }).getRouter());
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mockRedis = new MockRedisClient();
+    setRedisClient(mockRedis);
+  });
+
+  const registerDevice = async () => {
+    const response = await fetch(`${baseUrl}/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        client_name: 'Smart TV',
+        redirect_uris: [],
+        token_endpoint_auth_method: 'none',
+        grant_types: [DEVICE_CODE_GRANT_TYPE]
+      })
+    });
+    return (await response.json()).client_id as string;
+  };
+
+  const post = (path: string, params: Record<string, string>) =>
+    fetch(`${baseUrl}${path}`, { method: 'POST', body: new URLSearchParams(params), redirect: 'manual' });
+
+  // The mock Redis client ignores expiry, so each poll first forgets the previous one
+  const poll = async (clientId: string, deviceCode: string) => {
+    await mockRedis.del(REDIS_KEY_PREFIXES.DEVICE_POLL + sha256(deviceCode));
+    return post('/token', { grant_type: DEVICE_CODE_GRANT_TYPE, client_id: clientId, device_code: deviceCode });
+  };
+
+  it('issues tokens to the device once the user approves it on the verification page', async () => {
+    const clientId = await registerDevice();
+    const authorization = await post('/device_authorization', { client_id: clientId, scope: 'tools:read' });
+    const grant = await authorization.json();
+
+    expect(authorization.headers.get('cache-control')).toBe('no-store');
+    expect(grant).toEqual(expect.objectContaining({
+      verification_uri: 'http://localhost/device',
+      verification_uri_complete: `http://localhost/device?user_code=${grant.user_code}`,
+      expires_in: 600,
+      interval: 5,
+    }));
+
+    const pending = await poll(clientId, grant.device_code);
+    expect(pending.status).toBe(400);
+    expect((await pending.json()).error).toBe('authorization_pending');
+
+    // The user types the code in their own way, then signs in upstream
+    const page = await fetch(`${baseUrl}/device?user_code=${grant.user_code.toLowerCase().replace('-', '')}`);
+    const html = await page.text();
+    expect(page.status).toBe(200);
+    expect(html).toContain('Smart TV');
+    expect(html).toContain('tools:read');
+    const state = html.match(/\/upstream-idp\/authorize\?state=([0-9a-f]+)/)![1];
+
+    const callback = await fetch(`${baseUrl}/mock-upstream-idp/callback?state=${state}&code=mock-code&userId=device-user`, { redirect: 'manual' });
+    expect(callback.headers.get('location')).toBe('/device/complete');
+
+    const response = await poll(clientId, grant.device_code);
+    const tokens = await response.json();
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toBe('no-store');
+    expect(tokens).toEqual(expect.objectContaining({ token_type: 'Bearer', scope: 'tools:read' }));
+
+    const introspection = await (await post('/introspect', { token: tokens.access_token })).json();
+    expect(introspection).toEqual(expect.objectContaining({ active: true, client_id: clientId, sub: 'device-user' }));
+    expect((await (await poll(clientId, grant.device_code)).json()).error).toBe('invalid_grant');
+  });
+
+  it('refuses unknown user codes on the verification page', async () => {
+    const response = await fetch(`${baseUrl}/device?user_code=BCDF-GHJK`);
+
+    expect(response.status).toBe(400);
+    expect(await response.text()).toContain('invalid or has expired');
+  });
+
+  it('tells the device when the user denies it', async () => {
+    const clientId = await registerDevice();
+    const grant = await (await post('/device_authorization', { client_id: clientId })).json();
+
+    const denied = await post('/device/deny', { user_code: grant.user_code });
+    const response = await poll(clientId, grant.device_code);
+
+    expect(denied.status).toBe(200);
+    expect((await response.json()).error).toBe('access_denied');
+    expect((await fetch(`${baseUrl}/device?user_code=${grant.user_code}`)).status).toBe(400);
+  });
+
+  it('refuses clients not registered for the grant', async () => {
+    const response = await fetch(`${baseUrl}/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ redirect_uris: ['http://localhost:3000/callback'], token_endpoint_auth_method: 'none' })
+    });
+    const { client_id } = await response.json();
+
+    const authorization = await post('/device_authorization', { client_id });
+
+    expect(authorization.status).toBe(400);
+    expect((await authorization.json()).error).toBe('unauthorized_client');
+  });
+
+  it('advertises the device authorization endpoint', async () => {
+    const metadata = await (await fetch(`${baseUrl}/.well-known/oauth-authorization-server`)).json();
+
+    expect(metadata.device_authorization_endpoint).toBe('http://localhost/device_authorization');
+    expect(metadata.grant_types_supported).toContain(DEVICE_CODE_GRANT_TYPE);
+  });
+});
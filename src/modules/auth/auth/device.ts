@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+
+/**
+ * How long the user has to enter the user code, matching how long the
+ * pending authorization behind it lasts
+ */
+export const DEVICE_CODE_EXPIRY_SEC = 10 * 60;
+
+/**
+ * Seconds devices wait between polls at first; polling faster answers
+ * slow_down and adds DEVICE_POLL_SLOW_DOWN_SEC to the interval
+ */
+export const DEVICE_POLL_INTERVAL_SEC = 5;
+export const DEVICE_POLL_SLOW_DOWN_SEC = 5;
+
+/**
+ * Path of the verification page users enter user codes on
+ */
+export const DEVICE_VERIFICATION_PATH = '/device';
+
+/**
+ * Where users end up once they have approved a device authorization
+ */
+export const DEVICE_COMPLETE_PATH = '/device/complete';
+
+// Consonants only, so codes can't spell words and are easy to read off a
+// screen (RFC 8628 section 6.1): 20^8 possible codes
+const USER_CODE_ALPHABET = 'BCDFGHJKLMNPQRSTVWXZ';
+const USER_CODE_LENGTH = 8;
+
+/**
+ * Generates a user code like WDJB-MJHT
+ */
+export function generateUserCode(): string {
+  let code = '';
+  for (let i = 0; i < USER_CODE_LENGTH; i++) {
+    code += USER_CODE_ALPHABET[crypto.randomInt(USER_CODE_ALPHABET.length)];
+  }
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+/**
+ * Normalizes a user code as typed: case, spaces and dashes don't matter.
+ * @returns The code in the form generateUserCode returns, or undefined if it can't be one
+ */
+export function normalizeUserCode(input: string): string | undefined {
+  const code = input.toUpperCase().replace(/[\s-]/g, '');
+  if (code.length !== USER_CODE_LENGTH || [...code].some(char => !USER_CODE_ALPHABET.includes(char))) {
+    return undefined;
+  }
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
@@ -0,0 +1,132 @@
+import { describe, beforeEach, it, expect } from '@jest/globals';
+import { MockRedisClient, setRedisClient } from "../../shared/redis.js";
+import { RevocationEvent, subscribeToRevocations } from "../../../interfaces/revocation-events.js";
+import * as authService from "../services/auth.js";
+import { PendingAuthorization } from "../types.js";
+import { completeAuthorization, hasConsent, revokeClientGrants, revokeGrant } from "./grants.js";
+import { createUpstreamGrant } from "./upstream-tokens.js";
+
+describe("grants", () => {
+  const upstreamInstallation = {
+    provider: "mock",
+    accessToken: "fake-upstream-access-token",
+    refreshToken: "fake-upstream-refresh-token",
+  };
+
+  const pendingAuthFor = (scopes: string[], clientId = "client-1"): PendingAuthorization => ({
+    redirectUri: "https://example.com/callback",
+    codeChallenge: "test-challenge",
+    codeChallengeMethod: "S256",
+    clientId,
+    state: "client-state",
+    scopes,
+  });
+
+  let mockRedis: MockRedisClient;
+
+  beforeEach(() => {
+    mockRedis = new MockRedisClient();
+    setRedisClient(mockRedis);
+  });
+
+  // Completes an authorization and returns the installation it issued
+  async function authorize(scopes: string[], userId = "user-1", clientId = "client-1") {
+    const authorizationCode = authService.generateToken();
+    const upstreamGrantId = await createUpstreamGrant(upstreamInstallation);
+    const redirectUrl = await completeAuthorization(authorizationCode, pendingAuthFor(scopes, clientId), userId, upstreamGrantId);
+    const exchange = await authService.exchangeToken(authorizationCode);
+    const installation = await authService.readMcpInstallation(exchange!.mcpAccessToken);
+    return { authorizationCode, redirectUrl, upstreamGrantId, installation: installation! };
+  }
+
+  describe("completeAuthorization", () => {
+    it("issues tokens for the authorization code and redirects back to the client", async () => {
+      const { authorizationCode, redirectUrl, upstreamGrantId, installation } = await authorize(["tools:read"]);
+
+      expect(redirectUrl).toBe(`https://example.com/callback?code=${authorizationCode}&state=client-state`);
+      expect(installation).toEqual(expect.objectContaining({
+        clientId: "client-1",
+        userId: "user-1",
+        scopes: ["tools:read"],
+        upstreamGrantId,
+      }));
+      expect(await authService.readUpstreamGrant(upstreamGrantId)).toEqual(upstreamInstallation);
+    });
+
+    it("records the user's consent", async () => {
+      await authorize(["tools:read"]);
+
+      expect(await hasConsent("user-1", "client-1", ["tools:read"])).toBe(true);
+      expect(await hasConsent("user-1", "client-1", ["tools:read", "tools:call"])).toBe(false);
+      expect(await hasConsent("user-2", "client-1", ["tools:read"])).toBe(false);
+    });
+
+    it("adds newly approved scopes to the earlier consent", async () => {
+      await authorize(["tools:read"]);
+      const grantedAt = (await authService.readConsent("user-1", "client-1"))!.grantedAt;
+
+      const { installation } = await authorize(["tools:read", "tools:call"]);
+
+      expect(installation.scopes).toEqual(["tools:read", "tools:call"]);
+      expect(await authService.readConsent("user-1", "client-1")).toEqual(expect.objectContaining({
+        scopes: ["tools:read", "tools:call"],
+        grantedAt,
+      }));
+    });
+
+    it("issues only the requested scopes, however many were approved before", async () => {
+      await authorize(["tools:read", "tools:call"]);
+
+      const { installation } = await authorize(["tools:read"]);
+
+      expect(installation.scopes).toEqual(["tools:read"]);
+      expect((await authService.readConsent("user-1", "client-1"))!.scopes).toEqual(["tools:read", "tools:call"]);
+    });
+  });
+
+  describe("revokeGrant", () => {
+    it("revokes the consent and every token issued under it", async () => {
+      const first = await authorize(["tools:read"]);
+      const second = await authorize(["tools:read"]);
+
+      expect(await revokeGrant("user-1", "client-1")).toBe(true);
+
+      expect(await authService.listConsents("user-1")).toEqual([]);
+      for (const { installation } of [first, second]) {
+        expect(await authService.readMcpInstallation(installation.mcpTokens.access_token)).toBeUndefined();
+        expect(await authService.readRefreshToken(installation.mcpTokens.refresh_token!)).toBeUndefined();
+      }
+    });
+
+    it("announces the revocation so open sessions are ended", async () => {
+      await authorize(["tools:read"]);
+      const events: RevocationEvent[] = [];
+      await subscribeToRevocations(mockRedis, event => { events.push(event); });
+
+      await revokeGrant("user-1", "client-1");
+      await revokeGrant("user-1", "client-1");
+
+      expect(events).toEqual([{ userId: "user-1", clientId: "client-1" }]);
+    });
+  });
+
+  describe("revokeClientGrants", () => {
+    it("revokes every user's consent and tokens for the client, and announces it", async () => {
+      const first = await authorize(["tools:read"], "user-1");
+      const second = await authorize(["tools:read"], "user-2");
+      const otherClient = await authorize(["tools:read"], "user-1", "client-2");
+      const events: RevocationEvent[] = [];
+      await subscribeToRevocations(mockRedis, event => { events.push(event); });
+
+      await revokeClientGrants("client-1");
+
+      for (const { installation } of [first, second]) {
+        expect(await authService.readMcpInstallation(installation.mcpTokens.access_token)).toBeUndefined();
+        expect(await authService.readRefreshToken(installation.mcpTokens.refresh_token!)).toBeUndefined();
+      }
+      expect(await hasConsent("user-2", "client-1", ["tools:read"])).toBe(false);
+      expect(await authService.readMcpInstallation(otherClient.installation.mcpTokens.access_token)).toBeDefined();
+      expect(events).toEqual([{ userId: "user-1", clientId: "client-1" }, { userId: "user-2", clientId: "client-1" }]);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  addClientFamily,
+  addConsentFamily,
+  announceRevocation,
+  generateMcpTokens,
+  generateToken,
+  keepUpstreamGrant,
+  readConsent,
+  revokeClientFamilies,
+  revokeConsent,
+  saveConsent,
+  saveMcpInstallation,
+  saveRefreshToken,
+  saveTokenExchange,
+  saveTokenFamily,
+} from '../services/auth.js';
+import { McpInstallation, PendingAuthorization } from '../types.js';
+import { logger } from '../../shared/logger.js';
+
+/**
+ * Whether a user has already approved everything a client is asking for,
+ * so the consent screen can be skipped.
+ */
+export async function hasConsent(userId: string, clientId: string, scopes: string[]): Promise<boolean> {
+  const consent = await readConsent(userId, clientId);
+  return !!consent && scopes.every(scope => consent.scopes.includes(scope));
+}
+
+/**
+ * Completes an authorization once the user has been identified and has
+ * approved it: records their consent, issues the tokens the authorization
+ * code will be exchanged for, and returns the URL that sends the user back
+ * to the client with the code, or for device authorizations to the
+ * verification page.
+ * @param upstreamGrantId Upstream grant of the user's sign-in, which the
+ *   new installation shares
+ */
+export async function completeAuthorization(
+  authorizationCode: string,
+  pendingAuth: PendingAuthorization,
+  userId: string,
+  upstreamGrantId: string
+): Promise<string> {
+  const now = Date.now() / 1000;
+
+  // The consent covers every scope approved so far, but the tokens only carry
+  // those requested now, so a client can still get a narrower token. Step-up
+  // clients ask for their earlier scopes again, as the 403 challenge lists them.
+  const consent = await readConsent(userId, pendingAuth.clientId);
+  const scopes = pendingAuth.scopes;
+  if (scopes) {
+    await saveConsent({
+      userId,
+      clientId: pendingAuth.clientId,
+      scopes: [...new Set([...consent?.scopes ?? [], ...scopes])],
+      grantedAt: consent?.grantedAt ?? now,
+      lastUsedAt: now,
+    });
+  }
+
+  logger.debug('Generating MCP tokens');
+  const mcpTokens = generateMcpTokens();
+  logger.debug('MCP tokens generated', {
+    hasAccessToken: !!mcpTokens.access_token,
+    hasRefreshToken: !!mcpTokens.refresh_token
+  });
+
+  // Every token refreshed from this authorization belongs to the same family
+  const familyId = generateToken();
+
+  const mcpInstallation: McpInstallation = {
+    upstreamGrantId,
+    mcpTokens,
+    clientId: pendingAuth.clientId,
+    issuedAt: now,
+    userId,
+    scopes,
+    resource: pendingAuth.resource,
+    familyId,
+  };
+
+  logger.debug('Saving MCP installation');
+  // Store the upstream authorization data
+  await saveMcpInstallation(mcpTokens.access_token, mcpInstallation);
+  await keepUpstreamGrant(upstreamGrantId);
+  logger.debug('MCP installation saved');
+
+  // Store the refresh token -> access token mapping
+  if (mcpTokens.refresh_token) {
+    logger.debug('Saving refresh token mapping');
+    await saveRefreshToken(mcpTokens.refresh_token, mcpTokens.access_token);
+    await saveTokenFamily(familyId, {
+      mcpAccessToken: mcpTokens.access_token,
+      refreshToken: mcpTokens.refresh_token,
+    });
+    logger.debug('Refresh token mapping saved');
+  }
+  // Revoking the consent, or deleting the client, revokes the tokens issued under it
+  await addConsentFamily(userId, pendingAuth.clientId, familyId);
+  await addClientFamily(pendingAuth.clientId, familyId);
+
+  logger.debug('Saving token exchange data');
+  // Store the token exchange data
+  await saveTokenExchange(authorizationCode, {
+    mcpAccessToken: mcpTokens.access_token,
+    alreadyUsed: false,
+  });
+  logger.debug('Token exchange data saved');
+
+  // Devices poll for their tokens, so the user stays on the verification page
+  if (pendingAuth.device) {
+    return pendingAuth.redirectUri;
+  }
+
+  // Redirect back to the original application with the authorization code and state
+  return pendingAuth.state ?
+    `${pendingAuth.redirectUri}?code=${authorizationCode}&state=${pendingAuth.state}` :
+    `${pendingAuth.redirectUri}?code=${authorizationCode}`;
+}
+
+/**
+ * Disconnects a client from a user's account: revokes the user's consent and
+ * every token issued under it, and ends the MCP sessions opened with them.
+ * @returns Whether the client was connected
+ */
+export async function revokeGrant(userId: string, clientId: string): Promise<boolean> {
+  const revoked = await revokeConsent(userId, clientId);
+  if (revoked) {
+    logger.info('Revoked grant', { userId, clientId });
+    await announceRevocation(userId, clientId);
+  }
+  return revoked;
+}
+
+/**
+ * Revokes every token issued to a client, whichever user it acts for, along
+ * with the users' consents to it, and ends the MCP sessions opened with them.
+ */
+export async function revokeClientGrants(clientId: string): Promise<void> {
+  const revoked = await revokeClientFamilies(clientId);
+  for (const userId of new Set(revoked.map(installation => installation.userId))) {
+    await revokeConsent(userId, clientId);
+    await announceRevocation(userId, clientId);
+  }
+  logger.info('Revoked client grants', { clientId, installations: revoked.length });
+}
@@ -0,0 +1,10 @@
+/**
+ * Escapes text for interpolation into the HTML of the auth server's pages.
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,130 @@
+import { describe, beforeEach, it, expect } from '@jest/globals';
+import { decodeJwt, decodeProtectedHeader } from "jose";
+import { MockRedisClient, setRedisClient } from "../../shared/redis.js";
+import { McpInstallation } from "../types.js";
+import { generateToken } from "./auth-core.js";
+import { JwtAccessTokenOptions, JwtAccessTokens } from "./jwt.js";
+
+describe("JwtAccessTokens", () => {
+  const options: JwtAccessTokenOptions = {
+    issuer: "https://auth.example.com",
+    defaultAudience: "https://auth.example.com",
+    algorithm: "RS256",
+    keyRotationIntervalSec: 24 * 60 * 60,
+    tokenLifetimeSec: 3600,
+  };
+
+  const installationFor = (overrides: Partial<McpInstallation> = {}): McpInstallation => ({
+    upstreamInstallation: {
+      provider: "mock",
+      accessToken: "fake-upstream-access-token",
+      refreshToken: "fake-upstream-refresh-token",
+    },
+    mcpTokens: { access_token: generateToken(), token_type: "Bearer", expires_in: 3600 },
+    clientId: "client-1",
+    issuedAt: Date.now() / 1000,
+    userId: "user-1",
+    scopes: ["tools:read", "tools:call"],
+    ...overrides,
+  });
+
+  let mockRedis: MockRedisClient;
+
+  beforeEach(() => {
+    mockRedis = new MockRedisClient();
+    setRedisClient(mockRedis);
+  });
+
+  it("signs access tokens with the RFC 9068 claims", async () => {
+    const jwtAccessTokens = new JwtAccessTokens(options);
+    const tokenId = generateToken();
+
+    const token = await jwtAccessTokens.sign(tokenId, installationFor({ resource: "https://mcp.example.com/mcp" }));
+
+    expect(decodeProtectedHeader(token)).toEqual(expect.objectContaining({ alg: "RS256", typ: "at+jwt" }));
+    expect(decodeJwt(token)).toEqual(expect.objectContaining({
+      iss: "https://auth.example.com",
+      sub: "user-1",
+      aud: "https://mcp.example.com/mcp",
+      client_id: "client-1",
+      scope: "tools:read tools:call",
+      jti: tokenId,
+    }));
+  });
+
+  it("uses the default audience for tokens not bound to a resource", async () => {
+    const jwtAccessTokens = new JwtAccessTokens(options);
+    const tokenId = generateToken();
+
+    const token = await jwtAccessTokens.sign(tokenId, installationFor());
+
+    expect(decodeJwt(token).aud).toBe("https://auth.example.com");
+  });
+
+  it("verifies the tokens it signed", async () => {
+    const jwtAccessTokens = new JwtAccessTokens({ ...options, algorithm: "ES256" });
+    const tokenId = generateToken();
+    const token = await jwtAccessTokens.sign(tokenId, installationFor());
+
+    const payload = await jwtAccessTokens.verify(token);
+
+    expect(payload.jti).toBe(tokenId);
+  });
+
+  it("rejects tokens from another issuer", async () => {
+    const tokenId = generateToken();
+    const token = await new JwtAccessTokens({ ...options, issuer: "https://other.example.com" })
+      .sign(tokenId, installationFor());
+
+    await expect(new JwtAccessTokens(options).verify(token)).rejects.toThrow();
+  });
+
+  it("rejects expired tokens", async () => {
+    const jwtAccessTokens = new JwtAccessTokens(options);
+    const tokenId = generateToken();
+    const token = await jwtAccessTokens.sign(tokenId, installationFor({ issuedAt: Date.now() / 1000 - 7200 }));
+
+    await expect(jwtAccessTokens.verify(token)).rejects.toThrow();
+  });
+
+  it("keeps publishing retired keys after a rotation", async () => {
+    const jwtAccessTokens = new JwtAccessTokens(options);
+    const tokenId = generateToken();
+    const oldToken = await jwtAccessTokens.sign(tokenId, installationFor());
+    const oldKid = decodeProtectedHeader(oldToken).kid;
+
+    // The mock client doesn't expire keys, so drop the current key pointer
+    // the way Redis would once the rotation interval has passed
+    await mockRedis.del("auth:signing-key-current");
+    const newToken = await jwtAccessTokens.sign(tokenId, installationFor());
+    const newKid = decodeProtectedHeader(newToken).kid;
+
+    expect(newKid).not.toBe(oldKid);
+    const jwks = await jwtAccessTokens.getJwks();
+    expect(jwks.keys.map(key => key.kid).sort()).toEqual([oldKid, newKid].sort());
+    expect(jwks.keys.every(key => key.d === undefined)).toBe(true);
+    await expect(jwtAccessTokens.verify(oldToken)).resolves.toBeDefined();
+    await expect(jwtAccessTokens.verify(newToken)).resolves.toBeDefined();
+  });
+
+  it("signs with the key another instance rotated to", async () => {
+    const first = new JwtAccessTokens(options);
+    const second = new JwtAccessTokens(options);
+    const tokenId = generateToken();
+
+    const firstKey = await first.rotateKey();
+    const token = await second.sign(tokenId, installationFor());
+
+    expect(decodeProtectedHeader(token).kid).toBe(firstKey.kid);
+  });
+
+  it("defers to the key of an instance that rotated at the same time", async () => {
+    const first = new JwtAccessTokens(options);
+    const second = new JwtAccessTokens(options);
+
+    const firstKey = await first.rotateKey();
+    const secondKey = await second.rotateKey();
+
+    expect(secondKey.kid).toBe(firstKey.kid);
+  });
+});
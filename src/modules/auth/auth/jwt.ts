@@ -0,0 +1,136 @@
+import crypto from "crypto";
+import { createLocalJWKSet, exportJWK, generateKeyPair, importJWK, JSONWebKeySet, JWTPayload, jwtVerify, SignJWT } from "jose";
+import {
+  claimCurrentSigningKey,
+  readCurrentSigningKeyId,
+  readSigningKey,
+  readSigningKeys,
+  saveSigningKey,
+} from "../services/auth.js";
+import { JwtSigningAlgorithm, McpInstallation, SigningKey } from "../types.js";
+import { grantIdOf } from "./auth-core.js";
+import { LEGACY_FULL_ACCESS_SCOPE } from "../../../interfaces/scopes.js";
+import { logger } from "../../shared/logger.js";
+
+/**
+ * JWT header type of OAuth 2.0 access tokens (RFC 9068)
+ */
+export const JWT_ACCESS_TOKEN_TYPE = "at+jwt";
+
+export interface JwtAccessTokenOptions {
+  /** Issuer (`iss`) of the tokens: the auth server's URL */
+  issuer: string;
+  /** Audience (`aud`) of tokens not bound to a resource */
+  defaultAudience: string;
+  algorithm: JwtSigningAlgorithm;
+  /** How long a signing key is used before a new one replaces it */
+  keyRotationIntervalSec: number;
+  /** Lifetime of the tokens, which retired keys stay published for */
+  tokenLifetimeSec: number;
+}
+
+/**
+ * Whether a token has the shape of a JWT rather than an opaque token.
+ */
+export function isJwt(token: string): boolean {
+  return token.split(".").length === 3;
+}
+
+/**
+ * Issues and verifies self-contained JWT access tokens (RFC 9068), so
+ * resource servers can validate them locally against the published JWKS
+ * instead of introspecting every token.
+ *
+ * Each token's `jti` is a random ID, linked to the opaque access token its
+ * installation is stored under on the server. The opaque token decrypts the
+ * installation, so it never appears in the JWT.
+ */
+export class JwtAccessTokens {
+  constructor(private options: JwtAccessTokenOptions) {}
+
+  /**
+   * Signs a JWT access token for an installation.
+   * @param tokenId The token's ID (`jti`)
+   */
+  async sign(tokenId: string, installation: McpInstallation): Promise<string> {
+    const key = await this.currentKey();
+    const privateKey = await importJWK(key.privateJwk, key.alg);
+    const expiresIn = installation.mcpTokens.expires_in ?? this.options.tokenLifetimeSec;
+
+    return new SignJWT({
+      client_id: installation.clientId,
+      scope: (installation.scopes ?? [LEGACY_FULL_ACCESS_SCOPE]).join(" "),
+      grant_id: installation.familyId ? grantIdOf(installation.familyId) : undefined,
+    })
+      .setProtectedHeader({ alg: key.alg, kid: key.kid, typ: JWT_ACCESS_TOKEN_TYPE })
+      .setIssuer(this.options.issuer)
+      .setSubject(installation.userId)
+      .setAudience(installation.resource ?? this.options.defaultAudience)
+      .setIssuedAt(Math.floor(installation.issuedAt))
+      .setExpirationTime(Math.floor(installation.issuedAt + expiresIn))
+      .setJti(tokenId)
+      .sign(privateKey);
+  }
+
+  /**
+   * Verifies a JWT access token's signature, issuer and expiry.
+   * @throws if the token is invalid
+   */
+  async verify(token: string): Promise<JWTPayload & { jti: string }> {
+    const { payload } = await jwtVerify(token, createLocalJWKSet(await this.getJwks()), {
+      issuer: this.options.issuer,
+      typ: JWT_ACCESS_TOKEN_TYPE,
+      algorithms: [this.options.algorithm],
+    });
+    if (!payload.jti) {
+      throw new Error("Token has no jti claim");
+    }
+    return { ...payload, jti: payload.jti };
+  }
+
+  /**
+   * The public keys tokens may be signed with: the current key and retired
+   * keys whose tokens may not have expired yet.
+   */
+  async getJwks(): Promise<JSONWebKeySet> {
+    const keys = await readSigningKeys();
+    return { keys: keys.map(key => key.publicJwk) };
+  }
+
+  /**
+   * Generates a new signing key and makes it current. Keys are also rotated
+   * automatically once the current one is older than the rotation interval.
+   */
+  async rotateKey(): Promise<SigningKey> {
+    const key = await generateSigningKey(this.options.algorithm);
+    // Published until the last token it can sign has expired
+    await saveSigningKey(key, this.options.keyRotationIntervalSec + this.options.tokenLifetimeSec);
+
+    if (await claimCurrentSigningKey(key.kid, this.options.keyRotationIntervalSec)) {
+      logger.info("Rotated JWT signing key", { kid: key.kid, alg: key.alg });
+      return key;
+    }
+
+    // Another instance rotated first; sign with its key so all instances agree
+    const currentKid = await readCurrentSigningKeyId();
+    return (currentKid && await readSigningKey(currentKid)) || key;
+  }
+
+  private async currentKey(): Promise<SigningKey> {
+    const kid = await readCurrentSigningKeyId();
+    const key = kid ? await readSigningKey(kid) : undefined;
+    return key ?? this.rotateKey();
+  }
+}
+
+async function generateSigningKey(alg: JwtSigningAlgorithm): Promise<SigningKey> {
+  const { privateKey, publicKey } = await generateKeyPair(alg, { extractable: true });
+  const kid = crypto.randomUUID();
+  return {
+    kid,
+    alg,
+    privateJwk: { ...await exportJWK(privateKey), kid, alg },
+    publicJwk: { ...await exportJWK(publicKey), kid, alg, use: "sig" },
+    createdAt: Date.now() / 1000,
+  };
+}
@@ -1,12 +1,22 @@
 import { jest, describe, beforeEach, it, expect } from '@jest/globals';
 import { Response } from "express";
+import { decodeJwt } from "jose";
 import { AuthorizationParams } from "@modelcontextprotocol/sdk/server/auth/provider.js";
 import { OAuthClientInformationFull, OAuthTokenRevocationRequest, OAuthTokens } from "@modelcontextprotocol/sdk/shared/auth.js";
-import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { AccessDeniedError, InvalidGrantError, InvalidScopeError, InvalidTargetError, InvalidTokenError, UnauthorizedClientError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
 import { MockRedisClient, setRedisClient } from "../../shared/redis.js";
 import { McpInstallation, PendingAuthorization, TokenExchange } from "../types.js";
 import { FeatureReferenceAuthProvider, FeatureReferenceOAuthClientsStore } from "./provider.js";
+import { JwtAccessTokens } from "./jwt.js";
 import * as authService from "../services/auth.js";
+import { REDIS_KEY_PREFIXES } from "../services/redis-auth.js";
+import { grantIdOf, sha256 } from "./auth-core.js";
+import { completeAuthorization } from "./grants.js";
+import { createUpstreamGrant } from "./upstream-tokens.js";
+import { DEVICE_POLL_INTERVAL_SEC, DEVICE_POLL_SLOW_DOWN_SEC } from "./device.js";
+import { DEVICE_CODE_GRANT_TYPE } from "../../../interfaces/oauth-metadata.js";
+import { isTokenIdDenied } from "../../../interfaces/token-denylist.js";
+import { RevocationEvent, subscribeToRevocations } from "../../../interfaces/revocation-events.js";
 
 // Helper function to create sample client
 function createTestClient(): OAuthClientInformationFull {
@@ -25,7 +35,8 @@ function createMockResponse() {
     status: jest.fn().mockReturnThis(),
     json: jest.fn().mockReturnThis(),
     send: jest.fn().mockReturnThis(),
-    setHeader: jest.fn().mockReturnThis()
+    setHeader: jest.fn().mockReturnThis(),
+    req: { headers: {} }
   };
   return res as unknown as jest.Mocked<Response>;
 }
@@ -42,9 +53,10 @@ function getMockAuthValues() {
     expires_in: 3600,
   };
   const mcpInstallation: McpInstallation = {
-    mockUpstreamInstallation: {
-      mockUpstreamAccessToken: "fake-upstream-access-token",
-      mockUpstreamRefreshToken: "fake-upstream-refresh-token",
+    upstreamInstallation: {
+      provider: "mock",
+      accessToken: "fake-upstream-access-token",
+      refreshToken: "fake-upstream-refresh-token",
     },
     mcpTokens: {
       access_token: accessToken,
@@ -89,7 +101,7 @@ describe("FeatureReferenceOAuthClientsStore", () => {
       // Then retrieve it
       const result = await clientsStore.getClient(client.client_id);
       
-      expect(result).toEqual(client);
+      expect(result).toEqual({ ...client, token_endpoint_auth_method: "none" });
     });
   });
   
@@ -97,13 +109,31 @@ describe("FeatureReferenceOAuthClientsStore", () => {
     it("saves and returns client information", async () => {
       const client = createTestClient();
       
-      const result = await clientsStore.registerClient(client);
+      const { registration_access_token, ...result } = await clientsStore.registerClient(client);
       
-      expect(result).toEqual(client);
+      expect(result).toEqual({ ...client, token_endpoint_auth_method: "none" });
+      expect(registration_access_token).toEqual(expect.any(String));
       
       // Verify it was saved
       const retrieved = await clientsStore.getClient(client.client_id);
-      expect(retrieved).toEqual(client);
+      expect(retrieved).toEqual(result);
+    });
+
+    it("returns the secret of confidential clients but never stores it", async () => {
+      const client = { ...createTestClient(), client_secret: "client-secret", client_secret_expires_at: 0 };
+
+      const result = await clientsStore.registerClient(client);
+
+      expect(result).toEqual({
+        ...client,
+        token_endpoint_auth_method: "client_secret_basic",
+        registration_access_token: expect.any(String)
+      });
+      const retrieved = await clientsStore.getClient(client.client_id);
+      expect(retrieved).not.toHaveProperty("client_secret");
+      expect(retrieved).not.toHaveProperty("client_secret_hash");
+      expect(retrieved).not.toHaveProperty("registration_access_token_hash");
+      expect((await authService.getClientRegistration(client.client_id))!.client_secret_hash).toBeDefined();
     });
   });
 });
@@ -139,7 +169,148 @@ describe("FeatureReferenceAuthProvider", () => {
       const sentHtml = (res.send as jest.Mock).mock.calls[0][0];
       expect(sentHtml).toContain('MCP Server Authorization');
       expect(sentHtml).toContain('Authorization Required');
-      expect(sentHtml).toContain('mock-upstream-idp/authorize?redirect_uri=/mock-upstream-idp/callback&state=');
+      expect(sentHtml).toContain('/upstream-idp/authorize?state=');
+    });
+
+    // Signs a user in at the auth server, as the upstream sign-in callback does
+    async function signIn(res: jest.Mocked<Response>, userId: string) {
+      const sessionToken = authService.generateToken();
+      await authService.saveUserSession(sessionToken, {
+        userId,
+        upstreamGrantId: await createUpstreamGrant({
+          provider: "mock",
+          accessToken: "fake-upstream-access-token",
+          refreshToken: "fake-upstream-refresh-token",
+        }),
+        csrfToken: authService.generateToken(),
+        createdAt: Date.now() / 1000,
+      });
+      res.req.headers.cookie = `other=1; mcp_auth_session=${sessionToken}`;
+    }
+
+    it("skips the consent screen for clients the signed-in user already approved", async () => {
+      const client = createTestClient();
+      const params = {
+        redirectUri: "https://example.com/callback",
+        codeChallenge: "test-challenge",
+        scopes: ["tools:read"],
+        state: "client-state",
+      } as unknown as AuthorizationParams;
+      const res = createMockResponse();
+      await signIn(res, "test-user-id");
+      await authService.saveConsent({
+        userId: "test-user-id",
+        clientId: client.client_id,
+        scopes: ["tools:read", "tools:call"],
+        grantedAt: Date.now() / 1000,
+        lastUsedAt: Date.now() / 1000,
+      });
+
+      await provider.authorize(client, params, res);
+
+      expect(res.send).not.toHaveBeenCalled();
+      const redirectUrl = new URL(res.redirect.mock.calls[0][0] as unknown as string);
+      expect(redirectUrl.origin + redirectUrl.pathname).toBe("https://example.com/callback");
+      expect(redirectUrl.searchParams.get("state")).toBe("client-state");
+
+      const tokens = await provider.exchangeAuthorizationCode(client, redirectUrl.searchParams.get("code")!);
+      const authInfo = await provider.verifyAccessToken(tokens.access_token);
+      expect(authInfo.extra).toEqual({ userId: "test-user-id", grantId: expect.any(String) });
+      // Only what was asked for, not everything approved earlier
+      expect(authInfo.scopes).toEqual(["tools:read"]);
+    });
+
+    it("asks for consent again when the client wants more than was approved", async () => {
+      const client = createTestClient();
+      const params = {
+        redirectUri: "https://example.com/callback",
+        codeChallenge: "test-challenge",
+        scopes: ["tools:read", "sampling"],
+      } as unknown as AuthorizationParams;
+      const res = createMockResponse();
+      await signIn(res, "test-user-id");
+      await authService.saveConsent({
+        userId: "test-user-id",
+        clientId: client.client_id,
+        scopes: ["tools:read"],
+        grantedAt: Date.now() / 1000,
+        lastUsedAt: Date.now() / 1000,
+      });
+
+      await provider.authorize(client, params, res);
+
+      expect(res.redirect).not.toHaveBeenCalled();
+      expect(res.send).toHaveBeenCalled();
+    });
+
+    it("saves the requested scopes and shows them on the consent page", async () => {
+      const client = createTestClient();
+      const params = {
+        redirectUri: "https://example.com/callback",
+        codeChallenge: "test-challenge",
+        scopes: ["tools:read", "resources:read"],
+      } as unknown as AuthorizationParams;
+      const res = createMockResponse();
+
+      await provider.authorize(client, params, res);
+
+      const sentHtml = (res.send as jest.Mock).mock.calls[0][0] as string;
+      const authorizationCode = sentHtml.match(/state=([a-f0-9]+)/)![1];
+      const pendingAuth = await authService.readPendingAuthorization(authorizationCode);
+      expect(pendingAuth?.scopes).toEqual(["tools:read", "resources:read"]);
+      expect(sentHtml).toContain('Requested Permissions');
+      expect(sentHtml).toContain('resources:read');
+      expect(sentHtml).not.toContain('tools:call');
+    });
+
+    it("offers every scope when none are requested", async () => {
+      const client = createTestClient();
+      const params = {
+        redirectUri: "https://example.com/callback",
+        codeChallenge: "test-challenge",
+        scopes: [],
+      } as unknown as AuthorizationParams;
+      const res = createMockResponse();
+
+      await provider.authorize(client, params, res);
+
+      const sentHtml = (res.send as jest.Mock).mock.calls[0][0] as string;
+      const authorizationCode = sentHtml.match(/state=([a-f0-9]+)/)![1];
+      const pendingAuth = await authService.readPendingAuthorization(authorizationCode);
+      expect(pendingAuth?.scopes).toEqual(["tools:read", "tools:call", "resources:read", "sampling"]);
+    });
+
+    it("saves the requested resource", async () => {
+      const client = createTestClient();
+      const params = {
+        redirectUri: "https://example.com/callback",
+        codeChallenge: "test-challenge",
+        scopes: [],
+        resource: new URL("https://mcp.example.com/mcp"),
+      } as unknown as AuthorizationParams;
+      const res = createMockResponse();
+
+      await provider.authorize(client, params, res);
+
+      const sentHtml = (res.send as jest.Mock).mock.calls[0][0] as string;
+      const authorizationCode = sentHtml.match(/state=([a-f0-9]+)/)![1];
+      const pendingAuth = await authService.readPendingAuthorization(authorizationCode);
+      expect(pendingAuth?.resource).toBe("https://mcp.example.com/mcp");
+    });
+
+    it("rejects unknown scopes", async () => {
+      const client = createTestClient();
+      const params = {
+        redirectUri: "https://example.com/callback",
+        codeChallenge: "test-challenge",
+        scopes: ["tools:read", "admin"],
+      } as unknown as AuthorizationParams;
+      const res = createMockResponse();
+
+      await expect(provider.authorize(client, params, res))
+        .rejects
+        .toThrow(InvalidScopeError);
+      expect(res.send).not.toHaveBeenCalled();
     });
   });
   
@@ -151,6 +322,7 @@ describe("FeatureReferenceAuthProvider", () => {
         codeChallenge: "test-challenge",
         codeChallengeMethod: "S256",
         clientId: client.client_id,
+        scopes: ["tools:read"],
       };
       
       // First save the pending authorization
@@ -177,6 +349,7 @@ describe("FeatureReferenceAuthProvider", () => {
         codeChallenge: "test-challenge",
         codeChallengeMethod: "S256",
         clientId: "different-client-id",
+        scopes: ["tools:read"],
       };
       
       // Save pending auth with different client ID
@@ -213,6 +386,32 @@ describe("FeatureReferenceAuthProvider", () => {
       });
     });
     
+    it("rejects a resource other than the one authorized", async () => {
+      const client = createTestClient();
+      const { mcpInstallation } = getMockAuthValues();
+      const authCode = authService.generateToken();
+      await authService.saveTokenExchange(authCode, { mcpAccessToken: mcpInstallation.mcpTokens.access_token, alreadyUsed: false });
+      await authService.saveMcpInstallation(mcpInstallation.mcpTokens.access_token, { ...mcpInstallation, resource: "https://mcp.example.com/mcp" });
+
+      await expect(provider.exchangeAuthorizationCode(client, authCode, undefined, undefined, new URL("https://other.example.com/mcp")))
+        .rejects
+        .toThrow(InvalidTargetError);
+    });
+
+    it("binds the tokens to a resource first named at the token endpoint", async () => {
+      const client = createTestClient();
+      const { mcpInstallation } = getMockAuthValues();
+      const accessToken = mcpInstallation.mcpTokens.access_token;
+      const authCode = authService.generateToken();
+      await authService.saveTokenExchange(authCode, { mcpAccessToken: accessToken, alreadyUsed: false });
+      await authService.saveMcpInstallation(accessToken, mcpInstallation);
+
+      await provider.exchangeAuthorizationCode(client, authCode, undefined, undefined, new URL("https://mcp.example.com/mcp"));
+
+      const authInfo = await provider.verifyAccessToken(accessToken);
+      expect(authInfo.resource?.href).toBe("https://mcp.example.com/mcp");
+    });
+
     it("throws error for invalid authorization code", async () => {
       const client = createTestClient();
       
@@ -243,7 +442,142 @@ describe("FeatureReferenceAuthProvider", () => {
       expect(result).toHaveProperty('expires_in', 3600);
       expect(result).toHaveProperty('token_type', 'Bearer');
     });
+
+    it("narrows the granted scopes when fewer are requested", async () => {
+      const { client, accessToken, mcpInstallation } = getMockAuthValues();
+      const refreshToken = authService.generateToken();
+      await authService.saveRefreshToken(refreshToken, accessToken);
+      await authService.saveMcpInstallation(accessToken, { ...mcpInstallation, scopes: ["tools:read", "tools:call"] });
+
+      const result = await provider.exchangeRefreshToken(client, refreshToken, ["tools:read"]);
+
+      expect(result.scope).toBe("tools:read");
+      const authInfo = await provider.verifyAccessToken(result.access_token);
+      expect(authInfo.scopes).toEqual(["tools:read"]);
+    });
+
+    it("refuses to widen the granted scopes", async () => {
+      const { client, accessToken, mcpInstallation } = getMockAuthValues();
+      const refreshToken = authService.generateToken();
+      await authService.saveRefreshToken(refreshToken, accessToken);
+      await authService.saveMcpInstallation(accessToken, { ...mcpInstallation, scopes: ["tools:read"] });
+
+      await expect(provider.exchangeRefreshToken(client, refreshToken, ["tools:read", "tools:call"]))
+        .rejects
+        .toThrow(InvalidScopeError);
+    });
     
+    it("keeps the tokens bound to their resource", async () => {
+      const { client, accessToken, mcpInstallation } = getMockAuthValues();
+      const refreshToken = authService.generateToken();
+      await authService.saveRefreshToken(refreshToken, accessToken);
+      await authService.saveMcpInstallation(accessToken, { ...mcpInstallation, resource: "https://mcp.example.com/mcp" });
+
+      await expect(provider.exchangeRefreshToken(client, refreshToken, undefined, new URL("https://other.example.com/mcp")))
+        .rejects
+        .toThrow(InvalidTargetError);
+
+      const result = await provider.exchangeRefreshToken(client, refreshToken);
+      const authInfo = await provider.verifyAccessToken(result.access_token);
+      expect(authInfo.resource?.href).toBe("https://mcp.example.com/mcp");
+    });
+
+    it("invalidates the refresh token and access token it replaces", async () => {
+      const { client, accessToken, mcpInstallation } = getMockAuthValues();
+      const refreshToken = authService.generateToken();
+      await authService.saveRefreshToken(refreshToken, accessToken);
+      await authService.saveMcpInstallation(accessToken, mcpInstallation);
+
+      const result = await provider.exchangeRefreshToken(client, refreshToken);
+
+      expect(result.refresh_token).not.toBe(refreshToken);
+      expect(await authService.readRefreshToken(refreshToken)).toBeUndefined();
+      await expect(provider.verifyAccessToken(accessToken)).rejects.toThrow(InvalidTokenError);
+      await expect(provider.verifyAccessToken(result.access_token)).resolves.toBeDefined();
+    });
+
+    it("records the consent's last use on refresh, not on every token check", async () => {
+      const { client, accessToken, mcpInstallation } = getMockAuthValues();
+      const refreshToken = authService.generateToken();
+      await authService.saveRefreshToken(refreshToken, accessToken);
+      await authService.saveMcpInstallation(accessToken, mcpInstallation);
+      const consent = {
+        userId: "test-user-id",
+        clientId: client.client_id,
+        scopes: ["tools:read"],
+        grantedAt: 1000,
+        lastUsedAt: 1000,
+      };
+      await authService.saveConsent(consent);
+
+      await provider.verifyAccessToken(accessToken);
+      expect((await authService.readConsent("test-user-id", client.client_id))?.lastUsedAt).toBe(1000);
+
+      await provider.exchangeRefreshToken(client, refreshToken);
+      expect((await authService.readConsent("test-user-id", client.client_id))?.lastUsedAt).toBeGreaterThan(1000);
+    });
+
+    it("keeps refreshed installations in the same token family", async () => {
+      const { client, accessToken, mcpInstallation } = getMockAuthValues();
+      const refreshToken = authService.generateToken();
+      await authService.saveRefreshToken(refreshToken, accessToken);
+      const familyId = authService.generateToken();
+      await authService.saveMcpInstallation(accessToken, { ...mcpInstallation, familyId });
+
+      const first = await provider.exchangeRefreshToken(client, refreshToken);
+      const second = await provider.exchangeRefreshToken(client, first.refresh_token!);
+
+      expect((await authService.readMcpInstallation(second.access_token))?.familyId).toBe(familyId);
+    });
+
+    it("revokes the whole token family when a rotated refresh token is reused", async () => {
+      const { client, accessToken, mcpInstallation } = getMockAuthValues();
+      const refreshToken = authService.generateToken();
+      await authService.saveRefreshToken(refreshToken, accessToken);
+      await authService.saveMcpInstallation(accessToken, mcpInstallation);
+      const first = await provider.exchangeRefreshToken(client, refreshToken);
+      const second = await provider.exchangeRefreshToken(client, first.refresh_token!);
+
+      await expect(provider.exchangeRefreshToken(client, refreshToken))
+        .rejects
+        .toThrow(InvalidGrantError);
+
+      await expect(provider.verifyAccessToken(second.access_token)).rejects.toThrow(InvalidTokenError);
+      await expect(provider.exchangeRefreshToken(client, second.refresh_token!)).rejects.toThrow();
+    });
+
+    it("does not let another client revoke the family with a rotated refresh token", async () => {
+      const { client, accessToken, mcpInstallation } = getMockAuthValues();
+      const refreshToken = authService.generateToken();
+      await authService.saveRefreshToken(refreshToken, accessToken);
+      await authService.saveMcpInstallation(accessToken, mcpInstallation);
+      const first = await provider.exchangeRefreshToken(client, refreshToken);
+      const otherClient = { ...client, client_id: "other-client" };
+
+      await expect(provider.exchangeRefreshToken(otherClient, refreshToken))
+        .rejects
+        .toThrow(new InvalidGrantError("Invalid refresh token"));
+
+      await expect(provider.verifyAccessToken(first.access_token)).resolves.toBeDefined();
+      await expect(provider.exchangeRefreshToken(client, first.refresh_token!)).resolves.toBeDefined();
+    });
+
+    it("treats concurrent use of one refresh token as reuse", async () => {
+      const { client, accessToken, mcpInstallation } = getMockAuthValues();
+      const refreshToken = authService.generateToken();
+      await authService.saveRefreshToken(refreshToken, accessToken);
+      await authService.saveMcpInstallation(accessToken, { ...mcpInstallation, familyId: authService.generateToken() });
+
+      const results = await Promise.allSettled([
+        provider.exchangeRefreshToken(client, refreshToken),
+        provider.exchangeRefreshToken(client, refreshToken),
+      ]);
+
+      const rejected = results.filter(result => result.status === "rejected");
+      expect(rejected).toHaveLength(1);
+      expect((rejected[0] as PromiseRejectedResult).reason).toBeInstanceOf(InvalidGrantError);
+    });
+
     it("throws error for invalid refresh token", async () => {
       const client = createTestClient();
       
@@ -271,9 +605,10 @@ describe("FeatureReferenceAuthProvider", () => {
       const refreshToken = authService.generateToken();
       
       const mcpInstallation: McpInstallation = {
-        mockUpstreamInstallation: {
-          mockUpstreamAccessToken: "fake-upstream-access-token",
-          mockUpstreamRefreshToken: "fake-upstream-refresh-token",
+        upstreamInstallation: {
+          provider: "mock",
+          accessToken: "fake-upstream-access-token",
+          refreshToken: "fake-upstream-refresh-token",
         },
         mcpTokens: {
           access_token: accessToken,
@@ -303,13 +638,164 @@ describe("FeatureReferenceAuthProvider", () => {
     });
   });
   
+  describe("exchangeClientCredentials", () => {
+    const serviceClient = (metadata: Partial<OAuthClientInformationFull> = {}): OAuthClientInformationFull => ({
+      ...createTestClient(),
+      token_endpoint_auth_method: "client_secret_basic",
+      grant_types: ["client_credentials"],
+      ...metadata
+    });
+
+    it("issues an access token for the client's service principal", async () => {
+      const tokens = await provider.exchangeClientCredentials(serviceClient());
+
+      expect(tokens.refresh_token).toBeUndefined();
+      expect(tokens.scope).toBe("tools:read tools:call resources:read");
+      const authInfo = await provider.verifyAccessToken(tokens.access_token);
+      expect(authInfo.clientId).toBe("test-client-id");
+      expect(authInfo.extra?.userId).toBe("svc:test-client-id");
+    });
+
+    it("narrows the scopes to those the client registered and asked for", async () => {
+      const client = serviceClient({ scope: "tools:read tools:call" });
+
+      expect((await provider.exchangeClientCredentials(client)).scope).toBe("tools:read tools:call");
+      expect((await provider.exchangeClientCredentials(client, ["tools:read"])).scope).toBe("tools:read");
+      await expect(provider.exchangeClientCredentials(client, ["resources:read"])).rejects.toThrow(InvalidScopeError);
+    });
+
+    it("never grants sampling", async () => {
+      await expect(provider.exchangeClientCredentials(serviceClient({ scope: "sampling" }), ["sampling"]))
+        .rejects.toThrow(InvalidScopeError);
+    });
+
+    it("binds the token to the requested resource", async () => {
+      const tokens = await provider.exchangeClientCredentials(serviceClient(), undefined, new URL("https://mcp.example.com/mcp"));
+
+      expect((await provider.verifyAccessToken(tokens.access_token)).resource?.href).toBe("https://mcp.example.com/mcp");
+    });
+
+    it("refuses clients not registered for the grant, and public clients", async () => {
+      await expect(provider.exchangeClientCredentials(serviceClient({ grant_types: ["authorization_code"] })))
+        .rejects.toThrow(UnauthorizedClientError);
+      await expect(provider.exchangeClientCredentials(serviceClient({ token_endpoint_auth_method: "none" })))
+        .rejects.toThrow(UnauthorizedClientError);
+    });
+  });
+
+  describe("device authorization", () => {
+    const deviceClient = (): OAuthClientInformationFull => ({
+      ...createTestClient(),
+      redirect_uris: [],
+      token_endpoint_auth_method: "none",
+      grant_types: [DEVICE_CODE_GRANT_TYPE],
+    });
+
+    // The mock Redis client ignores expiry, so the device may poll again only once this is called
+    const allowNextPoll = (deviceCode: string) => mockRedis.del(REDIS_KEY_PREFIXES.DEVICE_POLL + sha256(deviceCode));
+
+    // What the verification page does once the user has signed in upstream
+    const approve = async (userCode: string) => {
+      const { authorizationCode } = (await authService.readDeviceUserCode(userCode))!;
+      const pendingAuth = (await authService.readPendingAuthorization(authorizationCode))!;
+      return completeAuthorization(authorizationCode, pendingAuth, "test-user-id",
+        await createUpstreamGrant({ provider: "mock", accessToken: "upstream-token" }));
+    };
+
+    it("issues a device code and a readable user code", async () => {
+      const grant = await provider.authorizeDevice(deviceClient(), ["tools:read"]);
+
+      expect(grant.userCode).toMatch(/^[B-Z]{4}-[B-Z]{4}$/);
+      expect(grant.interval).toBe(DEVICE_POLL_INTERVAL_SEC);
+      const { authorizationCode } = (await authService.readDeviceUserCode(grant.userCode))!;
+      expect(await authService.readPendingAuthorization(authorizationCode)).toEqual(expect.objectContaining({
+        clientId: "test-client-id",
+        scopes: ["tools:read"],
+        device: true,
+      }));
+    });
+
+    it("refuses clients not registered for the grant", async () => {
+      await expect(provider.authorizeDevice(createTestClient())).rejects.toThrow(UnauthorizedClientError);
+    });
+
+    it("answers authorization_pending until the user approves, then issues tokens once", async () => {
+      const client = deviceClient();
+      const { deviceCode, userCode } = await provider.authorizeDevice(client, ["tools:read"]);
+
+      await expect(provider.exchangeDeviceCode(client, deviceCode)).rejects.toMatchObject({ errorCode: "authorization_pending" });
+
+      expect(await approve(userCode)).toBe("/device/complete");
+      await allowNextPoll(deviceCode);
+      const tokens = await provider.exchangeDeviceCode(client, deviceCode);
+
+      expect(tokens.scope).toBe("tools:read");
+      expect(tokens.refresh_token).toEqual(expect.any(String));
+      expect((await provider.verifyAccessToken(tokens.access_token)).extra?.userId).toBe("test-user-id");
+
+      await allowNextPoll(deviceCode);
+      await expect(provider.exchangeDeviceCode(client, deviceCode)).rejects.toThrow(InvalidGrantError);
+    });
+
+    it("answers slow_down and raises the interval when the device polls too fast", async () => {
+      const client = deviceClient();
+      const { deviceCode } = await provider.authorizeDevice(client);
+
+      await expect(provider.exchangeDeviceCode(client, deviceCode)).rejects.toMatchObject({ errorCode: "authorization_pending" });
+      await expect(provider.exchangeDeviceCode(client, deviceCode)).rejects.toMatchObject({ errorCode: "slow_down" });
+
+      expect((await authService.readDeviceAuthorization(deviceCode))!.intervalSec)
+        .toBe(DEVICE_POLL_INTERVAL_SEC + DEVICE_POLL_SLOW_DOWN_SEC);
+    });
+
+    it("answers expired_token once the device code has expired", async () => {
+      const client = deviceClient();
+      const { deviceCode, expiresIn } = await provider.authorizeDevice(client);
+      const now = Date.now();
+      const dateNow = jest.spyOn(Date, "now").mockReturnValue(now + (expiresIn + 1) * 1000);
+
+      try {
+        await expect(provider.exchangeDeviceCode(client, deviceCode)).rejects.toMatchObject({ errorCode: "expired_token" });
+      } finally {
+        dateNow.mockRestore();
+      }
+    });
+
+    it("answers access_denied once the user denies the device", async () => {
+      const client = deviceClient();
+      const { deviceCode, userCode } = await provider.authorizeDevice(client);
+
+      await authService.denyDeviceUserCode(userCode);
+
+      await expect(provider.exchangeDeviceCode(client, deviceCode)).rejects.toThrow(AccessDeniedError);
+      await allowNextPoll(deviceCode);
+      await expect(provider.exchangeDeviceCode(client, deviceCode)).rejects.toThrow(InvalidGrantError);
+    });
+
+    it("refuses device codes issued to another client", async () => {
+      const { deviceCode } = await provider.authorizeDevice(deviceClient());
+
+      await expect(provider.exchangeDeviceCode({ ...deviceClient(), client_id: "other-client" }, deviceCode))
+        .rejects.toThrow(InvalidGrantError);
+    });
+
+    it("does not let the code behind a device authorization be exchanged directly", async () => {
+      const client = deviceClient();
+      const { userCode } = await provider.authorizeDevice(client);
+      const { authorizationCode } = (await authService.readDeviceUserCode(userCode))!;
+
+      await expect(provider.challengeForAuthorizationCode(client, authorizationCode)).rejects.toThrow(InvalidGrantError);
+    });
+  });
+
   describe("verifyAccessToken", () => {
     it("returns auth info for valid token", async () => {
       const accessToken = authService.generateToken();
       const mcpInstallation: McpInstallation = {
-        mockUpstreamInstallation: {
-          mockUpstreamAccessToken: "fake-upstream-access-token",
-          mockUpstreamRefreshToken: "fake-upstream-refresh-token",
+        upstreamInstallation: {
+          provider: "mock",
+          accessToken: "fake-upstream-access-token",
+          refreshToken: "fake-upstream-refresh-token",
         },
         mcpTokens: {
           access_token: accessToken,
@@ -336,6 +822,15 @@ describe("FeatureReferenceAuthProvider", () => {
       });
     });
     
+    it("returns the scopes granted to the installation", async () => {
+      const { accessToken, mcpInstallation } = getMockAuthValues();
+      await authService.saveMcpInstallation(accessToken, { ...mcpInstallation, scopes: ["tools:read", "resources:read"] });
+
+      const result = await provider.verifyAccessToken(accessToken);
+
+      expect(result.scopes).toEqual(["tools:read", "resources:read"]);
+    });
+    
     it("throws error for invalid token", async () => {
       await expect(provider.verifyAccessToken("invalid-token"))
         .rejects
@@ -348,9 +843,10 @@ describe("FeatureReferenceAuthProvider", () => {
       const twoDaysAgoInSeconds = Math.floor(Date.now() / 1000) - (2 * oneDayInSeconds);
       
       const mcpInstallation: McpInstallation = {
-        mockUpstreamInstallation: {
-          mockUpstreamAccessToken: "fake-upstream-access-token",
-          mockUpstreamRefreshToken: "fake-upstream-refresh-token",
+        upstreamInstallation: {
+          provider: "mock",
+          accessToken: "fake-upstream-access-token",
+          refreshToken: "fake-upstream-refresh-token",
         },
         mcpTokens: {
           access_token: accessToken,
@@ -375,9 +871,10 @@ describe("FeatureReferenceAuthProvider", () => {
       const client = createTestClient();
       const accessToken = authService.generateToken();
       const mcpInstallation: McpInstallation = {
-        mockUpstreamInstallation: {
-          mockUpstreamAccessToken: "fake-upstream-access-token",
-          mockUpstreamRefreshToken: "fake-upstream-refresh-token",
+        upstreamInstallation: {
+          provider: "mock",
+          accessToken: "fake-upstream-access-token",
+          refreshToken: "fake-upstream-refresh-token",
         },
         mcpTokens: {
           access_token: accessToken,
@@ -408,5 +905,216 @@ describe("FeatureReferenceAuthProvider", () => {
       const revoked = await authService.readMcpInstallation(accessToken);
       expect(revoked).toBeUndefined();
     });
+
+    // Saves an installation with its refresh token, as a token exchange would
+    async function saveTokenPair() {
+      const { client, accessToken, mcpInstallation } = getMockAuthValues();
+      const refreshToken = mcpInstallation.mcpTokens.refresh_token!;
+      await authService.saveMcpInstallation(accessToken, mcpInstallation);
+      await authService.saveRefreshToken(refreshToken, accessToken);
+      return { client, accessToken, refreshToken };
+    }
+
+    it("revokes the refresh token along with an access token", async () => {
+      const { client, accessToken, refreshToken } = await saveTokenPair();
+
+      await provider.revokeToken(client, { token: accessToken, token_type_hint: "access_token" });
+
+      expect(await authService.readRefreshToken(refreshToken)).toBeUndefined();
+      await expect(provider.exchangeRefreshToken(client, refreshToken)).rejects.toThrow();
+    });
+
+    it("revokes the access token along with a refresh token", async () => {
+      const { client, accessToken, refreshToken } = await saveTokenPair();
+
+      await provider.revokeToken(client, { token: refreshToken, token_type_hint: "refresh_token" });
+
+      expect(await authService.readRefreshToken(refreshToken)).toBeUndefined();
+      await expect(provider.verifyAccessToken(accessToken)).rejects.toThrow(InvalidTokenError);
+    });
+
+    it("finds tokens despite a wrong or missing hint", async () => {
+      const first = await saveTokenPair();
+      const second = await saveTokenPair();
+
+      await provider.revokeToken(first.client, { token: first.refreshToken, token_type_hint: "access_token" });
+      await provider.revokeToken(second.client, { token: second.refreshToken });
+
+      await expect(provider.verifyAccessToken(first.accessToken)).rejects.toThrow(InvalidTokenError);
+      await expect(provider.verifyAccessToken(second.accessToken)).rejects.toThrow(InvalidTokenError);
+    });
+
+    it("revokes every token of a rotated token family", async () => {
+      const { client, refreshToken } = await saveTokenPair();
+      const rotated = await provider.exchangeRefreshToken(client, refreshToken);
+
+      await provider.revokeToken(client, { token: rotated.access_token });
+
+      expect(await authService.readRefreshToken(rotated.refresh_token!)).toBeUndefined();
+      await expect(provider.exchangeRefreshToken(client, rotated.refresh_token!)).rejects.toThrow();
+    });
+
+    it("refuses to revoke tokens issued to another client", async () => {
+      const { accessToken, refreshToken } = await saveTokenPair();
+      const otherClient = { ...createTestClient(), client_id: "other-client-id" };
+
+      await expect(provider.revokeToken(otherClient, { token: refreshToken }))
+        .rejects
+        .toThrow(UnauthorizedClientError);
+      await expect(provider.verifyAccessToken(accessToken)).resolves.toBeDefined();
+    });
+
+    it("announces the revocation so open sessions can be ended", async () => {
+      const { client, accessToken } = await saveTokenPair();
+      const events: RevocationEvent[] = [];
+      await subscribeToRevocations(mockRedis, event => { events.push(event); });
+
+      await provider.revokeToken(client, { token: accessToken });
+
+      expect(events).toEqual([{ userId: "test-user-id", clientId: client.client_id }]);
+    });
+
+    it("announces which grant was revoked", async () => {
+      const { client, accessToken, mcpInstallation } = getMockAuthValues();
+      const familyId = authService.generateToken();
+      await authService.saveMcpInstallation(accessToken, { ...mcpInstallation, familyId });
+      const events: RevocationEvent[] = [];
+      await subscribeToRevocations(mockRedis, event => { events.push(event); });
+
+      await provider.revokeToken(client, { token: accessToken });
+
+      expect(events).toEqual([{ userId: "test-user-id", clientId: client.client_id, grantId: grantIdOf(familyId) }]);
+    });
+
+    it("ignores unknown tokens", async () => {
+      const client = createTestClient();
+      const events: RevocationEvent[] = [];
+      await subscribeToRevocations(mockRedis, event => { events.push(event); });
+
+      await expect(provider.revokeToken(client, { token: authService.generateToken(), token_type_hint: "refresh_token" }))
+        .resolves
+        .toBeUndefined();
+      expect(events).toEqual([]);
+    });
   });
-});
\ No newline at end of file
+});
+
+describe("FeatureReferenceAuthProvider with JWT access tokens", () => {
+  let provider: FeatureReferenceAuthProvider;
+  let mockRedis: MockRedisClient;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+
+    mockRedis = new MockRedisClient();
+    setRedisClient(mockRedis);
+
+    provider = new FeatureReferenceAuthProvider(new JwtAccessTokens({
+      issuer: "https://auth.example.com",
+      defaultAudience: "https://auth.example.com",
+      algorithm: "ES256",
+      keyRotationIntervalSec: 24 * 60 * 60,
+      tokenLifetimeSec: 3600,
+    }));
+  });
+
+  // Exchanges an authorization code for a saved installation
+  async function issueTokens() {
+    const { client, mcpInstallation } = getMockAuthValues();
+    const authCode = authService.generateToken();
+    await authService.saveTokenExchange(authCode, { mcpAccessToken: mcpInstallation.mcpTokens.access_token, alreadyUsed: false });
+    await authService.saveMcpInstallation(mcpInstallation.mcpTokens.access_token, mcpInstallation);
+    const tokens = await provider.exchangeAuthorizationCode(client, authCode);
+    return { client, mcpInstallation, tokens };
+  }
+
+  it("issues a JWT wrapping the installation's access token", async () => {
+    const { mcpInstallation, tokens } = await issueTokens();
+
+    expect(tokens.access_token.split(".")).toHaveLength(3);
+    expect(tokens.refresh_token).toBe(mcpInstallation.mcpTokens.refresh_token);
+
+    const authInfo = await provider.verifyAccessToken(tokens.access_token);
+    expect(authInfo).toEqual(expect.objectContaining({
+      token: tokens.access_token,
+      clientId: mcpInstallation.clientId,
+      extra: { userId: "test-user-id" },
+    }));
+  });
+
+  it("names the grant the JWT belongs to, but not its token family", async () => {
+    const { client, mcpInstallation } = getMockAuthValues();
+    const familyId = authService.generateToken();
+    const authCode = authService.generateToken();
+    await authService.saveTokenExchange(authCode, { mcpAccessToken: mcpInstallation.mcpTokens.access_token, alreadyUsed: false });
+    await authService.saveMcpInstallation(mcpInstallation.mcpTokens.access_token, { ...mcpInstallation, familyId });
+    const tokens = await provider.exchangeAuthorizationCode(client, authCode);
+
+    const claims = decodeJwt(tokens.access_token);
+    expect(claims.grant_id).toBe(grantIdOf(familyId));
+    expect(JSON.stringify(claims)).not.toContain(familyId);
+    expect((await provider.verifyAccessToken(tokens.access_token)).extra?.grantId).toBe(claims.grant_id);
+  });
+
+  it("issues a JWT on refresh", async () => {
+    const { client, mcpInstallation } = getMockAuthValues();
+    const refreshToken = authService.generateToken();
+    await authService.saveRefreshToken(refreshToken, mcpInstallation.mcpTokens.access_token);
+    await authService.saveMcpInstallation(mcpInstallation.mcpTokens.access_token, mcpInstallation);
+
+    const tokens = await provider.exchangeRefreshToken(client, refreshToken);
+
+    await expect(provider.verifyAccessToken(tokens.access_token)).resolves.toBeDefined();
+  });
+
+  it("gives the JWT a random ID that doesn't reveal the opaque access token", async () => {
+    const { mcpInstallation, tokens } = await issueTokens();
+    const { jti } = decodeJwt(tokens.access_token);
+
+    expect(jti).toEqual(expect.any(String));
+    expect(jti).not.toBe(mcpInstallation.mcpTokens.access_token);
+    expect(tokens.access_token).not.toContain(mcpInstallation.mcpTokens.access_token);
+    expect((await authService.readMcpInstallation(mcpInstallation.mcpTokens.access_token))!.tokenId).toBe(jti);
+  });
+
+  it("refuses validly signed tokens whose ID links to no installation", async () => {
+    const { tokens } = await issueTokens();
+    await mockRedis.del(REDIS_KEY_PREFIXES.ACCESS_TOKEN_ID + sha256(decodeJwt(tokens.access_token).jti!));
+
+    await expect(provider.verifyAccessToken(tokens.access_token)).rejects.toThrow(InvalidTokenError);
+  });
+
+  it("refuses opaque access tokens", async () => {
+    const { mcpInstallation } = await issueTokens();
+
+    await expect(provider.verifyAccessToken(mcpInstallation.mcpTokens.access_token))
+      .rejects
+      .toThrow(InvalidTokenError);
+  });
+
+  it("refuses tampered tokens", async () => {
+    const { tokens } = await issueTokens();
+    const [header, , signature] = tokens.access_token.split(".");
+    const payload = Buffer.from(JSON.stringify({ jti: "forged", iss: "https://auth.example.com" })).toString("base64url");
+
+    await expect(provider.verifyAccessToken(`${header}.${payload}.${signature}`))
+      .rejects
+      .toThrow(InvalidTokenError);
+  });
+
+  it("revokes the installation and denylists the token", async () => {
+    const { client, tokens } = await issueTokens();
+    const { jti } = decodeJwt(tokens.access_token);
+
+    await provider.revokeToken(client, { token: tokens.access_token });
+
+    await expect(provider.verifyAccessToken(tokens.access_token)).rejects.toThrow(InvalidTokenError);
+    expect(await isTokenIdDenied(mockRedis, jti!)).toBe(true);
+  });
+
+  it("ignores revocation of invalid tokens", async () => {
+    const client = createTestClient();
+
+    await expect(provider.revokeToken(client, { token: "not-a-token" })).resolves.toBeUndefined();
+  });
+});
@@ -1,7 +1,12 @@
 import { Response } from 'express';
 import { OAuthServerProvider, AuthorizationParams } from '@modelcontextprotocol/sdk/server/auth/provider.js';
 import { OAuthRegisteredClientsStore } from '@modelcontextprotocol/sdk/server/auth/clients.js';
-import { OAuthClientInformationFull, OAuthTokenRevocationRequest, OAuthTokens } from '@modelcontextprotocol/sdk/shared/auth.js';
+import {
+  OAuthClientInformationFull,
+  OAuthClientMetadataSchema,
+  OAuthTokenRevocationRequest,
+  OAuthTokens
+} from '@modelcontextprotocol/sdk/shared/auth.js';
 import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import {
   exchangeToken,
@@ -16,25 +21,295 @@ import {
   generateMcpTokens,
   saveMcpInstallation,
   saveRefreshToken,
+  consumeRefreshToken,
+  readRotatedRefreshToken,
+  readTokenFamily,
+  revokeTokenFamily,
+  saveTokenFamily,
+  deleteRefreshToken,
+  announceRevocation,
+  recordConsentUse,
+  addClientFamily,
+  deleteClientRegistration,
+  saveDeviceAuthorization,
+  saveDeviceUserCode,
+  readDeviceAuthorization,
+  readDeviceUserCode,
+  updateDeviceAuthorization,
+  deleteDeviceAuthorization,
+  recordDevicePoll,
+  saveAccessTokenId,
+  readAccessTokenId,
+  updateMcpInstallation,
+  keepUpstreamGrant,
 } from '../services/auth.js';
-import { InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { ClientConfiguration, ClientRegistration, McpInstallation, PendingAuthorization, TokenExchange } from '../types.js';
+import { isJwt, JwtAccessTokens } from './jwt.js';
+import { escapeHtml } from './html.js';
+import { completeAuthorization, hasConsent, revokeClientGrants } from './grants.js';
+import { getUserSession } from './user-session.js';
+import { getUpstreamAccessToken } from './upstream-tokens.js';
+import { prepareClientRegistration, secretMatches, toClientInformation, validateClientMetadata } from './client-auth.js';
+import { ACCESS_TOKEN_EXPIRY_SEC, grantIdOf, sha256 } from './auth-core.js';
+import { ClientMetadataDocuments, isClientIdMetadataDocumentUrl } from './client-metadata.js';
+import {
+  DEVICE_CODE_EXPIRY_SEC,
+  DEVICE_COMPLETE_PATH,
+  DEVICE_POLL_INTERVAL_SEC,
+  DEVICE_POLL_SLOW_DOWN_SEC,
+  generateUserCode,
+} from './device.js';
+import { MockUpstreamIdentityProvider } from '../upstream/mock.js';
+import { UpstreamIdentityProvider } from '../upstream/types.js';
+import {
+  AccessDeniedError,
+  CustomOAuthError,
+  InvalidClientMetadataError,
+  InvalidGrantError,
+  InvalidRequestError,
+  InvalidScopeError,
+  InvalidTargetError,
+  InvalidTokenError,
+  UnauthorizedClientError,
+} from '@modelcontextprotocol/sdk/server/auth/errors.js';
 import { logger } from '../../shared/logger.js';
+import { DEVICE_CODE_GRANT_TYPE } from '../../../interfaces/oauth-metadata.js';
+import { ALL_SCOPES, LEGACY_FULL_ACCESS_SCOPE, SCOPE_CATALOG, SERVICE_SCOPES, isKnownScope } from '../../../interfaces/scopes.js';
+import { UpstreamToken, UpstreamTokenUnavailableError } from '../../../interfaces/upstream-tokens.js';
+
+/**
+ * A token's installation, with the opaque access token it is stored under
+ */
+interface TokenGrant {
+  mcpAccessToken: string;
+  installation: McpInstallation;
+}
+
+/**
+ * Validates the scopes a client asked for. Clients that don't ask for
+ * anything are offered the whole catalog.
+ */
+function resolveRequestedScopes(requested: string[] | undefined): string[] {
+  if (!requested || requested.length === 0) {
+    return [...ALL_SCOPES];
+  }
+  const unknown = requested.filter(scope => !isKnownScope(scope));
+  if (unknown.length > 0) {
+    throw new InvalidScopeError(`Unsupported scope: ${unknown.join(' ')}`);
+  }
+  return [...new Set(requested)];
+}
+
+/**
+ * Checks an RFC 8707 resource indicator against the one the tokens are
+ * already bound to, if any. Returns the resource the tokens end up bound to.
+ */
+function resolveResource(bound: string | undefined, requested: URL | undefined): string | undefined {
+  if (!requested) {
+    return bound;
+  }
+  if (requested.hash) {
+    throw new InvalidTargetError('Resource must not contain a fragment');
+  }
+  if (bound && bound !== requested.href) {
+    throw new InvalidTargetError(`Tokens were not issued for resource ${requested.href}`);
+  }
+  return requested.href;
+}
+
+/**
+ * A new device authorization (RFC 8628 section 3.2)
+ */
+export interface DeviceAuthorizationGrant {
+  deviceCode: string;
+  userCode: string;
+  /** Seconds until the device code expires */
+  expiresIn: number;
+  /** Seconds the device must wait between polls */
+  interval: number;
+}
 
 /**
- * Implementation of the OAuthRegisteredClientsStore interface using the existing client registration system
+ * Prefix of the user IDs of service principals, the identities clients act
+ * as when they obtain tokens for themselves with the client_credentials grant
+ */
+export const SERVICE_USER_ID_PREFIX = 'svc:';
+
+export function serviceUserId(clientId: string): string {
+  return `${SERVICE_USER_ID_PREFIX}${clientId}`;
+}
+
+/**
+ * Validates the scopes a service principal asked for against those it may
+ * have: the service scopes, narrowed to the scope the client registered
+ * with, if any. Clients that don't ask for anything get all of them.
+ */
+function resolveServiceScopes(client: OAuthClientInformationFull, requested: string[] | undefined): string[] {
+  const registered = client.scope?.split(' ').filter(Boolean);
+  const allowed: string[] = registered?.length
+    ? SERVICE_SCOPES.filter(scope => registered.includes(scope))
+    : [...SERVICE_SCOPES];
+  if (!requested || requested.length === 0) {
+    return allowed;
+  }
+  const refused = requested.filter(scope => !allowed.includes(scope));
+  if (refused.length > 0) {
+    throw new InvalidScopeError(`Scope not available to this client: ${refused.join(' ')}`);
+  }
+  return [...new Set(requested)];
+}
+
+export interface ClientsStoreOptions {
+  /**
+   * The issuer URL client configuration endpoints are under; responses
+   * leave out registration_client_uri without it
+   */
+  issuerUrl?: string;
+  /** Where clients identified by a metadata document URL are looked up */
+  metadataDocuments?: ClientMetadataDocuments;
+}
+
+/**
+ * Implementation of the OAuthRegisteredClientsStore interface using the existing client registration system.
+ * Confidential clients' secrets are stored hashed and checked by requireClientAuthentication.
+ * Clients whose client_id is the URL of a Client ID Metadata Document need no registration.
+ * Registered clients manage their registration with a registration access token (RFC 7592).
  */
 export class FeatureReferenceOAuthClientsStore implements OAuthRegisteredClientsStore {
+  private metadataDocuments: ClientMetadataDocuments;
+
+  constructor(private options: ClientsStoreOptions = {}) {
+    this.metadataDocuments = options.metadataDocuments ?? new ClientMetadataDocuments();
+  }
+
+  /**
+   * The client's registration, or the one its metadata document amounts to
+   */
+  async getClientRegistration(clientId: string): Promise<ClientRegistration | undefined> {
+    if (isClientIdMetadataDocumentUrl(clientId)) {
+      return this.metadataDocuments.getClient(clientId);
+    }
+    return getClientRegistration(clientId);
+  }
+
   async getClient(clientId: string): Promise<OAuthClientInformationFull | undefined> {
-    const registration = await getClientRegistration(clientId);
+    const registration = await this.getClientRegistration(clientId);
     if (!registration) {
       return undefined;
     }
+    return toClientInformation(registration);
+  }
+
+  async registerClient(client: OAuthClientInformationFull): Promise<ClientConfiguration> {
+    const { registration, response } = prepareClientRegistration(client);
+    const management = await this.saveWithNewRegistrationAccessToken(registration);
+    logger.info('Client registered', {
+      clientId: client.client_id,
+      tokenEndpointAuthMethod: registration.token_endpoint_auth_method
+    });
+    return { ...response, ...management };
+  }
+
+  /**
+   * Client read request (RFC 7592 section 2.1). Like every request to the
+   * client configuration endpoint, it rotates the registration access token
+   * and keeps the registration for another 30 days.
+   * @throws InvalidTokenError
+   */
+  async readClientConfiguration(clientId: string, registrationAccessToken: string): Promise<ClientConfiguration> {
+    const registration = await this.authenticateRegistrationAccess(clientId, registrationAccessToken);
+    const management = await this.saveWithNewRegistrationAccessToken(registration);
+    return { ...toClientInformation(registration), ...management };
+  }
+
+  /**
+   * Client update request (RFC 7592 section 2.2): replaces the client's
+   * metadata. Fields left out are removed. The client keeps its secret and
+   * authentication method.
+   * @throws InvalidTokenError, InvalidRequestError, InvalidClientMetadataError
+   */
+  async updateClientConfiguration(clientId: string, registrationAccessToken: string, body: unknown): Promise<ClientConfiguration> {
+    const registration = await this.authenticateRegistrationAccess(clientId, registrationAccessToken);
+
+    const parseResult = OAuthClientMetadataSchema.safeParse(body);
+    if (!parseResult.success) {
+      throw new InvalidClientMetadataError(parseResult.error.message);
+    }
+    const { client_id: requestedClientId, client_secret: presentedSecret } = body as { client_id?: unknown; client_secret?: unknown };
+    if (requestedClientId !== clientId) {
+      throw new InvalidRequestError('client_id does not match the client configuration endpoint');
+    }
+    // Clients can't choose their own secret (RFC 7592 section 2.2)
+    if (presentedSecret !== undefined && (
+      typeof presentedSecret !== 'string' || !registration.client_secret_hash || !secretMatches(presentedSecret, registration.client_secret_hash)
+    )) {
+      throw new InvalidClientMetadataError('client_secret does not match the current client secret');
+    }
+
+    const metadata = parseResult.data;
+    const method = metadata.token_endpoint_auth_method ?? registration.token_endpoint_auth_method;
+    if (method !== registration.token_endpoint_auth_method) {
+      throw new InvalidClientMetadataError('token_endpoint_auth_method cannot be changed; register a new client instead');
+    }
+    validateClientMetadata({ ...metadata, client_id: clientId, token_endpoint_auth_method: method });
+
+    const updated: ClientRegistration = {
+      ...metadata,
+      client_id: clientId,
+      client_id_issued_at: registration.client_id_issued_at,
+      token_endpoint_auth_method: method,
+      client_secret_hash: registration.client_secret_hash,
+      client_secret_expires_at: registration.client_secret_expires_at,
+    };
+    const management = await this.saveWithNewRegistrationAccessToken(updated);
+    logger.info('Client registration updated', { clientId });
+    return { ...toClientInformation(updated), ...management };
+  }
+
+  /**
+   * Client delete request (RFC 7592 section 2.3): deletes the registration
+   * and revokes every token issued to the client.
+   * @throws InvalidTokenError
+   */
+  async deleteClient(clientId: string, registrationAccessToken: string): Promise<void> {
+    await this.authenticateRegistrationAccess(clientId, registrationAccessToken);
+    await deleteClientRegistration(clientId);
+    await revokeClientGrants(clientId);
+    logger.info('Client registration deleted', { clientId });
+  }
+
+  /**
+   * Checks a client's registration access token. Clients identified by a
+   * metadata document, and clients registered before registration access
+   * tokens were issued, have none.
+   * @throws InvalidTokenError
+   */
+  private async authenticateRegistrationAccess(clientId: string, registrationAccessToken: string): Promise<ClientRegistration> {
+    const registration = await getClientRegistration(clientId);
+    if (!registration?.registration_access_token_hash
+      || !secretMatches(registrationAccessToken, registration.registration_access_token_hash)) {
+      throw new InvalidTokenError('Invalid registration access token');
+    }
     return registration;
   }
 
-  async registerClient(client: OAuthClientInformationFull): Promise<OAuthClientInformationFull> {
-    await saveClientRegistration(client.client_id, client);
-    return client;
+  /**
+   * Saves a registration with a new registration access token, which
+   * replaces the previous one
+   */
+  private async saveWithNewRegistrationAccessToken(
+    registration: ClientRegistration
+  ): Promise<Pick<ClientConfiguration, 'registration_access_token' | 'registration_client_uri'>> {
+    const registrationAccessToken = generateToken();
+    await saveClientRegistration(registration.client_id, {
+      ...registration,
+      registration_access_token_hash: sha256(registrationAccessToken),
+    });
+    return {
+      registration_access_token: registrationAccessToken,
+      registration_client_uri: this.options.issuerUrl
+        && `${this.options.issuerUrl}/register/${encodeURIComponent(registration.client_id)}`,
+    };
   }
 }
 
@@ -44,11 +319,23 @@ export class FeatureReferenceOAuthClientsStore implements OAuthRegisteredClients
 export class FeatureReferenceAuthProvider implements OAuthServerProvider {
   private _clientsStore: FeatureReferenceOAuthClientsStore;
 
-  constructor() {
-    this._clientsStore = new FeatureReferenceOAuthClientsStore();
+  /**
+   * @param jwtAccessTokens When set, access tokens are issued as signed JWTs
+   *   wrapping the opaque token the installation is stored under, and only
+   *   JWTs are accepted as access tokens.
+   * @param upstream The provider users sign in with, whose tokens are
+   *   refreshed for tools acting on their behalf
+   * @param clientsStore Where clients are registered and looked up
+   */
+  constructor(
+    private jwtAccessTokens?: JwtAccessTokens,
+    private upstream: UpstreamIdentityProvider = new MockUpstreamIdentityProvider(),
+    clientsStore: FeatureReferenceOAuthClientsStore = new FeatureReferenceOAuthClientsStore()
+  ) {
+    this._clientsStore = clientsStore;
   }
 
-  get clientsStore(): OAuthRegisteredClientsStore {
+  get clientsStore(): FeatureReferenceOAuthClientsStore {
     return this._clientsStore;
   }
 
@@ -56,28 +343,48 @@ export class FeatureReferenceAuthProvider implements OAuthServerProvider {
 
     // Client is validated by the MCP sdk.
 
+    const scopes = resolveRequestedScopes(params.scopes);
+    const resource = resolveResource(undefined, params.resource);
+
     // Generate authorization code
     const authorizationCode = generateToken();
 
-    // Save the pending authorization with code challenge and state
-    await savePendingAuthorization(authorizationCode, {
+    const pendingAuth: PendingAuthorization = {
       redirectUri: params.redirectUri,
       codeChallenge: params.codeChallenge,
       codeChallengeMethod: 'S256', // Currently only support S256
       clientId: client.client_id,
       state: params.state,
-    });
+      scopes,
+      resource,
+    };
+
+    // Save the pending authorization with code challenge and state
+    await savePendingAuthorization(authorizationCode, pendingAuth);
 
     logger.debug('Saved pending authorization', {
       authorizationCode: authorizationCode.substring(0, 8) + '...',
       clientId: client.client_id,
-      state: params.state?.substring(0, 8) + '...'
+      state: params.state?.substring(0, 8) + '...',
+      scopes,
+      resource
     });
 
+    // A signed-in user who already approved everything asked for isn't asked again
+    const session = await getUserSession(res.req);
+    if (session && await hasConsent(session.userId, client.client_id, scopes)) {
+      logger.info('Skipping consent screen for previously approved client', {
+        clientId: client.client_id,
+        userId: session.userId
+      });
+      res.redirect(await completeAuthorization(authorizationCode, pendingAuth, session.userId, session.upstreamGrantId));
+      return;
+    }
+
     // TODO: should we use a different key, other than the authorization code, to store the pending authorization?
     
     // You can redirect to another page, or you can send an html response directly
-    // res.redirect(new URL(`mock-upstream-idp/authorize?metadata=${authorizationCode}`, BASE_URI).href);
+    // res.redirect(new URL(`upstream-idp/authorize?state=${authorizationCode}`, BASE_URI).href);
 
     // Set permissive CSP for styling
     res.setHeader('Content-Security-Policy', [
@@ -188,6 +495,29 @@ export class FeatureReferenceAuthProvider implements OAuthServerProvider {
               word-break: break-all;
             }
             
+            .scope-list {
+              list-style: none;
+              text-align: left;
+            }
+            
+            .scope-list li {
+              padding: 8px 0;
+              border-bottom: 1px solid #e2e8f0;
+              color: #4a5568;
+              font-size: 14px;
+            }
+            
+            .scope-list li:last-child {
+              border-bottom: none;
+            }
+            
+            .scope-name {
+              font-family: 'Courier New', monospace;
+              font-weight: 600;
+              color: #2d3748;
+              display: block;
+            }
+            
             .auth-flow-info {
               background: #f8f9fa;
               border-radius: 12px;
@@ -253,7 +583,18 @@ export class FeatureReferenceAuthProvider implements OAuthServerProvider {
             
             <div class="client-info">
               <h3>Client Application</h3>
-              <div class="client-id">${client.client_id}</div>
+              <div class="client-id">${escapeHtml(client.client_id)}</div>
+            </div>
+            
+            <div class="client-info">
+              <h3>Requested Permissions</h3>
+              <ul class="scope-list">
+                ${scopes.map(scope => `
+                <li>
+                  <span class="scope-name">${escapeHtml(scope)}</span>
+                  ${isKnownScope(scope) ? SCOPE_CATALOG[scope] : ''}
+                </li>`).join('')}
+              </ul>
             </div>
             
             <div class="auth-flow-info">
@@ -261,7 +602,7 @@ export class FeatureReferenceAuthProvider implements OAuthServerProvider {
               <p>You'll be redirected to authenticate with the upstream provider. Once verified, you'll be granted access to this MCP server's resources.</p>
             </div>
             
-            <a href="/mock-upstream-idp/authorize?redirect_uri=/mock-upstream-idp/callback&state=${authorizationCode}" class="btn-primary">
+            <a href="/upstream-idp/authorize?state=${authorizationCode}" class="btn-primary">
               Continue to Authentication
             </a>
             
@@ -284,34 +625,65 @@ export class FeatureReferenceAuthProvider implements OAuthServerProvider {
       throw new Error('Authorization code does not match client');
     }
 
+    // Device authorizations are only redeemed with their device code
+    if (pendingAuth.device) {
+      throw new InvalidGrantError('Authorization code not found');
+    }
+
     return pendingAuth.codeChallenge;
   }
 
-  async exchangeAuthorizationCode(client: OAuthClientInformationFull, authorizationCode: string): Promise<OAuthTokens> {
+  async exchangeAuthorizationCode(
+    client: OAuthClientInformationFull,
+    authorizationCode: string,
+    _codeVerifier?: string,
+    _redirectUri?: string,
+    resource?: URL
+  ): Promise<OAuthTokens> {
     const tokenData = await exchangeToken(authorizationCode);
     if (!tokenData) {
       throw new Error('Invalid authorization code');
     }
+    return this.issueExchangedTokens(tokenData, resource);
+  }
 
+  /**
+   * Returns the tokens an approved authorization issued, binding them to a
+   * resource named only at the token endpoint.
+   */
+  private async issueExchangedTokens(tokenData: TokenExchange, resource?: URL): Promise<OAuthTokens> {
     // Get the MCP installation to retrieve the full token data including refresh token
     const mcpInstallation = await readMcpInstallation(tokenData.mcpAccessToken);
     if (!mcpInstallation) {
       throw new Error('Failed to retrieve MCP installation');
     }
 
+    // A resource named only at the token endpoint binds the tokens now
+    const boundResource = resolveResource(mcpInstallation.resource, resource);
+    if (boundResource !== mcpInstallation.resource) {
+      await saveMcpInstallation(tokenData.mcpAccessToken, { ...mcpInstallation, resource: boundResource });
+    }
+
     // Return the full token data including refresh token
     return {
-      access_token: mcpInstallation.mcpTokens.access_token,
+      access_token: await this.issueAccessToken(tokenData.mcpAccessToken, { ...mcpInstallation, resource: boundResource }),
       refresh_token: mcpInstallation.mcpTokens.refresh_token,
       expires_in: mcpInstallation.mcpTokens.expires_in,
       token_type: 'Bearer',
+      scope: mcpInstallation.scopes?.join(' '),
     };
   }
 
-  async exchangeRefreshToken(client: OAuthClientInformationFull, refreshToken: string, _scopes?: string[]): Promise<OAuthTokens> {
+  async exchangeRefreshToken(client: OAuthClientInformationFull, refreshToken: string, scopes?: string[], resource?: URL): Promise<OAuthTokens> {
     const accessToken = await readRefreshToken(refreshToken);
 
     if (!accessToken) {
+      // A refresh token that was already rotated has leaked: either the
+      // client or an attacker holds a newer one, and we can't tell which
+      const familyId = await readRotatedRefreshToken(refreshToken);
+      if (familyId) {
+        return this.rejectReusedRefreshToken(client, familyId);
+      }
       throw new Error('Invalid refresh token');
     }
 
@@ -325,26 +697,257 @@ export class FeatureReferenceAuthProvider implements OAuthServerProvider {
     if (mcpInstallation.clientId !== client.client_id) {
       throw new Error('Invalid client');
     }
-    
+
+    // A refresh may narrow the original grant but never widen it
+    const grantedScopes = mcpInstallation.scopes ?? [...ALL_SCOPES];
+    if (scopes && scopes.length > 0) {
+      const widened = scopes.filter(scope => !grantedScopes.includes(scope));
+      if (widened.length > 0) {
+        throw new InvalidScopeError(`Scope not granted: ${widened.join(' ')}`);
+      }
+    }
+    const newScopes = scopes && scopes.length > 0 ? [...new Set(scopes)] : mcpInstallation.scopes;
+    const boundResource = resolveResource(mcpInstallation.resource, resource);
+
+    // Installations from before token families start one now
+    const familyId = mcpInstallation.familyId ?? generateToken();
+
+    // Rotate: the refresh token is single-use. Losing the race to a
+    // concurrent refresh with the same token counts as reuse.
+    if (!await consumeRefreshToken(refreshToken, familyId)) {
+      return this.rejectReusedRefreshToken(client, familyId);
+    }
+    // The tokens being replaced stop working now, not when they expire
+    await revokeMcpInstallation(accessToken);
+
     const newTokens = generateMcpTokens();
 
     if (newTokens.refresh_token) {
       await saveRefreshToken(newTokens.refresh_token, newTokens.access_token);
+      await saveTokenFamily(familyId, {
+        mcpAccessToken: newTokens.access_token,
+        refreshToken: newTokens.refresh_token,
+      });
     }
 
     // Update the installation with the new tokens
-    await saveMcpInstallation(newTokens.access_token, {
+    const newInstallation: McpInstallation = {
       ...mcpInstallation,
       mcpTokens: newTokens,
       issuedAt: Date.now() / 1000,
       userId: mcpInstallation.userId, // Preserve the user ID
+      scopes: newScopes,
+      resource: boundResource,
+      familyId,
+    };
+    await saveMcpInstallation(newTokens.access_token, newInstallation);
+    if (newInstallation.upstreamGrantId) {
+      await keepUpstreamGrant(newInstallation.upstreamGrantId);
+    }
+    await recordConsentUse(newInstallation.userId, newInstallation.clientId);
+    // Families from before clients tracked theirs start being tracked now
+    await addClientFamily(newInstallation.clientId, familyId);
+
+    return {
+      ...newTokens,
+      access_token: await this.issueAccessToken(newTokens.access_token, newInstallation),
+      scope: newScopes?.join(' '),
+    };
+  }
+
+  /**
+   * Client credentials grant (RFC 6749 section 4.4): a confidential client
+   * obtains an access token for itself, acting as its service principal
+   * rather than on behalf of a user. No refresh token is issued; the client
+   * authenticates again when the token expires.
+   */
+  async exchangeClientCredentials(client: OAuthClientInformationFull, scopes?: string[], resource?: URL): Promise<OAuthTokens> {
+    if (client.token_endpoint_auth_method === 'none' || !client.grant_types?.includes('client_credentials')) {
+      throw new UnauthorizedClientError('Client is not registered for the client_credentials grant');
+    }
+
+    const grantedScopes = resolveServiceScopes(client, scopes);
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { refresh_token, ...mcpTokens } = generateMcpTokens();
+    // A family of one token, so deleting the client revokes it
+    const familyId = generateToken();
+    const installation: McpInstallation = {
+      mcpTokens,
+      clientId: client.client_id,
+      issuedAt: Date.now() / 1000,
+      userId: serviceUserId(client.client_id),
+      scopes: grantedScopes,
+      resource: resolveResource(undefined, resource),
+      familyId,
+    };
+    await saveMcpInstallation(mcpTokens.access_token, installation);
+    await saveTokenFamily(familyId, { mcpAccessToken: mcpTokens.access_token });
+    await addClientFamily(client.client_id, familyId);
+    logger.info('Issued client credentials token', { clientId: client.client_id, scopes: grantedScopes });
+
+    return {
+      access_token: await this.issueAccessToken(mcpTokens.access_token, installation),
+      token_type: 'Bearer',
+      expires_in: mcpTokens.expires_in,
+      scope: grantedScopes.join(' '),
+    };
+  }
+
+  /**
+   * Starts a device authorization (RFC 8628 section 3.1): a pending
+   * authorization the user approves on the verification page by entering
+   * the user code, while the device polls the token endpoint with the
+   * device code.
+   */
+  async authorizeDevice(client: OAuthClientInformationFull, scopes?: string[], resource?: URL): Promise<DeviceAuthorizationGrant> {
+    if (!client.grant_types?.includes(DEVICE_CODE_GRANT_TYPE)) {
+      throw new UnauthorizedClientError('Client is not registered for the device_code grant');
+    }
+
+    const authorizationCode = generateToken();
+    const pendingAuth: PendingAuthorization = {
+      redirectUri: DEVICE_COMPLETE_PATH,
+      // The device code, known only to the device, stands in for PKCE
+      codeChallenge: '',
+      codeChallengeMethod: 'S256',
+      clientId: client.client_id,
+      scopes: resolveRequestedScopes(scopes),
+      resource: resolveResource(undefined, resource),
+      device: true,
+    };
+    await savePendingAuthorization(authorizationCode, pendingAuth);
+
+    // User codes are short enough to collide, unlike the other codes
+    let userCode = generateUserCode();
+    while (!await saveDeviceUserCode(userCode, { authorizationCode })) {
+      userCode = generateUserCode();
+    }
+
+    const deviceCode = generateToken();
+    await saveDeviceAuthorization(deviceCode, {
+      clientId: client.client_id,
+      userCode,
+      authorizationCode,
+      expiresAt: Math.floor(Date.now() / 1000) + DEVICE_CODE_EXPIRY_SEC,
+      intervalSec: DEVICE_POLL_INTERVAL_SEC,
+    });
+    logger.info('Started device authorization', { clientId: client.client_id, scopes: pendingAuth.scopes });
+
+    return {
+      deviceCode,
+      userCode,
+      expiresIn: DEVICE_CODE_EXPIRY_SEC,
+      interval: DEVICE_POLL_INTERVAL_SEC,
+    };
+  }
+
+  /**
+   * Device access token request (RFC 8628 section 3.4): returns the tokens
+   * once the user has approved the device, and otherwise fails with the
+   * error telling the device whether to keep polling (section 3.5).
+   */
+  async exchangeDeviceCode(client: OAuthClientInformationFull, deviceCode: string, resource?: URL): Promise<OAuthTokens> {
+    const deviceAuth = await readDeviceAuthorization(deviceCode);
+    if (!deviceAuth || deviceAuth.clientId !== client.client_id) {
+      throw new InvalidGrantError('Invalid device code');
+    }
+    if (deviceAuth.expiresAt < Date.now() / 1000) {
+      throw new CustomOAuthError('expired_token', 'Device code has expired');
+    }
+
+    if (!await recordDevicePoll(deviceCode, deviceAuth.intervalSec)) {
+      // The device must wait longer from now on (section 3.5)
+      await updateDeviceAuthorization(deviceCode, {
+        ...deviceAuth,
+        intervalSec: deviceAuth.intervalSec + DEVICE_POLL_SLOW_DOWN_SEC,
+      });
+      throw new CustomOAuthError('slow_down', 'Polling too fast');
+    }
+
+    const userCode = await readDeviceUserCode(deviceAuth.userCode);
+    if (userCode?.denied) {
+      await deleteDeviceAuthorization(deviceCode);
+      throw new AccessDeniedError('User denied the authorization');
+    }
+
+    const tokenData = await exchangeToken(deviceAuth.authorizationCode);
+    if (!tokenData) {
+      throw new CustomOAuthError('authorization_pending', 'User has not approved the authorization yet');
+    }
+    // A concurrent poll may have redeemed the device code first
+    if (!await deleteDeviceAuthorization(deviceCode)) {
+      throw new InvalidGrantError('Invalid device code');
+    }
+    logger.info('Device authorization redeemed', { clientId: client.client_id });
+    return this.issueExchangedTokens(tokenData, resource);
+  }
+
+  /**
+   * Handles reuse of a rotated refresh token (OAuth 2.1 section 4.3.1) by
+   * revoking every token descended from the same authorization, then
+   * failing the request.
+   */
+  private async rejectReusedRefreshToken(client: OAuthClientInformationFull, familyId: string): Promise<never> {
+    // Only the client the family was issued to can set off its revocation;
+    // another client holding one of its old refresh tokens is simply refused
+    const family = await readTokenFamily(familyId);
+    const installation = family && await readMcpInstallation(family.mcpAccessToken);
+    if (installation && installation.clientId !== client.client_id) {
+      throw new InvalidGrantError('Invalid refresh token');
+    }
+
+    logger.error('Refresh token reuse detected; revoking token family', undefined, {
+      clientId: client.client_id
     });
+    const revoked = await revokeTokenFamily(familyId);
+    if (revoked) {
+      await announceRevocation(revoked.userId, revoked.clientId, grantIdOf(familyId));
+    }
+    throw new InvalidGrantError('Refresh token has already been used; all tokens from this authorization have been revoked');
+  }
+
+  /**
+   * The access token handed to the client: the opaque token itself, or a JWT
+   * linked to it when JWT access tokens are enabled.
+   */
+  private async issueAccessToken(mcpAccessToken: string, installation: McpInstallation): Promise<string> {
+    if (!this.jwtAccessTokens) {
+      return mcpAccessToken;
+    }
+    const tokenId = generateToken();
+    const jwt = await this.jwtAccessTokens.sign(tokenId, installation);
+    await saveAccessTokenId(tokenId, jwt, mcpAccessToken, installation.mcpTokens.expires_in ?? ACCESS_TOKEN_EXPIRY_SEC);
+    // Revoking the installation denylists the JWT by its ID
+    await updateMcpInstallation(mcpAccessToken, { ...installation, tokenId });
+    return jwt;
+  }
 
-    return newTokens;
+  /**
+   * Finds the opaque token an access token's installation is stored under.
+   */
+  private async resolveAccessToken(token: string): Promise<string> {
+    if (!this.jwtAccessTokens) {
+      return token;
+    }
+    if (!isJwt(token)) {
+      throw new InvalidTokenError("Invalid access token");
+    }
+    let tokenId: string;
+    try {
+      tokenId = (await this.jwtAccessTokens.verify(token)).jti;
+    } catch (error) {
+      logger.debug('JWT access token verification failed', { error: (error as Error).message });
+      throw new InvalidTokenError("Invalid access token");
+    }
+    const mcpAccessToken = await readAccessTokenId(tokenId, token);
+    if (!mcpAccessToken) {
+      throw new InvalidTokenError("Invalid access token");
+    }
+    return mcpAccessToken;
   }
 
   async verifyAccessToken(token: string): Promise<AuthInfo> {
-    const installation = await readMcpInstallation(token);
+    const installation = await readMcpInstallation(await this.resolveAccessToken(token));
     if (!installation) {
       throw new InvalidTokenError("Invalid access token");
     }
@@ -360,19 +963,90 @@ export class FeatureReferenceAuthProvider implements OAuthServerProvider {
     if (!!expiresAt && expiresAt < Date.now() / 1000) {
       throw new InvalidTokenError("Token has expired");
     }
-    
+
     return {
       token,
       clientId: installation.clientId,
-      scopes: ['mcp'],
+      scopes: installation.scopes ?? [LEGACY_FULL_ACCESS_SCOPE],
       expiresAt,
+      resource: installation.resource ? new URL(installation.resource) : undefined,
       extra: {
-        userId: installation.userId
+        userId: installation.userId,
+        grantId: installation.familyId ? grantIdOf(installation.familyId) : undefined
       }
     };
   }
 
+  /**
+   * A valid upstream access token for the user an access token was issued
+   * to, refreshed first if it is about to expire.
+   * @throws UpstreamTokenUnavailableError
+   */
+  async getUpstreamToken(token: string): Promise<UpstreamToken> {
+    try {
+      await this.verifyAccessToken(token);
+    } catch (error) {
+      throw new UpstreamTokenUnavailableError((error as Error).message);
+    }
+    return getUpstreamAccessToken(await this.resolveAccessToken(token), this.upstream);
+  }
+
   async revokeToken(client: OAuthClientInformationFull, request: OAuthTokenRevocationRequest): Promise<void> {
-    await revokeMcpInstallation(request.token);
+    // The hint only decides which kind of token is looked up first (RFC 7009)
+    const grant = request.token_type_hint === 'refresh_token'
+      ? await this.findRefreshTokenGrant(request.token) ?? await this.findAccessTokenGrant(request.token)
+      : await this.findAccessTokenGrant(request.token) ?? await this.findRefreshTokenGrant(request.token);
+
+    if (!grant) {
+      // Invalid tokens need no revoking (RFC 7009)
+      return;
+    }
+
+    const { mcpAccessToken, installation } = grant;
+    if (installation.clientId !== client.client_id) {
+      throw new UnauthorizedClientError('Token was not issued to this client');
+    }
+
+    // Revoking either token of a pair revokes both
+    await revokeMcpInstallation(mcpAccessToken);
+    if (installation.mcpTokens.refresh_token) {
+      await deleteRefreshToken(installation.mcpTokens.refresh_token);
+    }
+    if (installation.familyId) {
+      await revokeTokenFamily(installation.familyId);
+    }
+
+    logger.info('Revoked tokens', { clientId: installation.clientId, userId: installation.userId });
+    await announceRevocation(
+      installation.userId,
+      installation.clientId,
+      installation.familyId ? grantIdOf(installation.familyId) : undefined
+    );
+  }
+
+  /**
+   * Finds the installation an access token belongs to.
+   */
+  private async findAccessTokenGrant(token: string): Promise<TokenGrant | undefined> {
+    let mcpAccessToken: string;
+    try {
+      mcpAccessToken = await this.resolveAccessToken(token);
+    } catch {
+      return undefined;
+    }
+    const installation = await readMcpInstallation(mcpAccessToken);
+    return installation && { mcpAccessToken, installation };
   }
-}
\ No newline at end of file
+
+  /**
+   * Finds the installation a refresh token belongs to.
+   */
+  private async findRefreshTokenGrant(token: string): Promise<TokenGrant | undefined> {
+    const mcpAccessToken = await readRefreshToken(token);
+    if (!mcpAccessToken) {
+      return undefined;
+    }
+    const installation = await readMcpInstallation(mcpAccessToken);
+    return installation && { mcpAccessToken, installation };
+  }
+}
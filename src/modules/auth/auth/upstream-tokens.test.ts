@@ -0,0 +1,175 @@
+import { describe, beforeEach, it, expect, jest } from '@jest/globals';
+import { MockRedisClient, setRedisClient } from "../../shared/redis.js";
+import { UpstreamTokenUnavailableError } from "../../../interfaces/upstream-tokens.js";
+import * as authService from "../services/auth.js";
+import { McpInstallation, UpstreamInstallation } from "../types.js";
+import { MockUpstreamIdentityProvider } from "../upstream/mock.js";
+import { issueMockUpstreamTokens, readMockUpstreamAccessToken } from "../upstream/mock-tokens.js";
+import { createUpstreamGrant, getUpstreamAccessToken, UPSTREAM_REFRESH_MARGIN_SEC } from "./upstream-tokens.js";
+
+describe("getUpstreamAccessToken", () => {
+  let upstream: MockUpstreamIdentityProvider;
+
+  beforeEach(() => {
+    setRedisClient(new MockRedisClient());
+    upstream = new MockUpstreamIdentityProvider();
+  });
+
+  // Saves an installation sharing an upstream grant and returns its MCP access token
+  async function installWithGrant(upstreamGrantId: string): Promise<string> {
+    const mcpTokens = authService.generateMcpTokens();
+    const installation: McpInstallation = {
+      upstreamGrantId,
+      mcpTokens,
+      clientId: "client-1",
+      userId: "user-1",
+      issuedAt: Date.now() / 1000,
+    };
+    await authService.saveMcpInstallation(mcpTokens.access_token, installation);
+    return mcpTokens.access_token;
+  }
+
+  // Saves an installation with an upstream grant of its own and returns its MCP access token
+  async function install(upstreamInstallation: UpstreamInstallation): Promise<string> {
+    return installWithGrant(await createUpstreamGrant(upstreamInstallation));
+  }
+
+  // Mock upstream tokens for user-1 that expire in the given number of seconds
+  async function mockTokensExpiringIn(seconds: number): Promise<UpstreamInstallation> {
+    return { ...await issueMockUpstreamTokens("user-1"), expiresAt: Math.floor(Date.now() / 1000) + seconds };
+  }
+
+  it("returns the upstream token while it is valid", async () => {
+    const upstreamInstallation = await mockTokensExpiringIn(10 * 60);
+    const mcpAccessToken = await install(upstreamInstallation);
+    const refreshTokens = jest.spyOn(upstream, "refreshTokens");
+
+    expect(await getUpstreamAccessToken(mcpAccessToken, upstream)).toEqual({
+      provider: "mock",
+      accessToken: upstreamInstallation.accessToken,
+      expiresAt: upstreamInstallation.expiresAt,
+    });
+    expect(refreshTokens).not.toHaveBeenCalled();
+  });
+
+  it("refreshes the upstream token when it is about to expire and saves it", async () => {
+    const upstreamInstallation = await mockTokensExpiringIn(UPSTREAM_REFRESH_MARGIN_SEC - 1);
+    const upstreamGrantId = await createUpstreamGrant(upstreamInstallation);
+    const mcpAccessToken = await installWithGrant(upstreamGrantId);
+
+    const token = await getUpstreamAccessToken(mcpAccessToken, upstream);
+
+    expect(token.accessToken).not.toBe(upstreamInstallation.accessToken);
+    expect(token.expiresAt).toBeGreaterThan(Date.now() / 1000 + UPSTREAM_REFRESH_MARGIN_SEC);
+    expect(await readMockUpstreamAccessToken(token.accessToken)).toBe("user-1");
+    expect(await authService.readUpstreamGrant(upstreamGrantId)).toEqual(expect.objectContaining({
+      accessToken: token.accessToken,
+      refreshToken: upstreamInstallation.refreshToken,
+    }));
+  });
+
+  it("shares one refresh between the installations of an upstream grant", async () => {
+    const upstreamGrantId = await createUpstreamGrant({ ...await mockTokensExpiringIn(0), refreshToken: "refresh-1" });
+    const first = await installWithGrant(upstreamGrantId);
+    const second = await installWithGrant(upstreamGrantId);
+    // A provider that rotates refresh tokens and refuses spent ones
+    const refreshTokens = jest.spyOn(upstream, "refreshTokens").mockImplementation(async (installation) => {
+      if (installation.refreshToken !== "refresh-1") {
+        throw new Error("Refresh token has already been used");
+      }
+      return { ...installation, accessToken: "refreshed", refreshToken: "refresh-2", expiresAt: Math.floor(Date.now() / 1000) + 3600 };
+    });
+
+    const fromFirst = await getUpstreamAccessToken(first, upstream);
+    const fromSecond = await getUpstreamAccessToken(second, upstream);
+
+    expect(refreshTokens).toHaveBeenCalledTimes(1);
+    expect(fromSecond).toEqual(fromFirst);
+    expect((await authService.readUpstreamGrant(upstreamGrantId))!.refreshToken).toBe("refresh-2");
+  });
+
+  it("waits for a refresh another node is making instead of spending the refresh token too", async () => {
+    const upstreamGrantId = await createUpstreamGrant(await mockTokensExpiringIn(0));
+    const mcpAccessToken = await installWithGrant(upstreamGrantId);
+    const refreshTokens = jest.spyOn(upstream, "refreshTokens");
+    await authService.lockUpstreamGrantRefresh(upstreamGrantId);
+
+    const pending = getUpstreamAccessToken(mcpAccessToken, upstream);
+    const refreshed = await mockTokensExpiringIn(3600);
+    await authService.saveUpstreamGrant(upstreamGrantId, refreshed);
+
+    expect((await pending).accessToken).toBe(refreshed.accessToken);
+    expect(refreshTokens).not.toHaveBeenCalled();
+  });
+
+  it("moves the upstream tokens of installations from before upstream grants into one", async () => {
+    const upstreamInstallation = await mockTokensExpiringIn(10 * 60);
+    const mcpTokens = authService.generateMcpTokens();
+    await authService.saveMcpInstallation(mcpTokens.access_token, {
+      upstreamInstallation,
+      mcpTokens,
+      clientId: "client-1",
+      userId: "user-1",
+      issuedAt: Date.now() / 1000,
+    });
+
+    expect((await getUpstreamAccessToken(mcpTokens.access_token, upstream)).accessToken).toBe(upstreamInstallation.accessToken);
+
+    const installation = await authService.readMcpInstallation(mcpTokens.access_token);
+    expect(installation).not.toHaveProperty("upstreamInstallation");
+    expect(await authService.readUpstreamGrant(installation!.upstreamGrantId!)).toEqual(upstreamInstallation);
+  });
+
+  it("refreshes once for concurrent requests", async () => {
+    const mcpAccessToken = await install(await mockTokensExpiringIn(0));
+    const refreshTokens = jest.spyOn(upstream, "refreshTokens");
+
+    const [first, second] = await Promise.all([
+      getUpstreamAccessToken(mcpAccessToken, upstream),
+      getUpstreamAccessToken(mcpAccessToken, upstream),
+    ]);
+
+    expect(refreshTokens).toHaveBeenCalledTimes(1);
+    expect(first).toEqual(second);
+  });
+
+  it("fails when the upstream token has expired and has no refresh token", async () => {
+    const mcpAccessToken = await install({ provider: "mock", accessToken: "expired", expiresAt: Math.floor(Date.now() / 1000) - 1 });
+
+    await expect(getUpstreamAccessToken(mcpAccessToken, upstream)).rejects.toThrow(UpstreamTokenUnavailableError);
+  });
+
+  it("fails when the provider refuses to refresh", async () => {
+    const mcpAccessToken = await install({ ...await mockTokensExpiringIn(0), refreshToken: "revoked-refresh-token" });
+
+    await expect(getUpstreamAccessToken(mcpAccessToken, upstream))
+      .rejects.toThrow("Upstream access token could not be refreshed");
+  });
+
+  it("does not bring back an installation revoked during the refresh", async () => {
+    const mcpAccessToken = await install(await mockTokensExpiringIn(0));
+    jest.spyOn(upstream, "refreshTokens").mockImplementationOnce(async (installation) => {
+      await authService.revokeMcpInstallation(mcpAccessToken);
+      return { ...installation, accessToken: "refreshed", expiresAt: Math.floor(Date.now() / 1000) + 3600 };
+    });
+
+    await expect(getUpstreamAccessToken(mcpAccessToken, upstream)).rejects.toThrow(UpstreamTokenUnavailableError);
+    expect(await authService.readMcpInstallation(mcpAccessToken)).toBeUndefined();
+  });
+
+  it("fails for service principals, which have no upstream account", async () => {
+    const mcpTokens = authService.generateMcpTokens();
+    await authService.saveMcpInstallation(mcpTokens.access_token, {
+      mcpTokens,
+      clientId: "client-1",
+      userId: "svc:client-1",
+      issuedAt: Date.now() / 1000,
+    });
+
+    await expect(getUpstreamAccessToken(mcpTokens.access_token, upstream)).rejects.toThrow(UpstreamTokenUnavailableError);
+  });
+
+  it("fails for unknown access tokens", async () => {
+    await expect(getUpstreamAccessToken(authService.generateToken(), upstream)).rejects.toThrow("Unknown access token");
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  generateToken,
+  lockUpstreamGrantRefresh,
+  readMcpInstallation,
+  readUpstreamGrant,
+  saveUpstreamGrant,
+  unlockUpstreamGrantRefresh,
+  updateMcpInstallation,
+} from '../services/auth.js';
+import { McpInstallation, UpstreamInstallation } from '../types.js';
+import { UpstreamIdentityProvider } from '../upstream/types.js';
+import { UpstreamToken, UpstreamTokenUnavailableError } from '../../../interfaces/upstream-tokens.js';
+import { logger } from '../../shared/logger.js';
+
+/**
+ * Upstream access tokens are refreshed this many seconds before they
+ * expire, so a tool never starts a call with a token about to run out
+ */
+export const UPSTREAM_REFRESH_MARGIN_SEC = 60;
+
+/**
+ * How long a request waits for another node to finish refreshing an
+ * upstream grant, and how often it checks
+ */
+const REFRESH_WAIT_MS = 5 * 1000;
+const REFRESH_POLL_MS = 100;
+
+// Refreshes in progress on this node, by upstream grant, so that concurrent
+// tool calls share a single refresh
+const refreshesInProgress = new Map<string, Promise<UpstreamInstallation>>();
+
+function expiresWithin(upstreamInstallation: UpstreamInstallation, seconds: number): boolean {
+  return upstreamInstallation.expiresAt !== undefined
+    && upstreamInstallation.expiresAt - seconds <= Date.now() / 1000;
+}
+
+/**
+ * Stores the tokens of a user's upstream sign-in as a new upstream grant,
+ * for the installations and browser session it authorizes to share.
+ * @returns The grant's ID
+ */
+export async function createUpstreamGrant(upstreamInstallation: UpstreamInstallation): Promise<string> {
+  const upstreamGrantId = generateToken();
+  await saveUpstreamGrant(upstreamGrantId, upstreamInstallation);
+  return upstreamGrantId;
+}
+
+/**
+ * Returns a valid upstream access token for an MCP installation, refreshing
+ * it first if it is about to expire. The refreshed tokens replace those of
+ * the installation's upstream grant, so every installation sharing it uses
+ * them, and none is left holding a spent refresh token.
+ * @param mcpAccessToken The opaque access token the installation is stored under
+ * @param upstream The provider the auth server signs users in with
+ * @throws UpstreamTokenUnavailableError
+ */
+export async function getUpstreamAccessToken(mcpAccessToken: string, upstream: UpstreamIdentityProvider): Promise<UpstreamToken> {
+  const installation = await readMcpInstallation(mcpAccessToken);
+  if (!installation) {
+    throw new UpstreamTokenUnavailableError('Unknown access token');
+  }
+
+  const upstreamGrantId = installation.upstreamGrantId ?? await moveIntoUpstreamGrant(mcpAccessToken, installation);
+  if (!upstreamGrantId) {
+    throw new UpstreamTokenUnavailableError('Access token was not issued for a user signed in upstream');
+  }
+  let upstreamInstallation = await readUpstreamGrant(upstreamGrantId);
+  if (!upstreamInstallation) {
+    throw new UpstreamTokenUnavailableError('Upstream tokens have expired');
+  }
+
+  if (expiresWithin(upstreamInstallation, UPSTREAM_REFRESH_MARGIN_SEC)) {
+    // Grants from a provider the server no longer signs users in with can't
+    // be refreshed; their tokens are used until they expire
+    if (!upstreamInstallation.refreshToken || upstreamInstallation.provider !== upstream.name) {
+      if (expiresWithin(upstreamInstallation, 0)) {
+        throw new UpstreamTokenUnavailableError('Upstream access token has expired and cannot be refreshed');
+      }
+    } else {
+      let refresh = refreshesInProgress.get(upstreamGrantId);
+      if (!refresh) {
+        refresh = refreshUpstreamGrant(upstreamGrantId, installation, upstream)
+          .finally(() => refreshesInProgress.delete(upstreamGrantId));
+        refreshesInProgress.set(upstreamGrantId, refresh);
+      }
+      upstreamInstallation = await refresh;
+
+      if (!await readMcpInstallation(mcpAccessToken)) {
+        // Revoked while refreshing
+        throw new UpstreamTokenUnavailableError('Unknown access token');
+      }
+    }
+  }
+
+  return {
+    provider: upstreamInstallation.provider,
+    accessToken: upstreamInstallation.accessToken,
+    expiresAt: upstreamInstallation.expiresAt,
+  };
+}
+
+/**
+ * Moves the upstream tokens of an installation from before upstream grants
+ * into a grant of their own.
+ * @returns The grant's ID, or undefined if the installation has no upstream tokens
+ */
+async function moveIntoUpstreamGrant(mcpAccessToken: string, installation: McpInstallation): Promise<string | undefined> {
+  if (!installation.upstreamInstallation) {
+    return undefined;
+  }
+  const upstreamGrantId = await createUpstreamGrant(installation.upstreamInstallation);
+  const moved: McpInstallation = { ...installation, upstreamGrantId, upstreamInstallation: undefined };
+  if (!await updateMcpInstallation(mcpAccessToken, moved)) {
+    throw new UpstreamTokenUnavailableError('Unknown access token');
+  }
+  return upstreamGrantId;
+}
+
+/**
+ * Refreshes an upstream grant's tokens. Only the node holding the refresh
+ * lock spends the refresh token; the others wait for its result.
+ */
+async function refreshUpstreamGrant(
+  upstreamGrantId: string,
+  { userId, clientId }: McpInstallation,
+  upstream: UpstreamIdentityProvider
+): Promise<UpstreamInstallation> {
+  if (!await lockUpstreamGrantRefresh(upstreamGrantId)) {
+    return waitForUpstreamGrantRefresh(upstreamGrantId);
+  }
+
+  try {
+    // Another node may have refreshed the grant since it was read
+    const current = await readUpstreamGrant(upstreamGrantId);
+    if (!current) {
+      throw new UpstreamTokenUnavailableError('Upstream tokens have expired');
+    }
+    if (!expiresWithin(current, UPSTREAM_REFRESH_MARGIN_SEC)) {
+      return current;
+    }
+
+    let refreshed: UpstreamInstallation;
+    try {
+      refreshed = await upstream.refreshTokens(current);
+    } catch (error) {
+      logger.warning('Upstream token refresh failed', { userId, clientId, provider: upstream.name, error: (error as Error).message });
+      throw new UpstreamTokenUnavailableError('Upstream access token could not be refreshed');
+    }
+
+    await saveUpstreamGrant(upstreamGrantId, refreshed);
+    logger.info('Refreshed upstream tokens', { userId, clientId, provider: upstream.name });
+    return refreshed;
+  } finally {
+    await unlockUpstreamGrantRefresh(upstreamGrantId);
+  }
+}
+
+/**
+ * Waits for the node refreshing an upstream grant to save the new tokens.
+ */
+async function waitForUpstreamGrantRefresh(upstreamGrantId: string): Promise<UpstreamInstallation> {
+  for (let waited = 0; waited < REFRESH_WAIT_MS; waited += REFRESH_POLL_MS) {
+    await new Promise(resolve => setTimeout(resolve, REFRESH_POLL_MS));
+    const current = await readUpstreamGrant(upstreamGrantId);
+    if (current && !expiresWithin(current, UPSTREAM_REFRESH_MARGIN_SEC)) {
+      return current;
+    }
+  }
+  throw new UpstreamTokenUnavailableError('Upstream access token is being refreshed; try again');
+}
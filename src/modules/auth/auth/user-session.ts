@@ -0,0 +1,64 @@
+import { Request, Response } from 'express';
+import { generateToken, readUserSession, saveUserSession } from '../services/auth.js';
+import { REDIS_EXPIRY_TIMES } from '../services/redis-auth.js';
+import { UserSession } from '../types.js';
+
+/**
+ * Cookie holding the token of the browser's session at the auth server
+ */
+export const USER_SESSION_COOKIE = 'mcp_auth_session';
+
+/**
+ * Signs a user in at the auth server, once they have authenticated upstream,
+ * by giving their browser a session cookie.
+ */
+export async function startUserSession(
+  req: Request,
+  res: Response,
+  userId: string,
+  upstreamGrantId: string
+): Promise<UserSession> {
+  const sessionToken = generateToken();
+  const session: UserSession = {
+    userId,
+    upstreamGrantId,
+    csrfToken: generateToken(),
+    createdAt: Date.now() / 1000,
+  };
+  await saveUserSession(sessionToken, session);
+
+  res.cookie(USER_SESSION_COOKIE, sessionToken, {
+    httpOnly: true,
+    // Lax still sends the cookie when a client sends the user to /authorize,
+    // but not with form posts from other sites
+    sameSite: 'lax',
+    secure: req.secure,
+    maxAge: REDIS_EXPIRY_TIMES.USER_SESSION * 1000,
+    path: '/',
+  });
+  return session;
+}
+
+/**
+ * The session of the user signed in on the requesting browser, if any.
+ */
+export async function getUserSession(req: Request): Promise<UserSession | undefined> {
+  const sessionToken = readCookie(req, USER_SESSION_COOKIE);
+  // Session tokens are generated tokens; anything else can't decrypt a session
+  if (!sessionToken || !/^[0-9a-f]{64}$/.test(sessionToken)) {
+    return undefined;
+  }
+  const session = await readUserSession(sessionToken);
+  // Sessions from before upstream grants sign in again
+  return session?.upstreamGrantId ? session : undefined;
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const cookie of req.headers.cookie?.split(';') ?? []) {
+    const [key, ...value] = cookie.trim().split('=');
+    if (key === name) {
+      return value.join('=');
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,72 @@
+import { Request, Response } from "express";
+import { InvalidTokenError, OAuthError, ServerError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { FeatureReferenceOAuthClientsStore } from "../auth/provider.js";
+import { logger } from "../../shared/logger.js";
+
+/**
+ * ============================================================================
+ * CLIENT CONFIGURATION ENDPOINT - RFC 7592
+ * ============================================================================
+ *
+ * Registration returns a registration access token and the URL of the
+ * client's configuration endpoint, /register/:clientId. With the token as a
+ * Bearer token, the client (or its developer) can:
+ *
+ * - GET it to read the client's current registration
+ * - PUT new metadata to it, e.g. to change redirect URIs without
+ *   registering a new client
+ * - DELETE it to delete the client and revoke every token issued to it
+ *
+ * Each request returns a new registration access token, replacing the one
+ * used. Reading or updating a registration also keeps it for another 30
+ * days, so clients still in use don't expire.
+ *
+ * ============================================================================
+ */
+
+function bearerToken(req: Request): string {
+  const [type, token] = req.headers.authorization?.split(' ') ?? [];
+  if (type?.toLowerCase() !== 'bearer' || !token) {
+    throw new InvalidTokenError('Missing registration access token');
+  }
+  return token;
+}
+
+/**
+ * Client configuration endpoint (RFC 7592 section 2)
+ */
+export function handleClientConfiguration(clients: FeatureReferenceOAuthClientsStore) {
+  return async (req: Request, res: Response) => {
+    res.setHeader('Cache-Control', 'no-store');
+    try {
+      const token = bearerToken(req);
+      const { clientId } = req.params;
+
+      switch (req.method) {
+        case 'GET':
+          res.json(await clients.readClientConfiguration(clientId, token));
+          return;
+        case 'PUT':
+          res.json(await clients.updateClientConfiguration(clientId, token, req.body));
+          return;
+        case 'DELETE':
+          await clients.deleteClient(clientId, token);
+          res.status(204).end();
+          return;
+      }
+    } catch (error) {
+      if (error instanceof InvalidTokenError) {
+        // Also for unknown clients, so the endpoint doesn't reveal which exist
+        res.setHeader('WWW-Authenticate', `Bearer error="${error.errorCode}", error_description="${error.message}"`);
+        res.status(401).json(error.toResponseObject());
+        return;
+      }
+      if (error instanceof OAuthError && !(error instanceof ServerError)) {
+        res.status(400).json(error.toResponseObject());
+        return;
+      }
+      logger.error('Client configuration error', error as Error);
+      res.status(500).json(new ServerError('Internal Server Error').toResponseObject());
+    }
+  };
+}
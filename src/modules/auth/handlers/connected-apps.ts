@@ -0,0 +1,234 @@
+import { Request, Response } from "express";
+import { OAuthRegisteredClientsStore } from "@modelcontextprotocol/sdk/server/auth/clients.js";
+import { listConsents } from "../services/auth.js";
+import { revokeGrant } from "../auth/grants.js";
+import { escapeHtml } from "../auth/html.js";
+import { getUserSession } from "../auth/user-session.js";
+import { isKnownScope, SCOPE_CATALOG } from "../../../interfaces/scopes.js";
+import { logger } from "../../shared/logger.js";
+
+/**
+ * ============================================================================
+ * CONNECTED APPS - the clients a user has authorized
+ * ============================================================================
+ *
+ * Lists the clients the signed-in user has granted access to, with the
+ * scopes granted and when the grant was made and last used, and lets the
+ * user disconnect each one. Disconnecting revokes the user's consent and
+ * every token issued under it, and ends the MCP sessions opened with them.
+ *
+ * Users are signed in by the session cookie set when they authorize a
+ * client, so the page is only useful on a browser that has done so.
+ *
+ * ============================================================================
+ */
+
+function formatTimestamp(seconds: number): string {
+  return new Date(seconds * 1000).toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+}
+
+function sendPage(res: Response, body: string) {
+  res.setHeader('Content-Security-Policy', [
+    "default-src 'self'",
+    "style-src 'self' 'unsafe-inline'",
+    "img-src 'self' data:",
+    "object-src 'none'",
+    "frame-ancestors 'none'",
+    "form-action 'self'",
+    "base-uri 'self'"
+  ].join('; '));
+
+  res.send(`
+    <!DOCTYPE html>
+    <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Connected Apps</title>
+        <style>
+          * {
+            margin: 0;
+            padding: 0;
+            box-sizing: border-box;
+          }
+
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+            background: #000000;
+            color: #ffffff;
+            min-height: 100vh;
+            display: flex;
+            justify-content: center;
+            padding: 40px 20px;
+          }
+
+          .container {
+            background: #ffffff;
+            color: #000000;
+            border-radius: 16px;
+            padding: 40px;
+            max-width: 640px;
+            width: 100%;
+            border: 1px solid #e2e8f0;
+            align-self: flex-start;
+          }
+
+          h1 {
+            font-size: 32px;
+            font-weight: 800;
+            margin-bottom: 8px;
+          }
+
+          .subtitle {
+            color: #4a5568;
+            font-size: 16px;
+            margin-bottom: 32px;
+            line-height: 1.5;
+          }
+
+          .app {
+            background: #f8f9fa;
+            border: 2px solid #e2e8f0;
+            border-radius: 12px;
+            padding: 24px;
+            margin-bottom: 16px;
+          }
+
+          .app h2 {
+            font-size: 18px;
+            font-weight: 600;
+            margin-bottom: 4px;
+          }
+
+          .client-id {
+            font-family: 'Courier New', monospace;
+            font-size: 13px;
+            color: #718096;
+            word-break: break-all;
+            margin-bottom: 16px;
+          }
+
+          .meta {
+            color: #4a5568;
+            font-size: 14px;
+            margin-bottom: 12px;
+          }
+
+          .scope-list {
+            list-style: none;
+            margin-bottom: 16px;
+          }
+
+          .scope-list li {
+            padding: 4px 0;
+            color: #4a5568;
+            font-size: 14px;
+          }
+
+          .scope-name {
+            font-family: 'Courier New', monospace;
+            font-weight: 600;
+            color: #2d3748;
+          }
+
+          .btn-revoke {
+            background: #000000;
+            color: #ffffff;
+            font-size: 14px;
+            font-weight: 700;
+            padding: 10px 20px;
+            border: none;
+            border-radius: 8px;
+            cursor: pointer;
+          }
+
+          .btn-revoke:hover {
+            background: #333333;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          ${body}
+        </div>
+      </body>
+    </html>
+  `);
+}
+
+/**
+ * Connected apps page: the clients the signed-in user has authorized
+ */
+export function handleConnectedApps(clients: OAuthRegisteredClientsStore) {
+  return async (req: Request, res: Response) => {
+    const session = await getUserSession(req);
+    if (!session) {
+      res.status(401);
+      sendPage(res, `
+        <h1>Connected Apps</h1>
+        <p class="subtitle">You're not signed in. Authorize an MCP client from this browser to sign in, then come back to manage the apps you've connected.</p>
+      `);
+      return;
+    }
+
+    const consents = await listConsents(session.userId);
+    const apps = await Promise.all(consents.map(async consent => {
+      const client = await clients.getClient(consent.clientId);
+      return `
+        <div class="app">
+          <h2>${escapeHtml(client?.client_name ?? 'Unnamed client')}</h2>
+          <div class="client-id">${escapeHtml(consent.clientId)}</div>
+          <p class="meta">Authorized ${formatTimestamp(consent.grantedAt)} &middot; Last used ${formatTimestamp(consent.lastUsedAt)}</p>
+          <ul class="scope-list">
+            ${consent.scopes.map(scope => `
+            <li><span class="scope-name">${escapeHtml(scope)}</span> ${isKnownScope(scope) ? SCOPE_CATALOG[scope] : ''}</li>`).join('')}
+          </ul>
+          <form method="post" action="/connected-apps/revoke">
+            <input type="hidden" name="client_id" value="${escapeHtml(consent.clientId)}">
+            <input type="hidden" name="csrf_token" value="${session.csrfToken}">
+            <button type="submit" class="btn-revoke">Disconnect</button>
+          </form>
+        </div>`;
+    }));
+
+    sendPage(res, `
+      <h1>Connected Apps</h1>
+      <p class="subtitle">Signed in as <strong>${escapeHtml(session.userId)}</strong>. These apps can access your MCP server. Disconnecting one signs it out everywhere at once.</p>
+      ${apps.length > 0 ? apps.join('') : '<p class="subtitle">You haven\'t connected any apps yet.</p>'}
+    `);
+  };
+}
+
+/**
+ * Disconnects one of the signed-in user's apps, then returns to the list
+ */
+export async function handleRevokeConnectedApp(req: Request, res: Response) {
+  const session = await getUserSession(req);
+  const { client_id: clientId, csrf_token: csrfToken } = req.body ?? {};
+
+  if (!session || csrfToken !== session.csrfToken) {
+    res.status(403).json({
+      error: 'forbidden',
+      error_description: 'Not signed in, or the form has expired'
+    });
+    return;
+  }
+  if (typeof clientId !== 'string' || !clientId) {
+    res.status(400).json({
+      error: 'invalid_request',
+      error_description: 'Missing client_id'
+    });
+    return;
+  }
+
+  try {
+    await revokeGrant(session.userId, clientId);
+    res.redirect(303, '/connected-apps');
+  } catch (error) {
+    logger.error('Failed to disconnect app', error as Error, { clientId });
+    res.status(500).json({
+      error: 'server_error',
+      error_description: 'Failed to disconnect app'
+    });
+  }
+}
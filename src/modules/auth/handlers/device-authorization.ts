@@ -0,0 +1,333 @@
+import { Request, Response } from "express";
+import { z } from "zod/v4";
+import { InvalidClientError, InvalidRequestError, OAuthError, ServerError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { OAuthRegisteredClientsStore } from "@modelcontextprotocol/sdk/server/auth/clients.js";
+import { FeatureReferenceAuthProvider } from "../auth/provider.js";
+import { DEVICE_VERIFICATION_PATH, normalizeUserCode } from "../auth/device.js";
+import { escapeHtml } from "../auth/html.js";
+import { denyDeviceUserCode, readDeviceUserCode, readPendingAuthorization } from "../services/auth.js";
+import { isKnownScope, SCOPE_CATALOG } from "../../../interfaces/scopes.js";
+import { logger } from "../../shared/logger.js";
+
+/**
+ * ============================================================================
+ * DEVICE AUTHORIZATION - RFC 8628
+ * ============================================================================
+ *
+ * For clients on devices without a browser, or with no way to type in one:
+ *
+ * 1. The device asks /device_authorization for a device code and a short
+ *    user code, and shows the user code and the verification page's URL.
+ * 2. On another device, the user enters the user code on the verification
+ *    page, reviews what the device is asking for, and signs in with the
+ *    upstream identity provider to approve it, just like at the consent
+ *    screen of the authorization code flow. Or they deny it.
+ * 3. Meanwhile the device polls /token with the device code until the
+ *    user has decided, or the device code expires.
+ *
+ * ============================================================================
+ */
+
+const DeviceAuthorizationRequestSchema = z.object({
+  scope: z.string().optional(),
+  resource: z.url().optional(),
+});
+
+/**
+ * Device authorization endpoint (RFC 8628 section 3.1). Mounted after
+ * requireClientAuthentication.
+ */
+export function handleDeviceAuthorization(provider: FeatureReferenceAuthProvider, issuerUrl: string) {
+  return async (req: Request, res: Response) => {
+    res.setHeader('Cache-Control', 'no-store');
+    try {
+      const parseResult = DeviceAuthorizationRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        throw new InvalidRequestError(parseResult.error.message);
+      }
+      const { scope, resource } = parseResult.data;
+      // Authenticated by requireClientAuthentication, which leaves only the client_id
+      const client = await provider.clientsStore.getClient(req.body.client_id);
+      if (!client) {
+        throw new InvalidClientError('Invalid client_id');
+      }
+
+      const grant = await provider.authorizeDevice(
+        client,
+        scope?.split(' ').filter(Boolean),
+        resource ? new URL(resource) : undefined
+      );
+      const verificationUri = new URL(DEVICE_VERIFICATION_PATH, issuerUrl);
+      const verificationUriComplete = new URL(verificationUri);
+      verificationUriComplete.searchParams.set('user_code', grant.userCode);
+
+      res.json({
+        device_code: grant.deviceCode,
+        user_code: grant.userCode,
+        verification_uri: verificationUri.href,
+        verification_uri_complete: verificationUriComplete.href,
+        expires_in: grant.expiresIn,
+        interval: grant.interval,
+      });
+    } catch (error) {
+      if (error instanceof OAuthError && !(error instanceof ServerError)) {
+        res.status(400).json(error.toResponseObject());
+        return;
+      }
+      logger.error('Device authorization error', error as Error);
+      res.status(500).json(new ServerError('Internal Server Error').toResponseObject());
+    }
+  };
+}
+
+function sendPage(res: Response, body: string) {
+  res.setHeader('Content-Security-Policy', [
+    "default-src 'self'",
+    "style-src 'self' 'unsafe-inline'",
+    "img-src 'self' data:",
+    "object-src 'none'",
+    "frame-ancestors 'none'",
+    "form-action 'self'",
+    "base-uri 'self'"
+  ].join('; '));
+
+  res.send(`
+    <!DOCTYPE html>
+    <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Connect a Device</title>
+        <style>
+          * {
+            margin: 0;
+            padding: 0;
+            box-sizing: border-box;
+          }
+
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+            background: #000000;
+            color: #ffffff;
+            min-height: 100vh;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            padding: 20px;
+          }
+
+          .container {
+            background: #ffffff;
+            color: #000000;
+            border-radius: 16px;
+            padding: 40px;
+            max-width: 500px;
+            width: 100%;
+            text-align: center;
+            border: 1px solid #e2e8f0;
+          }
+
+          h1 {
+            font-size: 32px;
+            font-weight: 800;
+            margin-bottom: 12px;
+          }
+
+          .subtitle {
+            color: #4a5568;
+            font-size: 16px;
+            margin-bottom: 32px;
+            line-height: 1.5;
+          }
+
+          .error {
+            color: #c53030;
+            font-size: 14px;
+            margin-bottom: 16px;
+          }
+
+          .info {
+            background: #f8f9fa;
+            border: 2px solid #e2e8f0;
+            border-radius: 12px;
+            padding: 24px;
+            margin-bottom: 24px;
+            text-align: left;
+          }
+
+          .info h3 {
+            color: #2d3748;
+            font-size: 16px;
+            font-weight: 600;
+            margin-bottom: 8px;
+          }
+
+          .code {
+            font-family: 'Courier New', monospace;
+            font-size: 14px;
+            color: #4a5568;
+            word-break: break-all;
+          }
+
+          .scope-list {
+            list-style: none;
+          }
+
+          .scope-list li {
+            padding: 4px 0;
+            color: #4a5568;
+            font-size: 14px;
+          }
+
+          .scope-name {
+            font-family: 'Courier New', monospace;
+            font-weight: 600;
+            color: #2d3748;
+          }
+
+          input[name="user_code"] {
+            font-family: 'Courier New', monospace;
+            font-size: 24px;
+            letter-spacing: 4px;
+            text-align: center;
+            text-transform: uppercase;
+            width: 100%;
+            padding: 12px;
+            border: 2px solid #e2e8f0;
+            border-radius: 8px;
+            margin-bottom: 16px;
+          }
+
+          .btn-primary, .btn-secondary {
+            font-size: 16px;
+            font-weight: 700;
+            padding: 14px 28px;
+            border-radius: 8px;
+            cursor: pointer;
+            width: 100%;
+            display: inline-block;
+            text-decoration: none;
+            margin-bottom: 12px;
+          }
+
+          .btn-primary {
+            background: #000000;
+            color: #ffffff;
+            border: none;
+          }
+
+          .btn-primary:hover {
+            background: #333333;
+          }
+
+          .btn-secondary {
+            background: #ffffff;
+            color: #000000;
+            border: 2px solid #000000;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          ${body}
+        </div>
+      </body>
+    </html>
+  `);
+}
+
+function sendUserCodeForm(res: Response, error?: string) {
+  sendPage(res, `
+    <h1>Connect a Device</h1>
+    <p class="subtitle">Enter the code shown on your device.</p>
+    ${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+    <form method="get" action="${DEVICE_VERIFICATION_PATH}">
+      <input name="user_code" placeholder="XXXX-XXXX" autocomplete="off" autofocus required>
+      <button type="submit" class="btn-primary">Continue</button>
+    </form>
+  `);
+}
+
+/**
+ * Verification page (RFC 8628 section 3.3): asks for the user code, then
+ * shows what the device is asking for, to approve by signing in upstream
+ * or to deny
+ */
+export function handleDeviceVerification(clients: OAuthRegisteredClientsStore) {
+  return async (req: Request, res: Response) => {
+    const { user_code: input } = req.query;
+    if (typeof input !== 'string' || !input) {
+      sendUserCodeForm(res);
+      return;
+    }
+
+    const userCode = normalizeUserCode(input);
+    const deviceUserCode = userCode && await readDeviceUserCode(userCode);
+    const pendingAuth = deviceUserCode && !deviceUserCode.denied
+      ? await readPendingAuthorization(deviceUserCode.authorizationCode)
+      : undefined;
+    if (!deviceUserCode || !pendingAuth) {
+      res.status(400);
+      sendUserCodeForm(res, 'That code is invalid or has expired. Check the code on your device and try again.');
+      return;
+    }
+
+    const client = await clients.getClient(pendingAuth.clientId);
+    sendPage(res, `
+      <h1>Connect a Device</h1>
+      <p class="subtitle">Only continue if you started this on your own device and it shows the same code.</p>
+      <div class="info">
+        <h3>Device Code</h3>
+        <div class="code">${escapeHtml(userCode!)}</div>
+      </div>
+      <div class="info">
+        <h3>${escapeHtml(client?.client_name ?? 'Unnamed client')}</h3>
+        <div class="code">${escapeHtml(pendingAuth.clientId)}</div>
+      </div>
+      <div class="info">
+        <h3>Requested Permissions</h3>
+        <ul class="scope-list">
+          ${pendingAuth.scopes.map(scope => `
+          <li><span class="scope-name">${escapeHtml(scope)}</span> ${isKnownScope(scope) ? SCOPE_CATALOG[scope] : ''}</li>`).join('')}
+        </ul>
+      </div>
+      <a href="/upstream-idp/authorize?state=${deviceUserCode.authorizationCode}" class="btn-primary">
+        Continue to Authentication
+      </a>
+      <form method="post" action="${DEVICE_VERIFICATION_PATH}/deny">
+        <input type="hidden" name="user_code" value="${escapeHtml(userCode!)}">
+        <button type="submit" class="btn-secondary">Deny</button>
+      </form>
+    `);
+  };
+}
+
+/**
+ * Denies a device authorization; the device finds out on its next poll
+ */
+export async function handleDeviceDeny(req: Request, res: Response) {
+  const { user_code: input } = req.body ?? {};
+  const userCode = typeof input === 'string' ? normalizeUserCode(input) : undefined;
+
+  if (!userCode || !await denyDeviceUserCode(userCode)) {
+    res.status(400);
+    sendUserCodeForm(res, 'That code is invalid or has expired.');
+    return;
+  }
+
+  logger.info('Device authorization denied');
+  sendPage(res, `
+    <h1>Access Denied</h1>
+    <p class="subtitle">The device was not connected. You can close this page.</p>
+  `);
+}
+
+/**
+ * Where the user ends up once they have approved a device
+ */
+export function handleDeviceComplete(req: Request, res: Response) {
+  sendPage(res, `
+    <h1>Device Connected</h1>
+    <p class="subtitle">You can close this page and return to your device.</p>
+  `);
+}
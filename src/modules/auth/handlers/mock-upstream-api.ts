@@ -0,0 +1,43 @@
+import { Request, Response } from "express";
+import { readMockUpstreamAccessToken } from "../upstream/mock-tokens.js";
+
+/**
+ * ============================================================================
+ * MOCK UPSTREAM API - FOR DEMONSTRATION ONLY
+ * ============================================================================
+ *
+ * Stands in for the third-party API an MCP server calls on its users'
+ * behalf, such as the GitHub or Google APIs. It belongs to the mock upstream
+ * identity provider and accepts only the access tokens that provider issued,
+ * which expire after a few minutes. The MCP server's getUpstreamProfile tool
+ * calls it with the user's upstream token.
+ *
+ * ============================================================================
+ */
+
+/**
+ * Mock API endpoint returning the profile of the user the token belongs to
+ */
+export async function handleMockUpstreamProfile(req: Request, res: Response) {
+  const [scheme, token] = req.headers.authorization?.split(' ') ?? [];
+  const userId = scheme?.toLowerCase() === 'bearer' && token
+    ? await readMockUpstreamAccessToken(token)
+    : undefined;
+
+  if (!userId) {
+    res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+    res.status(401).json({
+      error: 'invalid_token',
+      error_description: 'Missing, invalid or expired access token'
+    });
+    return;
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  res.json({
+    id: userId,
+    name: `Mock User ${userId}`,
+    plan: 'demo',
+    fetchedAt: new Date().toISOString()
+  });
+}
@@ -1,7 +1,4 @@
 import { Request, Response } from "express";
-import { generateMcpTokens, readPendingAuthorization, saveMcpInstallation, saveRefreshToken, saveTokenExchange } from "../services/auth.js";
-import { McpInstallation } from "../types.js";
-import { logger } from "../../shared/logger.js";
 
 /**
  * ============================================================================
@@ -19,7 +16,8 @@ import { logger } from "../../shared/logger.js";
  * The mock implementation:
  * - Shows a user selection UI
  * - Generates random user IDs for testing
- * - Simulates the redirect flow back to the OAuth server
+ * - Simulates the redirect flow back to the OAuth server, whose callback is
+ *   handled by MockUpstreamIdentityProvider (upstream/mock.ts)
  *
  * In production, users would see their actual identity provider's login page
  * (Google's login, GitHub's login, corporate SSO portal, etc.)
@@ -283,100 +281,3 @@ export async function handleMockUpstreamAuthorize(req: Request, res: Response) {
   `);
 }
 
-
-// This is the callback URL that the upstream auth server will redirect to after authorization
-export async function handleMockUpstreamCallback(req: Request, res: Response) {
-  const {
-    // The state returned from the upstream auth server is actually the authorization code
-    state: mcpAuthorizationCode,
-    code: upstreamAuthorizationCode,
-    userId, // User ID from the authorization flow
-  } = req.query;
-
-  logger.debug('Mock upstream IDP callback received', {
-    mcpAuthorizationCode: typeof mcpAuthorizationCode === 'string' ? mcpAuthorizationCode.substring(0, 8) + '...' : mcpAuthorizationCode,
-    upstreamAuthorizationCode: typeof upstreamAuthorizationCode === 'string' ? upstreamAuthorizationCode.substring(0, 8) + '...' : upstreamAuthorizationCode,
-    userId
-  });
-
-  // This is where you'd exchange the upstreamAuthorizationCode for access/refresh tokens
-  // In this case, we're just going to fake it
-  const upstreamTokens = await mockUpstreamTokenExchange(upstreamAuthorizationCode as string);
-
-  // Validate that it's a string
-  if (typeof mcpAuthorizationCode !== "string") {
-    throw new Error("Invalid authorization code");
-  }
-
-  const pendingAuth = await readPendingAuthorization(mcpAuthorizationCode);
-  logger.debug('Reading pending authorization', {
-    mcpAuthorizationCode: mcpAuthorizationCode.substring(0, 8) + '...',
-    found: !!pendingAuth
-  });
-
-  if (!pendingAuth) {
-    throw new Error("No matching authorization found");
-  }
-
-  logger.debug('Generating MCP tokens');
-  const mcpTokens = generateMcpTokens();
-  logger.debug('MCP tokens generated', {
-    hasAccessToken: !!mcpTokens.access_token,
-    hasRefreshToken: !!mcpTokens.refresh_token
-  });
-
-  const mcpInstallation: McpInstallation = {
-    mockUpstreamInstallation: {
-      mockUpstreamAccessToken: upstreamTokens.access_token,
-      mockUpstreamRefreshToken: upstreamTokens.refresh_token,
-    },
-    mcpTokens,
-    clientId: pendingAuth.clientId,
-    issuedAt: Date.now() / 1000,
-    userId: (userId as string) || 'anonymous-user', // Include user ID from auth flow
-  }
-
-  logger.debug('Saving MCP installation');
-  // Store the upstream authorization data
-  await saveMcpInstallation(mcpTokens.access_token, mcpInstallation);
-  logger.debug('MCP installation saved');
-
-  // Store the refresh token -> access token mapping
-  if (mcpTokens.refresh_token) {
-    logger.debug('Saving refresh token mapping');
-    await saveRefreshToken(mcpTokens.refresh_token, mcpTokens.access_token);
-    logger.debug('Refresh token mapping saved');
-  }
-
-  logger.debug('Saving token exchange data');
-  // Store the token exchange data
-  await saveTokenExchange(mcpAuthorizationCode, {
-    mcpAccessToken: mcpTokens.access_token,
-    alreadyUsed: false,
-  });
-  logger.debug('Token exchange data saved');
-
-  // Redirect back to the original application with the authorization code and state
-  const redirectUrl = pendingAuth.state ?
-    `${pendingAuth.redirectUri}?code=${mcpAuthorizationCode}&state=${pendingAuth.state}` :
-    `${pendingAuth.redirectUri}?code=${mcpAuthorizationCode}`;
-
-  logger.debug('Redirecting to callback', {
-    redirectUrl,
-    hasState: !!pendingAuth.state
-  });
-  res.redirect(redirectUrl);
-  logger.debug('Redirect completed');
-};
-
-function mockUpstreamTokenExchange(
-  authorizationCode: string,
-): Promise<{ access_token: string; refresh_token: string }> {
-  // just return the authorization code with a suffix
-  return new Promise((resolve) => {
-    resolve({
-      access_token: `${authorizationCode}-exchanged-for-access-token`,
-      refresh_token: `${authorizationCode}-exchanged-for-refresh-token`,
-    });
-  });
-}
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { NextFunction, Request, Response } from "express";
+import { z } from "zod/v4";
+import { InvalidClientError, InvalidRequestError, OAuthError, ServerError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { OAuthTokens } from "@modelcontextprotocol/sdk/shared/auth.js";
+import { FeatureReferenceAuthProvider } from "../auth/provider.js";
+import { DEVICE_CODE_GRANT_TYPE } from "../../../interfaces/oauth-metadata.js";
+import { logger } from "../../shared/logger.js";
+
+const ClientCredentialsGrantSchema = z.object({
+  scope: z.string().optional(),
+  resource: z.url().optional(),
+});
+
+const DeviceCodeGrantSchema = z.object({
+  device_code: z.string().min(1),
+  resource: z.url().optional(),
+});
+
+/**
+ * Token endpoint handler for the grants the SDK's token handler doesn't
+ * support: client_credentials and the device_code grant. Mounted after
+ * requireClientAuthentication; requests for other grant types go on to the SDK.
+ */
+export function handleExtensionGrants(provider: FeatureReferenceAuthProvider) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const grantType = req.body?.grant_type;
+    if (grantType !== 'client_credentials' && grantType !== DEVICE_CODE_GRANT_TYPE) {
+      return next();
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    try {
+      // Authenticated by requireClientAuthentication, which leaves only the client_id
+      const client = await provider.clientsStore.getClient(req.body.client_id);
+      if (!client) {
+        throw new InvalidClientError('Invalid client_id');
+      }
+
+      let tokens: OAuthTokens;
+      if (grantType === 'client_credentials') {
+        const parseResult = ClientCredentialsGrantSchema.safeParse(req.body);
+        if (!parseResult.success) {
+          throw new InvalidRequestError(parseResult.error.message);
+        }
+        const { scope, resource } = parseResult.data;
+        tokens = await provider.exchangeClientCredentials(
+          client,
+          scope?.split(' ').filter(Boolean),
+          resource ? new URL(resource) : undefined
+        );
+      } else {
+        const parseResult = DeviceCodeGrantSchema.safeParse(req.body);
+        if (!parseResult.success) {
+          throw new InvalidRequestError(parseResult.error.message);
+        }
+        const { device_code, resource } = parseResult.data;
+        tokens = await provider.exchangeDeviceCode(client, device_code, resource ? new URL(resource) : undefined);
+      }
+      res.json(tokens);
+    } catch (error) {
+      if (error instanceof OAuthError && !(error instanceof ServerError)) {
+        res.status(400).json(error.toResponseObject());
+        return;
+      }
+      logger.error('Token grant error', error as Error, { grantType });
+      res.status(500).json(new ServerError('Internal Server Error').toResponseObject());
+    }
+  };
+}
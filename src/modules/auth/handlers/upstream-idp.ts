@@ -0,0 +1,86 @@
+import { Request, Response } from "express";
+import { readPendingAuthorization } from "../services/auth.js";
+import { completeAuthorization } from "../auth/grants.js";
+import { startUserSession } from "../auth/user-session.js";
+import { createUpstreamGrant } from "../auth/upstream-tokens.js";
+import { SERVICE_USER_ID_PREFIX } from "../auth/provider.js";
+import { UpstreamIdentityProvider } from "../upstream/types.js";
+import { logger } from "../../shared/logger.js";
+
+/**
+ * Sends the user from the consent screen to sign in with the upstream
+ * identity provider. `state` is the pending MCP authorization's code.
+ */
+export function handleUpstreamSignIn(upstream: UpstreamIdentityProvider) {
+  return async (req: Request, res: Response) => {
+    const { state } = req.query;
+    if (typeof state !== 'string' || !await readPendingAuthorization(state)) {
+      res.status(400).json({
+        error: 'invalid_request',
+        error_description: 'Unknown or expired authorization'
+      });
+      return;
+    }
+
+    try {
+      await upstream.startSignIn(state, req, res);
+    } catch (error) {
+      logger.error('Failed to start upstream sign-in', error as Error, { provider: upstream.name });
+      res.status(502).json({
+        error: 'temporarily_unavailable',
+        error_description: 'The upstream identity provider is unavailable'
+      });
+    }
+  };
+}
+
+/**
+ * Where the upstream identity provider sends the user back: completes the
+ * MCP authorization for the signed-in user and redirects to the client.
+ */
+export function handleUpstreamCallback(upstream: UpstreamIdentityProvider) {
+  return async (req: Request, res: Response) => {
+    let signIn;
+    try {
+      signIn = await upstream.handleCallback(req);
+      // Users must not be able to act as, and take over the MCP sessions of, a service principal
+      if (signIn.userId.startsWith(SERVICE_USER_ID_PREFIX)) {
+        throw new Error(`User IDs starting with ${SERVICE_USER_ID_PREFIX} are reserved for service principals`);
+      }
+    } catch (error) {
+      logger.warning('Upstream sign-in failed', { provider: upstream.name, error: (error as Error).message });
+      res.status(400).json({
+        error: 'access_denied',
+        error_description: 'Sign-in with the upstream identity provider failed'
+      });
+      return;
+    }
+
+    const pendingAuth = await readPendingAuthorization(signIn.state);
+    logger.debug('Reading pending authorization', {
+      mcpAuthorizationCode: signIn.state.substring(0, 8) + '...',
+      found: !!pendingAuth
+    });
+    if (!pendingAuth) {
+      res.status(400).json({
+        error: 'invalid_request',
+        error_description: 'No matching authorization found'
+      });
+      return;
+    }
+
+    // Stored once, for the new installation and the browser session to share
+    const upstreamGrantId = await createUpstreamGrant(signIn.upstreamInstallation);
+    const redirectUrl = await completeAuthorization(signIn.state, pendingAuth, signIn.userId, upstreamGrantId);
+
+    // Keep the user signed in, so clients they approved are authorized again
+    // without the consent screen, and they can manage their connected apps
+    await startUserSession(req, res, signIn.userId, upstreamGrantId);
+
+    logger.debug('Redirecting to callback', {
+      redirectUrl,
+      hasState: !!pendingAuth.state
+    });
+    res.redirect(redirectUrl);
+  };
+}
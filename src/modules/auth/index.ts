@@ -11,13 +11,50 @@
 
 import { Router } from 'express';
 import express from 'express';
+import crypto from 'crypto';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import rateLimit from 'express-rate-limit';
-import { mcpAuthRouter } from '@modelcontextprotocol/sdk/server/auth/router.js';
-import { FeatureReferenceAuthProvider } from './auth/provider.js';
-import { handleMockUpstreamAuthorize, handleMockUpstreamCallback } from './handlers/mock-upstream-idp.js';
+import cors from 'cors';
+import { createOAuthMetadata, mcpAuthRouter } from '@modelcontextprotocol/sdk/server/auth/router.js';
+import { metadataHandler } from '@modelcontextprotocol/sdk/server/auth/handlers/metadata.js';
+import { FeatureReferenceAuthProvider, FeatureReferenceOAuthClientsStore } from './auth/provider.js';
+import { JwtAccessTokens } from './auth/jwt.js';
+import { DEVICE_COMPLETE_PATH, DEVICE_VERIFICATION_PATH } from './auth/device.js';
+import { ACCESS_TOKEN_EXPIRY_SEC } from './auth/auth-core.js';
+import { JwtSigningAlgorithm } from './types.js';
+import { handleMockUpstreamAuthorize } from './handlers/mock-upstream-idp.js';
+import { handleMockUpstreamProfile } from './handlers/mock-upstream-api.js';
+import { handleUpstreamCallback, handleUpstreamSignIn } from './handlers/upstream-idp.js';
+import { handleExtensionGrants } from './handlers/token-grants.js';
+import {
+  handleDeviceAuthorization,
+  handleDeviceComplete,
+  handleDeviceDeny,
+  handleDeviceVerification
+} from './handlers/device-authorization.js';
+import { MockUpstreamIdentityProvider } from './upstream/mock.js';
+import { OidcUpstreamIdentityProvider } from './upstream/oidc.js';
+import { UpstreamIdentityProvider } from './upstream/types.js';
+import { handleConnectedApps, handleRevokeConnectedApp } from './handlers/connected-apps.js';
+import { handleClientConfiguration } from './handlers/client-configuration.js';
+import {
+  authenticateClientRequest,
+  ClientLookup,
+  requireClientAuthentication,
+  sendClientAuthenticationError
+} from './auth/client-auth.js';
+import { ClientMetadataDocuments, ClientMetadataFetcher } from './auth/client-metadata.js';
 import { TokenIntrospectionResponse } from '../../interfaces/auth-validator.js';
+import {
+  CLIENT_ASSERTION_SIGNING_ALGORITHMS,
+  DEVICE_AUTHORIZATION_PATH,
+  DEVICE_CODE_GRANT_TYPE,
+  GRANT_TYPES,
+  TOKEN_ENDPOINT_AUTH_METHODS
+} from '../../interfaces/oauth-metadata.js';
+import { ALL_SCOPES } from '../../interfaces/scopes.js';
+import { UpstreamToken, UpstreamTokenUnavailableError } from '../../interfaces/upstream-tokens.js';
 import { logger } from '../shared/logger.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -27,17 +64,81 @@ export interface AuthConfig {
   baseUri: string;
   authServerUrl?: string; // For metadata purposes
   redisUrl?: string;
+  /** Issue signed JWT access tokens instead of opaque ones */
+  jwt?: {
+    algorithm: JwtSigningAlgorithm;
+    keyRotationIntervalMs: number;
+  };
+  /** Sign users in with this OpenID Connect provider instead of the mock upstream IdP */
+  oidc?: {
+    issuer: string;
+    clientId: string;
+    clientSecret?: string;
+    scopes: string[];
+  };
+  /**
+   * Secret MCP servers present to obtain upstream tokens from /upstream-token.
+   * The endpoint is only served when it is set.
+   */
+  upstreamTokenSecret?: string;
+  /** Fetches the metadata documents of clients whose client_id is a URL; defaults to fetch */
+  clientMetadataFetcher?: ClientMetadataFetcher;
 }
 
 export class AuthModule {
   private provider: FeatureReferenceAuthProvider;
+  private jwtAccessTokens?: JwtAccessTokens;
+  private upstream: UpstreamIdentityProvider;
   private router: Router;
 
   constructor(private config: AuthConfig) {
-    this.provider = new FeatureReferenceAuthProvider();
+    if (config.jwt) {
+      this.jwtAccessTokens = new JwtAccessTokens({
+        issuer: this.issuerUrl,
+        defaultAudience: this.issuerUrl,
+        algorithm: config.jwt.algorithm,
+        keyRotationIntervalSec: Math.ceil(config.jwt.keyRotationIntervalMs / 1000),
+        tokenLifetimeSec: ACCESS_TOKEN_EXPIRY_SEC
+      });
+    }
+    this.upstream = config.oidc
+      ? new OidcUpstreamIdentityProvider({
+        ...config.oidc,
+        redirectUri: `${config.baseUri}/upstream-idp/callback`
+      })
+      : new MockUpstreamIdentityProvider();
+    this.provider = new FeatureReferenceAuthProvider(
+      this.jwtAccessTokens,
+      this.upstream,
+      new FeatureReferenceOAuthClientsStore({
+        issuerUrl: this.issuerUrl,
+        metadataDocuments: new ClientMetadataDocuments(config.clientMetadataFetcher)
+      })
+    );
     this.router = this.setupRouter();
   }
 
+  private get issuerUrl(): string {
+    return this.config.authServerUrl || this.config.baseUri;
+  }
+
+  /**
+   * Audiences accepted in private_key_jwt client assertions: the issuer,
+   * with or without a trailing slash, and the token endpoint
+   */
+  private get clientAssertionAudience(): string[] {
+    const issuer = new URL(this.issuerUrl);
+    return [...new Set([this.issuerUrl, issuer.href, new URL('/token', issuer).href])];
+  }
+
+  /**
+   * Looks up clients for client authentication, registered or identified
+   * by a metadata document
+   */
+  private get findClient(): ClientLookup {
+    return clientId => this.provider.clientsStore.getClientRegistration(clientId);
+  }
+
   /**
    * Get Express router with all auth endpoints
    */
@@ -61,8 +162,11 @@ export class AuthModule {
         exp: authInfo.expiresAt,
         sub: String(authInfo.extra?.userId || 'unknown'),
         username: authInfo.extra?.username as string | undefined,
-        aud: this.config.baseUri,
-        iss: this.config.authServerUrl || this.config.baseUri,
+        // Tokens not bound to a resource have the auth server as their audience,
+        // which MCP servers only accept with AUTH_ACCEPT_UNBOUND_TOKENS
+        aud: authInfo.resource?.href ?? this.issuerUrl,
+        iss: this.issuerUrl,
+        grant_id: authInfo.extra?.grantId as string | undefined,
         token_type: 'Bearer'
       };
     } catch (error) {
@@ -71,6 +175,23 @@ export class AuthModule {
     }
   }
 
+  /**
+   * Direct upstream token access for internal mode
+   * Returns what the /upstream-token endpoint would
+   */
+  async getUpstreamToken(token: string): Promise<UpstreamToken> {
+    return this.provider.getUpstreamToken(token);
+  }
+
+  /**
+   * Whether a request to /upstream-token carries the shared secret
+   */
+  private hasUpstreamTokenSecret(authorization: string | undefined, secret: string): boolean {
+    const presented = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : '';
+    const hash = (value: string) => crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(hash(presented), hash(secret));
+  }
+
   private setupRouter(): Router {
     const router = Router();
 
@@ -91,10 +212,66 @@ export class AuthModule {
       legacyHeaders: false,
     });
 
+    if (this.jwtAccessTokens) {
+      const jwtAccessTokens = this.jwtAccessTokens;
+
+      // Public keys resource servers verify JWT access tokens with
+      router.get('/.well-known/jwks.json', cors(), async (req, res) => {
+        try {
+          res.setHeader('Cache-Control', 'public, max-age=300');
+          res.json(await jwtAccessTokens.getJwks());
+        } catch (error) {
+          logger.error('JWKS endpoint error', error as Error);
+          res.status(500).json({ error: 'server_error', error_description: 'Failed to load signing keys' });
+        }
+      });
+
+    }
+
+    // The SDK's metadata only knows its own grants and client authentication and
+    // has no introspection or device authorization endpoints or jwks_uri, so advertise ours ahead of the SDK's copy
+    const clientAuthMethods = [...TOKEN_ENDPOINT_AUTH_METHODS];
+    router.use('/.well-known/oauth-authorization-server', metadataHandler({
+      ...createOAuthMetadata({
+        provider: this.provider,
+        issuerUrl: new URL(this.issuerUrl),
+        scopesSupported: ALL_SCOPES
+      }),
+      grant_types_supported: [...GRANT_TYPES, DEVICE_CODE_GRANT_TYPE],
+      token_endpoint_auth_methods_supported: clientAuthMethods,
+      token_endpoint_auth_signing_alg_values_supported: CLIENT_ASSERTION_SIGNING_ALGORITHMS,
+      revocation_endpoint_auth_methods_supported: clientAuthMethods,
+      introspection_endpoint: `${this.issuerUrl}/introspect`,
+      introspection_endpoint_auth_methods_supported: clientAuthMethods,
+      device_authorization_endpoint: `${this.issuerUrl}${DEVICE_AUTHORIZATION_PATH}`,
+      jwks_uri: this.jwtAccessTokens ? `${this.issuerUrl}/.well-known/jwks.json` : undefined,
+      client_id_metadata_document_supported: true
+    }));
+
+    // Client authentication for the SDK's token and revocation endpoints,
+    // which can't check hashed secrets or client assertions themselves. It
+    // runs ahead of the SDK's own rate limits, so it needs one of its own.
+    router.post(['/token', '/revoke', DEVICE_AUTHORIZATION_PATH], cors(), authLimiter, express.urlencoded({ extended: false }),
+      requireClientAuthentication(this.findClient, this.clientAssertionAudience));
+
+    // Grants the SDK's token handler doesn't support
+    router.post('/token', handleExtensionGrants(this.provider));
+
+    // Device authorization (RFC 8628), for clients on devices without a browser
+    router.post(DEVICE_AUTHORIZATION_PATH, handleDeviceAuthorization(this.provider, this.issuerUrl));
+
+    // Client configuration endpoint (RFC 7592), for clients to manage their registration
+    const clientConfiguration = handleClientConfiguration(this.provider.clientsStore);
+    router.options('/register/:clientId', cors());
+    router.get('/register/:clientId', cors(), authLimiter, clientConfiguration);
+    router.put('/register/:clientId', cors(), authLimiter, express.json(), clientConfiguration);
+    router.delete('/register/:clientId', cors(), authLimiter, clientConfiguration);
+
     // OAuth endpoints via SDK's mcpAuthRouter
     router.use(mcpAuthRouter({
       provider: this.provider,
-      issuerUrl: new URL(this.config.authServerUrl || this.config.baseUri),
+      issuerUrl: new URL(this.issuerUrl),
+      scopesSupported: ALL_SCOPES,
       tokenOptions: {
         rateLimit: { windowMs: 5000, limit: 300 } // 300 requests per 5 seconds
       },
@@ -105,7 +282,14 @@ export class AuthModule {
 
     // Token introspection endpoint (RFC 7662)
     // This endpoint exists for external mode compatibility
-    router.post('/introspect', express.urlencoded({ extended: false }), async (req, res) => {
+    // Clients that identify themselves must authenticate; resource servers may introspect without
+    router.post('/introspect', authLimiter, express.urlencoded({ extended: false }), async (req, res) => {
+      try {
+        await authenticateClientRequest(req, this.findClient, this.clientAssertionAudience);
+      } catch (error) {
+        return sendClientAuthenticationError(req, res, error);
+      }
+
       try {
         const { token } = req.body;
 
@@ -125,9 +309,61 @@ export class AuthModule {
       }
     });
 
-    // Mock upstream IDP endpoints (for demo purposes)
-    router.get('/mock-upstream-idp/authorize', authLimiter, handleMockUpstreamAuthorize);
-    router.get('/mock-upstream-idp/callback', authLimiter, handleMockUpstreamCallback);
+    // Upstream tokens for MCP servers calling upstream APIs on users' behalf (external mode)
+    const upstreamTokenSecret = this.config.upstreamTokenSecret;
+    if (upstreamTokenSecret) {
+      router.post('/upstream-token', authLimiter, express.urlencoded({ extended: false }), async (req, res) => {
+        res.setHeader('Cache-Control', 'no-store');
+        if (!this.hasUpstreamTokenSecret(req.get('authorization'), upstreamTokenSecret)) {
+          return res.status(401).json({
+            error: 'invalid_client',
+            error_description: 'Missing or invalid upstream token secret'
+          });
+        }
+
+        const { token } = req.body ?? {};
+        if (typeof token !== 'string' || !token) {
+          return res.status(400).json({
+            error: 'invalid_request',
+            error_description: 'Missing token parameter'
+          });
+        }
+
+        try {
+          const upstreamToken = await this.getUpstreamToken(token);
+          res.json({
+            provider: upstreamToken.provider,
+            access_token: upstreamToken.accessToken,
+            expires_at: upstreamToken.expiresAt
+          });
+        } catch (error) {
+          if (error instanceof UpstreamTokenUnavailableError) {
+            return res.status(400).json({ error: 'invalid_grant', error_description: error.message });
+          }
+          logger.error('Upstream token endpoint error', error as Error);
+          res.status(500).json({ error: 'server_error', error_description: 'Failed to obtain upstream token' });
+        }
+      });
+    }
+
+    // Sign-in with the upstream identity provider, started from the consent screen
+    router.get('/upstream-idp/authorize', authLimiter, handleUpstreamSignIn(this.upstream));
+    router.get(this.upstream.callbackPath, authLimiter, handleUpstreamCallback(this.upstream));
+
+    if (this.upstream instanceof MockUpstreamIdentityProvider) {
+      // Mock upstream IDP login page and API (for demo purposes)
+      router.get('/mock-upstream-idp/authorize', authLimiter, handleMockUpstreamAuthorize);
+      router.get('/mock-upstream-api/profile', handleMockUpstreamProfile);
+    }
+
+    // Verification page, where users approve devices with their user code
+    router.get(DEVICE_VERIFICATION_PATH, authLimiter, handleDeviceVerification(this.provider.clientsStore));
+    router.post(`${DEVICE_VERIFICATION_PATH}/deny`, authLimiter, express.urlencoded({ extended: false }), handleDeviceDeny);
+    router.get(DEVICE_COMPLETE_PATH, authLimiter, handleDeviceComplete);
+
+    // Connected apps page, where signed-in users disconnect clients
+    router.get('/connected-apps', authLimiter, handleConnectedApps(this.provider.clientsStore));
+    router.post('/connected-apps/revoke', authLimiter, express.urlencoded({ extended: false }), handleRevokeConnectedApp);
 
     // Static assets for auth pages
     router.get('/mcp-logo.png', staticAssetLimiter, (req, res) => {
@@ -7,16 +7,26 @@ import {
   generatePKCEChallenge,
   generateToken,
   getClientRegistration,
+  addConsentFamily,
+  listConsents,
+  readConsent,
+  revokeConsent,
   readMcpInstallation,
   readPendingAuthorization,
   readRefreshToken,
+  readRotatedRefreshToken,
   revokeMcpInstallation,
+  revokeTokenFamily,
+  consumeRefreshToken,
   saveClientRegistration,
+  saveConsent,
   saveMcpInstallation,
   savePendingAuthorization,
   saveRefreshToken,
   saveTokenExchange,
+  saveTokenFamily,
 } from "./auth.js";
+import { sha256 } from "../auth/auth-core.js";
 import { MockRedisClient, setRedisClient } from "../../shared/redis.js";
 import { McpInstallation, PendingAuthorization, TokenExchange } from "../types.js";
 import { OAuthClientInformationFull } from "@modelcontextprotocol/sdk/shared/auth.js";
@@ -88,6 +98,22 @@ describe("auth utils", () => {
       const result = await getClientRegistration("non-existent");
       expect(result).toBeUndefined();
     });
+
+    it("hashes the secrets of clients registered before secrets were hashed", async () => {
+      await mockRedis.set("auth:client:legacy-client", JSON.stringify({
+        client_id: "legacy-client",
+        client_secret: "plaintext-secret",
+        redirect_uris: ["https://example.com/callback"]
+      }));
+
+      const retrieved = await getClientRegistration("legacy-client");
+
+      expect(retrieved).not.toHaveProperty("client_secret");
+      expect(retrieved).toEqual(expect.objectContaining({
+        token_endpoint_auth_method: "client_secret_post",
+        client_secret_hash: sha256("plaintext-secret")
+      }));
+    });
   });
 
   describe("pending authorization", () => {
@@ -97,7 +123,8 @@ describe("auth utils", () => {
         redirectUri: "https://example.com/callback",
         codeChallenge: "test-challenge",
         codeChallengeMethod: "S256",
-        clientId: "test-client-id"
+        clientId: "test-client-id",
+        scopes: ["tools:read", "tools:call"]
       };
       
       await savePendingAuthorization(authCode, pendingAuth);
@@ -182,9 +209,10 @@ describe("auth utils", () => {
       const accessToken = generateToken();
 
       const mcpInstallation: McpInstallation = {
-        mockUpstreamInstallation: {
-          mockUpstreamAccessToken: "fake-upstream-access-token",
-          mockUpstreamRefreshToken: "fake-upstream-refresh-token",
+        upstreamInstallation: {
+          provider: "mock",
+          accessToken: "fake-upstream-access-token",
+          refreshToken: "fake-upstream-refresh-token",
         },
         mcpTokens: {
           access_token: accessToken,
@@ -218,6 +246,103 @@ describe("auth utils", () => {
       const result = await readRefreshToken("non-existent");
       expect(result).toBeUndefined();
     });
+
+    it("consumes a refresh token only once", async () => {
+      const refreshToken = generateToken();
+      const familyId = generateToken();
+      await saveRefreshToken(refreshToken, generateToken());
+
+      expect(await consumeRefreshToken(refreshToken, familyId)).toBe(true);
+      expect(await consumeRefreshToken(refreshToken, familyId)).toBe(false);
+
+      expect(await readRefreshToken(refreshToken)).toBeUndefined();
+      expect(await readRotatedRefreshToken(refreshToken)).toBe(familyId);
+    });
+  });
+
+  describe("token family", () => {
+    it("revokes the family's current tokens", async () => {
+      const accessToken = generateToken();
+      const refreshToken = generateToken();
+      const familyId = generateToken();
+      await saveMcpInstallation(accessToken, {
+        upstreamInstallation: {
+          provider: "mock",
+          accessToken: "fake-upstream-access-token",
+          refreshToken: "fake-upstream-refresh-token",
+        },
+        mcpTokens: { access_token: accessToken, refresh_token: refreshToken, token_type: "Bearer", expires_in: 3600 },
+        clientId: "client-id",
+        issuedAt: Date.now() / 1000,
+        userId: "test-user-id",
+        familyId,
+      });
+      await saveRefreshToken(refreshToken, accessToken);
+      await saveTokenFamily(familyId, { mcpAccessToken: accessToken, refreshToken });
+
+      await revokeTokenFamily(familyId);
+
+      expect(await readMcpInstallation(accessToken)).toBeUndefined();
+      expect(await readRefreshToken(refreshToken)).toBeUndefined();
+    });
+  });
+
+  describe("consent records", () => {
+    const consentFor = (userId: string, clientId: string, lastUsedAt = 1000) => ({
+      userId,
+      clientId,
+      scopes: ["tools:read", "tools:call"],
+      grantedAt: 1000,
+      lastUsedAt,
+    });
+
+    it("saves and retrieves a user's consent to a client", async () => {
+      await saveConsent(consentFor("user-1", "client-1"));
+
+      expect(await readConsent("user-1", "client-1")).toEqual(consentFor("user-1", "client-1"));
+      expect(await readConsent("user-1", "client-2")).toBeUndefined();
+      expect(await readConsent("user-2", "client-1")).toBeUndefined();
+    });
+
+    it("lists a user's consents, most recently used first", async () => {
+      await saveConsent(consentFor("user-1", "client-1", 1000));
+      await saveConsent(consentFor("user-1", "client-2", 2000));
+      await saveConsent(consentFor("user-2", "client-3"));
+
+      const consents = await listConsents("user-1");
+
+      expect(consents.map(consent => consent.clientId)).toEqual(["client-2", "client-1"]);
+    });
+
+    it("revokes a consent along with the token families issued under it", async () => {
+      const accessToken = generateToken();
+      const refreshToken = generateToken();
+      const familyId = generateToken();
+      await saveMcpInstallation(accessToken, {
+        upstreamInstallation: {
+          provider: "mock",
+          accessToken: "fake-upstream-access-token",
+          refreshToken: "fake-upstream-refresh-token",
+        },
+        mcpTokens: { access_token: accessToken, refresh_token: refreshToken, token_type: "Bearer", expires_in: 3600 },
+        clientId: "client-1",
+        issuedAt: Date.now() / 1000,
+        userId: "user-1",
+        familyId,
+      });
+      await saveRefreshToken(refreshToken, accessToken);
+      await saveTokenFamily(familyId, { mcpAccessToken: accessToken, refreshToken });
+      await saveConsent(consentFor("user-1", "client-1"));
+      await addConsentFamily("user-1", "client-1", familyId);
+
+      expect(await revokeConsent("user-1", "client-1")).toBe(true);
+
+      expect(await readConsent("user-1", "client-1")).toBeUndefined();
+      expect(await listConsents("user-1")).toEqual([]);
+      expect(await readMcpInstallation(accessToken)).toBeUndefined();
+      expect(await readRefreshToken(refreshToken)).toBeUndefined();
+      expect(await revokeConsent("user-1", "client-1")).toBe(false);
+    });
   });
 
   describe("revokeMcpInstallation", () => {
@@ -229,9 +354,10 @@ describe("auth utils", () => {
       
       // Save it to Redis with actual function
       await saveMcpInstallation(accessToken, {
-        mockUpstreamInstallation: {
-          mockUpstreamAccessToken: "fake-upstream-access-token",
-          mockUpstreamRefreshToken: "fake-upstream-refresh-token",
+        upstreamInstallation: {
+          provider: "mock",
+          accessToken: "fake-upstream-access-token",
+          refreshToken: "fake-upstream-refresh-token",
         },
         mcpTokens: {
           access_token: accessToken,
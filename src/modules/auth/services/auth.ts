@@ -1,6 +1,5 @@
 import { redisClient } from "../../shared/redis.js";
-import { McpInstallation, PendingAuthorization, TokenExchange } from "../types.js";
-import { OAuthClientInformationFull } from "@modelcontextprotocol/sdk/shared/auth.js";
+import { ClientRegistration, ConsentRecord, DeviceAuthorization, DeviceUserCode, McpInstallation, PendingAuthorization, PendingUpstreamSignIn, SigningKey, TokenExchange, TokenFamily, UpstreamInstallation, UserSession } from "../types.js";
 
 // Re-export from auth-core module
 export {
@@ -11,22 +10,78 @@ export {
 } from "../auth/auth-core.js";
 
 import * as sharedRedisAuth from "./redis-auth.js";
+import { publishRevocation } from "../../../interfaces/revocation-events.js";
 
 // Wrapper functions that pass redisClient to shared module functions
 
 export async function saveClientRegistration(
   clientId: string,
-  registration: OAuthClientInformationFull,
+  registration: ClientRegistration,
 ) {
   return sharedRedisAuth.saveClientRegistration(redisClient, clientId, registration);
 }
 
 export async function getClientRegistration(
   clientId: string,
-): Promise<OAuthClientInformationFull | undefined> {
+): Promise<ClientRegistration | undefined> {
   return sharedRedisAuth.getClientRegistration(redisClient, clientId);
 }
 
+export async function deleteClientRegistration(
+  clientId: string,
+): Promise<boolean> {
+  return sharedRedisAuth.deleteClientRegistration(redisClient, clientId);
+}
+
+export async function addClientFamily(
+  clientId: string,
+  familyId: string,
+) {
+  return sharedRedisAuth.addClientFamily(redisClient, clientId, familyId);
+}
+
+export async function revokeClientFamilies(
+  clientId: string,
+): Promise<McpInstallation[]> {
+  return sharedRedisAuth.revokeClientFamilies(redisClient, clientId);
+}
+
+export async function saveClientMetadataDocument(
+  clientId: string,
+  registration: ClientRegistration,
+  maxAgeSec: number,
+) {
+  return sharedRedisAuth.saveClientMetadataDocument(redisClient, clientId, registration, maxAgeSec);
+}
+
+export async function readClientMetadataDocument(
+  clientId: string,
+): Promise<ClientRegistration | undefined> {
+  return sharedRedisAuth.readClientMetadataDocument(redisClient, clientId);
+}
+
+export async function saveClientMetadataDocumentFailure(
+  clientId: string,
+  reason: string,
+  ttlSec: number,
+) {
+  return sharedRedisAuth.saveClientMetadataDocumentFailure(redisClient, clientId, reason, ttlSec);
+}
+
+export async function readClientMetadataDocumentFailure(
+  clientId: string,
+): Promise<string | undefined> {
+  return sharedRedisAuth.readClientMetadataDocumentFailure(redisClient, clientId);
+}
+
+export async function recordClientAssertion(
+  clientId: string,
+  jti: string,
+  expiresInSec: number,
+): Promise<boolean> {
+  return sharedRedisAuth.recordClientAssertion(redisClient, clientId, jti, expiresInSec);
+}
+
 export async function savePendingAuthorization(
   authorizationCode: string,
   pendingAuthorization: PendingAuthorization,
@@ -47,6 +102,29 @@ export async function saveMcpInstallation(
   return sharedRedisAuth.saveMcpInstallation(redisClient, mcpAccessToken, installation);
 }
 
+export async function saveAccessTokenId(
+  tokenId: string,
+  jwt: string,
+  mcpAccessToken: string,
+  expiresInSec: number,
+) {
+  return sharedRedisAuth.saveAccessTokenId(redisClient, tokenId, jwt, mcpAccessToken, expiresInSec);
+}
+
+export async function readAccessTokenId(
+  tokenId: string,
+  jwt: string,
+): Promise<string | undefined> {
+  return sharedRedisAuth.readAccessTokenId(redisClient, tokenId, jwt);
+}
+
+export async function updateMcpInstallation(
+  mcpAccessToken: string,
+  installation: McpInstallation,
+) {
+  return sharedRedisAuth.updateMcpInstallation(redisClient, mcpAccessToken, installation);
+}
+
 export async function readMcpInstallation(
   mcpAccessToken: string,
 ): Promise<McpInstallation | undefined> {
@@ -66,12 +144,184 @@ export async function readRefreshToken(
   return sharedRedisAuth.readRefreshToken(redisClient, refreshToken);
 }
 
+export async function deleteRefreshToken(
+  refreshToken: string,
+): Promise<void> {
+  return sharedRedisAuth.deleteRefreshToken(redisClient, refreshToken);
+}
+
+export async function consumeRefreshToken(
+  refreshToken: string,
+  familyId: string,
+): Promise<boolean> {
+  return sharedRedisAuth.consumeRefreshToken(redisClient, refreshToken, familyId);
+}
+
+export async function readRotatedRefreshToken(
+  refreshToken: string,
+): Promise<string | undefined> {
+  return sharedRedisAuth.readRotatedRefreshToken(redisClient, refreshToken);
+}
+
+export async function saveTokenFamily(
+  familyId: string,
+  family: TokenFamily,
+) {
+  return sharedRedisAuth.saveTokenFamily(redisClient, familyId, family);
+}
+
+export async function readTokenFamily(
+  familyId: string,
+): Promise<TokenFamily | undefined> {
+  return sharedRedisAuth.readTokenFamily(redisClient, familyId);
+}
+
+export async function revokeTokenFamily(
+  familyId: string,
+): Promise<McpInstallation | undefined> {
+  return sharedRedisAuth.revokeTokenFamily(redisClient, familyId);
+}
+
+export async function announceRevocation(
+  userId: string,
+  clientId: string,
+  grantId?: string,
+): Promise<void> {
+  return publishRevocation(redisClient, { userId, clientId, grantId });
+}
+
+export async function saveConsent(
+  consent: ConsentRecord,
+): Promise<void> {
+  return sharedRedisAuth.saveConsent(redisClient, consent);
+}
+
+export async function readConsent(
+  userId: string,
+  clientId: string,
+): Promise<ConsentRecord | undefined> {
+  return sharedRedisAuth.readConsent(redisClient, userId, clientId);
+}
+
+export async function listConsents(
+  userId: string,
+): Promise<ConsentRecord[]> {
+  return sharedRedisAuth.listConsents(redisClient, userId);
+}
+
+export async function recordConsentUse(
+  userId: string,
+  clientId: string,
+): Promise<void> {
+  return sharedRedisAuth.recordConsentUse(redisClient, userId, clientId);
+}
+
+export async function addConsentFamily(
+  userId: string,
+  clientId: string,
+  familyId: string,
+): Promise<void> {
+  return sharedRedisAuth.addConsentFamily(redisClient, userId, clientId, familyId);
+}
+
+export async function revokeConsent(
+  userId: string,
+  clientId: string,
+): Promise<boolean> {
+  return sharedRedisAuth.revokeConsent(redisClient, userId, clientId);
+}
+
+export async function saveUpstreamGrant(
+  upstreamGrantId: string,
+  upstreamInstallation: UpstreamInstallation,
+) {
+  return sharedRedisAuth.saveUpstreamGrant(redisClient, upstreamGrantId, upstreamInstallation);
+}
+
+export async function readUpstreamGrant(
+  upstreamGrantId: string,
+): Promise<UpstreamInstallation | undefined> {
+  return sharedRedisAuth.readUpstreamGrant(redisClient, upstreamGrantId);
+}
+
+export async function keepUpstreamGrant(
+  upstreamGrantId: string,
+) {
+  return sharedRedisAuth.keepUpstreamGrant(redisClient, upstreamGrantId);
+}
+
+export async function lockUpstreamGrantRefresh(
+  upstreamGrantId: string,
+): Promise<boolean> {
+  return sharedRedisAuth.lockUpstreamGrantRefresh(redisClient, upstreamGrantId);
+}
+
+export async function unlockUpstreamGrantRefresh(
+  upstreamGrantId: string,
+) {
+  return sharedRedisAuth.unlockUpstreamGrantRefresh(redisClient, upstreamGrantId);
+}
+
+export async function saveUserSession(
+  sessionToken: string,
+  session: UserSession,
+): Promise<void> {
+  return sharedRedisAuth.saveUserSession(redisClient, sessionToken, session);
+}
+
+export async function readUserSession(
+  sessionToken: string,
+): Promise<UserSession | undefined> {
+  return sharedRedisAuth.readUserSession(redisClient, sessionToken);
+}
+
+export async function savePendingUpstreamSignIn(
+  state: string,
+  signIn: PendingUpstreamSignIn,
+): Promise<void> {
+  return sharedRedisAuth.savePendingUpstreamSignIn(redisClient, state, signIn);
+}
+
+export async function consumePendingUpstreamSignIn(
+  state: string,
+): Promise<PendingUpstreamSignIn | undefined> {
+  return sharedRedisAuth.consumePendingUpstreamSignIn(redisClient, state);
+}
+
 export async function revokeMcpInstallation(
   mcpAccessToken: string,
-): Promise<void> {
+): Promise<McpInstallation | undefined> {
   return sharedRedisAuth.revokeMcpInstallation(redisClient, mcpAccessToken);
 }
 
+export async function saveSigningKey(
+  key: SigningKey,
+  expiresInSec: number,
+) {
+  return sharedRedisAuth.saveSigningKey(redisClient, key, expiresInSec);
+}
+
+export async function readSigningKey(
+  kid: string,
+): Promise<SigningKey | undefined> {
+  return sharedRedisAuth.readSigningKey(redisClient, kid);
+}
+
+export async function readSigningKeys(): Promise<SigningKey[]> {
+  return sharedRedisAuth.readSigningKeys(redisClient);
+}
+
+export async function readCurrentSigningKeyId(): Promise<string | undefined> {
+  return sharedRedisAuth.readCurrentSigningKeyId(redisClient);
+}
+
+export async function claimCurrentSigningKey(
+  kid: string,
+  rotationIntervalSec: number,
+): Promise<boolean> {
+  return sharedRedisAuth.claimCurrentSigningKey(redisClient, kid, rotationIntervalSec);
+}
+
 export async function saveTokenExchange(
   authorizationCode: string,
   tokenExchange: TokenExchange,
@@ -84,3 +334,55 @@ export async function exchangeToken(
 ): Promise<TokenExchange | undefined> {
   return sharedRedisAuth.exchangeToken(redisClient, authorizationCode);
 }
+
+export async function saveDeviceAuthorization(
+  deviceCode: string,
+  deviceAuthorization: DeviceAuthorization,
+) {
+  return sharedRedisAuth.saveDeviceAuthorization(redisClient, deviceCode, deviceAuthorization);
+}
+
+export async function updateDeviceAuthorization(
+  deviceCode: string,
+  deviceAuthorization: DeviceAuthorization,
+): Promise<boolean> {
+  return sharedRedisAuth.updateDeviceAuthorization(redisClient, deviceCode, deviceAuthorization);
+}
+
+export async function readDeviceAuthorization(
+  deviceCode: string,
+): Promise<DeviceAuthorization | undefined> {
+  return sharedRedisAuth.readDeviceAuthorization(redisClient, deviceCode);
+}
+
+export async function deleteDeviceAuthorization(
+  deviceCode: string,
+): Promise<boolean> {
+  return sharedRedisAuth.deleteDeviceAuthorization(redisClient, deviceCode);
+}
+
+export async function saveDeviceUserCode(
+  userCode: string,
+  deviceUserCode: DeviceUserCode,
+): Promise<boolean> {
+  return sharedRedisAuth.saveDeviceUserCode(redisClient, userCode, deviceUserCode);
+}
+
+export async function readDeviceUserCode(
+  userCode: string,
+): Promise<DeviceUserCode | undefined> {
+  return sharedRedisAuth.readDeviceUserCode(redisClient, userCode);
+}
+
+export async function denyDeviceUserCode(
+  userCode: string,
+): Promise<boolean> {
+  return sharedRedisAuth.denyDeviceUserCode(redisClient, userCode);
+}
+
+export async function recordDevicePoll(
+  deviceCode: string,
+  intervalSec: number,
+): Promise<boolean> {
+  return sharedRedisAuth.recordDevicePoll(redisClient, deviceCode, intervalSec);
+}
@@ -1,8 +1,8 @@
 import { SetOptions } from "@redis/client";
-import { OAuthClientInformationFull } from "@modelcontextprotocol/sdk/shared/auth.js";
 import { RedisClient } from "../../shared/redis.js";
-import { McpInstallation, PendingAuthorization, TokenExchange } from "../types.js";
+import { ClientRegistration, ConsentRecord, DeviceAuthorization, DeviceUserCode, McpInstallation, PendingAuthorization, PendingUpstreamSignIn, SigningKey, TokenExchange, TokenFamily, UpstreamInstallation, UserSession } from "../types.js";
 import { sha256, encryptString, decryptString } from "../auth/auth-core.js";
+import { denyTokenId } from "../../../interfaces/token-denylist.js";
 import { logger } from "../../shared/logger.js";
 
 /**
@@ -13,10 +13,38 @@ export const REDIS_KEY_PREFIXES = {
   CLIENT_REGISTRATION: "auth:client:",
   PENDING_AUTHORIZATION: "auth:pending:",
   MCP_AUTHORIZATION: "auth:installation:",  // Changed from "mcp:" to avoid collision
+  ACCESS_TOKEN_ID: "auth:token-id:",
   TOKEN_EXCHANGE: "auth:exch:",
   REFRESH_TOKEN: "auth:refresh:",
+  ROTATED_REFRESH_TOKEN: "auth:refresh-rotated:",
+  TOKEN_FAMILY: "auth:family:",
+  CONSENT: "auth:grant:",
+  USER_CONSENTS: "auth:grants:",
+  CONSENT_FAMILIES: "auth:grant-families:",
+  CLIENT_FAMILIES: "auth:client-families:",
+  USER_SESSION: "auth:user-session:",
+  UPSTREAM_SIGN_IN: "auth:upstream-sign-in:",
+  UPSTREAM_GRANT: "auth:upstream-grant:",
+  UPSTREAM_GRANT_REFRESH: "auth:upstream-grant-refresh:",
+  SIGNING_KEY: "auth:signing-key:",
+  CLIENT_ASSERTION: "auth:client-assertion:",
+  CLIENT_METADATA_DOCUMENT: "auth:client-metadata:",
+  CLIENT_METADATA_DOCUMENT_FAILURE: "auth:client-metadata-failure:",
+  DEVICE_AUTHORIZATION: "auth:device:",
+  DEVICE_USER_CODE: "auth:device-user-code:",
+  DEVICE_POLL: "auth:device-poll:",
 } as const;
 
+/**
+ * Set of the IDs of all signing keys still published in the JWKS
+ */
+const SIGNING_KEY_IDS = "auth:signing-keys";
+
+/**
+ * ID of the key new JWT access tokens are signed with; expires when the key is due for rotation
+ */
+const CURRENT_SIGNING_KEY = "auth:signing-key-current";
+
 /**
  * Redis key expiry times in seconds
  */
@@ -26,6 +54,14 @@ export const REDIS_EXPIRY_TIMES = {
   TOKEN_EXCHANGE: 10 * 60,                 // 10 minutes - authorization code -> MCP access token
   UPSTREAM_INSTALLATION: 7 * 24 * 60 * 60, // 7 days - MCP access token -> UpstreamInstallation
   REFRESH_TOKEN: 7 * 24 * 60 * 60,         // 7 days - MCP refresh token -> access token
+  TOKEN_FAMILY: 7 * 24 * 60 * 60,          // 7 days - family ID -> current tokens; rotated refresh token -> family ID
+  CONSENT: 30 * 24 * 60 * 60,              // 30 days - user + client -> consent record and its token families
+  USER_SESSION: 7 * 24 * 60 * 60,          // 7 days - browser session cookie -> signed-in user
+  UPSTREAM_SIGN_IN: 10 * 60,               // 10 minutes - upstream state -> PendingUpstreamSignIn
+  UPSTREAM_GRANT: 7 * 24 * 60 * 60,        // 7 days - upstream grant ID -> UpstreamInstallation, renewed as installations use it
+  UPSTREAM_GRANT_REFRESH: 30,              // 30 seconds - lock held by the node refreshing an upstream grant
+  DEVICE_AUTHORIZATION: 20 * 60,           // 20 minutes - device code -> DeviceAuthorization, kept past expiry to answer expired_token
+  DEVICE_USER_CODE: 10 * 60,               // 10 minutes - user code -> DeviceUserCode, as long as the device code is valid
 } as const;
 
 /**
@@ -90,7 +126,7 @@ async function readEncrypted<T>(
 export async function saveClientRegistration(
   redisClient: RedisClient,
   clientId: string,
-  registration: OAuthClientInformationFull
+  registration: ClientRegistration
 ): Promise<void> {
   await redisClient.set(
     REDIS_KEY_PREFIXES.CLIENT_REGISTRATION + clientId,
@@ -105,12 +141,139 @@ export async function saveClientRegistration(
 export async function getClientRegistration(
   redisClient: RedisClient,
   clientId: string
-): Promise<OAuthClientInformationFull | undefined> {
+): Promise<ClientRegistration | undefined> {
   const data = await redisClient.get(REDIS_KEY_PREFIXES.CLIENT_REGISTRATION + clientId);
   if (!data) {
     return undefined;
   }
-  return JSON.parse(data);
+  const { client_secret, ...registration } = JSON.parse(data);
+  if (client_secret) {
+    // Registered before secrets were hashed, when the SDK checked them in the request body
+    return {
+      token_endpoint_auth_method: 'client_secret_post',
+      ...registration,
+      client_secret_hash: sha256(client_secret),
+    };
+  }
+  return registration;
+}
+
+/**
+ * Caches the client a Client ID Metadata Document describes, for as long as
+ * the document's HTTP caching headers allow.
+ */
+export async function saveClientMetadataDocument(
+  redisClient: RedisClient,
+  clientId: string,
+  registration: ClientRegistration,
+  maxAgeSec: number
+): Promise<void> {
+  await redisClient.set(
+    REDIS_KEY_PREFIXES.CLIENT_METADATA_DOCUMENT + sha256(clientId),
+    JSON.stringify(registration),
+    { EX: maxAgeSec }
+  );
+}
+
+/**
+ * Reads the cached client a Client ID Metadata Document describes.
+ */
+export async function readClientMetadataDocument(
+  redisClient: RedisClient,
+  clientId: string
+): Promise<ClientRegistration | undefined> {
+  const data = await redisClient.get(REDIS_KEY_PREFIXES.CLIENT_METADATA_DOCUMENT + sha256(clientId));
+  return data ? JSON.parse(data) : undefined;
+}
+
+/**
+ * Remembers that a client's metadata document couldn't be fetched or was
+ * invalid, so the client_id isn't fetched again on every request.
+ */
+export async function saveClientMetadataDocumentFailure(
+  redisClient: RedisClient,
+  clientId: string,
+  reason: string,
+  ttlSec: number
+): Promise<void> {
+  await redisClient.set(
+    REDIS_KEY_PREFIXES.CLIENT_METADATA_DOCUMENT_FAILURE + sha256(clientId),
+    reason,
+    { EX: ttlSec }
+  );
+}
+
+/**
+ * Reads why a client's metadata document was last refused, if it was recently.
+ */
+export async function readClientMetadataDocumentFailure(
+  redisClient: RedisClient,
+  clientId: string
+): Promise<string | undefined> {
+  return await redisClient.get(REDIS_KEY_PREFIXES.CLIENT_METADATA_DOCUMENT_FAILURE + sha256(clientId)) ?? undefined;
+}
+
+/**
+ * Deletes a client registration.
+ * @returns Whether the client was registered
+ */
+export async function deleteClientRegistration(
+  redisClient: RedisClient,
+  clientId: string
+): Promise<boolean> {
+  return await redisClient.del(REDIS_KEY_PREFIXES.CLIENT_REGISTRATION + clientId) > 0;
+}
+
+/**
+ * Links a token family to the client it was issued to, so deleting the
+ * client revokes its tokens. Kept as long as the client's registration.
+ */
+export async function addClientFamily(
+  redisClient: RedisClient,
+  clientId: string,
+  familyId: string
+): Promise<void> {
+  const familiesKey = REDIS_KEY_PREFIXES.CLIENT_FAMILIES + clientId;
+  await redisClient.sadd(familiesKey, familyId);
+  await redisClient.expire(familiesKey, REDIS_EXPIRY_TIMES.CLIENT_REGISTRATION);
+}
+
+/**
+ * Revokes every token family issued to a client.
+ * @returns The installations that were revoked
+ */
+export async function revokeClientFamilies(
+  redisClient: RedisClient,
+  clientId: string
+): Promise<McpInstallation[]> {
+  const familiesKey = REDIS_KEY_PREFIXES.CLIENT_FAMILIES + clientId;
+  const revoked: McpInstallation[] = [];
+  for (const familyId of await redisClient.smembers(familiesKey)) {
+    const installation = await revokeTokenFamily(redisClient, familyId);
+    if (installation) {
+      revoked.push(installation);
+    }
+  }
+  await redisClient.del(familiesKey);
+  return revoked;
+}
+
+/**
+ * Records the ID of a private_key_jwt client assertion until it expires.
+ * Returns false if the assertion was used before.
+ */
+export async function recordClientAssertion(
+  redisClient: RedisClient,
+  clientId: string,
+  jti: string,
+  expiresInSec: number
+): Promise<boolean> {
+  const result = await redisClient.set(
+    REDIS_KEY_PREFIXES.CLIENT_ASSERTION + sha256(`${clientId}:${jti}`),
+    '1',
+    { NX: true, EX: Math.max(1, Math.ceil(expiresInSec)) }
+  );
+  return result === 'OK';
 }
 
 /**
@@ -158,6 +321,25 @@ export async function saveMcpInstallation(
   });
 }
 
+/**
+ * Replaces an MCP installation in Redis, keeping its expiry. Installations
+ * revoked in the meantime stay revoked.
+ * @returns Whether the installation still existed
+ */
+export async function updateMcpInstallation(
+  redisClient: RedisClient,
+  mcpAccessToken: string,
+  installation: McpInstallation
+): Promise<boolean> {
+  const result = await saveEncrypted(redisClient, {
+    prefix: REDIS_KEY_PREFIXES.MCP_AUTHORIZATION,
+    key: mcpAccessToken,
+    data: installation,
+    options: { XX: true, KEEPTTL: true },
+  });
+  return result === "OK";
+}
+
 /**
  * Reads an MCP installation from Redis.
  */
@@ -171,6 +353,36 @@ export async function readMcpInstallation(
   });
 }
 
+/**
+ * Links the ID (`jti`) of a JWT access token to the MCP access token its
+ * installation is stored under. The link is encrypted with a hash of the
+ * whole JWT, so the token ID alone, which resource servers and logs see,
+ * can't decrypt it.
+ */
+export async function saveAccessTokenId(
+  redisClient: RedisClient,
+  tokenId: string,
+  jwt: string,
+  mcpAccessToken: string,
+  expiresInSec: number
+): Promise<void> {
+  const value = encryptString({ text: mcpAccessToken, key: sha256(jwt) });
+  await redisClient.set(REDIS_KEY_PREFIXES.ACCESS_TOKEN_ID + sha256(tokenId), value, { EX: expiresInSec });
+}
+
+/**
+ * Reads the MCP access token a JWT access token was issued for.
+ * @param jwt The verified JWT carrying the token ID
+ */
+export async function readAccessTokenId(
+  redisClient: RedisClient,
+  tokenId: string,
+  jwt: string
+): Promise<string | undefined> {
+  const value = await redisClient.get(REDIS_KEY_PREFIXES.ACCESS_TOKEN_ID + sha256(tokenId));
+  return value ? decryptString({ encryptedText: value, key: sha256(jwt) }) : undefined;
+}
+
 /**
  * Links a refresh token to an MCP access token.
  */
@@ -201,12 +413,353 @@ export async function readRefreshToken(
 }
 
 /**
- * Revokes an MCP installation.
+ * Deletes a refresh token, so it can no longer be exchanged.
+ */
+export async function deleteRefreshToken(
+  redisClient: RedisClient,
+  refreshToken: string
+): Promise<void> {
+  await redisClient.del(REDIS_KEY_PREFIXES.REFRESH_TOKEN + sha256(refreshToken));
+}
+
+/**
+ * Consumes a refresh token so it can't be used again, remembering which
+ * family it belonged to so a later reuse can be detected.
+ * @returns Whether this call consumed the token; false if it was already
+ *   consumed (possibly by a concurrent request) or never existed
+ */
+export async function consumeRefreshToken(
+  redisClient: RedisClient,
+  refreshToken: string,
+  familyId: string
+): Promise<boolean> {
+  // GETDEL is atomic, so of two concurrent refreshes only one gets the token
+  const consumed = await redisClient.getDel(REDIS_KEY_PREFIXES.REFRESH_TOKEN + sha256(refreshToken));
+  if (!consumed) {
+    return false;
+  }
+
+  await saveEncrypted(redisClient, {
+    prefix: REDIS_KEY_PREFIXES.ROTATED_REFRESH_TOKEN,
+    key: refreshToken,
+    data: familyId,
+    options: { EX: REDIS_EXPIRY_TIMES.TOKEN_FAMILY },
+  });
+  return true;
+}
+
+/**
+ * Reads the family of a refresh token that has already been rotated.
+ */
+export async function readRotatedRefreshToken(
+  redisClient: RedisClient,
+  refreshToken: string
+): Promise<string | undefined> {
+  return readEncrypted<string>(redisClient, {
+    prefix: REDIS_KEY_PREFIXES.ROTATED_REFRESH_TOKEN,
+    key: refreshToken,
+  });
+}
+
+/**
+ * Records the current tokens of a token family.
+ */
+export async function saveTokenFamily(
+  redisClient: RedisClient,
+  familyId: string,
+  family: TokenFamily
+): Promise<void> {
+  await saveEncrypted(redisClient, {
+    prefix: REDIS_KEY_PREFIXES.TOKEN_FAMILY,
+    key: familyId,
+    data: family,
+    options: { EX: REDIS_EXPIRY_TIMES.TOKEN_FAMILY },
+  });
+}
+
+/**
+ * Reads the current tokens of a token family.
+ */
+export async function readTokenFamily(
+  redisClient: RedisClient,
+  familyId: string
+): Promise<TokenFamily | undefined> {
+  return readEncrypted<TokenFamily>(redisClient, {
+    prefix: REDIS_KEY_PREFIXES.TOKEN_FAMILY,
+    key: familyId,
+  });
+}
+
+/**
+ * Revokes a token family: its current installation and refresh token.
+ * @returns The installation that was revoked, if it still existed
+ */
+export async function revokeTokenFamily(
+  redisClient: RedisClient,
+  familyId: string
+): Promise<McpInstallation | undefined> {
+  const family = await readEncrypted<TokenFamily>(redisClient, {
+    prefix: REDIS_KEY_PREFIXES.TOKEN_FAMILY,
+    key: familyId,
+    del: true,
+  });
+
+  if (!family) {
+    return undefined;
+  }
+
+  if (family.refreshToken) {
+    await deleteRefreshToken(redisClient, family.refreshToken);
+  }
+  return revokeMcpInstallation(redisClient, family.mcpAccessToken);
+}
+
+function consentKey(userId: string, clientId: string): string {
+  return `${clientId}:${sha256(userId)}`;
+}
+
+/**
+ * Saves a user's consent to a client, listing the client among the user's
+ * connected apps.
+ */
+export async function saveConsent(
+  redisClient: RedisClient,
+  consent: ConsentRecord
+): Promise<void> {
+  const userConsentsKey = REDIS_KEY_PREFIXES.USER_CONSENTS + sha256(consent.userId);
+  await redisClient.set(
+    REDIS_KEY_PREFIXES.CONSENT + consentKey(consent.userId, consent.clientId),
+    JSON.stringify(consent),
+    { EX: REDIS_EXPIRY_TIMES.CONSENT }
+  );
+  await redisClient.sadd(userConsentsKey, consent.clientId);
+  await redisClient.expire(userConsentsKey, REDIS_EXPIRY_TIMES.CONSENT);
+}
+
+/**
+ * Reads a user's consent to a client.
+ */
+export async function readConsent(
+  redisClient: RedisClient,
+  userId: string,
+  clientId: string
+): Promise<ConsentRecord | undefined> {
+  const data = await redisClient.get(REDIS_KEY_PREFIXES.CONSENT + consentKey(userId, clientId));
+  if (!data) {
+    return undefined;
+  }
+  const consent = JSON.parse(data);
+  // Grants recorded before consent records held only the scopes
+  return Array.isArray(consent) ? undefined : consent;
+}
+
+/**
+ * Lists a user's consents, one per connected client, most recently used first.
+ */
+export async function listConsents(
+  redisClient: RedisClient,
+  userId: string
+): Promise<ConsentRecord[]> {
+  const userConsentsKey = REDIS_KEY_PREFIXES.USER_CONSENTS + sha256(userId);
+  const consents: ConsentRecord[] = [];
+
+  for (const clientId of await redisClient.smembers(userConsentsKey)) {
+    const consent = await readConsent(redisClient, userId, clientId);
+    if (consent) {
+      consents.push(consent);
+    } else {
+      await redisClient.srem(userConsentsKey, clientId);
+    }
+  }
+
+  return consents.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+}
+
+/**
+ * Records that a client obtained tokens under a user's consent. Not done on
+ * every token check, to keep a write off the path of every request.
+ */
+export async function recordConsentUse(
+  redisClient: RedisClient,
+  userId: string,
+  clientId: string
+): Promise<void> {
+  const consent = await readConsent(redisClient, userId, clientId);
+  if (consent) {
+    await saveConsent(redisClient, { ...consent, lastUsedAt: Date.now() / 1000 });
+  }
+}
+
+/**
+ * Links a token family to the consent it was issued under, so revoking the
+ * consent revokes its tokens.
+ */
+export async function addConsentFamily(
+  redisClient: RedisClient,
+  userId: string,
+  clientId: string,
+  familyId: string
+): Promise<void> {
+  const familiesKey = REDIS_KEY_PREFIXES.CONSENT_FAMILIES + consentKey(userId, clientId);
+  await redisClient.sadd(familiesKey, familyId);
+  await redisClient.expire(familiesKey, REDIS_EXPIRY_TIMES.CONSENT);
+}
+
+/**
+ * Revokes a user's consent to a client, along with every token family issued
+ * under it.
+ * @returns Whether there was a consent to revoke
+ */
+export async function revokeConsent(
+  redisClient: RedisClient,
+  userId: string,
+  clientId: string
+): Promise<boolean> {
+  const familiesKey = REDIS_KEY_PREFIXES.CONSENT_FAMILIES + consentKey(userId, clientId);
+  for (const familyId of await redisClient.smembers(familiesKey)) {
+    await revokeTokenFamily(redisClient, familyId);
+  }
+  await redisClient.del(familiesKey);
+  await redisClient.srem(REDIS_KEY_PREFIXES.USER_CONSENTS + sha256(userId), clientId);
+  return await redisClient.del(REDIS_KEY_PREFIXES.CONSENT + consentKey(userId, clientId)) > 0;
+}
+
+/**
+ * Saves the tokens of an upstream grant, replacing the previous ones, and
+ * keeps the grant for another 7 days.
+ */
+export async function saveUpstreamGrant(
+  redisClient: RedisClient,
+  upstreamGrantId: string,
+  upstreamInstallation: UpstreamInstallation
+): Promise<void> {
+  await saveEncrypted(redisClient, {
+    prefix: REDIS_KEY_PREFIXES.UPSTREAM_GRANT,
+    key: upstreamGrantId,
+    data: upstreamInstallation,
+    options: { EX: REDIS_EXPIRY_TIMES.UPSTREAM_GRANT },
+  });
+}
+
+/**
+ * Reads the tokens of an upstream grant.
+ */
+export async function readUpstreamGrant(
+  redisClient: RedisClient,
+  upstreamGrantId: string
+): Promise<UpstreamInstallation | undefined> {
+  return readEncrypted<UpstreamInstallation>(redisClient, {
+    prefix: REDIS_KEY_PREFIXES.UPSTREAM_GRANT,
+    key: upstreamGrantId,
+  });
+}
+
+/**
+ * Keeps an upstream grant for another 7 days, as a new installation uses it.
+ */
+export async function keepUpstreamGrant(
+  redisClient: RedisClient,
+  upstreamGrantId: string
+): Promise<void> {
+  await redisClient.expire(REDIS_KEY_PREFIXES.UPSTREAM_GRANT + sha256(upstreamGrantId), REDIS_EXPIRY_TIMES.UPSTREAM_GRANT);
+}
+
+/**
+ * Takes the lock on refreshing an upstream grant, so that of several nodes
+ * only one spends its refresh token. The lock expires on its own.
+ * @returns Whether this call took the lock
+ */
+export async function lockUpstreamGrantRefresh(
+  redisClient: RedisClient,
+  upstreamGrantId: string
+): Promise<boolean> {
+  const result = await redisClient.set(
+    REDIS_KEY_PREFIXES.UPSTREAM_GRANT_REFRESH + sha256(upstreamGrantId),
+    "1",
+    { NX: true, EX: REDIS_EXPIRY_TIMES.UPSTREAM_GRANT_REFRESH }
+  );
+  return result === "OK";
+}
+
+/**
+ * Releases the lock on refreshing an upstream grant.
+ */
+export async function unlockUpstreamGrantRefresh(
+  redisClient: RedisClient,
+  upstreamGrantId: string
+): Promise<void> {
+  await redisClient.del(REDIS_KEY_PREFIXES.UPSTREAM_GRANT_REFRESH + sha256(upstreamGrantId));
+}
+
+/**
+ * Saves a browser session, keyed by the token in its cookie.
+ */
+export async function saveUserSession(
+  redisClient: RedisClient,
+  sessionToken: string,
+  session: UserSession
+): Promise<void> {
+  await saveEncrypted(redisClient, {
+    prefix: REDIS_KEY_PREFIXES.USER_SESSION,
+    key: sessionToken,
+    data: session,
+    options: { EX: REDIS_EXPIRY_TIMES.USER_SESSION },
+  });
+}
+
+/**
+ * Reads the browser session a cookie's token belongs to.
+ */
+export async function readUserSession(
+  redisClient: RedisClient,
+  sessionToken: string
+): Promise<UserSession | undefined> {
+  return readEncrypted<UserSession>(redisClient, {
+    prefix: REDIS_KEY_PREFIXES.USER_SESSION,
+    key: sessionToken,
+  });
+}
+
+/**
+ * Saves an upstream sign-in in progress, keyed by the state sent upstream.
+ */
+export async function savePendingUpstreamSignIn(
+  redisClient: RedisClient,
+  state: string,
+  signIn: PendingUpstreamSignIn
+): Promise<void> {
+  await saveEncrypted(redisClient, {
+    prefix: REDIS_KEY_PREFIXES.UPSTREAM_SIGN_IN,
+    key: state,
+    data: signIn,
+    options: { EX: REDIS_EXPIRY_TIMES.UPSTREAM_SIGN_IN },
+  });
+}
+
+/**
+ * Reads and deletes an upstream sign-in in progress, so its state can't be
+ * replayed.
+ */
+export async function consumePendingUpstreamSignIn(
+  redisClient: RedisClient,
+  state: string
+): Promise<PendingUpstreamSignIn | undefined> {
+  return readEncrypted<PendingUpstreamSignIn>(redisClient, {
+    prefix: REDIS_KEY_PREFIXES.UPSTREAM_SIGN_IN,
+    key: state,
+    del: true,
+  });
+}
+
+/**
+ * Revokes an MCP installation. Its JWT access token's ID is also denylisted
+ * until the token expires, so resource servers validating it locally stop
+ * accepting it too.
  */
 export async function revokeMcpInstallation(
   redisClient: RedisClient,
   mcpAccessToken: string
-): Promise<void> {
+): Promise<McpInstallation | undefined> {
   const installation = await readEncrypted<McpInstallation>(redisClient, {
     prefix: REDIS_KEY_PREFIXES.MCP_AUTHORIZATION,
     key: mcpAccessToken,
@@ -214,9 +767,87 @@ export async function revokeMcpInstallation(
   });
 
   if (!installation) {
-    return;
+    return undefined;
+  }
+
+  if (installation.tokenId) {
+    await redisClient.del(REDIS_KEY_PREFIXES.ACCESS_TOKEN_ID + sha256(installation.tokenId));
+    if (installation.mcpTokens.expires_in) {
+      await denyTokenId(redisClient, installation.tokenId, installation.issuedAt + installation.mcpTokens.expires_in);
+    }
   }
   // In production, would revoke upstream tokens here
+  return installation;
+}
+
+/**
+ * Saves a JWT signing key and publishes it in the key set. Keys are stored
+ * unencrypted, so access to Redis means access to the private keys.
+ * @param expiresInSec How long the key stays published (and usable for verification)
+ */
+export async function saveSigningKey(
+  redisClient: RedisClient,
+  key: SigningKey,
+  expiresInSec: number
+): Promise<void> {
+  await redisClient.set(REDIS_KEY_PREFIXES.SIGNING_KEY + key.kid, JSON.stringify(key), { EX: expiresInSec });
+  await redisClient.sadd(SIGNING_KEY_IDS, key.kid);
+}
+
+/**
+ * Reads a JWT signing key by its key ID.
+ */
+export async function readSigningKey(
+  redisClient: RedisClient,
+  kid: string
+): Promise<SigningKey | undefined> {
+  const data = await redisClient.get(REDIS_KEY_PREFIXES.SIGNING_KEY + kid);
+  if (!data) {
+    return undefined;
+  }
+  return JSON.parse(data);
+}
+
+/**
+ * Reads every published JWT signing key, dropping expired ones from the key set.
+ */
+export async function readSigningKeys(
+  redisClient: RedisClient
+): Promise<SigningKey[]> {
+  const keys: SigningKey[] = [];
+  for (const kid of await redisClient.smembers(SIGNING_KEY_IDS)) {
+    const key = await readSigningKey(redisClient, kid);
+    if (key) {
+      keys.push(key);
+    } else {
+      await redisClient.srem(SIGNING_KEY_IDS, kid);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Reads the ID of the key new JWT access tokens are signed with, if it
+ * isn't due for rotation yet.
+ */
+export async function readCurrentSigningKeyId(
+  redisClient: RedisClient
+): Promise<string | undefined> {
+  return (await redisClient.get(CURRENT_SIGNING_KEY)) ?? undefined;
+}
+
+/**
+ * Makes a key the one new JWT access tokens are signed with, unless another
+ * auth server instance rotated first.
+ * @returns Whether the key became the current signing key
+ */
+export async function claimCurrentSigningKey(
+  redisClient: RedisClient,
+  kid: string,
+  rotationIntervalSec: number
+): Promise<boolean> {
+  const result = await redisClient.set(CURRENT_SIGNING_KEY, kid, { NX: true, EX: rotationIntervalSec });
+  return result !== null;
 }
 
 /**
@@ -282,4 +913,127 @@ export async function exchangeToken(
   }
 
   return tokenExchange;
-}
\ No newline at end of file
+}
+
+/**
+ * Saves a new device authorization under its device code.
+ */
+export async function saveDeviceAuthorization(
+  redisClient: RedisClient,
+  deviceCode: string,
+  deviceAuthorization: DeviceAuthorization
+): Promise<void> {
+  await saveEncrypted(redisClient, {
+    prefix: REDIS_KEY_PREFIXES.DEVICE_AUTHORIZATION,
+    key: deviceCode,
+    data: deviceAuthorization,
+    options: { EX: REDIS_EXPIRY_TIMES.DEVICE_AUTHORIZATION },
+  });
+}
+
+/**
+ * Updates a device authorization, keeping its expiry. Returns false if it
+ * no longer exists.
+ */
+export async function updateDeviceAuthorization(
+  redisClient: RedisClient,
+  deviceCode: string,
+  deviceAuthorization: DeviceAuthorization
+): Promise<boolean> {
+  const result = await saveEncrypted(redisClient, {
+    prefix: REDIS_KEY_PREFIXES.DEVICE_AUTHORIZATION,
+    key: deviceCode,
+    data: deviceAuthorization,
+    options: { XX: true, KEEPTTL: true },
+  });
+  return result === "OK";
+}
+
+/**
+ * Reads the device authorization a device code belongs to.
+ */
+export async function readDeviceAuthorization(
+  redisClient: RedisClient,
+  deviceCode: string
+): Promise<DeviceAuthorization | undefined> {
+  return readEncrypted<DeviceAuthorization>(redisClient, {
+    prefix: REDIS_KEY_PREFIXES.DEVICE_AUTHORIZATION,
+    key: deviceCode,
+  });
+}
+
+/**
+ * Deletes a device authorization, so its device code can't be used again.
+ * Returns false if it was already gone, e.g. deleted by a concurrent poll.
+ */
+export async function deleteDeviceAuthorization(
+  redisClient: RedisClient,
+  deviceCode: string
+): Promise<boolean> {
+  return !!await redisClient.getDel(REDIS_KEY_PREFIXES.DEVICE_AUTHORIZATION + sha256(deviceCode));
+}
+
+/**
+ * Saves the user code of a new device authorization. Returns false if the
+ * user code is already taken.
+ */
+export async function saveDeviceUserCode(
+  redisClient: RedisClient,
+  userCode: string,
+  deviceUserCode: DeviceUserCode
+): Promise<boolean> {
+  const result = await redisClient.set(
+    REDIS_KEY_PREFIXES.DEVICE_USER_CODE + sha256(userCode),
+    JSON.stringify(deviceUserCode),
+    { NX: true, EX: REDIS_EXPIRY_TIMES.DEVICE_USER_CODE }
+  );
+  return result === "OK";
+}
+
+/**
+ * Reads the device authorization a user code belongs to.
+ */
+export async function readDeviceUserCode(
+  redisClient: RedisClient,
+  userCode: string
+): Promise<DeviceUserCode | undefined> {
+  const data = await redisClient.get(REDIS_KEY_PREFIXES.DEVICE_USER_CODE + sha256(userCode));
+  return data ? JSON.parse(data) : undefined;
+}
+
+/**
+ * Records that the user denied a device authorization, for the device to
+ * find on its next poll. Returns false if the user code has expired.
+ */
+export async function denyDeviceUserCode(
+  redisClient: RedisClient,
+  userCode: string
+): Promise<boolean> {
+  const deviceUserCode = await readDeviceUserCode(redisClient, userCode);
+  if (!deviceUserCode) {
+    return false;
+  }
+  const result = await redisClient.set(
+    REDIS_KEY_PREFIXES.DEVICE_USER_CODE + sha256(userCode),
+    JSON.stringify({ ...deviceUserCode, denied: true }),
+    { XX: true, KEEPTTL: true }
+  );
+  return result === "OK";
+}
+
+/**
+ * Records a poll of the token endpoint with a device code. Returns false if
+ * the device polled again within the interval, i.e. too fast.
+ */
+export async function recordDevicePoll(
+  redisClient: RedisClient,
+  deviceCode: string,
+  intervalSec: number
+): Promise<boolean> {
+  const result = await redisClient.set(
+    REDIS_KEY_PREFIXES.DEVICE_POLL + sha256(deviceCode),
+    '1',
+    { NX: true, EX: intervalSec }
+  );
+  return result === 'OK';
+}
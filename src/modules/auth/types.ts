@@ -1,4 +1,28 @@
-import { OAuthTokens } from "@modelcontextprotocol/sdk/shared/auth.js";
+import { OAuthClientInformationFull, OAuthTokens } from "@modelcontextprotocol/sdk/shared/auth.js";
+import type { JWK } from "jose";
+
+/**
+ * A registered OAuth client as stored in Redis. Client secrets and
+ * registration access tokens are only kept hashed; they are returned once,
+ * in the response that issues them.
+ */
+export type ClientRegistration = Omit<OAuthClientInformationFull, 'client_secret'> & {
+  /** Hex SHA-256 hash of the client secret, for client_secret_basic and client_secret_post clients */
+  client_secret_hash?: string;
+  /** Hex SHA-256 hash of the RFC 7592 registration access token the client manages its registration with */
+  registration_access_token_hash?: string;
+};
+
+/**
+ * Client information as the registration and client configuration endpoints
+ * return it (RFC 7592 section 3)
+ */
+export type ClientConfiguration = OAuthClientInformationFull & {
+  /** Token for the client configuration endpoint; a new one is issued with every response */
+  registration_access_token: string;
+  /** The client configuration endpoint */
+  registration_client_uri?: string;
+};
 
 /**
  * Represents a pending OAuth authorization that hasn't been exchanged for tokens yet.
@@ -15,6 +39,42 @@ export interface PendingAuthorization {
   clientId: string;
   /** Optional state parameter for CSRF protection */
   state?: string;
+  /** Scopes the user is asked to grant on the consent page */
+  scopes: string[];
+  /** RFC 8707 resource indicator: the MCP server the token will be for */
+  resource?: string;
+  /** Set for device authorizations (RFC 8628), whose tokens the device polls for instead of exchanging a code */
+  device?: boolean;
+}
+
+/**
+ * A device authorization (RFC 8628) the device polls the token endpoint for.
+ * Stored in Redis encrypted with the device code as the key, which only the
+ * device knows.
+ */
+export interface DeviceAuthorization {
+  /** The OAuth client ID of the device */
+  clientId: string;
+  /** The code the user enters on the verification page */
+  userCode: string;
+  /** Code of the pending authorization the user approves; never sent to the device */
+  authorizationCode: string;
+  /** Unix timestamp (seconds) when the device code expires */
+  expiresAt: number;
+  /** Seconds the device must wait between polls; raised each time it polls too fast */
+  intervalSec: number;
+}
+
+/**
+ * A device authorization as the verification page finds it, by the user code.
+ * Stored in Redis unencrypted: user codes are short enough to type, so too
+ * short to be encryption keys.
+ */
+export interface DeviceUserCode {
+  /** Code of the pending authorization the user approves */
+  authorizationCode: string;
+  /** Set once the user has denied the device access */
+  denied?: boolean;
 }
 
 /**
@@ -29,14 +89,36 @@ export interface TokenExchange {
 }
 
 /**
- * Represents mock upstream identity provider tokens for demonstration purposes.
- * In production, this would contain real upstream provider tokens.
+ * Tokens from the upstream identity provider the user signed in with, so the
+ * server can act upstream on the user's behalf. Each sign-in's tokens are
+ * stored once, as an upstream grant, and shared by every installation and
+ * browser session it authorized, so a refresh, which may rotate the refresh
+ * token, updates them for all. Stored in Redis encrypted with the grant ID.
  */
-export interface MockUpstreamInstallation {
-  /** Access token from the mock upstream identity provider */
-  mockUpstreamAccessToken: string;
-  /** Refresh token from the mock upstream identity provider */
-  mockUpstreamRefreshToken: string;
+export interface UpstreamInstallation {
+  /** Name of the upstream identity provider that issued the tokens */
+  provider: string;
+  accessToken: string;
+  refreshToken?: string;
+  /** OpenID Connect ID token, from OIDC providers */
+  idToken?: string;
+  /** Unix timestamp (seconds) when the access token expires, if known */
+  expiresAt?: number;
+  /** Scopes the upstream tokens were granted */
+  scope?: string;
+}
+
+/**
+ * An OpenID Connect sign-in in progress at the upstream identity provider.
+ * Stored in Redis encrypted with the `state` sent upstream as the key.
+ */
+export interface PendingUpstreamSignIn {
+  /** Code of the MCP authorization the sign-in is for */
+  mcpAuthorizationCode: string;
+  /** PKCE code verifier for the upstream authorization code */
+  codeVerifier: string;
+  /** Expected in the ID token, binding it to this sign-in */
+  nonce: string;
 }
 
 /**
@@ -45,8 +127,13 @@ export interface MockUpstreamInstallation {
  * This object is encrypted using the MCP access token as the key.
  */
 export interface McpInstallation {
-  /** Information from the upstream authentication provider */
-  mockUpstreamInstallation: MockUpstreamInstallation;
+  /** Upstream grant holding the user's upstream tokens; service principals have none */
+  upstreamGrantId?: string;
+  /**
+   * Upstream tokens of installations from before upstream grants, moved into
+   * one when they are first used
+   */
+  upstreamInstallation?: UpstreamInstallation;
   /** MCP OAuth tokens issued to the client */
   mcpTokens: OAuthTokens;
   /** The OAuth client ID associated with this installation */
@@ -55,8 +142,83 @@ export interface McpInstallation {
   issuedAt: number;
   /** Unique identifier for the user (not the OAuth client) */
   userId: string;
+  /** Scopes granted to the client; installations created before scopes existed have full access */
+  scopes?: string[];
+  /** RFC 8707 resource indicator the tokens are bound to, reported as their audience */
+  resource?: string;
+  /** Token family: every installation refreshed from the same authorization shares it */
+  familyId?: string;
+  /** ID (`jti`) of the JWT access token issued for the installation, if any */
+  tokenId?: string;
 }
 
+/**
+ * The live tokens of a token family. Refreshing replaces them, so a family
+ * has one valid access token and one valid refresh token at a time, and
+ * revoking the family revokes whichever tokens are current.
+ * Stored in Redis encrypted with the family ID as the key.
+ */
+export interface TokenFamily {
+  /** The family's current MCP access token */
+  mcpAccessToken: string;
+  /** The family's current refresh token; client_credentials tokens have none */
+  refreshToken?: string;
+}
+
+/**
+ * A user's consent to a client: the scopes approved so far. Authorizations
+ * that ask for no more than this skip the consent screen, and approved
+ * authorizations asking for more add to it.
+ */
+export interface ConsentRecord {
+  userId: string;
+  clientId: string;
+  /** Every scope the user has approved for the client */
+  scopes: string[];
+  /** Unix timestamp (seconds) when the user first authorized the client */
+  grantedAt: number;
+  /** Unix timestamp (seconds) when the client last obtained or refreshed tokens under this consent */
+  lastUsedAt: number;
+}
+
+/**
+ * A browser signed in at the auth server, identified by a cookie. Lets a
+ * returning user authorize clients without signing in upstream again, and
+ * manage the clients they have connected.
+ * Stored in Redis encrypted with the session token as the key.
+ */
+export interface UserSession {
+  userId: string;
+  /** Upstream grant of the user's sign-in, shared with later authorizations */
+  upstreamGrantId: string;
+  /** Sent back with forms on the auth server's pages to prove they came from them */
+  csrfToken: string;
+  /** Unix timestamp (seconds) when the user signed in */
+  createdAt: number;
+}
+
+/**
+ * A key pair used to sign JWT access tokens, stored in Redis so every auth
+ * server instance signs with the same key and publishes the same JWKS.
+ */
+export interface SigningKey {
+  /** Key ID, sent in the JWT header so validators can pick the key from the JWKS */
+  kid: string;
+  /** JWS algorithm the key signs with */
+  alg: JwtSigningAlgorithm;
+  /** Private half of the key pair; never leaves the auth server */
+  privateJwk: JWK;
+  /** Public half, as published at /.well-known/jwks.json */
+  publicJwk: JWK;
+  /** Unix timestamp (seconds) when the key was generated */
+  createdAt: number;
+}
+
+/**
+ * Algorithms JWT access tokens can be signed with
+ */
+export type JwtSigningAlgorithm = 'RS256' | 'ES256';
+
 /**
  * OAuth 2.0 Token Introspection Response
  * Based on RFC 7662: https://tools.ietf.org/html/rfc7662
@@ -0,0 +1,58 @@
+import { redisClient } from '../../shared/redis.js';
+import { generateToken, sha256 } from '../auth/auth-core.js';
+import { UpstreamInstallation } from '../types.js';
+
+/**
+ * Tokens of the mock upstream identity provider, which also serves the mock
+ * upstream API (handlers/mock-upstream-api.ts). Unlike the rest of the mock,
+ * they behave like a real provider's: access tokens expire after a few
+ * minutes and have to be refreshed, so refreshing can be tried out locally.
+ *
+ * They are stored apart from the auth server's own data, as they would be
+ * at a real provider.
+ */
+
+const ACCESS_TOKEN_PREFIX = 'mock-upstream:access:';
+const REFRESH_TOKEN_PREFIX = 'mock-upstream:refresh:';
+
+export const MOCK_UPSTREAM_ACCESS_TOKEN_EXPIRY_SEC = 5 * 60;
+const MOCK_UPSTREAM_REFRESH_TOKEN_EXPIRY_SEC = 30 * 24 * 60 * 60;
+
+async function issueAccessToken(userId: string): Promise<{ accessToken: string; expiresAt: number }> {
+  const accessToken = generateToken();
+  await redisClient.set(ACCESS_TOKEN_PREFIX + sha256(accessToken), userId, { EX: MOCK_UPSTREAM_ACCESS_TOKEN_EXPIRY_SEC });
+  return { accessToken, expiresAt: Math.floor(Date.now() / 1000) + MOCK_UPSTREAM_ACCESS_TOKEN_EXPIRY_SEC };
+}
+
+/**
+ * Issues tokens for a user who signed in with the mock provider
+ */
+export async function issueMockUpstreamTokens(userId: string): Promise<UpstreamInstallation> {
+  const refreshToken = generateToken();
+  await redisClient.set(REFRESH_TOKEN_PREFIX + sha256(refreshToken), userId, { EX: MOCK_UPSTREAM_REFRESH_TOKEN_EXPIRY_SEC });
+  return {
+    provider: 'mock',
+    ...await issueAccessToken(userId),
+    refreshToken,
+  };
+}
+
+/**
+ * Issues a new access token for a refresh token. Refresh tokens are not
+ * rotated, so installations sharing one can each refresh.
+ * @returns The new access token, or undefined if the refresh token is unknown
+ */
+export async function refreshMockUpstreamAccessToken(refreshToken: string): Promise<{ accessToken: string; expiresAt: number } | undefined> {
+  const userId = await redisClient.get(REFRESH_TOKEN_PREFIX + sha256(refreshToken));
+  if (!userId) {
+    return undefined;
+  }
+  return issueAccessToken(userId);
+}
+
+/**
+ * The user a mock upstream access token was issued to, if it is still valid
+ */
+export async function readMockUpstreamAccessToken(accessToken: string): Promise<string | undefined> {
+  return await redisClient.get(ACCESS_TOKEN_PREFIX + sha256(accessToken)) ?? undefined;
+}
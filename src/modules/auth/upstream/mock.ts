@@ -0,0 +1,50 @@
+import { Request, Response } from 'express';
+import { UpstreamInstallation } from '../types.js';
+import { issueMockUpstreamTokens, refreshMockUpstreamAccessToken } from './mock-tokens.js';
+import { UpstreamIdentityProvider, UpstreamSignIn } from './types.js';
+
+/**
+ * Signs users in with the mock upstream identity provider page this server
+ * serves itself (see handlers/mock-upstream-idp.ts), where testers pick any
+ * user ID. FOR DEMONSTRATION ONLY: nothing about the sign-in is verified.
+ * The upstream tokens it issues are accepted by the mock upstream API, and
+ * expire and refresh like a real provider's (see mock-tokens.ts).
+ */
+export class MockUpstreamIdentityProvider implements UpstreamIdentityProvider {
+  readonly name = 'mock';
+  readonly callbackPath = '/mock-upstream-idp/callback';
+
+  async startSignIn(state: string, _req: Request, res: Response): Promise<void> {
+    res.redirect(`/mock-upstream-idp/authorize?redirect_uri=${encodeURIComponent(this.callbackPath)}&state=${encodeURIComponent(state)}`);
+  }
+
+  async handleCallback(req: Request): Promise<UpstreamSignIn> {
+    const {
+      // The state returned from the upstream auth server is actually the authorization code
+      state,
+      code,
+      userId, // User ID picked on the mock sign-in page
+    } = req.query;
+
+    if (typeof state !== 'string' || typeof code !== 'string') {
+      throw new Error('Missing state or code');
+    }
+
+    // This is where you'd exchange the upstream code for access/refresh
+    // tokens. The mock provider issues them for the chosen user directly
+    const signedInUserId = typeof userId === 'string' && userId ? userId : 'anonymous-user';
+    return {
+      state,
+      userId: signedInUserId,
+      upstreamInstallation: await issueMockUpstreamTokens(signedInUserId),
+    };
+  }
+
+  async refreshTokens(installation: UpstreamInstallation): Promise<UpstreamInstallation> {
+    const refreshed = installation.refreshToken && await refreshMockUpstreamAccessToken(installation.refreshToken);
+    if (!refreshed) {
+      throw new Error('Unknown refresh token');
+    }
+    return { ...installation, ...refreshed };
+  }
+}
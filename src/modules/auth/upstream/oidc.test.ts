@@ -0,0 +1,246 @@
+import { jest } from '@jest/globals';
+import { createHash } from 'crypto';
+import { Request, Response } from 'express';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { CryptoKey, exportJWK, generateKeyPair, JWK, SignJWT } from 'jose';
+import { MockRedisClient, setRedisClient } from '../../shared/redis.js';
+import { OidcUpstreamIdentityProvider } from './oidc.js';
+
+describe('OidcUpstreamIdentityProvider', () => {
+  const clientId = 'auth-server';
+  const clientSecret = 'auth-server-secret';
+  const redirectUri = 'https://auth.example.com/upstream-idp/callback';
+
+  let server: Server;
+  let issuer: string;
+  let privateKey: CryptoKey;
+  let jwks: { keys: JWK[] };
+  // Authorization codes the stand-in provider issued, with what they were issued for
+  let codes: Map<string, { codeChallenge: string; nonce: string }>;
+  // Overrides the claims of the next ID token
+  let idTokenClaims: Record<string, unknown>;
+  let tokenRequests: URLSearchParams[];
+
+  beforeAll(async () => {
+    const keyPair = await generateKeyPair('RS256');
+    privateKey = keyPair.privateKey;
+    jwks = { keys: [{ ...await exportJWK(keyPair.publicKey), kid: 'key-1', alg: 'RS256' }] };
+
+    // Stand-in OpenID provider: discovery, keys, authorization and token endpoints
+    server = createServer(async (req, res) => {
+      const url = new URL(req.url!, issuer);
+      const json = (status: number, body: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+
+      if (url.pathname === '/.well-known/openid-configuration') {
+        json(200, {
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/jwks`,
+        });
+      } else if (url.pathname === '/jwks') {
+        json(200, jwks);
+      } else if (url.pathname === '/authorize') {
+        // Signs the user straight in
+        const code = `code-${codes.size + 1}`;
+        codes.set(code, {
+          codeChallenge: url.searchParams.get('code_challenge')!,
+          nonce: url.searchParams.get('nonce')!,
+        });
+        const callback = new URL(url.searchParams.get('redirect_uri')!);
+        callback.searchParams.set('code', code);
+        callback.searchParams.set('state', url.searchParams.get('state')!);
+        res.writeHead(302, { Location: callback.href });
+        res.end();
+      } else if (url.pathname === '/token' && req.method === 'POST') {
+        let body = '';
+        for await (const chunk of req) body += chunk;
+        const params = new URLSearchParams(body);
+        tokenRequests.push(params);
+
+        const expectedAuth = `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`;
+        if (params.get('grant_type') === 'refresh_token') {
+          if (req.headers.authorization !== expectedAuth || params.get('refresh_token') !== 'upstream-refresh-token') {
+            json(400, { error: 'invalid_grant' });
+          } else {
+            json(200, { access_token: 'refreshed-access-token', token_type: 'Bearer', expires_in: 3600 });
+          }
+          return;
+        }
+
+        const issued = codes.get(params.get('code') ?? '');
+        codes.delete(params.get('code') ?? '');
+        if (req.headers.authorization !== expectedAuth) {
+          json(401, { error: 'invalid_client' });
+        } else if (!issued || params.get('redirect_uri') !== redirectUri ||
+          createHash('sha256').update(params.get('code_verifier') ?? '').digest('base64url') !== issued.codeChallenge) {
+          json(400, { error: 'invalid_grant' });
+        } else {
+          json(200, {
+            access_token: 'upstream-access-token',
+            refresh_token: 'upstream-refresh-token',
+            token_type: 'Bearer',
+            expires_in: 3600,
+            scope: 'openid email',
+            id_token: await new SignJWT({ aud: clientId, nonce: issued.nonce, email: 'user@example.com', ...idTokenClaims })
+              .setProtectedHeader({ alg: 'RS256', kid: 'key-1' })
+              .setIssuer(issuer)
+              .setSubject('upstream-user-1')
+              .setIssuedAt()
+              .setExpirationTime('5m')
+              .sign(privateKey),
+          });
+        }
+      } else {
+        json(404, { error: 'not_found' });
+      }
+    });
+    server.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    setRedisClient(new MockRedisClient());
+    codes = new Map();
+    idTokenClaims = {};
+    tokenRequests = [];
+  });
+
+  const createProvider = () => new OidcUpstreamIdentityProvider({
+    issuer,
+    clientId,
+    clientSecret,
+    redirectUri,
+    scopes: ['openid', 'email'],
+  });
+
+  // Starts a sign-in for an MCP authorization and returns the URL it sent the user to
+  const startSignIn = async (provider: OidcUpstreamIdentityProvider, mcpAuthorizationCode = 'mcp-code') => {
+    const res = { redirect: jest.fn() };
+    await provider.startSignIn(mcpAuthorizationCode, {} as Request, res as unknown as Response);
+    return new URL(res.redirect.mock.calls[0][0] as string);
+  };
+
+  // Signs in at the stand-in provider and returns the query it redirects back with
+  const signInUpstream = async (authorizeUrl: URL) => {
+    const response = await fetch(authorizeUrl, { redirect: 'manual' });
+    return Object.fromEntries(new URL(response.headers.get('location')!).searchParams);
+  };
+
+  const callback = (provider: OidcUpstreamIdentityProvider, query: Record<string, string>) =>
+    provider.handleCallback({ query } as unknown as Request);
+
+  it('should send the user to the provider with PKCE and a nonce', async () => {
+    const authorizeUrl = await startSignIn(createProvider());
+
+    expect(authorizeUrl.origin + authorizeUrl.pathname).toBe(`${issuer}/authorize`);
+    expect(Object.fromEntries(authorizeUrl.searchParams)).toEqual({
+      response_type: 'code',
+      client_id: clientId,
+      redirect_uri: redirectUri,
+      scope: 'openid email',
+      state: expect.stringMatching(/^[0-9a-f]{64}$/),
+      nonce: expect.stringMatching(/^[0-9a-f]{64}$/),
+      code_challenge: expect.any(String),
+      code_challenge_method: 'S256',
+    });
+    // The MCP authorization code never leaves the auth server
+    expect(authorizeUrl.searchParams.get('state')).not.toBe('mcp-code');
+  });
+
+  it('should sign the user in as the ID token subject and keep the upstream tokens', async () => {
+    const provider = createProvider();
+    const query = await signInUpstream(await startSignIn(provider));
+
+    const signIn = await callback(provider, query);
+
+    expect(signIn).toEqual({
+      state: 'mcp-code',
+      userId: 'upstream-user-1',
+      upstreamInstallation: {
+        provider: 'oidc',
+        accessToken: 'upstream-access-token',
+        refreshToken: 'upstream-refresh-token',
+        idToken: expect.any(String),
+        expiresAt: expect.any(Number),
+        scope: 'openid email',
+      },
+    });
+    expect(tokenRequests[0].get('grant_type')).toBe('authorization_code');
+    expect(tokenRequests[0].has('client_id')).toBe(false);
+  });
+
+  it('should reject an ID token with the wrong nonce', async () => {
+    const provider = createProvider();
+    const query = await signInUpstream(await startSignIn(provider));
+    idTokenClaims = { nonce: 'another-nonce' };
+
+    await expect(callback(provider, query)).rejects.toThrow('nonce');
+  });
+
+  it('should reject an ID token issued to another client', async () => {
+    const provider = createProvider();
+    const query = await signInUpstream(await startSignIn(provider));
+    idTokenClaims = { aud: 'another-client' };
+
+    await expect(callback(provider, query)).rejects.toThrow('"aud"');
+  });
+
+  it('should reject a replayed or unknown state', async () => {
+    const provider = createProvider();
+    const query = await signInUpstream(await startSignIn(provider));
+    await callback(provider, query);
+
+    await expect(callback(provider, query)).rejects.toThrow('Unknown or expired upstream sign-in');
+    await expect(callback(provider, { ...query, state: 'f'.repeat(64) })).rejects.toThrow('Unknown or expired upstream sign-in');
+  });
+
+  it('should surface errors the provider redirects back with', async () => {
+    const provider = createProvider();
+    const { state } = Object.fromEntries((await startSignIn(provider)).searchParams);
+
+    await expect(callback(provider, { state, error: 'access_denied', error_description: 'User cancelled' }))
+      .rejects.toThrow('access_denied (User cancelled)');
+  });
+
+  it('should refresh the upstream tokens', async () => {
+    const provider = createProvider();
+    const { upstreamInstallation } = await callback(provider, await signInUpstream(await startSignIn(provider)));
+
+    const refreshed = await provider.refreshTokens({ ...upstreamInstallation, expiresAt: 0 });
+
+    expect(refreshed).toEqual({
+      ...upstreamInstallation,
+      accessToken: 'refreshed-access-token',
+      expiresAt: expect.any(Number),
+    });
+    expect(refreshed.expiresAt).toBeGreaterThan(Date.now() / 1000);
+  });
+
+  it('should fail to refresh when the provider refuses', async () => {
+    const provider = createProvider();
+
+    await expect(provider.refreshTokens({ provider: 'oidc', accessToken: 'expired', refreshToken: 'revoked' }))
+      .rejects.toThrow('Upstream refresh_token grant failed: 400');
+  });
+
+  it('should fail to start when the provider is unreachable', async () => {
+    const provider = new OidcUpstreamIdentityProvider({
+      issuer: `${issuer}/unknown`,
+      clientId,
+      redirectUri,
+      scopes: ['openid'],
+    });
+
+    await expect(startSignIn(provider)).rejects.toThrow('OIDC discovery failed: 404');
+  });
+});
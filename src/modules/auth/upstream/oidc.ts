@@ -0,0 +1,228 @@
+import { Request, Response } from 'express';
+import { createRemoteJWKSet, JWTPayload, jwtVerify } from 'jose';
+import { z } from 'zod/v4';
+import { generatePKCEChallenge, generateToken } from '../auth/auth-core.js';
+import { consumePendingUpstreamSignIn, savePendingUpstreamSignIn } from '../services/auth.js';
+import { UpstreamInstallation } from '../types.js';
+import { UpstreamIdentityProvider, UpstreamSignIn } from './types.js';
+import { logger } from '../../shared/logger.js';
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+export interface OidcProviderOptions {
+  /** Issuer URL; its discovery document is served under /.well-known/openid-configuration */
+  issuer: string;
+  clientId: string;
+  /** Secret of a confidential client, sent with HTTP Basic auth; omit for public clients */
+  clientSecret?: string;
+  /** Redirect URI registered with the provider, on this auth server */
+  redirectUri: string;
+  /** Scopes to request; must include `openid` */
+  scopes: string[];
+}
+
+/**
+ * The parts of the OpenID Provider metadata the connector uses
+ */
+const OidcDiscoverySchema = z.object({
+  issuer: z.string(),
+  authorization_endpoint: z.url(),
+  token_endpoint: z.url(),
+  jwks_uri: z.url(),
+});
+
+type OidcDiscovery = z.infer<typeof OidcDiscoverySchema>;
+
+const OidcTokenResponseSchema = z.object({
+  access_token: z.string(),
+  // Always issued for an authorization code; optional when refreshing
+  id_token: z.string().optional(),
+  refresh_token: z.string().optional(),
+  expires_in: z.number().optional(),
+  scope: z.string().optional(),
+});
+
+type OidcTokenResponse = z.infer<typeof OidcTokenResponseSchema>;
+
+/**
+ * Signs users in with any OpenID Connect provider, using the authorization
+ * code flow with PKCE. The provider's endpoints and keys are discovered from
+ * its issuer URL, and the ID token is verified before its `sub` becomes the
+ * user's ID. The provider's tokens are kept with each installation.
+ */
+export class OidcUpstreamIdentityProvider implements UpstreamIdentityProvider {
+  readonly name = 'oidc';
+  readonly callbackPath: string;
+  private discovery?: Promise<{ metadata: OidcDiscovery; jwks: ReturnType<typeof createRemoteJWKSet> }>;
+
+  constructor(private options: OidcProviderOptions) {
+    this.callbackPath = new URL(options.redirectUri).pathname;
+  }
+
+  async startSignIn(mcpAuthorizationCode: string, _req: Request, res: Response): Promise<void> {
+    const { metadata } = await this.discover();
+
+    // A fresh state, rather than the MCP authorization code, goes upstream
+    const state = generateToken();
+    const codeVerifier = generateToken();
+    const nonce = generateToken();
+    await savePendingUpstreamSignIn(state, { mcpAuthorizationCode, codeVerifier, nonce });
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.options.clientId);
+    url.searchParams.set('redirect_uri', this.options.redirectUri);
+    url.searchParams.set('scope', this.options.scopes.join(' '));
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('code_challenge', generatePKCEChallenge(codeVerifier));
+    url.searchParams.set('code_challenge_method', 'S256');
+    res.redirect(url.href);
+  }
+
+  async handleCallback(req: Request): Promise<UpstreamSignIn> {
+    const { state, code, error, error_description } = req.query;
+
+    if (typeof error === 'string') {
+      throw new Error(`Upstream sign-in failed: ${error}${typeof error_description === 'string' ? ` (${error_description})` : ''}`);
+    }
+    if (typeof state !== 'string' || typeof code !== 'string') {
+      throw new Error('Missing state or code');
+    }
+
+    const pending = await consumePendingUpstreamSignIn(state);
+    if (!pending) {
+      throw new Error('Unknown or expired upstream sign-in');
+    }
+
+    const tokens = await this.requestTokens({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.options.redirectUri,
+      code_verifier: pending.codeVerifier,
+    });
+    if (!tokens.id_token) {
+      throw new Error('Upstream token response has no ID token');
+    }
+    const claims = await this.verifyIdToken(tokens.id_token, pending.nonce);
+
+    logger.info('Upstream OIDC sign-in completed', { sub: claims.sub });
+    return {
+      state: pending.mcpAuthorizationCode,
+      userId: claims.sub,
+      upstreamInstallation: {
+        provider: this.name,
+        accessToken: tokens.access_token,
+        refreshToken: tokens.refresh_token,
+        idToken: tokens.id_token,
+        expiresAt: expiresAt(tokens),
+        scope: tokens.scope,
+      },
+    };
+  }
+
+  async refreshTokens(installation: UpstreamInstallation): Promise<UpstreamInstallation> {
+    if (!installation.refreshToken) {
+      throw new Error('No refresh token');
+    }
+    const tokens = await this.requestTokens({
+      grant_type: 'refresh_token',
+      refresh_token: installation.refreshToken,
+    });
+
+    // The ID token from sign-in is kept: it is what identified the user
+    return {
+      ...installation,
+      accessToken: tokens.access_token,
+      // Providers that don't rotate refresh tokens send none back
+      refreshToken: tokens.refresh_token ?? installation.refreshToken,
+      expiresAt: expiresAt(tokens),
+      scope: tokens.scope ?? installation.scope,
+    };
+  }
+
+  /**
+   * Fetches the provider's metadata once, retrying on the next sign-in if
+   * it fails.
+   */
+  private discover() {
+    this.discovery ??= (async () => {
+      const response = await fetch(new URL('.well-known/openid-configuration', withTrailingSlash(this.options.issuer)), {
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+      if (!response.ok) {
+        throw new Error(`OIDC discovery failed: ${response.status} ${response.statusText}`);
+      }
+      const metadata = OidcDiscoverySchema.parse(await response.json());
+      // OpenID Connect Discovery 1.0 section 4.3
+      if (metadata.issuer !== this.options.issuer) {
+        throw new Error(`OIDC discovery returned issuer ${metadata.issuer}, expected ${this.options.issuer}`);
+      }
+      return { metadata, jwks: createRemoteJWKSet(new URL(metadata.jwks_uri)) };
+    })().catch(error => {
+      this.discovery = undefined;
+      throw error;
+    });
+    return this.discovery;
+  }
+
+  /**
+   * Makes a token request (an authorization code exchange or a refresh),
+   * authenticating as the auth server's client at the provider.
+   */
+  private async requestTokens(params: Record<string, string>): Promise<OidcTokenResponse> {
+    const { metadata } = await this.discover();
+
+    const body = new URLSearchParams(params);
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    if (this.options.clientSecret) {
+      // client_secret_basic, with both parts form-encoded (RFC 6749 section 2.3.1)
+      const credentials = `${encodeURIComponent(this.options.clientId)}:${encodeURIComponent(this.options.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      body.set('client_id', this.options.clientId);
+    }
+
+    const response = await fetch(metadata.token_endpoint, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Upstream ${params.grant_type} grant failed: ${response.status} ${await response.text()}`);
+    }
+    return OidcTokenResponseSchema.parse(await response.json());
+  }
+
+  /**
+   * Verifies an ID token (OpenID Connect Core 1.0 section 3.1.3.7): its
+   * signature, issuer, audience, expiry and nonce.
+   */
+  private async verifyIdToken(idToken: string, nonce: string): Promise<JWTPayload & { sub: string }> {
+    const { metadata, jwks } = await this.discover();
+    const { payload } = await jwtVerify(idToken, jwks, {
+      issuer: metadata.issuer,
+      audience: this.options.clientId,
+    });
+
+    if (Array.isArray(payload.aud) && payload.aud.length > 1 && payload.azp !== this.options.clientId) {
+      throw new Error('ID token was issued to another party');
+    }
+    if (payload.nonce !== nonce) {
+      throw new Error('ID token nonce does not match the sign-in');
+    }
+    if (!payload.sub) {
+      throw new Error('ID token has no sub claim');
+    }
+    return { ...payload, sub: payload.sub };
+  }
+}
+
+function expiresAt(tokens: OidcTokenResponse): number | undefined {
+  return tokens.expires_in ? Math.floor(Date.now() / 1000) + tokens.expires_in : undefined;
+}
+
+function withTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`;
+}
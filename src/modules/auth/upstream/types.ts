@@ -0,0 +1,46 @@
+import { Request, Response } from 'express';
+import { UpstreamInstallation } from '../types.js';
+
+/**
+ * A completed upstream sign-in
+ */
+export interface UpstreamSignIn {
+  /** The state the sign-in was started with: the pending MCP authorization's code */
+  state: string;
+  /** Stable ID of the user at the provider (the OIDC `sub` claim) */
+  userId: string;
+  /** The provider's tokens for the user */
+  upstreamInstallation: UpstreamInstallation;
+}
+
+/**
+ * An identity provider the auth server delegates user sign-in to. The auth
+ * server sends the user to it once they have seen the consent screen, and
+ * completes the MCP authorization when the provider sends them back to
+ * `callbackPath`.
+ */
+export interface UpstreamIdentityProvider {
+  /** Identifies the provider in logs and on the installations it signs users in to */
+  readonly name: string;
+  /** Path on the auth server the provider sends users back to after signing in */
+  readonly callbackPath: string;
+
+  /**
+   * Sends the user to sign in with the provider.
+   * @param state Handed back by `handleCallback` to tie the sign-in to the MCP authorization
+   */
+  startSignIn(state: string, req: Request, res: Response): Promise<void>;
+
+  /**
+   * Completes a sign-in from the request to `callbackPath`.
+   * @throws if the user didn't sign in or the response can't be verified
+   */
+  handleCallback(req: Request): Promise<UpstreamSignIn>;
+
+  /**
+   * Exchanges the installation's refresh token for a new access token.
+   * @returns The installation with the new tokens
+   * @throws if the provider refuses, e.g. because the user revoked access
+   */
+  refreshTokens(installation: UpstreamInstallation): Promise<UpstreamInstallation>;
+}
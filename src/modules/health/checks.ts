@@ -0,0 +1,48 @@
+import { redisClient } from '../shared/redis.js';
+
+// Abort the introspection request before the module's check timeout fires
+const INTROSPECTION_TIMEOUT_MS = 1500;
+
+/**
+ * A dependency the server needs in order to serve traffic. check() throws
+ * when the dependency is unavailable.
+ */
+export interface ReadinessCheck {
+  name: string;
+  check: () => Promise<void>;
+}
+
+/**
+ * Redis holds sessions, tokens and the message relay, so nothing works
+ * without it.
+ */
+export function redisCheck(): ReadinessCheck {
+  return {
+    name: 'redis',
+    check: async () => {
+      await redisClient.ping();
+    }
+  };
+}
+
+/**
+ * The external auth server's /introspect validates every bearer token in
+ * AUTH_MODE=external. Any non-5xx answer counts as reachable; the empty
+ * token is simply reported inactive.
+ */
+export function introspectionCheck(authServerUrl: string): ReadinessCheck {
+  return {
+    name: 'auth_server',
+    check: async () => {
+      const response = await fetch(`${authServerUrl}/introspect`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'token=',
+        signal: AbortSignal.timeout(INTROSPECTION_TIMEOUT_MS)
+      });
+      if (response.status >= 500) {
+        throw new Error(`Introspection endpoint returned ${response.status}`);
+      }
+    }
+  };
+}
@@ -0,0 +1,104 @@
+import { jest } from '@jest/globals';
+import { MockRedisClient, setRedisClient } from '../shared/redis.js';
+import { introspectionCheck, ReadinessCheck, redisCheck } from './checks.js';
+import { HealthConfig, HealthModule } from './index.js';
+
+describe('Health Module', () => {
+  let mockRedis: MockRedisClient;
+  let draining: boolean;
+
+  beforeEach(() => {
+    mockRedis = new MockRedisClient();
+    setRedisClient(mockRedis);
+    jest.restoreAllMocks();
+    draining = false;
+  });
+
+  const createModule = (overrides: Partial<HealthConfig> = {}) => new HealthModule({
+    version: '1.2.3',
+    authMode: 'internal',
+    sessionMode: 'stateful',
+    responseMode: 'sse',
+    exampleApps: ['map', 'pdf'],
+    checks: [redisCheck()],
+    isDraining: () => draining,
+    getLocalSessionCount: () => 2,
+    ...overrides
+  });
+
+  const failingCheck: ReadinessCheck = {
+    name: 'broken',
+    check: async () => { throw new Error('connection refused'); }
+  };
+
+  describe('getReadiness', () => {
+    it('should be ready when every check passes', async () => {
+      expect(await createModule().getReadiness()).toEqual({
+        status: 'ready',
+        draining: false,
+        checks: { redis: { status: 'ok' } }
+      });
+    });
+
+    it('should report failing checks', async () => {
+      const report = await createModule({ checks: [redisCheck(), failingCheck] }).getReadiness();
+
+      expect(report.status).toBe('not_ready');
+      expect(report.checks.broken).toEqual({ status: 'error', error: 'connection refused' });
+    });
+
+    it('should not be ready while draining', async () => {
+      draining = true;
+
+      const report = await createModule().getReadiness();
+
+      expect(report).toEqual(expect.objectContaining({ status: 'not_ready', draining: true }));
+    });
+
+    it('should fail checks that hang', async () => {
+      const hangingCheck: ReadinessCheck = { name: 'hanging', check: () => new Promise(() => {}) };
+
+      const report = await createModule({ checks: [hangingCheck], checkTimeoutMs: 20 }).getReadiness();
+
+      expect(report.checks.hanging).toEqual({ status: 'error', error: 'Timed out after 20ms' });
+    });
+
+    it('should reuse check results for back-to-back probes', async () => {
+      const pingSpy = jest.spyOn(mockRedis, 'ping');
+      const module = createModule();
+
+      await module.getReadiness();
+      await module.getReadiness();
+
+      expect(pingSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should describe the running server', () => {
+      expect(createModule().getStatus()).toEqual({
+        status: 'ok',
+        version: '1.2.3',
+        uptimeSec: expect.any(Number),
+        mode: { auth: 'internal', session: 'stateful', response: 'sse' },
+        localSessions: 2,
+        exampleApps: ['map', 'pdf']
+      });
+    });
+  });
+
+  describe('introspectionCheck', () => {
+    it('should treat any non-5xx answer as reachable', async () => {
+      const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(new Response('{"active":false}', { status: 200 }));
+
+      await expect(introspectionCheck('http://auth.example.com').check()).resolves.toBeUndefined();
+      expect(fetchSpy).toHaveBeenCalledWith('http://auth.example.com/introspect', expect.objectContaining({ method: 'POST' }));
+    });
+
+    it('should fail when the auth server errors', async () => {
+      jest.spyOn(global, 'fetch').mockResolvedValue(new Response('', { status: 502 }));
+
+      await expect(introspectionCheck('http://auth.example.com').check()).rejects.toThrow('returned 502');
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Health Module - Liveness, readiness and status endpoints for probes
+ *
+ * - GET /healthz: liveness; answers as long as the process can serve HTTP
+ * - GET /readyz: readiness; 503 while draining or when a dependency is down,
+ *   so load balancers stop routing new traffic here
+ * - GET /status: JSON description of the running server
+ *
+ * None of these require authentication or are rate limited, since probes hit
+ * them constantly. Readiness results are cached briefly so probes cannot be
+ * used to flood Redis or the auth server.
+ */
+
+import { Router, Request, Response } from 'express';
+import { logger } from '../shared/logger.js';
+import { ReadinessCheck } from './checks.js';
+
+// How long each dependency check may take before it counts as failed
+const DEFAULT_CHECK_TIMEOUT_MS = 2000;
+
+// Probes from several load balancers share one round of checks per interval
+const READINESS_CACHE_MS = 1000;
+
+export interface HealthConfig {
+  version: string;
+  authMode: string;
+  sessionMode?: string;
+  responseMode?: string;
+  /** Slugs of the example MCP App servers mounted at /:slug/mcp */
+  exampleApps: string[];
+  checks: ReadinessCheck[];
+  isDraining: () => boolean;
+  /** Session servers hosted by this process (MCP servers only) */
+  getLocalSessionCount?: () => number;
+  checkTimeoutMs?: number;
+}
+
+export interface CheckResult {
+  status: 'ok' | 'error';
+  error?: string;
+}
+
+export interface ReadinessReport {
+  status: 'ready' | 'not_ready';
+  draining: boolean;
+  checks: Record<string, CheckResult>;
+}
+
+export interface StatusDocument {
+  status: 'ok' | 'draining';
+  version: string;
+  uptimeSec: number;
+  mode: {
+    auth: string;
+    session?: string;
+    response?: string;
+  };
+  localSessions?: number;
+  exampleApps: string[];
+}
+
+export class HealthModule {
+  private router: Router;
+  private startedAt = Date.now();
+  private cachedChecks?: { at: number; results: Promise<Record<string, CheckResult>> };
+
+  constructor(private config: HealthConfig) {
+    this.router = this.setupRouter();
+  }
+
+  getRouter(): Router {
+    return this.router;
+  }
+
+  /**
+   * Runs the readiness checks (at most once per READINESS_CACHE_MS).
+   */
+  async getReadiness(): Promise<ReadinessReport> {
+    const draining = this.config.isDraining();
+    const checks = await this.runChecks();
+    const healthy = Object.values(checks).every(result => result.status === 'ok');
+
+    return {
+      status: healthy && !draining ? 'ready' : 'not_ready',
+      draining,
+      checks
+    };
+  }
+
+  getStatus(): StatusDocument {
+    return {
+      status: this.config.isDraining() ? 'draining' : 'ok',
+      version: this.config.version,
+      uptimeSec: Math.floor((Date.now() - this.startedAt) / 1000),
+      mode: {
+        auth: this.config.authMode,
+        session: this.config.sessionMode,
+        response: this.config.responseMode
+      },
+      localSessions: this.config.getLocalSessionCount?.(),
+      exampleApps: this.config.exampleApps
+    };
+  }
+
+  private runChecks(): Promise<Record<string, CheckResult>> {
+    const now = Date.now();
+    if (!this.cachedChecks || now - this.cachedChecks.at >= READINESS_CACHE_MS) {
+      this.cachedChecks = { at: now, results: this.runChecksNow() };
+    }
+    return this.cachedChecks.results;
+  }
+
+  private async runChecksNow(): Promise<Record<string, CheckResult>> {
+    const timeoutMs = this.config.checkTimeoutMs ?? DEFAULT_CHECK_TIMEOUT_MS;
+    const entries = await Promise.all(this.config.checks.map(async ({ name, check }) => {
+      let timeout: NodeJS.Timeout | undefined;
+      try {
+        await Promise.race([
+          check(),
+          new Promise<never>((_, reject) => {
+            timeout = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+          })
+        ]);
+        return [name, { status: 'ok' }] as const;
+      } catch (error) {
+        logger.warning('Readiness check failed', { check: name, error: (error as Error).message });
+        return [name, { status: 'error', error: (error as Error).message }] as const;
+      } finally {
+        clearTimeout(timeout);
+      }
+    }));
+    return Object.fromEntries(entries);
+  }
+
+  private setupRouter(): Router {
+    const router = Router();
+
+    const noStore = (res: Response) => res.setHeader('Cache-Control', 'no-store');
+
+    router.get('/healthz', (req: Request, res: Response) => {
+      noStore(res);
+      res.json({ status: 'ok' });
+    });
+
+    router.get('/readyz', async (req: Request, res: Response) => {
+      const report = await this.getReadiness();
+      noStore(res);
+      res.status(report.status === 'ready' ? 200 : 503).json(report);
+    });
+
+    router.get('/status', (req: Request, res: Response) => {
+      noStore(res);
+      res.json(this.getStatus());
+    });
+
+    return router;
+  }
+}
@@ -0,0 +1,120 @@
+import { jest } from '@jest/globals';
+import { Request, Response } from 'express';
+import { MockRedisClient, setRedisClient } from '../../shared/redis.js';
+import { registerSession } from '../services/sessionRegistry.js';
+import { ServerRedisTransport } from '../services/redisTransport.js';
+import { handleGetSession, handleListSessions, handleTerminateSession, requireAdmin } from './admin.js';
+
+describe('Session Admin Handlers', () => {
+  let mockRedis: MockRedisClient;
+  let mockRes: Partial<Response>;
+
+  beforeEach(() => {
+    mockRedis = new MockRedisClient();
+    setRedisClient(mockRedis);
+    jest.resetAllMocks();
+
+    mockRes = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    } as unknown as Partial<Response>;
+  });
+
+  const serverTransports: ServerRedisTransport[] = [];
+
+  afterEach(async () => {
+    await Promise.all(serverTransports.splice(0).map(transport => transport.close()));
+    mockRedis.clear();
+  });
+
+  const makeRequest = (userId: string, params: Record<string, string> = {}) => ({
+    params,
+    path: '/sessions',
+    auth: { clientId: 'client-1', token: 'token', scopes: ['mcp'], extra: { userId } }
+  }) as unknown as Request;
+
+  const startSession = async (sessionId: string, userId: string) => {
+    const transport = new ServerRedisTransport(sessionId);
+    await transport.start();
+    serverTransports.push(transport);
+    await registerSession(sessionId, {
+      userId,
+      clientInfo: { name: 'runaway-client', version: '0.1.0' },
+      createdAt: Date.now()
+    });
+  };
+
+  describe('requireAdmin', () => {
+    it('should only let configured admin users through', () => {
+      const next = jest.fn();
+      const middleware = requireAdmin(['admin-user']);
+
+      middleware(makeRequest('admin-user'), mockRes as Response, next);
+      expect(next).toHaveBeenCalledTimes(1);
+
+      middleware(makeRequest('regular-user'), mockRes as Response, next);
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+    });
+  });
+
+  describe('handleListSessions', () => {
+    it('should list live sessions with owner and client info', async () => {
+      await startSession('session-1', 'user-1');
+
+      await handleListSessions(makeRequest('admin-user'), mockRes as Response);
+
+      expect(mockRes.json).toHaveBeenCalledWith({
+        sessions: [expect.objectContaining({
+          sessionId: 'session-1',
+          userId: 'user-1',
+          clientInfo: { name: 'runaway-client', version: '0.1.0' },
+          createdAt: expect.any(Number),
+          lastActivityAt: expect.any(Number)
+        })]
+      });
+    });
+  });
+
+  describe('handleGetSession', () => {
+    it('should include the live status reported by the session server', async () => {
+      await startSession('session-1', 'user-1');
+
+      await handleGetSession(makeRequest('admin-user', { sessionId: 'session-1' }), mockRes as Response);
+
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+        sessionId: 'session-1',
+        userId: 'user-1',
+        status: expect.objectContaining({ pendingRequests: 0, uptimeMs: expect.any(Number) })
+      }));
+    });
+
+    it('should return 404 for unknown sessions', async () => {
+      await handleGetSession(makeRequest('admin-user', { sessionId: 'missing' }), mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('handleTerminateSession', () => {
+    it('should send the shutdown control message for the session', async () => {
+      await startSession('session-1', 'user-1');
+      const controlHandler = jest.fn();
+      await mockRedis.createSubscription('mcp:control:session-1', controlHandler, jest.fn());
+
+      await handleTerminateSession(makeRequest('admin-user', { sessionId: 'session-1' }), mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(202);
+      expect(controlHandler).toHaveBeenCalledWith(expect.stringContaining('"action":"SHUTDOWN"'));
+    });
+
+    it('should return 404 without sending a control message for dead sessions', async () => {
+      const publishSpy = jest.spyOn(mockRedis, 'publish');
+
+      await handleTerminateSession(makeRequest('admin-user', { sessionId: 'missing' }), mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(404);
+      expect(publishSpy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { NextFunction, Request, Response } from "express";
+import { getSessionStatus, shutdownSession } from "../services/redisTransport.js";
+import { getSessionInfo, listSessions } from "../services/sessionRegistry.js";
+import { logger } from "../../shared/logger.js";
+
+/**
+ * Only lets through requests whose bearer token belongs to one of the given
+ * user IDs. Must run after the bearer auth middleware.
+ */
+export function requireAdmin(adminUserIds: string[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.auth?.extra?.userId as string | undefined;
+    if (!userId || !adminUserIds.includes(userId)) {
+      logger.warning('Admin API access denied', { userId, path: req.path });
+      res.status(403).json({
+        error: 'forbidden',
+        error_description: 'Admin access required'
+      });
+      return;
+    }
+    next();
+  };
+}
+
+export async function handleListSessions(req: Request, res: Response) {
+  try {
+    const sessions = await listSessions();
+    res.json({ sessions });
+  } catch (error) {
+    logger.error('Error listing sessions', error as Error);
+    res.status(500).json({
+      error: 'server_error',
+      error_description: 'Failed to list sessions'
+    });
+  }
+}
+
+export async function handleGetSession(req: Request, res: Response) {
+  const { sessionId } = req.params;
+  try {
+    const session = await getSessionInfo(sessionId);
+    if (!session) {
+      res.status(404).json({
+        error: 'not_found',
+        error_description: 'Session not found'
+      });
+      return;
+    }
+    // Live numbers straight from the session's server
+    const status = await getSessionStatus(sessionId);
+    res.json({ ...session, status });
+  } catch (error) {
+    logger.error('Error reading session', error as Error, { sessionId });
+    res.status(500).json({
+      error: 'server_error',
+      error_description: 'Failed to read session'
+    });
+  }
+}
+
+/**
+ * Terminates a session through the SHUTDOWN control message. The session's
+ * server may live on another node, so this returns 202 rather than waiting
+ * for it to go away.
+ */
+export async function handleTerminateSession(req: Request, res: Response) {
+  const { sessionId } = req.params;
+  try {
+    const session = await getSessionInfo(sessionId);
+    if (!session) {
+      res.status(404).json({
+        error: 'not_found',
+        error_description: 'Session not found'
+      });
+      return;
+    }
+
+    logger.info('Admin terminating session', {
+      sessionId,
+      owner: session.userId,
+      adminUserId: req.auth?.extra?.userId
+    });
+    await shutdownSession(sessionId);
+    res.status(202).json({ sessionId, terminated: true });
+  } catch (error) {
+    logger.error('Error terminating session', error as Error, { sessionId });
+    res.status(500).json({
+      error: 'server_error',
+      error_description: 'Failed to terminate session'
+    });
+  }
+}
@@ -0,0 +1,78 @@
+import { jest } from '@jest/globals';
+import { Request, Response } from 'express';
+import { requireRequestScopes } from './scopes.js';
+
+describe('requireRequestScopes', () => {
+  let mockRes: Partial<Response>;
+  const resourceMetadataUrl = 'https://mcp.example.com/.well-known/oauth-protected-resource';
+  const middleware = requireRequestScopes({ resourceMetadataUrl });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockRes = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+      setHeader: jest.fn().mockReturnThis(),
+    } as unknown as Partial<Response>;
+  });
+
+  const makeRequest = (body: unknown, scopes: string[]) => ({
+    body,
+    auth: { clientId: 'client-1', token: 'token', scopes, extra: { userId: 'user-1' } }
+  }) as unknown as Request;
+
+  const callTool = (name: string, id = 1) => ({ jsonrpc: '2.0', id, method: 'tools/call', params: { name, arguments: {} } });
+
+  it('should let requests within the granted scopes through', () => {
+    const next = jest.fn();
+
+    middleware(makeRequest(callTool('echo'), ['tools:call']), mockRes as Response, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(mockRes.status).not.toHaveBeenCalled();
+  });
+
+  it('should let requests that need no scope through', () => {
+    const next = jest.fn();
+    const initialize = { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} };
+
+    middleware(makeRequest(initialize, []), mockRes as Response, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should challenge requests outside the granted scopes', () => {
+    const next = jest.fn();
+
+    middleware(makeRequest(callTool('sampleLLM'), ['tools:read', 'tools:call']), mockRes as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(mockRes.status).toHaveBeenCalledWith(403);
+    expect(mockRes.setHeader).toHaveBeenCalledWith(
+      'WWW-Authenticate',
+      `Bearer error="insufficient_scope", error_description="Requires scope: tools:call sampling", scope="tools:read tools:call sampling", resource_metadata="${resourceMetadataUrl}"`
+    );
+    expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({ error: 'insufficient_scope' }));
+  });
+
+  it('should check every request in a batch', () => {
+    const next = jest.fn();
+    const batch = [
+      callTool('echo', 1),
+      { jsonrpc: '2.0', id: 2, method: 'resources/read', params: { uri: 'test://static/resource/1' } }
+    ];
+
+    middleware(makeRequest(batch, ['tools:call']), mockRes as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(mockRes.setHeader).toHaveBeenCalledWith('WWW-Authenticate', expect.stringContaining('scope="tools:call resources:read"'));
+  });
+
+  it('should treat the legacy mcp scope as full access', () => {
+    const next = jest.fn();
+
+    middleware(makeRequest(callTool('sampleLLM'), ['mcp']), mockRes as Response, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,48 @@
+import { NextFunction, Request, Response } from "express";
+import { InsufficientScopeError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { isJSONRPCRequest, JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { hasScope, Scope } from "../../../interfaces/scopes.js";
+import { getRequiredScopes } from "../services/mcp.js";
+import { logger } from "../../shared/logger.js";
+
+/**
+ * Answers requests the caller's token isn't scoped for with a 403 and a
+ * `WWW-Authenticate: Bearer error="insufficient_scope"` challenge, so the
+ * client can run a step-up authorization and retry. The challenge's scope
+ * lists the token's scopes along with those needed, so the new token doesn't
+ * lose what the old one could do.
+ * Must run after the bearer auth middleware.
+ */
+export function requireRequestScopes({ resourceMetadataUrl }: { resourceMetadataUrl?: string }) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const grantedScopes = req.auth?.scopes ?? [];
+    const messages: JSONRPCMessage[] = Array.isArray(req.body) ? req.body : [req.body];
+
+    const required = new Set<Scope>();
+    for (const message of messages) {
+      if (isJSONRPCRequest(message)) {
+        getRequiredScopes(message).forEach(scope => required.add(scope));
+      }
+    }
+
+    if ([...required].every(scope => hasScope(grantedScopes, scope))) {
+      next();
+      return;
+    }
+
+    const error = new InsufficientScopeError(`Requires scope: ${[...required].join(' ')}`);
+    const scope = [...new Set([...grantedScopes, ...required])].join(' ');
+    let challenge = `Bearer error="${error.errorCode}", error_description="${error.message}", scope="${scope}"`;
+    if (resourceMetadataUrl) {
+      challenge += `, resource_metadata="${resourceMetadataUrl}"`;
+    }
+
+    logger.info('Insufficient scope for MCP request', {
+      clientId: req.auth?.clientId,
+      grantedScopes,
+      requiredScopes: [...required]
+    });
+    res.setHeader('WWW-Authenticate', challenge);
+    res.status(403).json(error.toResponseObject());
+  };
+}
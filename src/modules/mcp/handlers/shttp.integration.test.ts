@@ -2,10 +2,11 @@ import { jest } from '@jest/globals';
 import { Request, Response } from 'express';
 import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
 import { MockRedisClient, setRedisClient } from '../../shared/redis.js';
-import { handleStreamableHTTP } from './shttp.js';
+import { handleStatelessStreamableHTTP, handleStreamableHTTP } from './shttp.js';
 import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 // import { randomUUID } from 'crypto'; // Currently unused but may be needed for future tests
-import { shutdownSession } from '../services/redisTransport.js';
+import { isLive, ServerRedisTransport, setSessionOwner, shutdownSession } from '../services/redisTransport.js';
+import { registerSession } from '../services/sessionRegistry.js';
 
 // Type for MCP initialization response
 interface MCPInitResponse {
@@ -335,15 +336,10 @@ describe('Streamable HTTP Handler Integration Tests', () => {
       
       expect(controlCalls.length).toBeGreaterThan(0);
       
-      // Verify the control message content
-      const controlCall = publishSpy.mock.calls.find(call => 
-        call[0] === `mcp:control:${sessionId}`
-      );
-      if (controlCall) {
-        const message = JSON.parse(controlCall[1]);
-        expect(message.type).toBe('control');
-        expect(message.action).toBe('SHUTDOWN');
-      }
+      // Verify the control message content (the ownership check PINGs first)
+      const controlMessages = controlCalls.map(call => JSON.parse(call[1]));
+      expect(controlMessages.every(message => message.type === 'control')).toBe(true);
+      expect(controlMessages.map(message => message.action)).toContain('SHUTDOWN');
     });
 
     it('should return 401 for DELETE request with wrong user', async () => {
@@ -716,4 +712,343 @@ describe('Streamable HTTP Handler Integration Tests', () => {
       // This test documents expected behavior for proper user isolation
     });
   });
-});
\ No newline at end of file
+
+  describe('Session Limits', () => {
+    it('should reject initialize with 429 when the user is at their session limit', async () => {
+      // An existing live session for the same user
+      const existingServer = new ServerRedisTransport('existing-session');
+      await existingServer.start();
+      await registerSession('existing-session', { userId: 'test-user-123', createdAt: Date.now() });
+
+      mockReq.body = {
+        jsonrpc: '2.0',
+        id: 'init-1',
+        method: 'initialize',
+        params: {
+          protocolVersion: '2024-11-05',
+          capabilities: {},
+          clientInfo: { name: 'test-client', version: '1.0.0' }
+        }
+      };
+      mockReq.auth = {
+        clientId: 'test-client-123',
+        token: 'test-token',
+        scopes: ['mcp'],
+        extra: { userId: 'test-user-123' }
+      };
+
+      await handleStreamableHTTP(mockReq as Request, mockRes as Response, {
+        sessionLimits: { maxSessionsPerUser: 1 }
+      });
+
+      expect(mockRes.status).toHaveBeenCalledWith(429);
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'init-1',
+        error: expect.objectContaining({ code: -32003 })
+      }));
+
+      // No new MCP server was started
+      const serverChannels = Array.from(mockRedis.subscribers.keys())
+        .filter(channel => channel.startsWith('mcp:shttp:toserver:'));
+      expect(serverChannels).toEqual(['mcp:shttp:toserver:existing-session']);
+
+      await existingServer.close();
+    });
+  });
+
+  describe('Session Recovery', () => {
+    const sessionId = 'orphaned-session';
+
+    beforeEach(async () => {
+      // Owned session whose server went away with its node
+      await setSessionOwner(sessionId, 'test-user-123');
+      await registerSession(sessionId, {
+        userId: 'test-user-123',
+        clientInfo: { name: 'test-client', version: '1.0.0' },
+        protocolVersion: '2024-11-05',
+        createdAt: Date.now()
+      });
+
+      mockReq.headers = { ...mockReq.headers, 'mcp-session-id': sessionId };
+      mockReq.body = { jsonrpc: '2.0', id: 'list-1', method: 'tools/list', params: {} };
+      mockReq.auth = {
+        clientId: 'test-client-123',
+        token: 'test-token',
+        scopes: ['mcp'],
+        extra: { userId: 'test-user-123' }
+      };
+    });
+
+    afterEach(async () => {
+      await shutdownSession(sessionId);
+    });
+
+    it('should tell the client to re-initialize orphaned sessions by default', async () => {
+      await handleStreamableHTTP(mockReq as Request, mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(404);
+    });
+
+    it('should rehydrate orphaned sessions when recovery is enabled', async () => {
+      await handleStreamableHTTP(mockReq as Request, mockRes as Response, { sessionRecovery: true });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(mockRes.status).not.toHaveBeenCalledWith(401);
+      expect(mockRes.writeHead).toHaveBeenCalledWith(200, expect.anything());
+      expect(await isLive(sessionId)).toBe(true);
+    });
+
+    it('should not rehydrate sessions past their maximum lifetime', async () => {
+      await registerSession(sessionId, {
+        userId: 'test-user-123',
+        createdAt: Date.now() - 2 * 60 * 1000
+      });
+
+      await handleStreamableHTTP(mockReq as Request, mockRes as Response, {
+        sessionRecovery: true,
+        sessionTimeouts: { maxLifetimeMs: 60 * 1000 }
+      });
+
+      expect(mockRes.status).toHaveBeenCalledWith(404);
+      expect(await isLive(sessionId)).toBe(false);
+    });
+  });
+
+  describe('Session Expiry', () => {
+    it('should return 404 for sessions whose owner key has expired', async () => {
+      const sessionId = 'expired-session';
+      mockReq.headers = { ...mockReq.headers, 'mcp-session-id': sessionId };
+      mockReq.body = { jsonrpc: '2.0', id: 'list-1', method: 'tools/list', params: {} };
+      mockReq.auth = {
+        clientId: 'test-client-123',
+        token: 'test-token',
+        scopes: ['mcp'],
+        extra: { userId: 'test-user-123' }
+      };
+
+      await handleStreamableHTTP(mockReq as Request, mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(404);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32001, message: 'Session not found' }
+      });
+    });
+
+    it('should start new sessions with the configured timeouts', async () => {
+      mockReq.body = {
+        jsonrpc: '2.0',
+        id: 'init-1',
+        method: 'initialize',
+        params: {
+          protocolVersion: '2024-11-05',
+          capabilities: {},
+          clientInfo: { name: 'test-client', version: '1.0.0' }
+        }
+      };
+      mockReq.auth = {
+        clientId: 'test-client-123',
+        token: 'test-token',
+        scopes: ['mcp'],
+        extra: { userId: 'test-user-123' }
+      };
+      const expireSpy = jest.spyOn(mockRedis, 'expire');
+
+      await handleStreamableHTTP(mockReq as Request, mockRes as Response, {
+        sessionTimeouts: { inactivityTimeoutMs: 10 * 60 * 1000, maxLifetimeMs: 60 * 1000 }
+      });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const sessionId = getSessionIdFromTest();
+      expect(sessionId).toBeDefined();
+      // The owner key lives no longer than the session's remaining lifetime
+      expect(expireSpy).toHaveBeenCalledWith(`session:${sessionId}:owner`, 60);
+
+      await shutdownSession(sessionId!);
+    });
+  });
+
+  describe('Draining', () => {
+    it('should refuse new sessions with 503 while the server is shutting down', async () => {
+      mockReq.body = {
+        jsonrpc: '2.0',
+        id: 'init-1',
+        method: 'initialize',
+        params: {
+          protocolVersion: '2024-11-05',
+          capabilities: {},
+          clientInfo: { name: 'test-client', version: '1.0.0' }
+        }
+      };
+      mockReq.auth = {
+        clientId: 'test-client-123',
+        token: 'test-token',
+        scopes: ['mcp'],
+        extra: { userId: 'test-user-123' }
+      };
+
+      await handleStreamableHTTP(mockReq as Request, mockRes as Response, { isDraining: () => true });
+
+      expect(mockRes.status).toHaveBeenCalledWith(503);
+      expect(mockRes.setHeader).toHaveBeenCalledWith('Retry-After', '1');
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+        error: expect.objectContaining({ code: -32004 })
+      }));
+      const serverChannels = Array.from(mockRedis.subscribers.keys())
+        .filter(channel => channel.startsWith('mcp:shttp:toserver:'));
+      expect(serverChannels).toEqual([]);
+    });
+  });
+
+  describe('JSON Response Mode', () => {
+    const auth: AuthInfo = {
+      clientId: 'test-client-123',
+      token: 'test-token',
+      scopes: ['mcp'],
+      extra: { userId: 'test-user-123' }
+    };
+
+    const initializeRequest = {
+      jsonrpc: '2.0',
+      id: 'init-1',
+      method: 'initialize',
+      params: {
+        protocolVersion: '2024-11-05',
+        capabilities: {},
+        clientInfo: { name: 'test-client', version: '1.0.0' }
+      }
+    };
+
+    const getResponseContentType = (): string | undefined => {
+      const [, headers] = (mockRes.writeHead as jest.Mock).mock.calls[0] ?? [];
+      return (headers as Record<string, string> | undefined)?.['content-type'];
+    };
+
+    afterEach(async () => {
+      // Stop the session's MCP server so its inactivity timer does not linger
+      const sessionId = getSessionIdFromTest();
+      if (sessionId) {
+        await shutdownSession(sessionId);
+      }
+    });
+
+    it('should answer with JSON when the client only accepts application/json', async () => {
+      mockReq.headers = { ...mockReq.headers, accept: 'application/json' };
+      mockReq.body = initializeRequest;
+      mockReq.auth = auth;
+
+      await handleStreamableHTTP(mockReq as Request, mockRes as Response, { responseMode: 'negotiate' });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(mockRes.writeHead).toHaveBeenCalledWith(200, expect.anything());
+      expect(getResponseContentType()).toBe('application/json');
+      expect(getSessionIdFromTest()).toBeDefined();
+    });
+
+    it('should keep SSE when negotiating with a client that prefers event streams', async () => {
+      mockReq.body = initializeRequest;
+      mockReq.auth = auth;
+
+      await handleStreamableHTTP(mockReq as Request, mockRes as Response, { responseMode: 'negotiate' });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(getResponseContentType()).toBe('text/event-stream');
+    });
+
+    it('should answer with JSON for every POST when set globally', async () => {
+      mockReq.body = initializeRequest;
+      mockReq.auth = auth;
+
+      await handleStreamableHTTP(mockReq as Request, mockRes as Response, { responseMode: 'json' });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(getResponseContentType()).toBe('application/json');
+    });
+
+    it('should reject JSON-only clients in the default SSE mode', async () => {
+      mockReq.headers = { ...mockReq.headers, accept: 'application/json' };
+      mockReq.body = initializeRequest;
+      mockReq.auth = auth;
+
+      await handleStreamableHTTP(mockReq as Request, mockRes as Response);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(mockRes.writeHead).toHaveBeenCalledWith(406, expect.anything());
+    });
+  });
+
+  describe('Stateless Mode', () => {
+    const auth: AuthInfo = {
+      clientId: 'test-client-123',
+      token: 'test-token',
+      scopes: ['mcp'],
+      extra: { userId: 'test-user-123' }
+    };
+
+    const triggerCloseHandlers = async () => {
+      const closeHandlers = (mockRes.on as jest.Mock).mock.calls
+        .filter(([event]) => event === 'close')
+        .map(([, handler]) => handler);
+      for (const handler of closeHandlers) {
+        if (typeof handler === 'function') {
+          await handler();
+        }
+      }
+    };
+
+    it('should serve requests without sessions or Redis', async () => {
+      const publishSpy = jest.spyOn(mockRedis, 'publish');
+      const setSpy = jest.spyOn(mockRedis, 'set');
+
+      mockReq.body = {
+        jsonrpc: '2.0',
+        id: 'init-1',
+        method: 'initialize',
+        params: {
+          protocolVersion: '2024-11-05',
+          capabilities: {},
+          clientInfo: { name: 'test-client', version: '1.0.0' }
+        }
+      };
+      mockReq.auth = auth;
+
+      await handleStatelessStreamableHTTP(mockReq as Request, mockRes as Response);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      // Initialize succeeds, but no session ID is issued
+      expect(mockRes.writeHead).toHaveBeenCalledWith(200, expect.anything());
+      expect(getSessionIdFromTest()).toBeUndefined();
+
+      // No Redis relay subscriptions, messages or ownership keys
+      expect(mockRedis.subscribers.size).toBe(0);
+      expect(publishSpy).not.toHaveBeenCalled();
+      expect(setSpy).not.toHaveBeenCalled();
+
+      // Fresh server per request is torn down when the response closes
+      expect(mockRes.on).toHaveBeenCalledWith('close', expect.any(Function));
+      await triggerCloseHandlers();
+    });
+
+    it('should reject GET and DELETE requests with 405', async () => {
+      mockReq.auth = auth;
+
+      for (const method of ['GET', 'DELETE']) {
+        jest.clearAllMocks();
+        mockReq.method = method;
+
+        await handleStatelessStreamableHTTP(mockReq as Request, mockRes as Response);
+
+        expect(mockRes.status).toHaveBeenCalledWith(405);
+      }
+    });
+
+    it('should return 401 when the token has no user ID', async () => {
+      mockReq.auth = { clientId: 'test-client-123', token: 'test-token', scopes: ['mcp'] } as AuthInfo;
+
+      await handleStatelessStreamableHTTP(mockReq as Request, mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(401);
+    });
+  });
+});
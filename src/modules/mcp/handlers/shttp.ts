@@ -1,10 +1,14 @@
 import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { Request, Response } from "express";
-import { getShttpTransport, isSessionOwnedBy, redisRelayToMcpServer, ServerRedisTransport, setSessionOwner, shutdownSession } from "../services/redisTransport.js";
-import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { getSessionOwner, getShttpTransport, isLive, redisRelayToMcpServer, setSessionOwner, shutdownSession } from "../services/redisTransport.js";
+import { isInitializeRequest, isJSONRPCRequest } from "@modelcontextprotocol/sdk/types.js";
 import { randomUUID } from "crypto";
 import { createMcpServer } from "../services/mcp.js";
+import { RedisEventStore } from "../services/redisEventStore.js";
+import { registerSession, SessionMetadata, touchSession } from "../services/sessionRegistry.js";
+import { recoverOrphanedSession, SessionTimeouts, startSessionServer } from "../services/sessionServer.js";
+import { enforceSessionLimits, SessionLimits } from "../services/sessionLimits.js";
 import { logger } from "../../shared/logger.js";
 
 
@@ -21,17 +25,90 @@ function getUserIdFromAuth(auth?: AuthInfo): string | null {
   return auth?.extra?.userId as string || null;
 }
 
+// Events on a POST response stream are logged under the JSON-RPC request ID
+function getRequestStreamKey(body: unknown): string | undefined {
+  return isJSONRPCRequest(body) ? body.id.toString() : undefined;
+}
+
+/**
+ * How POST /mcp responses are delivered:
+ * - sse: always an SSE stream (default)
+ * - json: always a single application/json body
+ * - negotiate: application/json when the client's Accept header prefers it
+ *   over text/event-stream, otherwise SSE
+ */
+export type ResponseMode = 'sse' | 'json' | 'negotiate';
+
+export interface StreamableHTTPOptions {
+  responseMode?: ResponseMode;
+  sessionLimits?: SessionLimits;
+  /** Rehydrate owned sessions whose server is no longer running anywhere */
+  sessionRecovery?: boolean;
+  sessionTimeouts?: SessionTimeouts;
+  /** Whether the process is shutting down, in which case new sessions are refused */
+  isDraining?: () => boolean;
+}
+
+// Returns the q-value the Accept header gives a media type (0 when absent)
+function getAcceptQuality(accept: string, mediaType: string): number {
+  let quality = 0;
+  for (const range of accept.split(',')) {
+    const [type, ...params] = range.split(';').map(part => part.trim().toLowerCase());
+    if (type !== mediaType) {
+      continue;
+    }
+    const q = params.find(param => param.startsWith('q='));
+    quality = Math.max(quality, q ? Number(q.slice(2)) || 0 : 1);
+  }
+  return quality;
+}
+
+function shouldUseJsonResponse(req: Request, responseMode: ResponseMode): boolean {
+  if (req.method !== 'POST' || responseMode === 'sse') {
+    return false;
+  }
+  if (responseMode === 'json') {
+    return true;
+  }
+  const accept = req.headers.accept ?? '';
+  const jsonQuality = getAcceptQuality(accept, 'application/json');
+  return jsonQuality > 0 && jsonQuality > getAcceptQuality(accept, 'text/event-stream');
+}
+
+// The SDK transport rejects POSTs whose Accept header omits text/event-stream
+// with 406, even when it is going to answer with JSON. Clients that only
+// accept JSON are served in JSON mode, so list SSE as unacceptable for them.
+// @hono/node-server reads rawHeaders, so both copies are patched.
+function allowJsonOnlyAccept(req: Request): void {
+  const accept = req.headers.accept ?? '';
+  if (accept.includes('text/event-stream')) {
+    return;
+  }
+  const patched = accept ? `${accept}, text/event-stream;q=0` : 'application/json, text/event-stream;q=0';
+  req.headers.accept = patched;
+  for (let i = 0; i < req.rawHeaders.length; i += 2) {
+    if (req.rawHeaders[i].toLowerCase() === 'accept') {
+      req.rawHeaders[i + 1] = patched;
+    }
+  }
+}
+
 // TODO: Document Streamable HTTP implementation choices:
-// 1. STATEFUL: Requires clients to initialize sessions and track session IDs
+// 1. STATEFUL (default): Requires clients to initialize sessions and track session IDs
 //    - First request must be 'initialize' without Mcp-Session-Id header
 //    - Server returns session ID, client must include it in subsequent requests
-//    - Alternative: Could implement STATELESS mode (each request independent)
-// 2. SSE RESPONSES: Returns results via Server-Sent Events stream, not JSON responses
+//    - Alternative: STATELESS mode (MCP_SESSION_MODE=stateless), see
+//      handleStatelessStreamableHTTP below
+// 2. SSE RESPONSES: Returns results via Server-Sent Events stream by default
 //    - Requires Accept: application/json, text/event-stream header
 //    - Responses formatted as: event: message\ndata: {...}
-//    - Alternative: Could use JSON response mode (check StreamableHTTPServerTransport options)
+//    - Alternative: JSON response mode (MCP_RESPONSE_MODE=json or negotiate),
+//      where notifications tied to a request are rerouted to the GET stream
+// 3. RESUMABLE: Every server->client message is appended to a per-session Redis
+//    stream (see redisEventStore.ts) and carries an SSE event ID
+//    - Clients reconnect with GET + Last-Event-ID to replay missed messages
 
-export async function handleStreamableHTTP(req: Request, res: Response) {
+export async function handleStreamableHTTP(req: Request, res: Response, { responseMode = 'sse', sessionLimits = {}, sessionRecovery = false, sessionTimeouts = {}, isDraining }: StreamableHTTPOptions = {}) {
   let shttpTransport: StreamableHTTPServerTransport | undefined = undefined;
 
   res.on('finish', async () => {
@@ -77,10 +154,35 @@ export async function handleStreamableHTTP(req: Request, res: Response) {
     }
 
     const isGetRequest = req.method === 'GET';
+    const jsonResponse = shouldUseJsonResponse(req, responseMode);
+    if (jsonResponse) {
+      allowJsonOnlyAccept(req);
+    }
 
-    // incorrect session for the authed user, return 401
     if (sessionId) {
-      if (!(await isSessionOwnedBy(sessionId, userId))) {
+      // The owner key expires with the session (inactivity, maximum lifetime)
+      // and is deleted when it is shut down. Per the spec, 404 tells the
+      // client to start a new session.
+      const owner = await getSessionOwner(sessionId);
+      if (owner === null) {
+        logger.info('Session not found or expired', {
+          sessionId,
+          userId,
+          requestMethod: req.method
+        });
+        res.status(404).json({
+          "jsonrpc": "2.0",
+          "id": null,
+          "error": {
+            "code": -32001,
+            "message": "Session not found"
+          }
+        });
+        return;
+      }
+
+      // incorrect session for the authed user, return 401
+      if (owner !== userId) {
         logger.warning('Session ownership mismatch', {
           sessionId,
           userId,
@@ -96,15 +198,41 @@ export async function handleStreamableHTTP(req: Request, res: Response) {
         });
         return;
       }
+
+      const isServed = await isLive(sessionId)
+        // The node serving the session may have gone away; take it over if we can
+        || (sessionRecovery && await recoverOrphanedSession(sessionId, userId, sessionTimeouts));
+      if (!isServed) {
+        logger.warning('Session is no longer served by any node', {
+          sessionId,
+          userId,
+          requestMethod: req.method
+        });
+        res.status(404).json({
+          "jsonrpc": "2.0",
+          "id": null,
+          "error": {
+            "code": -32001,
+            "message": "Session not found"
+          }
+        });
+        return;
+      }
+      await touchSession(sessionId);
+
       // Reuse existing transport for owned session
       logger.info('Reusing existing session', {
         sessionId,
         userId,
-        isGetRequest
+        isGetRequest,
+        jsonResponse
+      });
+      shttpTransport = await getShttpTransport(sessionId, onsessionclosed, isGetRequest, {
+        requestStreamKey: getRequestStreamKey(req.body),
+        jsonResponse
       });
-      shttpTransport = await getShttpTransport(sessionId, onsessionclosed, isGetRequest);
     } else if (isInitializeRequest(req.body)) {
-      // New initialization request - use JSON response mode
+      // New initialization request
       const initParams = req.body?.params;
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const capabilities = initParams?.capabilities as Record<string, any> | undefined;
@@ -117,6 +245,36 @@ export async function handleStreamableHTTP(req: Request, res: Response) {
         extensions: capabilities?.extensions,
         rawMessage: req.body
       });
+
+      // Existing sessions keep working while draining, but new ones should be
+      // created on a node that is not going away
+      if (isDraining?.()) {
+        logger.info('Refusing new session while draining', { userId });
+        res.setHeader('Retry-After', '1');
+        res.status(503).json({
+          "jsonrpc": "2.0",
+          "id": null,
+          "error": {
+            "code": -32004,
+            "message": "Server is shutting down, retry to reach another instance"
+          }
+        });
+        return;
+      }
+
+      const clientId = req.auth?.clientId;
+      const limitResult = await enforceSessionLimits(userId, clientId, sessionLimits);
+      if (!limitResult.allowed) {
+        res.status(429).json({
+          "jsonrpc": "2.0",
+          "id": isJSONRPCRequest(req.body) ? req.body.id : null,
+          "error": {
+            "code": -32003,
+            "message": `Session limit exceeded: at most ${limitResult.limit} concurrent sessions are allowed per ${limitResult.scope}. Close an existing session (DELETE /mcp) and try again.`
+          }
+        });
+        return;
+      }
       
       const onsessioninitialized = async (sessionId: string) => {
         logger.info('Initializing new session', {
@@ -124,14 +282,23 @@ export async function handleStreamableHTTP(req: Request, res: Response) {
           userId
         });
         
-        const { server, cleanup: mcpCleanup } = createMcpServer();
-
-        const serverRedisTransport = new ServerRedisTransport(sessionId);
-        serverRedisTransport.onclose = mcpCleanup;
-        await server.connect(serverRedisTransport)
-      
-        // Set session ownership
+        // Set session ownership; the server's transport gives the key its TTL
         await setSessionOwner(sessionId, userId);
+
+        // Record the session for the admin API, before its server gives the
+        // entries their TTL
+        const metadata: SessionMetadata = {
+          userId,
+          clientId,
+          grantId: req.auth?.extra?.grantId as string | undefined,
+          clientInfo: initParams?.clientInfo,
+          clientCapabilities: initParams?.capabilities,
+          protocolVersion: initParams?.protocolVersion,
+          createdAt: Date.now()
+        };
+        await registerSession(sessionId, metadata);
+
+        await startSessionServer(sessionId, metadata, sessionTimeouts);
         
         logger.info('Session initialized successfully', {
           sessionId,
@@ -140,12 +307,15 @@ export async function handleStreamableHTTP(req: Request, res: Response) {
       }
 
       const newSessionId = randomUUID();
+      const eventStore = new RedisEventStore(newSessionId, getRequestStreamKey(req.body));
       shttpTransport = new StreamableHTTPServerTransport({
         sessionIdGenerator: () => newSessionId,
         onsessionclosed,
         onsessioninitialized,
+        eventStore,
+        enableJsonResponse: jsonResponse,
       });
-      shttpTransport.onclose = await redisRelayToMcpServer(newSessionId, shttpTransport);
+      shttpTransport.onclose = await redisRelayToMcpServer(newSessionId, shttpTransport, false, { eventStore, jsonResponse });
     } else {
       // Invalid request - no session ID and not initialization request
       logger.warning('Invalid request: no session ID and not initialization', {
@@ -185,3 +355,96 @@ export async function handleStreamableHTTP(req: Request, res: Response) {
     }
   }
 }
+
+/**
+ * Stateless variant of handleStreamableHTTP (MCP_SESSION_MODE=stateless).
+ *
+ * Each POST builds a fresh MCP server and transport that live only for the
+ * duration of the request, much like ExampleAppsModule does for /:slug/mcp.
+ * No Mcp-Session-Id is issued, nothing is relayed through Redis and no
+ * session ownership keys are written, so this mode runs without Redis.
+ *
+ * The caller's AuthInfo (req.auth) is still required, and is passed to the
+ * server's request handlers by the SDK transport.
+ *
+ * Server-initiated requests that are not tied to a client request (such as
+ * the sampling request made on resources/subscribe) have nowhere to go in
+ * this mode, since there is no GET stream. The same applies to notifications
+ * sent during a request when responding with JSON.
+ */
+export async function handleStatelessStreamableHTTP(req: Request, res: Response, { responseMode = 'sse' }: StreamableHTTPOptions = {}) {
+  const userId = getUserIdFromAuth(req.auth);
+
+  if (!userId) {
+    logger.warning('Request without user ID', {
+      hasAuth: !!req.auth,
+      stateless: true
+    });
+    res.status(401).json({
+      "jsonrpc": "2.0",
+      "id": null,
+      "error": {
+        "code": -32002,
+        "message": "User ID required"
+      }
+    });
+    return;
+  }
+
+  // Without sessions there is no standalone SSE stream to open or session to delete
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    res.status(405).json({
+      "jsonrpc": "2.0",
+      "id": null,
+      "error": {
+        "code": -32000,
+        "message": "Method not allowed in stateless mode"
+      }
+    });
+    return;
+  }
+
+  const jsonResponse = shouldUseJsonResponse(req, responseMode);
+  if (jsonResponse) {
+    allowJsonOnlyAccept(req);
+  }
+
+  const { server, cleanup: mcpCleanup } = createMcpServer();
+  const shttpTransport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: undefined, // Stateless: no session management
+    enableJsonResponse: jsonResponse,
+  });
+
+  res.on('close', () => {
+    void shttpTransport.close();
+    void server.close();
+    mcpCleanup();
+  });
+
+  try {
+    logger.debug('Stateless SHTTP request received', {
+      userId,
+      method: req.body?.method,
+      jsonResponse
+    });
+
+    await server.connect(shttpTransport);
+    await shttpTransport.handleRequest(req, res, req.body);
+  } catch (error) {
+    logger.error('Error handling stateless MCP request', error as Error, {
+      userId
+    });
+
+    if (!res.headersSent) {
+      res.status(500).json({
+        "jsonrpc": "2.0",
+        "id": null,
+        "error": {
+          "code": -32603,
+          "message": "Internal error during request processing"
+        }
+      });
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
 import contentType from "content-type";
 import { Request, Response } from "express";
 import { redisClient } from "../../shared/redis.js";
@@ -19,6 +20,15 @@ function redisChannelForSession(sessionId: string): string {
   return `mcp:${sessionId}`;
 }
 
+/**
+ * What POST /message publishes to the session's channel. The caller's auth
+ * info travels with the message so the server can check its scopes.
+ */
+interface SSEChannelMessage {
+  message: JSONRPCMessage;
+  authInfo?: AuthInfo;
+}
+
 export async function handleSSEConnection(req: Request, res: Response) {
   const { server: mcpServer, cleanup: mcpCleanup }  = createMcpServer();
   const transport = new SSEServerTransport("/message", res);
@@ -32,9 +42,9 @@ export async function handleSSEConnection(req: Request, res: Response) {
       // TODO handle DELETE messages
       // TODO set timeout to kill the session
 
-      const message = JSON.parse(json);
+      const { message, authInfo }: SSEChannelMessage = JSON.parse(json);
       logMcpMessage(message, transport.sessionId);
-      transport.handleMessage(message).catch((error) => {
+      transport.handleMessage(message, { authInfo }).catch((error) => {
         logger.error('Error handling message', error as Error, {
           sessionId: transport.sessionId
         });
@@ -86,7 +96,7 @@ export async function handleMessage(req: Request, res: Response) {
       throw new Error(`Unsupported content-type: ${ct}`);
     }
 
-    body = JSON.stringify(req.body);
+    body = JSON.stringify({ message: req.body, authInfo: req.auth } satisfies SSEChannelMessage);
   } catch (error) {
     res.status(400).json({ error: "Bad request" });
     logger.error('Bad POST request', error as Error, {
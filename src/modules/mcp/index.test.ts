@@ -0,0 +1,97 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { ITokenValidator } from '../../interfaces/auth-validator.js';
+import { DEVICE_CODE_GRANT_TYPE, TOKEN_ENDPOINT_AUTH_METHODS } from '../../interfaces/oauth-metadata.js';
+import { MCPModule } from './index.js';
+
+describe('MCPModule discovery metadata', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const tokenValidator = {
+    introspect: async () => ({ active: false }),
+    verifyAccessToken: async () => { throw new Error('not used'); }
+  } as unknown as ITokenValidator;
+
+  const startServer = async (authServerUrl: string) => {
+    const module = new MCPModule({ baseUri: 'https://mcp.example.com', authServerUrl }, tokenValidator);
+    const app = express();
+    app.use('/', module.getRouter());
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should describe the /mcp endpoint at the path-suffixed URL', async () => {
+    await startServer('https://auth.example.com');
+
+    const response = await fetch(`${baseUrl}/.well-known/oauth-protected-resource/mcp`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      resource: 'https://mcp.example.com/mcp',
+      authorization_servers: ['https://auth.example.com'],
+      scopes_supported: ['tools:read', 'tools:call', 'resources:read', 'sampling'],
+      bearer_methods_supported: ['header'],
+      resource_name: 'MCP Feature Reference Server',
+      resource_documentation: 'https://modelcontextprotocol.io'
+    });
+  });
+
+  it('should describe the /mcp endpoint at the bare URL too', async () => {
+    await startServer('https://mcp.example.com');
+
+    const response = await fetch(`${baseUrl}/.well-known/oauth-protected-resource`);
+
+    expect(await response.json()).toEqual(expect.objectContaining({
+      resource: 'https://mcp.example.com/mcp',
+      authorization_servers: ['https://mcp.example.com']
+    }));
+  });
+
+  it('should point authorization server metadata at the auth server', async () => {
+    await startServer('https://auth.example.com');
+
+    const response = await fetch(`${baseUrl}/.well-known/oauth-authorization-server`);
+
+    expect(await response.json()).toEqual(expect.objectContaining({
+      issuer: 'https://auth.example.com',
+      token_endpoint: 'https://auth.example.com/token'
+    }));
+  });
+
+  it('should only advertise device authorization and metadata documents for its own auth server', async () => {
+    await startServer('https://auth.example.com');
+    const external = await (await fetch(`${baseUrl}/.well-known/oauth-authorization-server`)).json();
+    await new Promise(resolve => server.close(resolve));
+
+    await startServer('https://mcp.example.com');
+    const internal = await (await fetch(`${baseUrl}/.well-known/oauth-authorization-server`)).json();
+
+    expect(external.device_authorization_endpoint).toBeUndefined();
+    expect(external.client_id_metadata_document_supported).toBeUndefined();
+    expect(external.grant_types_supported).not.toContain(DEVICE_CODE_GRANT_TYPE);
+    expect(internal).toEqual(expect.objectContaining({
+      device_authorization_endpoint: 'https://mcp.example.com/device_authorization',
+      client_id_metadata_document_supported: true,
+      grant_types_supported: expect.arrayContaining([DEVICE_CODE_GRANT_TYPE]),
+      token_endpoint_auth_methods_supported: [...TOKEN_ENDPOINT_AUTH_METHODS]
+    }));
+  });
+
+  it('should point bearer challenges at the /mcp metadata', async () => {
+    await startServer('https://auth.example.com');
+
+    const response = await fetch(`${baseUrl}/mcp`, { method: 'POST' });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toContain(
+      'resource_metadata="https://mcp.example.com/.well-known/oauth-protected-resource/mcp"'
+    );
+  });
+});
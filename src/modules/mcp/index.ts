@@ -2,11 +2,16 @@
  * MCP Module - Self-contained MCP server module
  *
  * This module provides all MCP protocol functionality (tools, resources, prompts).
- * It depends only on the ITokenValidator interface for authentication, not on
- * any specific auth implementation.
+ * It depends only on the ITokenValidator interface for authentication (and
+ * IUpstreamTokenSource for calling upstream APIs), not on any specific auth
+ * implementation.
  *
  * This clean separation means the MCP module works identically whether auth
  * is internal (in-process) or external (HTTP).
+ *
+ * It also publishes the discovery metadata clients need to find the auth
+ * server: RFC 9728 protected resource metadata, and (for clients that predate
+ * it) authorization server metadata pointing at the auth server.
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
@@ -16,26 +21,74 @@ import { fileURLToPath } from 'url';
 import rateLimit from 'express-rate-limit';
 import { BearerAuthMiddlewareOptions, requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
 import { getOAuthProtectedResourceMetadataUrl } from '@modelcontextprotocol/sdk/server/auth/router.js';
+import { metadataHandler } from '@modelcontextprotocol/sdk/server/auth/handlers/metadata.js';
+import { OAuthMetadata, OAuthProtectedResourceMetadata } from '@modelcontextprotocol/sdk/shared/auth.js';
 import { ITokenValidator } from '../../interfaces/auth-validator.js';
-import { handleStreamableHTTP } from './handlers/shttp.js';
+import { IUpstreamTokenSource } from '../../interfaces/upstream-tokens.js';
+import { ALL_SCOPES } from '../../interfaces/scopes.js';
+import {
+  CLIENT_ASSERTION_SIGNING_ALGORITHMS,
+  DEVICE_AUTHORIZATION_PATH,
+  DEVICE_CODE_GRANT_TYPE,
+  GRANT_TYPES,
+  TOKEN_ENDPOINT_AUTH_METHODS
+} from '../../interfaces/oauth-metadata.js';
+import { logger } from '../shared/logger.js';
+import { handleStatelessStreamableHTTP, handleStreamableHTTP, ResponseMode } from './handlers/shttp.js';
+import { SessionLimits } from './services/sessionLimits.js';
+import { closeLocalSessions, getLocalSessionCount, SessionTimeouts } from './services/sessionServer.js';
+import { listenForRevocations } from './services/sessionRevocation.js';
+import { configureUpstreamApi } from './services/upstreamApi.js';
 import { handleMessage, handleSSEConnection } from './handlers/sse.js';
+import { handleGetSession, handleListSessions, handleTerminateSession, requireAdmin } from './handlers/admin.js';
+import { requireRequestScopes } from './handlers/scopes.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 export interface MCPConfig {
   baseUri: string;
+  /** Issuer of the tokens this server accepts (itself in internal mode) */
+  authServerUrl: string;
+  /** The auth server's JWKS, advertised when it issues JWT access tokens */
+  authServerJwksUri?: string;
   redisUrl?: string;
+  sessionMode?: 'stateful' | 'stateless';
+  responseMode?: ResponseMode;
+  sessionLimits?: SessionLimits;
+  /** Rehydrate sessions orphaned by a node going away (e.g. during deploys) */
+  sessionRecovery?: boolean;
+  /** Inactivity timeout and maximum lifetime of stateful sessions */
+  sessionTimeouts?: SessionTimeouts;
+  /** Whether the process is shutting down; new sessions are refused while it is */
+  isDraining?: () => boolean;
+  /** User IDs allowed to use the session admin API */
+  adminUserIds?: string[];
+  /** Base URL of the upstream API tools call on the user's behalf */
+  upstreamApiUrl?: string;
 }
 
 export class MCPModule {
   private router: Router;
+  private adminRouter: Router;
+  private resourceMetadataUrl: string;
+  private stopRevocationListener?: () => Promise<void>;
 
+  /**
+   * @param upstreamTokens Where tools get the user's upstream access token
+   *   from; tools calling the upstream API are unavailable without it
+   */
   constructor(
     private config: MCPConfig,
-    private tokenValidator: ITokenValidator
+    private tokenValidator: ITokenValidator,
+    upstreamTokens?: IUpstreamTokenSource
   ) {
+    configureUpstreamApi(upstreamTokens && config.upstreamApiUrl
+      ? { tokens: upstreamTokens, apiUrl: config.upstreamApiUrl }
+      : undefined);
+    this.resourceMetadataUrl = getOAuthProtectedResourceMetadataUrl(new URL(`${this.config.baseUri}/mcp`));
     this.router = this.setupRouter();
+    this.adminRouter = this.setupAdminRouter();
   }
 
   /**
@@ -45,6 +98,97 @@ export class MCPModule {
     return this.router;
   }
 
+  /**
+   * Get Express router for the session admin API (list, inspect, terminate).
+   * Paths are relative, so mount it under a prefix such as /admin.
+   */
+  getAdminRouter(): Router {
+    return this.adminRouter;
+  }
+
+  /**
+   * Number of session servers hosted by this process.
+   */
+  getLocalSessionCount(): number {
+    return getLocalSessionCount();
+  }
+
+  /**
+   * Ends stateful sessions as soon as the auth server revokes the grant they
+   * were opened under, rather than when the client next sends a request.
+   */
+  async startRevocationListener(): Promise<void> {
+    this.stopRevocationListener ??= await listenForRevocations();
+  }
+
+  /**
+   * Stops the session servers hosted by this process. With session recovery
+   * enabled they are handed over to other nodes rather than ended.
+   */
+  async shutdown(): Promise<void> {
+    await this.stopRevocationListener?.();
+    this.stopRevocationListener = undefined;
+    await closeLocalSessions({ handover: this.config.sessionRecovery });
+  }
+
+  private createBearerAuth() {
+    // Bearer auth middleware using our token validator
+    // This works the same whether the validator is internal or external
+    const bearerAuthOptions: BearerAuthMiddlewareOptions = {
+      verifier: this.tokenValidator,
+      resourceMetadataUrl: this.resourceMetadataUrl
+    };
+    return requireBearerAuth(bearerAuthOptions);
+  }
+
+  /**
+   * RFC 9728 metadata for the protected resource at the given URL
+   */
+  private protectedResourceMetadata(resource: string): OAuthProtectedResourceMetadata {
+    return {
+      resource,
+      authorization_servers: [this.config.authServerUrl],
+      scopes_supported: ALL_SCOPES,
+      bearer_methods_supported: ['header'],
+      resource_name: 'MCP Feature Reference Server',
+      resource_documentation: 'https://modelcontextprotocol.io'
+    };
+  }
+
+  /**
+   * RFC 8414 metadata describing the auth server, for clients that look for
+   * it on the MCP server instead of following authorization_servers.
+   *
+   * Device authorization and client ID metadata documents are only
+   * advertised when the auth server runs in this process; an external one
+   * may not support them.
+   */
+  private authorizationServerMetadata(): OAuthMetadata {
+    const authServerUrl = this.config.authServerUrl;
+    const ownAuthServer = authServerUrl === this.config.baseUri;
+    const clientAuthMethods = [...TOKEN_ENDPOINT_AUTH_METHODS];
+    return {
+      issuer: authServerUrl,
+      authorization_endpoint: `${authServerUrl}/authorize`,
+      token_endpoint: `${authServerUrl}/token`,
+      registration_endpoint: `${authServerUrl}/register`,
+      introspection_endpoint: `${authServerUrl}/introspect`,
+      revocation_endpoint: `${authServerUrl}/revoke`,
+      device_authorization_endpoint: ownAuthServer ? `${authServerUrl}${DEVICE_AUTHORIZATION_PATH}` : undefined,
+      jwks_uri: this.config.authServerJwksUri,
+      token_endpoint_auth_methods_supported: clientAuthMethods,
+      token_endpoint_auth_signing_alg_values_supported: CLIENT_ASSERTION_SIGNING_ALGORITHMS,
+      revocation_endpoint_auth_methods_supported: clientAuthMethods,
+      introspection_endpoint_auth_methods_supported: clientAuthMethods,
+      response_types_supported: ['code'],
+      grant_types_supported: ownAuthServer ? [...GRANT_TYPES, DEVICE_CODE_GRANT_TYPE] : GRANT_TYPES,
+      code_challenge_methods_supported: ['S256'],
+      client_id_metadata_document_supported: ownAuthServer ? true : undefined,
+      scopes_supported: ALL_SCOPES,
+      service_documentation: 'https://modelcontextprotocol.io'
+    };
+  }
+
   private setupRouter(): Router {
     const router = Router();
 
@@ -63,8 +207,8 @@ export class MCPModule {
     const corsOptions = {
       origin: true, // Allow any origin
       methods: ['GET', 'POST', 'DELETE'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'Mcp-Protocol-Version', 'Mcp-Protocol-Id'],
-      exposedHeaders: ['Mcp-Protocol-Version', 'Mcp-Protocol-Id'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'Mcp-Protocol-Version', 'Mcp-Protocol-Id', 'Last-Event-ID'],
+      exposedHeaders: ['Mcp-Protocol-Version', 'Mcp-Protocol-Id', 'WWW-Authenticate'],
       credentials: true
     };
 
@@ -83,22 +227,46 @@ export class MCPModule {
       next();
     };
 
-    // Bearer auth middleware using our token validator
-    // This works the same whether the validator is internal or external
-    const bearerAuthOptions: BearerAuthMiddlewareOptions = {
-      verifier: this.tokenValidator,
-      resourceMetadataUrl: getOAuthProtectedResourceMetadataUrl(new URL(this.config.baseUri))
-    };
-    const bearerAuth = requireBearerAuth(bearerAuthOptions);
+    // Discovery metadata for the /mcp endpoint. The path-suffixed variant is
+    // what WWW-Authenticate challenges point at; the bare one serves clients
+    // that only look there. Both name /mcp as the resource, the only one
+    // tokens are accepted for.
+    const mcpMetadata = metadataHandler(this.protectedResourceMetadata(`${this.config.baseUri}/mcp`));
+    router.use('/.well-known/oauth-protected-resource/mcp', mcpMetadata);
+    router.use('/.well-known/oauth-protected-resource', mcpMetadata);
+    router.use('/.well-known/oauth-authorization-server', (req: Request, res: Response, next: NextFunction) => {
+      logger.info('OAuth metadata discovery', {
+        userAgent: req.get('user-agent'),
+        ip: req.ip
+      });
+      next();
+    }, metadataHandler(this.authorizationServerMetadata()));
+
+    const bearerAuth = this.createBearerAuth();
+
+    // 403 step-up challenge for requests outside the token's scopes
+    const requestScopes = requireRequestScopes({ resourceMetadataUrl: this.resourceMetadataUrl });
 
     // MCP endpoints - Streamable HTTP transport (recommended)
-    router.get('/mcp', cors(corsOptions), bearerAuth, securityHeaders, handleStreamableHTTP);
-    router.post('/mcp', cors(corsOptions), bearerAuth, securityHeaders, handleStreamableHTTP);
-    router.delete('/mcp', cors(corsOptions), bearerAuth, securityHeaders, handleStreamableHTTP);
+    // Stateless mode serves each POST from a fresh server instance, with no Redis
+    const handleShttp = this.config.sessionMode === 'stateless'
+      ? handleStatelessStreamableHTTP
+      : handleStreamableHTTP;
+    const shttpOptions = {
+      responseMode: this.config.responseMode,
+      sessionLimits: this.config.sessionLimits,
+      sessionRecovery: this.config.sessionRecovery,
+      sessionTimeouts: this.config.sessionTimeouts,
+      isDraining: this.config.isDraining
+    };
+    const shttpHandler = (req: Request, res: Response) => handleShttp(req, res, shttpOptions);
+    router.get('/mcp', cors(corsOptions), bearerAuth, securityHeaders, shttpHandler);
+    router.post('/mcp', cors(corsOptions), bearerAuth, requestScopes, securityHeaders, shttpHandler);
+    router.delete('/mcp', cors(corsOptions), bearerAuth, securityHeaders, shttpHandler);
 
     // MCP endpoints - SSE transport (legacy)
     router.get('/sse', cors(corsOptions), bearerAuth, sseHeaders, handleSSEConnection);
-    router.post('/message', cors(corsOptions), bearerAuth, securityHeaders, handleMessage);
+    router.post('/message', cors(corsOptions), bearerAuth, requestScopes, securityHeaders, handleMessage);
 
     // Static files for MCP
     router.get('/styles.css', staticAssetLimiter, (req, res) => {
@@ -109,4 +277,25 @@ export class MCPModule {
 
     return router;
   }
-}
\ No newline at end of file
+
+  private setupAdminRouter(): Router {
+    const router = Router();
+
+    const adminLimiter = rateLimit({
+      windowMs: 60 * 1000, // 1 minute
+      max: 60, // 60 requests per minute for admin endpoints
+      message: 'Too many admin requests',
+      standardHeaders: true,
+      legacyHeaders: false,
+    });
+
+    // Same bearer tokens as /mcp, restricted to the configured admin users
+    const adminAuth = [adminLimiter, this.createBearerAuth(), requireAdmin(this.config.adminUserIds ?? [])];
+
+    router.get('/sessions', ...adminAuth, handleListSessions);
+    router.get('/sessions/:sessionId', ...adminAuth, handleGetSession);
+    router.delete('/sessions/:sessionId', ...adminAuth, handleTerminateSession);
+
+    return router;
+  }
+}
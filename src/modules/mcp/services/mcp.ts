@@ -1,4 +1,5 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 import fs from "node:fs/promises";
 import path from "node:path";
 import {
@@ -13,6 +14,7 @@ import {
   ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   LoggingLevel,
+  McpError,
   ReadResourceRequestSchema,
   Resource,
   SetLevelRequestSchema,
@@ -21,6 +23,9 @@ import {
   UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod/v4";
+import { hasScope, Scope } from "../../../interfaces/scopes.js";
+import { UpstreamTokenUnavailableError } from "../../../interfaces/upstream-tokens.js";
+import { callUpstreamApi, isUpstreamApiConfigured } from "./upstreamApi.js";
 
 type ToolInput = Tool["inputSchema"];
 
@@ -93,6 +98,70 @@ enum ToolName {
   GET_RESOURCE_REFERENCE = "getResourceReference",
   ELICIT_INPUTS = "elicitInputs",
   MCP_APPS_HELLO_WORLD = "mcp_apps_hello_world",
+  GET_UPSTREAM_PROFILE = "getUpstreamProfile",
+}
+
+/**
+ * Scopes a caller needs to call each tool. tools/list only shows the tools
+ * the caller is able to call.
+ */
+const TOOL_SCOPES: Record<ToolName, Scope[]> = {
+  [ToolName.ECHO]: ["tools:call"],
+  [ToolName.ADD]: ["tools:call"],
+  [ToolName.LONG_RUNNING_OPERATION]: ["tools:call"],
+  [ToolName.SAMPLE_LLM]: ["tools:call", "sampling"],
+  [ToolName.GET_TINY_IMAGE]: ["tools:call"],
+  [ToolName.ANNOTATED_MESSAGE]: ["tools:call"],
+  [ToolName.GET_RESOURCE_REFERENCE]: ["tools:call", "resources:read"],
+  [ToolName.ELICIT_INPUTS]: ["tools:call"],
+  [ToolName.MCP_APPS_HELLO_WORLD]: ["tools:call"],
+  [ToolName.GET_UPSTREAM_PROFILE]: ["tools:call"],
+};
+
+/**
+ * Scopes needed for each request method, other than tools/call (see
+ * TOOL_SCOPES). Methods not listed here need no scope.
+ */
+const METHOD_SCOPES: Record<string, Scope[]> = {
+  "tools/list": ["tools:read"],
+  "resources/list": ["resources:read"],
+  "resources/templates/list": ["resources:read"],
+  "resources/read": ["resources:read"],
+  "resources/subscribe": ["resources:read"],
+};
+
+// JSON-RPC error code for requests the caller's token is not scoped for
+export const INSUFFICIENT_SCOPE_ERROR_CODE = -32005;
+
+function getToolScopes(name: unknown): Scope[] {
+  return TOOL_SCOPES[name as ToolName] ?? ["tools:call"];
+}
+
+/**
+ * Scopes a caller needs for the given request. The HTTP layer uses this to
+ * answer with a 403 step-up challenge before the request reaches the server.
+ */
+export function getRequiredScopes(request: { method: string; params?: Record<string, unknown> }): Scope[] {
+  if (request.method === "tools/call") {
+    return getToolScopes(request.params?.name);
+  }
+  return METHOD_SCOPES[request.method] ?? [];
+}
+
+/**
+ * Throws an insufficient_scope error unless the caller was granted every
+ * given scope. Requests without auth info are rejected, since every
+ * transport in this server authenticates its callers.
+ */
+function requireScopes(authInfo: AuthInfo | undefined, scopes: Scope[]): void {
+  const missing = scopes.filter((scope) => !authInfo || !hasScope(authInfo.scopes, scope));
+  if (missing.length > 0) {
+    throw new McpError(
+      INSUFFICIENT_SCOPE_ERROR_CODE,
+      `Insufficient scope: requires ${missing.join(" ")}`,
+      { error: "insufficient_scope", scope: missing.join(" ") }
+    );
+  }
 }
 
 // MCP Apps constants
@@ -109,7 +178,22 @@ interface McpServerWrapper {
   cleanup: () => void;
 }
 
-export const createMcpServer = (): McpServerWrapper => {
+/**
+ * Per-session state that survives moving a session to another node.
+ */
+export interface McpServerState {
+  logLevel: LoggingLevel;
+  subscriptions: string[];
+}
+
+interface CreateMcpServerOptions {
+  /** State to resume from, when rehydrating an existing session */
+  initialState?: McpServerState;
+  /** Called whenever the state changes, so it can be persisted */
+  onStateChange?: (state: McpServerState) => void | Promise<void>;
+}
+
+export const createMcpServer = ({ initialState, onStateChange }: CreateMcpServerOptions = {}): McpServerWrapper => {
   const server = new Server(
     {
       name: "example-servers/feature-reference",
@@ -126,7 +210,7 @@ export const createMcpServer = (): McpServerWrapper => {
     }
   );
 
-  const subscriptions: Set<string> = new Set();
+  const subscriptions: Set<string> = new Set(initialState?.subscriptions);
 
   // Set up update interval for subscribed resources
   const subsUpdateInterval = setInterval(() => {
@@ -138,7 +222,11 @@ export const createMcpServer = (): McpServerWrapper => {
     }
   }, 10000);
 
-  let logLevel: LoggingLevel = "debug";
+  let logLevel: LoggingLevel = initialState?.logLevel ?? "debug";
+
+  const saveState = async () => {
+    await onStateChange?.({ logLevel, subscriptions: Array.from(subscriptions) });
+  };
   const messages = [
     { level: "debug", data: "Debug-level message" },
     { level: "info", data: "Info-level message" },
@@ -230,7 +318,8 @@ export const createMcpServer = (): McpServerWrapper => {
 
   const PAGE_SIZE = 10;
 
-  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+  server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => {
+    requireScopes(extra.authInfo, getRequiredScopes(request));
     const cursor = request.params?.cursor;
     let startIndex = 0;
 
@@ -265,7 +354,8 @@ export const createMcpServer = (): McpServerWrapper => {
     };
   });
 
-  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async (request, extra) => {
+    requireScopes(extra.authInfo, getRequiredScopes(request));
     return {
       resourceTemplates: [
         {
@@ -277,7 +367,8 @@ export const createMcpServer = (): McpServerWrapper => {
     };
   });
 
-  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    requireScopes(extra.authInfo, getRequiredScopes(request));
     const uri = request.params.uri;
 
     if (uri.startsWith("test://static/resource/")) {
@@ -308,17 +399,22 @@ export const createMcpServer = (): McpServerWrapper => {
     throw new Error(`Unknown resource: ${uri}`);
   });
 
-  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    requireScopes(extra.authInfo, getRequiredScopes(request));
     const { uri } = request.params;
     subscriptions.add(uri);
+    await saveState();
 
     // Request sampling from client when someone subscribes
-    await requestSampling("A new subscription was started", uri);
+    if (extra.authInfo && hasScope(extra.authInfo.scopes, "sampling")) {
+      await requestSampling("A new subscription was started", uri);
+    }
     return {};
   });
 
   server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
     subscriptions.delete(request.params.uri);
+    await saveState();
     return {};
   });
 
@@ -440,7 +536,8 @@ export const createMcpServer = (): McpServerWrapper => {
     throw new Error(`Unknown prompt: ${name}`);
   });
 
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
+  server.setRequestHandler(ListToolsRequestSchema, async (request, extra) => {
+    requireScopes(extra.authInfo, getRequiredScopes(request));
     const tools: Tool[] = [
       {
         name: ToolName.ECHO,
@@ -494,12 +591,26 @@ export const createMcpServer = (): McpServerWrapper => {
         _meta: { ui: { resourceUri: HELLO_WORLD_APP_URI } },
       },
     ];
+    if (isUpstreamApiConfigured()) {
+      tools.push({
+        name: ToolName.GET_UPSTREAM_PROFILE,
+        description:
+          "Fetches your profile from the upstream API, calling it on your behalf with the upstream account you signed in with",
+        inputSchema: { type: "object", properties: {} },
+      });
+    }
 
-    return { tools };
+    const grantedScopes = extra.authInfo?.scopes ?? [];
+    return {
+      tools: tools.filter((tool) =>
+        getToolScopes(tool.name).every((scope) => hasScope(grantedScopes, scope))
+      ),
+    };
   });
 
   server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
+    requireScopes(extra.authInfo, getRequiredScopes(request));
 
     if (name === ToolName.ECHO) {
       const validatedArgs = EchoSchema.parse(args);
@@ -782,6 +893,35 @@ export const createMcpServer = (): McpServerWrapper => {
       };
     }
 
+    if (name === ToolName.GET_UPSTREAM_PROFILE) {
+      // The server acts as a delegating proxy: the upstream API sees the
+      // user's upstream token, never the client's MCP token
+      let response: Response;
+      try {
+        response = await callUpstreamApi(extra.authInfo, "profile");
+      } catch (error) {
+        if (error instanceof UpstreamTokenUnavailableError) {
+          return {
+            content: [{ type: "text", text: `No upstream access: ${error.message}. Authorize this client again to sign in upstream.` }],
+            isError: true,
+          };
+        }
+        throw error;
+      }
+
+      if (!response.ok) {
+        return {
+          content: [{ type: "text", text: `The upstream API refused the request: ${response.status} ${response.statusText}` }],
+          isError: true,
+        };
+      }
+      const profile = await response.json() as Record<string, unknown>;
+      return {
+        content: [{ type: "text", text: `Upstream profile: ${JSON.stringify(profile, null, 2)}` }],
+        structuredContent: profile,
+      };
+    }
+
     throw new Error(`Unknown tool: ${name}`);
   });
 
@@ -817,6 +957,7 @@ export const createMcpServer = (): McpServerWrapper => {
   server.setRequestHandler(SetLevelRequestSchema, async (request) => {
     const { level } = request.params;
     logLevel = level;
+    await saveState();
 
     // Demonstrate different log levels
     await server.notification({
@@ -0,0 +1,156 @@
+import { jest } from '@jest/globals';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { MockRedisClient, setRedisClient } from '../../shared/redis.js';
+import { appendSessionEvent, deleteSessionEvents, NOTIFICATION_STREAM_KEY, RedisEventStore } from './redisEventStore.js';
+import { redisRelayToMcpServer, ServerRedisTransport } from './redisTransport.js';
+
+describe('Redis Event Store', () => {
+  let mockRedis: MockRedisClient;
+  const sessionId = 'test-event-session';
+
+  const notification = (uri: string): JSONRPCMessage => ({
+    jsonrpc: '2.0',
+    method: 'notifications/resources/updated',
+    params: { uri }
+  });
+
+  beforeEach(() => {
+    mockRedis = new MockRedisClient();
+    setRedisClient(mockRedis);
+    jest.resetAllMocks();
+  });
+
+  afterEach(() => {
+    mockRedis.clear();
+  });
+
+  const collectReplay = async (store: RedisEventStore, lastEventId: string) => {
+    const replayed: { eventId: string; message: JSONRPCMessage }[] = [];
+    const streamId = await store.replayEventsAfter(lastEventId, {
+      send: async (eventId, message) => {
+        replayed.push({ eventId, message });
+      }
+    });
+    return { streamId, replayed };
+  };
+
+  describe('replayEventsAfter', () => {
+    it('should replay notifications published after the last event ID in order', async () => {
+      const first = await appendSessionEvent(sessionId, NOTIFICATION_STREAM_KEY, notification('test://1'));
+      const second = await appendSessionEvent(sessionId, NOTIFICATION_STREAM_KEY, notification('test://2'));
+      const third = await appendSessionEvent(sessionId, NOTIFICATION_STREAM_KEY, notification('test://3'));
+
+      const store = new RedisEventStore(sessionId);
+      const { streamId, replayed } = await collectReplay(store, first);
+
+      expect(streamId).toBe('_GET_stream');
+      expect(replayed).toEqual([
+        { eventId: second, message: notification('test://2') },
+        { eventId: third, message: notification('test://3') }
+      ]);
+    });
+
+    it('should only replay events from the same logical stream', async () => {
+      const response: JSONRPCMessage = { jsonrpc: '2.0', id: 'req-1', result: {} };
+
+      const first = await appendSessionEvent(sessionId, NOTIFICATION_STREAM_KEY, notification('test://1'));
+      await appendSessionEvent(sessionId, 'req-1', response);
+      const second = await appendSessionEvent(sessionId, NOTIFICATION_STREAM_KEY, notification('test://2'));
+
+      const store = new RedisEventStore(sessionId);
+      const { replayed } = await collectReplay(store, first);
+
+      expect(replayed).toEqual([{ eventId: second, message: notification('test://2') }]);
+    });
+
+    it('should replay a POST stream from its priming event, skipping the priming payload', async () => {
+      const response: JSONRPCMessage = { jsonrpc: '2.0', id: 7, result: { tools: [] } };
+
+      // The SDK stores a priming event under its own random stream ID
+      const store = new RedisEventStore(sessionId, '7');
+      const primingEventId = await store.storeEvent('b3c0a7f2-random-sdk-stream', {} as JSONRPCMessage);
+
+      // The response is logged by ServerRedisTransport under the request ID
+      const responseEventId = await appendSessionEvent(sessionId, '7', response);
+
+      const { streamId, replayed } = await collectReplay(new RedisEventStore(sessionId), primingEventId);
+
+      expect(streamId).toBe('request:7');
+      expect(replayed).toEqual([{ eventId: responseEventId, message: response }]);
+    });
+
+    it('should reject unknown event IDs', async () => {
+      const store = new RedisEventStore(sessionId);
+
+      await expect(collectReplay(store, '12345-0')).rejects.toThrow('Unknown event ID');
+      expect(await store.getStreamIdForEventId('not-an-event-id')).toBeUndefined();
+    });
+
+    it('should not replay events from another session', async () => {
+      const eventId = await appendSessionEvent('other-session', NOTIFICATION_STREAM_KEY, notification('test://1'));
+
+      const store = new RedisEventStore(sessionId);
+      expect(await store.getStreamIdForEventId(eventId)).toBeUndefined();
+    });
+  });
+
+  describe('storeEvent', () => {
+    it('should return the assigned event ID for relayed messages without writing a duplicate', async () => {
+      const message = notification('test://1');
+      const eventId = await appendSessionEvent(sessionId, NOTIFICATION_STREAM_KEY, message);
+
+      const store = new RedisEventStore(sessionId);
+      store.assignEventId(message, eventId);
+
+      expect(await store.storeEvent('_GET_stream', message)).toBe(eventId);
+      expect(await mockRedis.xrange(`mcp:shttp:events:${sessionId}`, '-', '+')).toHaveLength(1);
+    });
+
+    it('should clear the event log when the session is deleted', async () => {
+      await appendSessionEvent(sessionId, NOTIFICATION_STREAM_KEY, notification('test://1'));
+
+      await deleteSessionEvents(sessionId);
+
+      expect(await mockRedis.xrange(`mcp:shttp:events:${sessionId}`, '-', '+')).toHaveLength(0);
+    });
+  });
+
+  describe('Resuming through the Redis relay', () => {
+    it('should replay notifications sent while the client was disconnected', async () => {
+      const serverTransport = new ServerRedisTransport(sessionId);
+      await serverTransport.start();
+
+      const clientTransport: Transport = {
+        onmessage: undefined,
+        onclose: undefined,
+        onerror: undefined,
+        send: jest.fn(() => Promise.resolve()),
+        close: jest.fn(() => Promise.resolve()),
+        start: jest.fn(() => Promise.resolve())
+      };
+
+      // Client connects the GET stream and receives the first notification
+      const firstStore = new RedisEventStore(sessionId);
+      const cleanup = await redisRelayToMcpServer(sessionId, clientTransport, true, { eventStore: firstStore });
+      const delivered = notification('test://1');
+      await serverTransport.send(delivered);
+      const [[relayedMessage]] = (clientTransport.send as jest.Mock).mock.calls as [JSONRPCMessage][];
+      const lastEventId = await firstStore.storeEvent('_GET_stream', relayedMessage);
+
+      // Client drops, then the server keeps sending
+      await cleanup();
+      await serverTransport.send(notification('test://2'));
+      await serverTransport.send(notification('test://3'));
+
+      // Client reconnects with Last-Event-ID
+      const { replayed } = await collectReplay(new RedisEventStore(sessionId), lastEventId);
+      expect(replayed.map(({ message }) => message)).toEqual([
+        notification('test://2'),
+        notification('test://3')
+      ]);
+
+      await serverTransport.close();
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { EventId, EventStore, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { redisClient } from "../../shared/redis.js";
+import { logger } from "../../shared/logger.js";
+
+/**
+ * Logical stream key used for server-initiated messages that are not related
+ * to any client request (delivered on the GET /mcp stream). Matches the
+ * relay channel suffix used in redisTransport.ts.
+ */
+export const NOTIFICATION_STREAM_KEY = "__GET_stream";
+
+// The SDK's own stream ID for the standalone GET SSE stream
+const SDK_STANDALONE_STREAM_ID = "_GET_stream";
+
+// Prefix for stream IDs handed back to the SDK for request-related streams
+const REQUEST_STREAM_ID_PREFIX = "request:";
+
+// Keep a bounded window of events per session
+const MAX_EVENTS_PER_SESSION = 1000;
+const EVENT_LOG_EXPIRY_SEC = 60 * 60; // 1 hour
+
+function getEventLogKey(sessionId: string): string {
+  return `mcp:shttp:events:${sessionId}`;
+}
+
+/**
+ * Appends a server->client message to the session's event log.
+ *
+ * Called by ServerRedisTransport for every outgoing message, so events are
+ * recorded even when no client stream is connected to receive them.
+ *
+ * @param streamKey The related request ID, or NOTIFICATION_STREAM_KEY
+ * @returns The event ID, suitable for the SSE `id:` field
+ */
+export async function appendSessionEvent(sessionId: string, streamKey: string, message: JSONRPCMessage): Promise<EventId> {
+  const key = getEventLogKey(sessionId);
+  const eventId = await redisClient.xadd(key, {
+    stream: streamKey,
+    message: JSON.stringify(message),
+  }, MAX_EVENTS_PER_SESSION);
+  await redisClient.expire(key, EVENT_LOG_EXPIRY_SEC);
+  return eventId;
+}
+
+export async function deleteSessionEvents(sessionId: string): Promise<void> {
+  await redisClient.del(getEventLogKey(sessionId));
+}
+
+/**
+ * EventStore implementation backed by a per-session Redis stream.
+ *
+ * One instance is created per HTTP request (alongside the per-request
+ * StreamableHTTPServerTransport). Messages relayed from the MCP server have
+ * already been appended to the log by ServerRedisTransport, so the relay
+ * registers their event IDs via assignEventId() and storeEvent() simply hands
+ * them back instead of writing a duplicate entry.
+ *
+ * Events are grouped by logical stream key: the JSON-RPC request ID for
+ * messages on a POST response stream, or NOTIFICATION_STREAM_KEY for the
+ * standalone GET stream. Replay after a Last-Event-ID sends every later event
+ * on the same logical stream, in order.
+ */
+export class RedisEventStore implements EventStore {
+  private assignedEventIds = new WeakMap<JSONRPCMessage, EventId>();
+
+  /**
+   * @param sessionId The MCP session whose event log to use
+   * @param requestStreamKey The JSON-RPC request ID carried by this POST, if any.
+   *   Used to file SDK-generated events (e.g. priming events) under the same
+   *   logical stream as the server's responses to that request.
+   */
+  constructor(private sessionId: string, private requestStreamKey?: string) {}
+
+  /**
+   * Records the event ID already assigned to a relayed message, so that the
+   * SDK transport emits it in the SSE `id:` field.
+   */
+  assignEventId(message: JSONRPCMessage, eventId: EventId): void {
+    this.assignedEventIds.set(message, eventId);
+  }
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const assigned = this.assignedEventIds.get(message);
+    if (assigned) {
+      return assigned;
+    }
+    return appendSessionEvent(this.sessionId, this.toStreamKey(streamId), message);
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    const entry = await this.readEvent(eventId);
+    return entry ? this.toSdkStreamId(entry.message.stream) : undefined;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const lastEntry = await this.readEvent(lastEventId);
+    if (!lastEntry) {
+      throw new Error(`Unknown event ID: ${lastEventId}`);
+    }
+    const streamKey = lastEntry.message.stream;
+
+    const entries = await redisClient.xrange(getEventLogKey(this.sessionId), `(${lastEventId}`, "+");
+    let replayed = 0;
+    for (const entry of entries) {
+      if (entry.message.stream !== streamKey) {
+        continue;
+      }
+      const message = JSON.parse(entry.message.message);
+      // Skip SDK priming events, which carry no JSON-RPC payload
+      if (!("jsonrpc" in message)) {
+        continue;
+      }
+      await send(entry.id, message as JSONRPCMessage);
+      replayed++;
+    }
+
+    logger.info('Replayed events after Last-Event-ID', {
+      sessionId: this.sessionId,
+      lastEventId,
+      streamKey,
+      replayed
+    });
+
+    return this.toSdkStreamId(streamKey);
+  }
+
+  private async readEvent(eventId: EventId) {
+    // Event IDs are Redis stream entry IDs; reject anything else before querying
+    if (!/^\d+-\d+$/.test(eventId)) {
+      return undefined;
+    }
+    const [entry] = await redisClient.xrange(getEventLogKey(this.sessionId), eventId, eventId);
+    return entry;
+  }
+
+  private toStreamKey(streamId: StreamId): string {
+    if (streamId === SDK_STANDALONE_STREAM_ID) {
+      return NOTIFICATION_STREAM_KEY;
+    }
+    if (streamId.startsWith(REQUEST_STREAM_ID_PREFIX)) {
+      return streamId.slice(REQUEST_STREAM_ID_PREFIX.length);
+    }
+    return this.requestStreamKey ?? streamId;
+  }
+
+  private toSdkStreamId(streamKey: string): StreamId {
+    return streamKey === NOTIFICATION_STREAM_KEY
+      ? SDK_STANDALONE_STREAM_ID
+      : `${REQUEST_STREAM_ID_PREFIX}${streamKey}`;
+  }
+}
@@ -157,7 +157,7 @@ describe('Redis Transport Integration', () => {
         params: {}
       };
 
-      mockClientTransport.onmessage?.(toolsListMessage);
+      mockClientTransport.onmessage?.(toolsListMessage, { authInfo: { token: 'test-token', clientId: 'test-client', scopes: ['tools:read'] } });
 
       // Wait for processing and response
       await new Promise(resolve => setTimeout(resolve, 100));
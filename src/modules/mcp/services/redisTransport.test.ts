@@ -5,6 +5,8 @@ import {
   ServerRedisTransport, 
   redisRelayToMcpServer,
   isLive,
+  pingSession,
+  getSessionStatus,
   shutdownSession,
   setSessionOwner,
   getSessionOwner,
@@ -61,13 +63,13 @@ describe('Redis Transport', () => {
 
       await transport.send(responseMessage, { relatedRequestId: 123 });
 
-      expect(mockSubscriber).toHaveBeenCalledWith(
-        JSON.stringify({
-          type: 'mcp',
-          message: responseMessage,
-          options: { relatedRequestId: 123 }
-        })
-      );
+      expect(mockSubscriber).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(mockSubscriber.mock.calls[0][0] as string)).toEqual({
+        type: 'mcp',
+        message: responseMessage,
+        options: { relatedRequestId: 123 },
+        eventId: expect.stringMatching(/^\d+-\d+$/)
+      });
     });
 
     it('should send notification messages to notification channel', async () => {
@@ -86,13 +88,45 @@ describe('Redis Transport', () => {
 
       await transport.send(notificationMessage);
 
-      expect(mockSubscriber).toHaveBeenCalledWith(
-        JSON.stringify({
-          type: 'mcp',
-          message: notificationMessage,
-          options: undefined
-        })
-      );
+      expect(mockSubscriber).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(mockSubscriber.mock.calls[0][0] as string)).toEqual({
+        type: 'mcp',
+        message: notificationMessage,
+        eventId: expect.stringMatching(/^\d+-\d+$/)
+      });
+    });
+
+    it('should record sent messages in the session event log', async () => {
+      const notificationMessage: JSONRPCMessage = {
+        jsonrpc: '2.0',
+        method: 'notifications/resources/updated',
+        params: { uri: 'test://static/resource/1' }
+      };
+
+      // No client is subscribed, so the published message is dropped...
+      await transport.send(notificationMessage);
+
+      // ...but it is still available for replay
+      const entries = await mockRedis.xrange(`mcp:shttp:events:${sessionId}`, '-', '+');
+      expect(entries).toHaveLength(1);
+      expect(entries[0].message.stream).toBe('__GET_stream');
+      expect(JSON.parse(entries[0].message.message)).toEqual(notificationMessage);
+    });
+
+    it('should return replayed requests\' responses without sending them', async () => {
+      await transport.start();
+      transport.onmessage = (message) => {
+        if ('id' in message) {
+          void transport.send({ jsonrpc: '2.0', id: message.id, result: { replayed: true } });
+        }
+      };
+      const publishSpy = jest.spyOn(mockRedis, 'publish');
+
+      const response = await transport.replayRequest({ method: 'initialize', params: {} });
+
+      expect(response).toEqual({ jsonrpc: '2.0', id: expect.stringMatching(/^replay:/), result: { replayed: true } });
+      expect(publishSpy).not.toHaveBeenCalled();
+      expect(await mockRedis.xrange(`mcp:shttp:events:${sessionId}`, '-', '+')).toHaveLength(0);
     });
 
     it('should handle close gracefully', async () => {
@@ -239,6 +273,54 @@ describe('Redis Transport', () => {
       await cleanup();
     });
 
+    it('should reroute request-related notifications to the GET stream in JSON response mode', async () => {
+      const cleanup = await redisRelayToMcpServer(sessionId, mockTransport, false, { jsonResponse: true });
+
+      const getStreamSubscriber = jest.fn();
+      await mockRedis.createSubscription(
+        `mcp:shttp:toclient:${sessionId}:__GET_stream`,
+        getStreamSubscriber,
+        jest.fn()
+      );
+
+      mockTransport.onmessage?.({
+        jsonrpc: '2.0',
+        id: 'req-789',
+        method: 'tools/call',
+        params: { name: 'longRunningOperation', arguments: {} }
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const progressMessage: JSONRPCMessage = {
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: { progress: 1, total: 2, progressToken: 'token-1' }
+      };
+      const responseMessage: JSONRPCMessage = {
+        jsonrpc: '2.0',
+        id: 'req-789',
+        result: { content: [] }
+      };
+      const serverTransport = new ServerRedisTransport(sessionId);
+      await serverTransport.send(progressMessage, { relatedRequestId: 'req-789' });
+      await serverTransport.send(responseMessage, { relatedRequestId: 'req-789' });
+
+      // Only the response goes out in the JSON body
+      expect(mockTransport.send).toHaveBeenCalledTimes(1);
+      expect(mockTransport.send).toHaveBeenCalledWith(responseMessage, { relatedRequestId: 'req-789' });
+
+      // The progress notification is published to the GET stream without a related request
+      expect(getStreamSubscriber).toHaveBeenCalledTimes(1);
+      const rerouted = JSON.parse(getStreamSubscriber.mock.calls[0][0] as string);
+      expect(rerouted).toEqual({
+        type: 'mcp',
+        message: progressMessage,
+        eventId: expect.stringMatching(/^\d+-\d+$/)
+      });
+
+      await cleanup();
+    });
+
     it('should not subscribe for notification messages (no id)', async () => {
       const cleanup = await redisRelayToMcpServer(sessionId, mockTransport);
 
@@ -264,20 +346,95 @@ describe('Redis Transport', () => {
   describe('isLive', () => {
     const sessionId = 'test-session-789';
 
-    it('should return true when session has active subscribers', async () => {
-      // Create a subscription to the server channel
-      await mockRedis.createSubscription(
-        `mcp:shttp:toserver:${sessionId}`,
-        jest.fn(),
-        jest.fn()
-      );
+    it('should return true while a node is serving the session', async () => {
+      const serverTransport = new ServerRedisTransport(sessionId);
+      await serverTransport.start();
 
       expect(await isLive(sessionId)).toBe(true);
+
+      await serverTransport.close();
+      expect(await isLive(sessionId)).toBe(false);
     });
 
-    it('should return false when session has no subscribers', async () => {
+    it('should return false when no node is serving the session', async () => {
       expect(await isLive(sessionId)).toBe(false);
     });
+
+    it('should not open a subscription', async () => {
+      await mockRedis.set(`session:${sessionId}:heartbeat`, Date.now().toString());
+      const createSubscription = jest.spyOn(mockRedis, 'createSubscription');
+
+      expect(await isLive(sessionId)).toBe(true);
+
+      expect(createSubscription).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pingSession', () => {
+    const sessionId = 'test-session-ping';
+
+    it('should return true when the session server answers PING', async () => {
+      const serverTransport = new ServerRedisTransport(sessionId);
+      await serverTransport.start();
+
+      expect(await pingSession(sessionId)).toBe(true);
+
+      await serverTransport.close();
+    });
+
+    it('should return false when the session server never replies', async () => {
+      await mockRedis.createSubscription(`mcp:control:${sessionId}`, jest.fn(), jest.fn());
+
+      expect(await pingSession(sessionId, 20)).toBe(false);
+    });
+
+    it('should share one reply subscription across queries', async () => {
+      const serverTransport = new ServerRedisTransport(sessionId);
+      await serverTransport.start();
+      const createSubscription = jest.spyOn(mockRedis, 'createSubscription');
+
+      const results = await Promise.all([pingSession(sessionId), pingSession(sessionId), getSessionStatus(sessionId)]);
+      await pingSession(sessionId);
+
+      expect(results).toEqual([true, true, expect.objectContaining({ sessionId })]);
+      expect(createSubscription).toHaveBeenCalledTimes(1);
+
+      await serverTransport.close();
+    });
+  });
+
+  describe('getSessionStatus', () => {
+    const sessionId = 'test-session-status';
+
+    it('should report uptime, pending requests and last activity', async () => {
+      const serverTransport = new ServerRedisTransport(sessionId);
+      serverTransport.onmessage = jest.fn();
+      await serverTransport.start();
+
+      // A client request arrives and is not answered yet
+      await mockRedis.publish(`mcp:shttp:toserver:${sessionId}`, JSON.stringify({
+        type: 'mcp',
+        message: { jsonrpc: '2.0', id: 'req-1', method: 'tools/call', params: { name: 'echo' } }
+      }));
+
+      const status = await getSessionStatus(sessionId);
+      expect(status).toEqual({
+        sessionId,
+        uptimeMs: expect.any(Number),
+        pendingRequests: 1,
+        lastActivity: expect.any(Number)
+      });
+
+      // Once answered, it is no longer pending
+      await serverTransport.send({ jsonrpc: '2.0', id: 'req-1', result: {} });
+      expect((await getSessionStatus(sessionId))?.pendingRequests).toBe(0);
+
+      await serverTransport.close();
+    });
+
+    it('should return null when nobody answers within the timeout', async () => {
+      expect(await getSessionStatus(sessionId, 20)).toBeNull();
+    });
   });
 
   describe('Session Ownership', () => {
@@ -302,11 +459,8 @@ describe('Redis Transport', () => {
       expect(await isSessionOwnedBy(sessionId, userId)).toBe(false);
       
       // Make session live
-      await mockRedis.createSubscription(
-        `mcp:shttp:toserver:${sessionId}`,
-        jest.fn(),
-        jest.fn()
-      );
+      const serverTransport = new ServerRedisTransport(sessionId);
+      await serverTransport.start();
       
       // Still false because no owner set
       expect(await isSessionOwnedBy(sessionId, userId)).toBe(false);
@@ -319,6 +473,8 @@ describe('Redis Transport', () => {
       
       // False for different user
       expect(await isSessionOwnedBy(sessionId, 'different-user')).toBe(false);
+
+      await serverTransport.close();
     });
   });
 
@@ -532,5 +688,118 @@ describe('Redis Transport', () => {
         expect.stringContaining('"action":"SHUTDOWN"')
       );
     });
+
+    it('should use the configured inactivity timeout', async () => {
+      const transport = new ServerRedisTransport(sessionId, { inactivityTimeoutMs: 30 * 1000 });
+      const shutdownSpy = jest.spyOn(mockRedis, 'publish');
+
+      await transport.start();
+      jest.advanceTimersByTime(30 * 1000);
+
+      expect(shutdownSpy).toHaveBeenCalledWith(
+        `mcp:control:${sessionId}`,
+        expect.stringContaining('"action":"SHUTDOWN"')
+      );
+
+      await transport.close();
+    });
+  });
+
+  describe('Session Lifetime', () => {
+    const sessionId = 'test-lifetime-session';
+
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should shutdown an active session once it reaches its maximum lifetime', async () => {
+      const transport = new ServerRedisTransport(sessionId, { expiresAt: Date.now() + 60 * 1000 });
+      await transport.start();
+      const shutdownSpy = jest.spyOn(mockRedis, 'publish');
+
+      // Activity keeps the inactivity timer from firing, but not the lifetime one
+      for (let i = 0; i < 3; i++) {
+        jest.advanceTimersByTime(20 * 1000);
+        await mockRedis.publish(`mcp:shttp:toserver:${sessionId}`, JSON.stringify({
+          type: 'mcp',
+          message: { jsonrpc: '2.0', method: 'ping' }
+        }));
+      }
+
+      expect(shutdownSpy).toHaveBeenCalledWith(
+        `mcp:control:${sessionId}`,
+        expect.stringContaining('"action":"SHUTDOWN"')
+      );
+
+      await transport.close();
+    });
+
+    it('should give the owner key a TTL matching the inactivity timeout', async () => {
+      await setSessionOwner(sessionId, 'user-1');
+      const expireSpy = jest.spyOn(mockRedis, 'expire');
+      const transport = new ServerRedisTransport(sessionId, { inactivityTimeoutMs: 120 * 1000 });
+
+      await transport.start();
+      expect(expireSpy).toHaveBeenCalledWith(`session:${sessionId}:owner`, 120);
+
+      // Refreshed on client activity
+      expireSpy.mockClear();
+      await mockRedis.publish(`mcp:shttp:toserver:${sessionId}`, JSON.stringify({
+        type: 'mcp',
+        message: { jsonrpc: '2.0', method: 'ping' }
+      }));
+      expect(expireSpy).toHaveBeenCalledWith(`session:${sessionId}:owner`, 120);
+
+      await transport.close();
+    });
+
+    it('should expire the session\'s other keys with the owner key', async () => {
+      await setSessionOwner(sessionId, 'user-1');
+      const expireSpy = jest.spyOn(mockRedis, 'expire');
+      const transport = new ServerRedisTransport(sessionId, {
+        inactivityTimeoutMs: 120 * 1000,
+        expiresAt: Date.now() + 45 * 1000,
+        sessionKeys: [`session:${sessionId}:info`],
+        indexKeys: ['mcp:sessions']
+      });
+
+      await transport.start();
+
+      expect(expireSpy).toHaveBeenCalledWith(`session:${sessionId}:info`, 45);
+      // Index sets hold other sessions too, so they outlive this one's lifetime
+      expect(expireSpy).toHaveBeenCalledWith('mcp:sessions', 120);
+
+      await transport.close();
+    });
+
+    it('should cap the owner key TTL at the remaining lifetime', async () => {
+      await setSessionOwner(sessionId, 'user-1');
+      const expireSpy = jest.spyOn(mockRedis, 'expire');
+      const transport = new ServerRedisTransport(sessionId, {
+        inactivityTimeoutMs: 120 * 1000,
+        expiresAt: Date.now() + 45 * 1000
+      });
+
+      await transport.start();
+
+      expect(expireSpy).toHaveBeenCalledWith(`session:${sessionId}:owner`, 45);
+
+      await transport.close();
+    });
+
+    it('should delete the owner key when the session expires', async () => {
+      await setSessionOwner(sessionId, 'user-1');
+      const transport = new ServerRedisTransport(sessionId, { expiresAt: Date.now() + 10 * 1000 });
+      await transport.start();
+
+      jest.advanceTimersByTime(10 * 1000);
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(await getSessionOwner(sessionId)).toBeNull();
+    });
   });
-});
\ No newline at end of file
+});
@@ -1,12 +1,42 @@
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { redisClient } from "../../shared/redis.js";
+import { RedisClient, redisClient } from "../../shared/redis.js";
 import { Transport, TransportSendOptions } from "@modelcontextprotocol/sdk/shared/transport.js";
 import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
-import { JSONRPCMessage, MessageExtraInfo } from "@modelcontextprotocol/sdk/types.js";
+import { isJSONRPCErrorResponse, isJSONRPCRequest, isJSONRPCResultResponse, JSONRPCMessage, JSONRPCRequest, JSONRPCResponse, MessageExtraInfo } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "crypto";
 import { logger } from "../../shared/logger.js";
+import { appendSessionEvent, deleteSessionEvents, NOTIFICATION_STREAM_KEY, RedisEventStore } from "./redisEventStore.js";
 
 let redisTransportCounter = 0;
-const notificationStreamId = "__GET_stream";
+const notificationStreamId = NOTIFICATION_STREAM_KEY;
+
+// How long to wait for a session's server to answer PING/STATUS
+const DEFAULT_CONTROL_TIMEOUT_MS = 1000;
+
+// The node serving a session refreshes its heartbeat key well within the TTL,
+// so a node that dies leaves the session orphaned for at most HEARTBEAT_TTL_SEC
+const HEARTBEAT_INTERVAL_MS = 5 * 1000;
+const HEARTBEAT_TTL_SEC = 15;
+
+const DEFAULT_INACTIVITY_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+
+// Node clamps setTimeout delays above 2^31-1 ms (~24.8 days) to 1 ms
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+type ControlAction = 'SHUTDOWN' | 'PING' | 'STATUS';
+
+/**
+ * Health of a session's MCP server, as reported in reply to STATUS.
+ */
+export interface SessionStatus {
+  sessionId: string;
+  /** Milliseconds since the server-side transport started */
+  uptimeMs: number;
+  /** Client requests the server has received but not yet answered */
+  pendingRequests: number;
+  /** Milliseconds since epoch of the last message from the client */
+  lastActivity: number;
+}
 
 // Message types for Redis transport
 type RedisMessage = 
@@ -15,13 +45,28 @@ type RedisMessage =
       message: JSONRPCMessage;
       extra?: MessageExtraInfo;
       options?: TransportSendOptions;
+      /** Event log ID assigned by ServerRedisTransport (server->client only) */
+      eventId?: string;
     }
   | {
       type: 'control';
-      action: 'SHUTDOWN' | 'PING' | 'STATUS';
+      action: ControlAction;
       timestamp?: number;
+      /** Channel to publish the reply on (PING and STATUS only) */
+      replyTo?: string;
+      /** Echoed in the reply, to match it to the query waiting for it */
+      requestId?: string;
+    }
+  | {
+      type: 'control_reply';
+      action: 'PING' | 'STATUS';
+      requestId?: string;
+      timestamp: number;
+      status?: SessionStatus;
     };
 
+type ControlReply = Extract<RedisMessage, { type: 'control_reply' }>;
+
 function sendToMcpServer(sessionId: string, message: JSONRPCMessage, extra?: { authInfo?: AuthInfo; }, options?: TransportSendOptions): Promise<void> {
   const toServerChannel = getToServerChannel(sessionId);
   
@@ -44,38 +89,156 @@ function getToClientChannel(sessionId: string, relatedRequestId: string): string
   return `mcp:shttp:toclient:${sessionId}:${relatedRequestId}`;
 }
 
+/**
+ * Logs a server->client message in the session's event log, then publishes it
+ * on the client channel for the given stream key.
+ */
+async function publishToClient(sessionId: string, streamKey: string, message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+  // Record the message before publishing, so a client that is currently
+  // disconnected can replay it via Last-Event-ID
+  const eventId = await appendSessionEvent(sessionId, streamKey, message);
+
+  const redisMessage: RedisMessage = { type: 'mcp', message, options, eventId };
+  await redisClient.publish(getToClientChannel(sessionId, streamKey), JSON.stringify(redisMessage));
+}
+
 function getControlChannel(sessionId: string): string {
   return `mcp:control:${sessionId}`;
 }
 
-function sendControlMessage(sessionId: string, action: 'SHUTDOWN' | 'PING' | 'STATUS'): Promise<void> {
+function getHeartbeatKey(sessionId: string): string {
+  return `session:${sessionId}:heartbeat`;
+}
+
+function getOwnerKey(sessionId: string): string {
+  return `session:${sessionId}:owner`;
+}
+
+function sendControlMessage(sessionId: string, action: ControlAction, replyTo?: string, requestId?: string): Promise<void> {
   const controlChannel = getControlChannel(sessionId);
   const redisMessage: RedisMessage = {
     type: 'control',
     action,
-    timestamp: Date.now()
+    timestamp: Date.now(),
+    replyTo,
+    requestId
   };
   return redisClient.publish(controlChannel, JSON.stringify(redisMessage));
 }
 
+// Replies to this node's PING/STATUS queries all arrive on one long-lived
+// subscription, rather than each query opening a connection of its own
+const controlReplyChannel = `mcp:control:reply:${randomUUID()}`;
+const pendingControlQueries = new Map<string, (reply: ControlReply | null) => void>();
+let controlReplySubscription: { client: RedisClient; ready: Promise<() => Promise<void>> } | undefined;
+
+function subscribeToControlReplies(): Promise<() => Promise<void>> {
+  // The client is swapped out in tests
+  if (controlReplySubscription?.client === redisClient) {
+    return controlReplySubscription.ready;
+  }
+
+  const subscription = {
+    client: redisClient,
+    ready: redisClient.createSubscription(controlReplyChannel, (messageJson) => {
+      const redisMessage = JSON.parse(messageJson) as RedisMessage;
+      if (redisMessage.type === 'control_reply' && redisMessage.requestId) {
+        pendingControlQueries.get(redisMessage.requestId)?.(redisMessage);
+      }
+    }, (error) => {
+      logger.error('Error in control reply subscription', error, {
+        channel: controlReplyChannel
+      });
+    })
+  };
+  // Try again on the next query if subscribing failed
+  subscription.ready.catch(() => {
+    if (controlReplySubscription === subscription) {
+      controlReplySubscription = undefined;
+    }
+  });
+  controlReplySubscription = subscription;
+  return subscription.ready;
+}
+
+/**
+ * Sends a PING or STATUS control message and waits for the session's server
+ * to reply on this node's reply channel.
+ *
+ * @returns The reply, or null if none arrived within timeoutMs
+ */
+async function queryControl(sessionId: string, action: 'PING' | 'STATUS', timeoutMs: number): Promise<ControlReply | null> {
+  await subscribeToControlReplies();
+
+  const requestId = randomUUID();
+  const reply = new Promise<ControlReply | null>((resolve) => {
+    pendingControlQueries.set(requestId, resolve);
+  });
+
+  const timeout = setTimeout(() => pendingControlQueries.get(requestId)?.(null), timeoutMs);
+  try {
+    await sendControlMessage(sessionId, action, controlReplyChannel, requestId);
+    return await reply;
+  } finally {
+    clearTimeout(timeout);
+    pendingControlQueries.delete(requestId);
+  }
+}
+
+/**
+ * Checks that the session's server is running and responsive.
+ */
+export async function pingSession(sessionId: string, timeoutMs: number = DEFAULT_CONTROL_TIMEOUT_MS): Promise<boolean> {
+  const reply = await queryControl(sessionId, 'PING', timeoutMs);
+  logger.debug('Session ping', { sessionId, alive: !!reply });
+  return reply !== null;
+}
+
+/**
+ * Asks the session's server for its uptime, pending requests and last
+ * activity. Returns null if the server does not answer within timeoutMs.
+ */
+export async function getSessionStatus(sessionId: string, timeoutMs: number = DEFAULT_CONTROL_TIMEOUT_MS): Promise<SessionStatus | null> {
+  const reply = await queryControl(sessionId, 'STATUS', timeoutMs);
+  return reply?.status ?? null;
+}
+
 export async function shutdownSession(sessionId: string): Promise<void> {
   logger.info('Sending shutdown control message', { sessionId });
   return sendControlMessage(sessionId, 'SHUTDOWN');
 }
 
+/**
+ * A session is live while a node is serving it, i.e. while its heartbeat key
+ * exists. This is checked on every request, so unlike pingSession it does not
+ * wait for the server to answer.
+ */
 export async function isLive(sessionId: string): Promise<boolean> {
-  // Check if the session is live by checking if the key exists in Redis
-  const numSubs = await redisClient.numsub(getToServerChannel(sessionId));
-  return numSubs > 0;
+  return await redisClient.exists(getHeartbeatKey(sessionId));
+}
+
+/**
+ * Atomically claims a session that no node is serving (no heartbeat), so
+ * that only one node rehydrates it. The claim lasts until the new server's
+ * transport starts writing its own heartbeat.
+ *
+ * @returns true if this caller won the claim
+ */
+export async function claimOrphanedSession(sessionId: string): Promise<boolean> {
+  const result = await redisClient.set(getHeartbeatKey(sessionId), 'claimed', {
+    NX: true,
+    EX: HEARTBEAT_TTL_SEC
+  });
+  return result === 'OK';
 }
 
 export async function setSessionOwner(sessionId: string, userId: string): Promise<void> {
   logger.debug('Setting session owner', { sessionId, userId });
-  await redisClient.set(`session:${sessionId}:owner`, userId);
+  await redisClient.set(getOwnerKey(sessionId), userId);
 }
 
 export async function getSessionOwner(sessionId: string): Promise<string | null> {
-  return await redisClient.get(`session:${sessionId}:owner`);
+  return await redisClient.get(getOwnerKey(sessionId));
 }
 
 export async function validateSessionOwnership(sessionId: string, userId: string): Promise<boolean> {
@@ -95,10 +258,23 @@ export async function isSessionOwnedBy(sessionId: string, userId: string): Promi
 }
 
 
-export async function redisRelayToMcpServer(sessionId: string, transport: Transport, isGetRequest: boolean = false): Promise<() => Promise<void>> {
+export interface RelayOptions {
+  /** Event store of the HTTP transport, used to reuse event IDs from the log */
+  eventStore?: RedisEventStore;
+  /**
+   * The HTTP transport answers with a single JSON body rather than an SSE
+   * stream, so it can only carry responses. Anything else the server sends
+   * for the request (progress, logging, server->client requests) is rerouted
+   * to the session's GET stream.
+   */
+  jsonResponse?: boolean;
+}
+
+export async function redisRelayToMcpServer(sessionId: string, transport: Transport, isGetRequest: boolean = false, { eventStore, jsonResponse = false }: RelayOptions = {}): Promise<() => Promise<void>> {
   logger.debug('Setting up Redis relay to MCP server', {
     sessionId,
-    isGetRequest
+    isGetRequest,
+    jsonResponse
   });
   
   let redisCleanup: (() => Promise<void>) | undefined = undefined;
@@ -122,11 +298,25 @@ export async function redisRelayToMcpServer(sessionId: string, transport: Transp
     redisCleanup = await redisClient.createSubscription(toClientChannel, async (redisMessageJson) => {
       const redisMessage = JSON.parse(redisMessageJson) as RedisMessage;
       if (redisMessage.type === 'mcp') {
+        const isResponse = isJSONRPCResultResponse(redisMessage.message) || isJSONRPCErrorResponse(redisMessage.message);
+        if (jsonResponse && !isResponse) {
+          logger.debug('Rerouting request-related message to GET stream', {
+            sessionId,
+            requestId,
+            method: ('method' in redisMessage.message ? redisMessage.message.method : undefined)
+          });
+          await publishToClient(sessionId, notificationStreamId, redisMessage.message);
+          return;
+        }
         logger.debug('Relaying message from Redis to client', {
           sessionId,
           requestId,
-          method: ('method' in redisMessage.message ? redisMessage.message.method : undefined)
+          method: ('method' in redisMessage.message ? redisMessage.message.method : undefined),
+          eventId: redisMessage.eventId
         });
+        if (eventStore && redisMessage.eventId) {
+          eventStore.assignEventId(redisMessage.message, redisMessage.eventId);
+        }
         await transport.send(redisMessage.message, redisMessage.options);
       }
     }, (error) => {
@@ -167,6 +357,21 @@ export async function redisRelayToMcpServer(sessionId: string, transport: Transp
 }
 
 
+export interface SessionExpiryOptions {
+  /** Shut the session down after this long without a message from the client */
+  inactivityTimeoutMs?: number;
+  /** Milliseconds since epoch at which the session is shut down regardless of activity */
+  expiresAt?: number;
+  /** Other keys of the session, which expire along with its owner key */
+  sessionKeys?: string[];
+  /**
+   * Keys shared with other sessions, such as indexes listing the session.
+   * Each session keeps them for its inactivity timeout, so a session near
+   * the end of its lifetime doesn't cut the others' time short.
+   */
+  indexKeys?: string[];
+}
+
 // New Redis transport for server->client messages using request-id based channels
 export class ServerRedisTransport implements Transport {
   private counter: number;
@@ -174,16 +379,90 @@ export class ServerRedisTransport implements Transport {
   private controlCleanup?: (() => Promise<void>);
   private serverCleanup?: (() => Promise<void>);
   private shouldShutdown = false;
+  private startedAt = 0;
+  private lastActivity = 0;
+  private pendingRequests = new Set<string>();
   private inactivityTimeout?: NodeJS.Timeout;
-  private readonly INACTIVITY_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+  private heartbeatInterval?: NodeJS.Timeout;
+  private expiryTimeout?: NodeJS.Timeout;
+  private readonly inactivityTimeoutMs: number;
+  private readonly expiresAt?: number;
+  private readonly sessionKeys: string[];
+  private readonly indexKeys: string[];
+  // Requests replayed on the server by this node, by ID, awaiting their response
+  private replayedRequests = new Map<string, (response: JSONRPCResponse) => void>();
 
   onclose?: (() => void) | undefined;
   onerror?: ((error: Error) => void) | undefined;
   onmessage?: ((message: JSONRPCMessage, extra?: { authInfo?: AuthInfo; }) => void) | undefined;
 
-  constructor(sessionId: string) {
+  constructor(sessionId: string, { inactivityTimeoutMs = DEFAULT_INACTIVITY_TIMEOUT_MS, expiresAt, sessionKeys = [], indexKeys = [] }: SessionExpiryOptions = {}) {
     this.counter = redisTransportCounter++;
     this._sessionId = sessionId;
+    this.inactivityTimeoutMs = inactivityTimeoutMs;
+    this.expiresAt = expiresAt;
+    this.sessionKeys = sessionKeys;
+    this.indexKeys = indexKeys;
+  }
+
+  /**
+   * Whether the transport was closed by a SHUTDOWN control message, i.e. the
+   * session has ended, rather than just this node stopping serving it.
+   */
+  get shutdownRequested(): boolean {
+    return this.shouldShutdown;
+  }
+
+  private async writeHeartbeat(): Promise<void> {
+    try {
+      await redisClient.set(getHeartbeatKey(this._sessionId), Date.now().toString(), { EX: HEARTBEAT_TTL_SEC });
+    } catch (error) {
+      logger.error('Failed to write session heartbeat', error as Error, {
+        sessionId: this._sessionId
+      });
+    }
+  }
+
+  /**
+   * Keeps the owner key alive for as long as the session may still be used:
+   * until the inactivity timeout, or the end of its lifetime if that is sooner.
+   * If the key expires (e.g. nobody serves the session any more), requests for
+   * the session get a 404 and the client re-initializes. The session's other
+   * keys expire with it.
+   */
+  private async refreshOwnerTtl(): Promise<void> {
+    const remainingMs = this.expiresAt === undefined
+      ? this.inactivityTimeoutMs
+      : Math.min(this.inactivityTimeoutMs, this.expiresAt - Date.now());
+    const ttlSec = Math.max(1, Math.ceil(remainingMs / 1000));
+    try {
+      for (const key of [getOwnerKey(this._sessionId), ...this.sessionKeys]) {
+        await redisClient.expire(key, ttlSec);
+      }
+      for (const key of this.indexKeys) {
+        await redisClient.expire(key, Math.ceil(this.inactivityTimeoutMs / 1000));
+      }
+    } catch (error) {
+      logger.error('Failed to refresh session owner TTL', error as Error, {
+        sessionId: this._sessionId
+      });
+    }
+  }
+
+  private scheduleExpiry(expiresAt: number): void {
+    const remainingMs = expiresAt - Date.now();
+    this.expiryTimeout = setTimeout(() => {
+      if (Date.now() < expiresAt) {
+        // Woke up early because the delay was clamped
+        this.scheduleExpiry(expiresAt);
+        return;
+      }
+      logger.info('Session reached its maximum lifetime', {
+        sessionId: this._sessionId,
+        expiresAt
+      });
+      void shutdownSession(this._sessionId);
+    }, Math.min(Math.max(remainingMs, 0), MAX_TIMER_DELAY_MS));
   }
 
   private resetInactivityTimer(): void {
@@ -196,10 +475,10 @@ export class ServerRedisTransport implements Transport {
     this.inactivityTimeout = setTimeout(() => {
       logger.info('Session timed out due to inactivity', {
         sessionId: this._sessionId,
-        timeoutMs: this.INACTIVITY_TIMEOUT_MS
+        timeoutMs: this.inactivityTimeoutMs
       });
       void shutdownSession(this._sessionId);
-    }, this.INACTIVITY_TIMEOUT_MS);
+    }, this.inactivityTimeoutMs);
   }
 
   private clearInactivityTimer(): void {
@@ -212,12 +491,20 @@ export class ServerRedisTransport implements Transport {
   async start(): Promise<void> {
     logger.info('Starting ServerRedisTransport', {
       sessionId: this._sessionId,
-      inactivityTimeoutMs: this.INACTIVITY_TIMEOUT_MS
+      inactivityTimeoutMs: this.inactivityTimeoutMs,
+      expiresAt: this.expiresAt
     });
     
+    this.startedAt = Date.now();
+    this.lastActivity = this.startedAt;
+
     // Start inactivity timer
     this.resetInactivityTimer();
-    
+    await this.refreshOwnerTtl();
+    if (this.expiresAt !== undefined) {
+      this.scheduleExpiry(this.expiresAt);
+    }
+
     // Subscribe to MCP messages from clients
     const serverChannel = getToServerChannel(this._sessionId);
     logger.debug('Subscribing to server channel', {
@@ -232,6 +519,11 @@ export class ServerRedisTransport implements Transport {
         if (redisMessage.type === 'mcp') {
           // Reset inactivity timer on each message from client
           this.resetInactivityTimer();
+          void this.refreshOwnerTtl();
+          this.lastActivity = Date.now();
+          if (isJSONRPCRequest(redisMessage.message)) {
+            this.pendingRequests.add(redisMessage.message.id.toString());
+          }
           
           logger.debug('Received MCP message from client', {
             sessionId: this._sessionId,
@@ -263,17 +555,21 @@ export class ServerRedisTransport implements Transport {
       (messageJson) => {
         const redisMessage = JSON.parse(messageJson) as RedisMessage;
         if (redisMessage.type === 'control') {
-          logger.info('Received control message', {
-            sessionId: this._sessionId,
-            action: redisMessage.action
-          });
+          // PING/STATUS arrive on every liveness check, so only log them at debug
+          const logMetadata = { sessionId: this._sessionId, action: redisMessage.action };
+          if (redisMessage.action === 'SHUTDOWN') {
+            logger.info('Received control message', logMetadata);
+          } else {
+            logger.debug('Received control message', logMetadata);
+          }
           
           if (redisMessage.action === 'SHUTDOWN') {
             logger.info('Shutting down transport due to control message', {
               sessionId: this._sessionId
             });
-            this.shouldShutdown = true;
-            this.close();
+            void this.shutdown();
+          } else if (redisMessage.replyTo) {
+            void this.replyToControl(redisMessage.action, redisMessage.replyTo, redisMessage.requestId);
           }
         }
       },
@@ -285,7 +581,38 @@ export class ServerRedisTransport implements Transport {
         this.onerror?.(error);
       }
     );
-    
+
+    // Advertise that this node is serving the session, now that it receives
+    // the session's messages
+    await this.writeHeartbeat();
+    this.heartbeatInterval = setInterval(() => void this.writeHeartbeat(), HEARTBEAT_INTERVAL_MS);
+  }
+
+  private async replyToControl(action: 'PING' | 'STATUS', replyTo: string, requestId?: string): Promise<void> {
+    const reply: RedisMessage = {
+      type: 'control_reply',
+      action,
+      requestId,
+      timestamp: Date.now(),
+      status: action === 'STATUS' ? this.getStatus() : undefined
+    };
+    try {
+      await redisClient.publish(replyTo, JSON.stringify(reply));
+    } catch (error) {
+      logger.error('Failed to reply to control message', error as Error, {
+        sessionId: this._sessionId,
+        action
+      });
+    }
+  }
+
+  private getStatus(): SessionStatus {
+    return {
+      sessionId: this._sessionId,
+      uptimeMs: Date.now() - this.startedAt,
+      pendingRequests: this.pendingRequests.size,
+      lastActivity: this.lastActivity
+    };
   }
 
   async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
@@ -300,9 +627,40 @@ export class ServerRedisTransport implements Transport {
       relatedRequestId
     });
 
-    const redisMessage: RedisMessage = { type: 'mcp', message, options };
-    const messageStr = JSON.stringify(redisMessage);
-    await redisClient.publish(channel, messageStr);
+    if (isJSONRPCResultResponse(message) || isJSONRPCErrorResponse(message)) {
+      const onReplayed = this.replayedRequests.get(String(message.id));
+      if (onReplayed) {
+        this.replayedRequests.delete(String(message.id));
+        onReplayed(message);
+        return;
+      }
+      this.pendingRequests.delete(String(message.id));
+    }
+
+    await publishToClient(this._sessionId, relatedRequestId, message, options);
+  }
+
+  /**
+   * Hands a request to the server as if the client had sent it, e.g. to
+   * replay the session's initialize request when rehydrating the session.
+   * The server's response is returned rather than sent to the client.
+   */
+  async replayRequest(request: Omit<JSONRPCRequest, 'jsonrpc' | 'id'>): Promise<JSONRPCResponse> {
+    if (!this.onmessage) {
+      throw new Error('Transport is not connected to a server');
+    }
+    const id = `replay:${randomUUID()}`;
+    const response = new Promise<JSONRPCResponse>(resolve => this.replayedRequests.set(id, resolve));
+    this.onmessage({ ...request, jsonrpc: '2.0', id });
+    return response;
+  }
+
+  /**
+   * Ends the session for good, as if a SHUTDOWN control message had arrived.
+   */
+  async shutdown(): Promise<void> {
+    this.shouldShutdown = true;
+    await this.close();
   }
 
   async close(): Promise<void> {
@@ -311,8 +669,20 @@ export class ServerRedisTransport implements Transport {
       wasShutdown: this.shouldShutdown
     });
     
-    // Clear inactivity timer
+    // Clear inactivity and lifetime timers
     this.clearInactivityTimer();
+    if (this.expiryTimeout) {
+      clearTimeout(this.expiryTimeout);
+      this.expiryTimeout = undefined;
+    }
+
+    // Stop advertising this node; if the session lives on, another node can
+    // pick it up straight away
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = undefined;
+      await redisClient.del(getHeartbeatKey(this._sessionId));
+    }
     
     // Clean up server message subscription
     if (this.serverCleanup) {
@@ -325,24 +695,42 @@ export class ServerRedisTransport implements Transport {
       await this.controlCleanup();
       this.controlCleanup = undefined;
     }
+
+    // The session is gone, so its events can no longer be resumed and it
+    // must not be rehydrated
+    if (this.shouldShutdown) {
+      await deleteSessionEvents(this._sessionId);
+      await redisClient.del(getOwnerKey(this._sessionId));
+    }
     
     this.onclose?.();
   }
 }
 
-export async function getShttpTransport(sessionId: string, onsessionclosed: (sessionId: string) => void | Promise<void>, isGetRequest: boolean = false): Promise<StreamableHTTPServerTransport> {
+export interface ShttpTransportOptions {
+  /** JSON-RPC request ID carried by the POST, see RedisEventStore */
+  requestStreamKey?: string;
+  /** Answer POSTs with application/json instead of an SSE stream */
+  jsonResponse?: boolean;
+}
+
+export async function getShttpTransport(sessionId: string, onsessionclosed: (sessionId: string) => void | Promise<void>, isGetRequest: boolean = false, { requestStreamKey, jsonResponse = false }: ShttpTransportOptions = {}): Promise<StreamableHTTPServerTransport> {
   logger.debug('Getting StreamableHTTPServerTransport for existing session', {
     sessionId,
-    isGetRequest
+    isGetRequest,
+    jsonResponse
   });
   
   // Inject the existing session ID so the transport resumes it instead of
   // creating a new one. SDK 1.29 made sessionId readonly on the wrapper, but
   // the underlying web-standard transport still exposes it as a writable field;
   // _initialized must also be set so validateSession accepts non-init requests.
+  const eventStore = new RedisEventStore(sessionId, requestStreamKey);
   const shttpTransport = new StreamableHTTPServerTransport({
     sessionIdGenerator: () => sessionId,
     onsessionclosed,
+    eventStore,
+    enableJsonResponse: jsonResponse,
   })
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const inner = (shttpTransport as any)['_webStandardTransport'];
@@ -350,7 +738,7 @@ export async function getShttpTransport(sessionId: string, onsessionclosed: (ses
   inner._initialized = true;
 
   // Use the new request-id based relay approach
-  const cleanup = await redisRelayToMcpServer(sessionId, shttpTransport, isGetRequest);
+  const cleanup = await redisRelayToMcpServer(sessionId, shttpTransport, isGetRequest, { eventStore, jsonResponse });
   shttpTransport.onclose = cleanup; 
   return shttpTransport;
 }
\ No newline at end of file
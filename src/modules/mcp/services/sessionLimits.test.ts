@@ -0,0 +1,93 @@
+import { jest } from '@jest/globals';
+import { MockRedisClient, setRedisClient } from '../../shared/redis.js';
+import { enforceSessionLimits } from './sessionLimits.js';
+import { listUserSessions, registerSession } from './sessionRegistry.js';
+import { ServerRedisTransport } from './redisTransport.js';
+
+describe('Session Limits', () => {
+  let mockRedis: MockRedisClient;
+
+  beforeEach(() => {
+    mockRedis = new MockRedisClient();
+    setRedisClient(mockRedis);
+    jest.resetAllMocks();
+  });
+
+  const serverTransports: ServerRedisTransport[] = [];
+
+  afterEach(async () => {
+    await Promise.all(serverTransports.splice(0).map(transport => transport.close()));
+    mockRedis.clear();
+  });
+
+  const startSession = async (sessionId: string, userId: string, clientId: string, createdAt: number) => {
+    const transport = new ServerRedisTransport(sessionId);
+    await transport.start();
+    serverTransports.push(transport);
+    await registerSession(sessionId, { userId, clientId, createdAt });
+    return transport;
+  };
+
+  it('should allow sessions when no limits are configured', async () => {
+    await startSession('session-1', 'user-1', 'client-1', 1000);
+
+    expect(await enforceSessionLimits('user-1', 'client-1', {})).toEqual({ allowed: true });
+  });
+
+  it('should reject a user at their session limit', async () => {
+    await startSession('session-1', 'user-1', 'client-1', 1000);
+    await startSession('session-2', 'user-1', 'client-2', 2000);
+
+    expect(await enforceSessionLimits('user-1', 'client-3', { maxSessionsPerUser: 2 }))
+      .toEqual({ allowed: false, scope: 'user', limit: 2 });
+
+    // Other users are unaffected
+    expect(await enforceSessionLimits('user-2', 'client-3', { maxSessionsPerUser: 2 }))
+      .toEqual({ allowed: true });
+  });
+
+  it('should count sessions per OAuth client across users', async () => {
+    await startSession('session-1', 'user-1', 'client-1', 1000);
+    await startSession('session-2', 'user-2', 'client-1', 2000);
+
+    expect(await enforceSessionLimits('user-3', 'client-1', { maxSessionsPerClient: 2 }))
+      .toEqual({ allowed: false, scope: 'client', limit: 2 });
+  });
+
+  it('should not count sessions that are no longer live', async () => {
+    const transport = await startSession('session-1', 'user-1', 'client-1', 1000);
+    await transport.close();
+
+    expect(await enforceSessionLimits('user-1', 'client-1', { maxSessionsPerUser: 1 }))
+      .toEqual({ allowed: true });
+  });
+
+  it('should evict the least recently active session when configured to', async () => {
+    await startSession('oldest', 'user-1', 'client-1', 1000);
+    await startSession('newest', 'user-1', 'client-1', 2000);
+    const controlHandler = jest.fn();
+    await mockRedis.createSubscription('mcp:control:oldest', controlHandler, jest.fn());
+
+    const result = await enforceSessionLimits('user-1', 'client-1', {
+      maxSessionsPerUser: 2,
+      onLimitExceeded: 'evict_oldest'
+    });
+
+    expect(result).toEqual({ allowed: true });
+    expect(controlHandler).toHaveBeenCalledWith(expect.stringContaining('"action":"SHUTDOWN"'));
+    expect((await listUserSessions('user-1')).map(session => session.sessionId)).toEqual(['newest']);
+  });
+
+  it('should never evict other users\' sessions to make room under the client cap', async () => {
+    await startSession('other-user', 'user-2', 'client-1', 1000);
+    await startSession('own', 'user-1', 'client-1', 2000);
+
+    const result = await enforceSessionLimits('user-1', 'client-1', {
+      maxSessionsPerClient: 2,
+      onLimitExceeded: 'evict_oldest'
+    });
+
+    expect(result).toEqual({ allowed: false, scope: 'client', limit: 2 });
+    expect((await listUserSessions('user-2')).map(session => session.sessionId)).toEqual(['other-user']);
+  });
+});
@@ -0,0 +1,84 @@
+import { logger } from "../../shared/logger.js";
+import { shutdownSession } from "./redisTransport.js";
+import { listClientSessions, listUserSessions, SessionInfo, unregisterSession } from "./sessionRegistry.js";
+
+/**
+ * Caps on concurrently live sessions. A limit of 0 or undefined means no cap.
+ */
+export interface SessionLimits {
+  maxSessionsPerUser?: number;
+  maxSessionsPerClient?: number;
+  /**
+   * What to do when a new session would exceed a cap:
+   * - reject: refuse the initialize request (default)
+   * - evict_oldest: shut down the user's least recently active sessions to
+   *   make room. The per-client cap always rejects, as the client's sessions
+   *   belong to other users too.
+   */
+  onLimitExceeded?: 'reject' | 'evict_oldest';
+}
+
+export type SessionLimitResult =
+  | { allowed: true }
+  | { allowed: false; scope: 'user' | 'client'; limit: number };
+
+/**
+ * Checks whether a user may open another session with the given OAuth
+ * client, evicting the user's older sessions first when configured to.
+ *
+ * The check and the later registerSession() are not atomic, so concurrent
+ * initialize requests can briefly overshoot a cap by a few sessions.
+ */
+export async function enforceSessionLimits(
+  userId: string,
+  clientId: string | undefined,
+  { maxSessionsPerUser, maxSessionsPerClient, onLimitExceeded = 'reject' }: SessionLimits
+): Promise<SessionLimitResult> {
+  const checks: { scope: 'user' | 'client'; limit?: number; list: () => Promise<SessionInfo[]> }[] = [
+    { scope: 'user', limit: maxSessionsPerUser, list: () => listUserSessions(userId) },
+    { scope: 'client', limit: clientId ? maxSessionsPerClient : undefined, list: () => listClientSessions(clientId!) },
+  ];
+
+  for (const { scope, limit, list } of checks) {
+    if (!limit) {
+      continue;
+    }
+
+    // Most recently active first
+    const sessions = await list();
+    if (sessions.length < limit) {
+      continue;
+    }
+
+    // Only ever evict the user's own sessions, never other users' sessions
+    // of a shared client
+    if (scope === 'client' || onLimitExceeded !== 'evict_oldest') {
+      logger.warning('Session limit exceeded', {
+        userId,
+        clientId,
+        scope,
+        limit,
+        liveSessions: sessions.length
+      });
+      return { allowed: false, scope, limit };
+    }
+
+    // Leave room for the session about to be created
+    const evicted = sessions.slice(limit - 1);
+    for (const session of evicted) {
+      logger.info('Evicting least recently active session', {
+        sessionId: session.sessionId,
+        userId,
+        clientId,
+        scope,
+        limit,
+        lastActivityAt: session.lastActivityAt
+      });
+      await shutdownSession(session.sessionId);
+      // Stop counting it now; its server may take a moment to shut down
+      await unregisterSession(session.sessionId);
+    }
+  }
+
+  return { allowed: true };
+}
@@ -0,0 +1,102 @@
+import { jest } from '@jest/globals';
+import { MockRedisClient, setRedisClient } from '../../shared/redis.js';
+import { getSessionInfo, listSessions, registerSession, touchSession, unregisterSession } from './sessionRegistry.js';
+import { ServerRedisTransport, setSessionOwner } from './redisTransport.js';
+
+describe('Session Registry', () => {
+  let mockRedis: MockRedisClient;
+
+  beforeEach(() => {
+    mockRedis = new MockRedisClient();
+    setRedisClient(mockRedis);
+    jest.resetAllMocks();
+  });
+
+  const serverTransports: ServerRedisTransport[] = [];
+
+  afterEach(async () => {
+    await Promise.all(serverTransports.splice(0).map(transport => transport.close()));
+    mockRedis.clear();
+  });
+
+  // A session is live while its server transport answers PING
+  const makeLive = async (sessionId: string) => {
+    const transport = new ServerRedisTransport(sessionId);
+    await transport.start();
+    serverTransports.push(transport);
+    return transport;
+  };
+
+  it('should report registered live sessions with their metadata', async () => {
+    await makeLive('session-1');
+    await registerSession('session-1', {
+      userId: 'user-1',
+      clientInfo: { name: 'test-client', version: '1.0.0' },
+      protocolVersion: '2025-06-18',
+      createdAt: 1000
+    });
+
+    expect(await getSessionInfo('session-1')).toEqual({
+      sessionId: 'session-1',
+      userId: 'user-1',
+      clientInfo: { name: 'test-client', version: '1.0.0' },
+      protocolVersion: '2025-06-18',
+      createdAt: 1000,
+      lastActivityAt: 1000
+    });
+  });
+
+  it('should track last activity separately from creation time', async () => {
+    await makeLive('session-1');
+    await registerSession('session-1', { userId: 'user-1', createdAt: 1000 });
+
+    await touchSession('session-1');
+
+    const info = await getSessionInfo('session-1');
+    expect(info?.createdAt).toBe(1000);
+    expect(info?.lastActivityAt).toBeGreaterThan(1000);
+  });
+
+  it('should list sessions most recently active first', async () => {
+    await makeLive('older');
+    await makeLive('newer');
+    await registerSession('older', { userId: 'user-1', createdAt: 1000 });
+    await registerSession('newer', { userId: 'user-2', createdAt: 2000 });
+
+    const sessions = await listSessions();
+
+    expect(sessions.map(session => session.sessionId)).toEqual(['newer', 'older']);
+  });
+
+  it('should prune sessions that are no longer live', async () => {
+    const transport = await makeLive('session-1');
+    await registerSession('session-1', { userId: 'user-1', createdAt: 1000 });
+    await transport.close();
+
+    expect(await listSessions()).toEqual([]);
+    expect(await mockRedis.smembers('mcp:sessions')).toEqual([]);
+    expect(await mockRedis.exists('session:session-1:info')).toBe(false);
+  });
+
+  it('should fall back to the owner key for sessions without metadata', async () => {
+    await makeLive('legacy-session');
+    await setSessionOwner('legacy-session', 'user-1');
+
+    expect(await getSessionInfo('legacy-session')).toEqual({
+      sessionId: 'legacy-session',
+      userId: 'user-1',
+      createdAt: 0,
+      lastActivityAt: 0
+    });
+  });
+
+  it('should remove all registry keys on unregister', async () => {
+    await registerSession('session-1', { userId: 'user-1', createdAt: 1000 });
+
+    await unregisterSession('session-1');
+
+    expect(await mockRedis.smembers('mcp:sessions')).toEqual([]);
+    expect(await mockRedis.exists('session:session-1:info')).toBe(false);
+    expect(await mockRedis.exists('session:session-1:lastActivity')).toBe(false);
+  });
+});
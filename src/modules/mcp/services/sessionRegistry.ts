@@ -0,0 +1,197 @@
+import { ClientCapabilities, Implementation } from "@modelcontextprotocol/sdk/types.js";
+import { redisClient } from "../../shared/redis.js";
+import { logger } from "../../shared/logger.js";
+import { getSessionOwner, isLive } from "./redisTransport.js";
+import type { McpServerState } from "./mcp.js";
+
+// Index of every session that has been initialized and not yet shut down
+const SESSION_INDEX_KEY = "mcp:sessions";
+
+// Per-owner indexes, used to enforce concurrent session limits
+function getUserSessionsKey(userId: string): string {
+  return `mcp:sessions:user:${userId}`;
+}
+
+function getClientSessionsKey(clientId: string): string {
+  return `mcp:sessions:client:${clientId}`;
+}
+
+/**
+ * What we record about a session when it is initialized.
+ */
+export interface SessionMetadata {
+  userId: string;
+  /** OAuth client the session's token was issued to */
+  clientId?: string;
+  /** Grant the session's token belongs to, so revoking it ends the session */
+  grantId?: string;
+  /** clientInfo from the initialize request */
+  clientInfo?: Implementation;
+  /** capabilities from the initialize request, needed to rehydrate the session */
+  clientCapabilities?: ClientCapabilities;
+  protocolVersion?: string;
+  /** Milliseconds since epoch */
+  createdAt: number;
+}
+
+/**
+ * A live session, as reported by the admin API.
+ */
+export interface SessionInfo extends SessionMetadata {
+  sessionId: string;
+  /** Milliseconds since epoch of the last HTTP request on the session */
+  lastActivityAt: number;
+}
+
+function getSessionInfoKey(sessionId: string): string {
+  return `session:${sessionId}:info`;
+}
+
+function getLastActivityKey(sessionId: string): string {
+  return `session:${sessionId}:lastActivity`;
+}
+
+function getServerStateKey(sessionId: string): string {
+  return `session:${sessionId}:state`;
+}
+
+/**
+ * Keys holding a session's registry entries. The session's server expires
+ * them along with its owner key.
+ */
+export function getSessionKeys(sessionId: string): string[] {
+  return [getSessionInfoKey(sessionId), getLastActivityKey(sessionId), getServerStateKey(sessionId)];
+}
+
+/**
+ * Keys of the indexes listing a session, which it shares with other sessions.
+ */
+export function getSessionIndexKeys({ userId, clientId }: SessionMetadata): string[] {
+  return [SESSION_INDEX_KEY, getUserSessionsKey(userId), ...(clientId ? [getClientSessionsKey(clientId)] : [])];
+}
+
+/**
+ * Records a new session. Register it before starting its server, which
+ * gives the entries their expiry.
+ */
+export async function registerSession(sessionId: string, metadata: SessionMetadata): Promise<void> {
+  logger.debug('Registering session', { sessionId, userId: metadata.userId });
+  await redisClient.set(getSessionInfoKey(sessionId), JSON.stringify(metadata));
+  await redisClient.set(getLastActivityKey(sessionId), metadata.createdAt.toString());
+  await redisClient.sadd(SESSION_INDEX_KEY, sessionId);
+  await redisClient.sadd(getUserSessionsKey(metadata.userId), sessionId);
+  if (metadata.clientId) {
+    await redisClient.sadd(getClientSessionsKey(metadata.clientId), sessionId);
+  }
+}
+
+/**
+ * Records activity on a session. Kept separate from the metadata so that
+ * concurrent requests never overwrite each other's writes.
+ */
+export async function touchSession(sessionId: string): Promise<void> {
+  await redisClient.set(getLastActivityKey(sessionId), Date.now().toString(), { KEEPTTL: true });
+}
+
+export async function unregisterSession(sessionId: string): Promise<void> {
+  logger.debug('Unregistering session', { sessionId });
+  const metadataJson = await redisClient.get(getSessionInfoKey(sessionId));
+  if (metadataJson) {
+    const { userId, clientId } = JSON.parse(metadataJson) as SessionMetadata;
+    await redisClient.srem(getUserSessionsKey(userId), sessionId);
+    if (clientId) {
+      await redisClient.srem(getClientSessionsKey(clientId), sessionId);
+    }
+  }
+  await redisClient.srem(SESSION_INDEX_KEY, sessionId);
+  await redisClient.del(getSessionInfoKey(sessionId));
+  await redisClient.del(getLastActivityKey(sessionId));
+  await redisClient.del(getServerStateKey(sessionId));
+}
+
+/**
+ * Returns what was recorded when the session was initialized, whether or
+ * not the session is currently live.
+ */
+export async function getSessionMetadata(sessionId: string): Promise<SessionMetadata | null> {
+  const metadataJson = await redisClient.get(getSessionInfoKey(sessionId));
+  return metadataJson ? JSON.parse(metadataJson) : null;
+}
+
+/**
+ * Persists the session's MCP server state, so another node can rehydrate
+ * the session if the node serving it goes away.
+ */
+export async function saveServerState(sessionId: string, state: McpServerState): Promise<void> {
+  await redisClient.set(getServerStateKey(sessionId), JSON.stringify(state), { KEEPTTL: true });
+}
+
+export async function loadServerState(sessionId: string): Promise<McpServerState | undefined> {
+  const stateJson = await redisClient.get(getServerStateKey(sessionId));
+  return stateJson ? JSON.parse(stateJson) : undefined;
+}
+
+/**
+ * Returns the session's details, or null if it is not live.
+ */
+export async function getSessionInfo(sessionId: string): Promise<SessionInfo | null> {
+  if (!(await isLive(sessionId))) {
+    return null;
+  }
+
+  const lastActivity = await redisClient.get(getLastActivityKey(sessionId));
+
+  // Sessions created before the registry existed only have an owner key
+  const metadata: SessionMetadata = await getSessionMetadata(sessionId)
+    ?? { userId: await getSessionOwner(sessionId) ?? 'unknown', createdAt: 0 };
+
+  return {
+    sessionId,
+    ...metadata,
+    lastActivityAt: lastActivity ? Number(lastActivity) : metadata.createdAt,
+  };
+}
+
+/**
+ * Lists all live sessions, most recently active first.
+ *
+ * Index entries for sessions that are no longer live (e.g. whose server went
+ * away without a clean shutdown) are pruned along the way.
+ */
+export async function listSessions(): Promise<SessionInfo[]> {
+  return listIndexedSessions(SESSION_INDEX_KEY);
+}
+
+/**
+ * Lists the live sessions owned by a user, most recently active first.
+ */
+export async function listUserSessions(userId: string): Promise<SessionInfo[]> {
+  return listIndexedSessions(getUserSessionsKey(userId));
+}
+
+/**
+ * Lists the live sessions opened with an OAuth client's tokens, most
+ * recently active first.
+ */
+export async function listClientSessions(clientId: string): Promise<SessionInfo[]> {
+  return listIndexedSessions(getClientSessionsKey(clientId));
+}
+
+async function listIndexedSessions(indexKey: string): Promise<SessionInfo[]> {
+  const sessionIds = await redisClient.smembers(indexKey);
+  const sessions: SessionInfo[] = [];
+
+  for (const sessionId of sessionIds) {
+    const info = await getSessionInfo(sessionId);
+    if (info) {
+      sessions.push(info);
+    } else {
+      logger.debug('Pruning dead session from index', { sessionId, indexKey });
+      await unregisterSession(sessionId);
+      // Sessions without metadata are only removed from the index being read
+      await redisClient.srem(indexKey, sessionId);
+    }
+  }
+
+  return sessions.sort((a, b) => b.lastActivityAt - a.lastActivityAt);
+}
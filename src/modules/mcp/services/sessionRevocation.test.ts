@@ -0,0 +1,78 @@
+import { jest } from '@jest/globals';
+import { MockRedisClient, setRedisClient } from '../../shared/redis.js';
+import { publishRevocation } from '../../../interfaces/revocation-events.js';
+import { registerSession } from './sessionRegistry.js';
+import { isLive, ServerRedisTransport } from './redisTransport.js';
+import { closeLocalSessions, startSessionServer } from './sessionServer.js';
+import { endRevokedSessions, listenForRevocations } from './sessionRevocation.js';
+
+describe('Session Revocation', () => {
+  let mockRedis: MockRedisClient;
+
+  beforeEach(() => {
+    mockRedis = new MockRedisClient();
+    setRedisClient(mockRedis);
+    jest.resetAllMocks();
+  });
+
+  const otherNodeTransports: ServerRedisTransport[] = [];
+
+  afterEach(async () => {
+    await closeLocalSessions();
+    await Promise.all(otherNodeTransports.splice(0).map(transport => transport.close()));
+    mockRedis.clear();
+  });
+
+  // Starts a session served by this node
+  const startSession = async (sessionId: string, userId: string, clientId: string, grantId?: string) => {
+    const metadata = { userId, clientId, grantId, createdAt: Date.now() };
+    await registerSession(sessionId, metadata);
+    await startSessionServer(sessionId, metadata);
+  };
+
+  it('should shut down the sessions the user opened with the revoked client', async () => {
+    await startSession('session-1', 'user-1', 'client-1');
+    await startSession('session-2', 'user-1', 'client-2');
+    await startSession('session-3', 'user-2', 'client-1');
+
+    const ended = await endRevokedSessions({ userId: 'user-1', clientId: 'client-1' });
+
+    expect(ended).toBe(1);
+    expect(await isLive('session-1')).toBe(false);
+    expect(await isLive('session-2')).toBe(true);
+    expect(await isLive('session-3')).toBe(true);
+  });
+
+  it('should only shut down the sessions of the revoked grant', async () => {
+    await startSession('session-1', 'user-1', 'client-1', 'grant-1');
+    await startSession('session-2', 'user-1', 'client-1', 'grant-2');
+
+    const ended = await endRevokedSessions({ userId: 'user-1', clientId: 'client-1', grantId: 'grant-1' });
+
+    expect(ended).toBe(1);
+    expect(await isLive('session-1')).toBe(false);
+    expect(await isLive('session-2')).toBe(true);
+  });
+
+  it('should leave sessions served by other nodes to them', async () => {
+    const transport = new ServerRedisTransport('session-elsewhere');
+    await transport.start();
+    otherNodeTransports.push(transport);
+    await registerSession('session-elsewhere', { userId: 'user-1', clientId: 'client-1', createdAt: Date.now() });
+
+    expect(await endRevokedSessions({ userId: 'user-1', clientId: 'client-1' })).toBe(0);
+    expect(await isLive('session-elsewhere')).toBe(true);
+  });
+
+  it('should end sessions when the auth server announces a revocation', async () => {
+    await startSession('session-1', 'user-1', 'client-1', 'grant-1');
+    const stopListening = await listenForRevocations();
+
+    await publishRevocation(mockRedis, { userId: 'user-1', clientId: 'client-1', grantId: 'grant-1' });
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(await isLive('session-1')).toBe(false);
+
+    await stopListening();
+  });
+});
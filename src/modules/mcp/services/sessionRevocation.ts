@@ -0,0 +1,47 @@
+import { redisClient } from "../../shared/redis.js";
+import { logger } from "../../shared/logger.js";
+import { RevocationEvent, subscribeToRevocations } from "../../../interfaces/revocation-events.js";
+import { getSessionMetadata, SessionMetadata } from "./sessionRegistry.js";
+import { getLocalSessionIds, shutdownLocalSession } from "./sessionServer.js";
+
+/**
+ * Whether a session was opened under a revoked grant. Sessions recorded
+ * without a grant ID can only be matched by user and client.
+ */
+function isRevoked(metadata: SessionMetadata, { userId, clientId, grantId }: RevocationEvent): boolean {
+  return metadata.userId === userId
+    && metadata.clientId === clientId
+    && (!grantId || !metadata.grantId || metadata.grantId === grantId);
+}
+
+/**
+ * Ends the sessions served by this node that were opened under a revoked
+ * grant. Sessions on other nodes are left to the node serving them.
+ * @returns The number of sessions ended
+ */
+export async function endRevokedSessions(event: RevocationEvent): Promise<number> {
+  let ended = 0;
+  for (const sessionId of getLocalSessionIds()) {
+    const metadata = await getSessionMetadata(sessionId);
+    if (metadata && isRevoked(metadata, event) && await shutdownLocalSession(sessionId)) {
+      ended++;
+    }
+  }
+
+  if (ended > 0) {
+    logger.info('Ended sessions of revoked grant', { userId: event.userId, clientId: event.clientId, sessions: ended });
+  }
+  return ended;
+}
+
+/**
+ * Ends sessions as the auth server revokes the grants they were opened
+ * under. Every node listens and ends the sessions it serves, so a session is
+ * ended wherever it runs.
+ * @returns A function that stops listening
+ */
+export async function listenForRevocations(): Promise<() => Promise<void>> {
+  return subscribeToRevocations(redisClient, async (event) => {
+    await endRevokedSessions(event);
+  });
+}
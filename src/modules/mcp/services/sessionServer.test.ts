@@ -0,0 +1,149 @@
+import { jest } from '@jest/globals';
+import { MockRedisClient, setRedisClient } from '../../shared/redis.js';
+import { getSessionOwner, isLive, ServerRedisTransport, setSessionOwner, shutdownSession } from './redisTransport.js';
+import { loadServerState, registerSession, saveServerState } from './sessionRegistry.js';
+import { closeLocalSessions, getLocalSessionCount, recoverOrphanedSession } from './sessionServer.js';
+
+describe('Session Server', () => {
+  let mockRedis: MockRedisClient;
+  const sessionId = 'orphaned-session';
+  const userId = 'user-1';
+
+  beforeEach(async () => {
+    mockRedis = new MockRedisClient();
+    setRedisClient(mockRedis);
+    jest.resetAllMocks();
+
+    // What the node that originally served the session left behind
+    await setSessionOwner(sessionId, userId);
+    await registerSession(sessionId, {
+      userId,
+      clientInfo: { name: 'test-client', version: '1.0.0' },
+      clientCapabilities: { sampling: {} },
+      protocolVersion: '2025-06-18',
+      createdAt: Date.now()
+    });
+    await saveServerState(sessionId, {
+      logLevel: 'error',
+      subscriptions: ['test://static/resource/1']
+    });
+  });
+
+  afterEach(async () => {
+    // Stops any server started by the test
+    await shutdownSession(sessionId);
+    mockRedis.clear();
+  });
+
+  // Sends a client request through the relay channels and waits for the response
+  const callServer = async (id: string, method: string, params: Record<string, unknown>) => {
+    const responses: string[] = [];
+    const cleanup = await mockRedis.createSubscription(
+      `mcp:shttp:toclient:${sessionId}:${id}`,
+      (message) => responses.push(message),
+      jest.fn()
+    );
+    await mockRedis.publish(`mcp:shttp:toserver:${sessionId}`, JSON.stringify({
+      type: 'mcp',
+      message: { jsonrpc: '2.0', id, method, params }
+    }));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    await cleanup();
+    return responses.map(response => JSON.parse(response).message);
+  };
+
+  describe('recoverOrphanedSession', () => {
+    it('should rehydrate an owned session that no node is serving', async () => {
+      expect(await isLive(sessionId)).toBe(false);
+
+      expect(await recoverOrphanedSession(sessionId, userId)).toBe(true);
+
+      expect(await isLive(sessionId)).toBe(true);
+    });
+
+    it('should resume from the persisted server state', async () => {
+      await recoverOrphanedSession(sessionId, userId);
+
+      const [response] = await callServer('req-1', 'logging/setLevel', { level: 'warning' });
+      expect(response).toEqual({ jsonrpc: '2.0', id: 'req-1', result: {} });
+
+      // The restored subscription is still there alongside the new log level
+      expect(await loadServerState(sessionId)).toEqual({
+        logLevel: 'warning',
+        subscriptions: ['test://static/resource/1']
+      });
+    });
+
+    it('should not answer the replayed initialize request to the client', async () => {
+      const publishSpy = jest.spyOn(mockRedis, 'publish');
+
+      await recoverOrphanedSession(sessionId, userId);
+
+      expect(publishSpy).not.toHaveBeenCalledWith(expect.stringContaining('mcp:shttp:toclient:'), expect.anything());
+      expect(await mockRedis.xrange(`mcp:shttp:events:${sessionId}`, '-', '+')).toHaveLength(0);
+    });
+
+    it('should expire the session\'s registry entries with it', async () => {
+      const expireSpy = jest.spyOn(mockRedis, 'expire');
+
+      await recoverOrphanedSession(sessionId, userId);
+
+      expect(expireSpy).toHaveBeenCalledWith(`session:${sessionId}:info`, expect.any(Number));
+      expect(expireSpy).toHaveBeenCalledWith(`mcp:sessions:user:${userId}`, expect.any(Number));
+    });
+
+    it('should not recover sessions owned by another user', async () => {
+      expect(await recoverOrphanedSession(sessionId, 'someone-else')).toBe(false);
+      expect(await isLive(sessionId)).toBe(false);
+    });
+
+    it('should not recover a session that another node is still serving', async () => {
+      const otherNode = new ServerRedisTransport(sessionId);
+      await otherNode.start();
+
+      expect(await recoverOrphanedSession(sessionId, userId)).toBe(false);
+
+      await otherNode.close();
+    });
+
+    it('should let only one node win the claim', async () => {
+      const results = await Promise.all([
+        recoverOrphanedSession(sessionId, userId),
+        recoverOrphanedSession(sessionId, userId)
+      ]);
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('should not recover sessions that were shut down', async () => {
+      await recoverOrphanedSession(sessionId, userId);
+      await shutdownSession(sessionId);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(await recoverOrphanedSession(sessionId, userId)).toBe(false);
+    });
+  });
+
+  describe('closeLocalSessions', () => {
+    it('should shut down the sessions served by this node', async () => {
+      await recoverOrphanedSession(sessionId, userId);
+      expect(getLocalSessionCount()).toBe(1);
+
+      await closeLocalSessions();
+
+      expect(getLocalSessionCount()).toBe(0);
+      expect(await isLive(sessionId)).toBe(false);
+      expect(await getSessionOwner(sessionId)).toBeNull();
+    });
+
+    it('should leave sessions recoverable elsewhere when handing over', async () => {
+      await recoverOrphanedSession(sessionId, userId);
+
+      await closeLocalSessions({ handover: true });
+
+      expect(getLocalSessionCount()).toBe(0);
+      expect(await isLive(sessionId)).toBe(false);
+      expect(await recoverOrphanedSession(sessionId, userId)).toBe(true);
+    });
+  });
+});
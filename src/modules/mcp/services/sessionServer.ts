@@ -0,0 +1,159 @@
+import { isJSONRPCErrorResponse, LATEST_PROTOCOL_VERSION } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../../shared/logger.js";
+import { createMcpServer, McpServerState } from "./mcp.js";
+import { claimOrphanedSession, getSessionOwner, ServerRedisTransport } from "./redisTransport.js";
+import {
+  getSessionIndexKeys,
+  getSessionKeys,
+  getSessionMetadata,
+  loadServerState,
+  saveServerState,
+  SessionMetadata,
+  unregisterSession
+} from "./sessionRegistry.js";
+
+export interface SessionTimeouts {
+  /** Shut a session down after this many milliseconds without client messages */
+  inactivityTimeoutMs?: number;
+  /** Shut a session down this many milliseconds after it was created, however active (0 = unlimited) */
+  maxLifetimeMs?: number;
+}
+
+// Session servers running on this node, by session ID
+const localSessions = new Map<string, ServerRedisTransport>();
+
+function getExpiresAt(createdAt: number, maxLifetimeMs?: number): number | undefined {
+  return maxLifetimeMs ? createdAt + maxLifetimeMs : undefined;
+}
+
+/**
+ * Starts the MCP server for a session on this node, connected to the Redis
+ * relay through a ServerRedisTransport.
+ *
+ * Server state changes are persisted so the session can be rehydrated
+ * elsewhere. The session's registry entries expire with it, and are removed
+ * once it is shut down for good. The session's lifetime counts from its
+ * createdAt, so a recovered session keeps its original expiry.
+ *
+ * @returns The server's transport
+ */
+export async function startSessionServer(sessionId: string, metadata: SessionMetadata, { inactivityTimeoutMs, maxLifetimeMs }: SessionTimeouts = {}, initialState?: McpServerState) {
+  const { server, cleanup: mcpCleanup } = createMcpServer({
+    initialState,
+    onStateChange: (state) => saveServerState(sessionId, state)
+  });
+
+  const serverRedisTransport = new ServerRedisTransport(sessionId, {
+    inactivityTimeoutMs,
+    expiresAt: getExpiresAt(metadata.createdAt, maxLifetimeMs),
+    sessionKeys: getSessionKeys(sessionId),
+    indexKeys: getSessionIndexKeys(metadata)
+  });
+  serverRedisTransport.onclose = () => {
+    localSessions.delete(sessionId);
+    mcpCleanup();
+    if (serverRedisTransport.shutdownRequested) {
+      void unregisterSession(sessionId);
+    }
+  };
+  await server.connect(serverRedisTransport);
+  localSessions.set(sessionId, serverRedisTransport);
+
+  return serverRedisTransport;
+}
+
+/**
+ * Number of session servers running on this node.
+ */
+export function getLocalSessionCount(): number {
+  return localSessions.size;
+}
+
+/**
+ * IDs of the sessions whose servers run on this node.
+ */
+export function getLocalSessionIds(): string[] {
+  return Array.from(localSessions.keys());
+}
+
+/**
+ * Shuts down a session served by this node for good.
+ * @returns false if this node isn't serving the session
+ */
+export async function shutdownLocalSession(sessionId: string): Promise<boolean> {
+  const transport = localSessions.get(sessionId);
+  if (!transport) {
+    return false;
+  }
+  await transport.shutdown();
+  return true;
+}
+
+/**
+ * Stops every session server running on this node, e.g. when the process is
+ * shutting down. Each server's cleanup runs as its transport closes.
+ *
+ * By default the sessions are shut down for good. With handover, the servers
+ * just stop, leaving the sessions orphaned so another node can recover them
+ * on their next request (see recoverOrphanedSession).
+ */
+export async function closeLocalSessions({ handover = false }: { handover?: boolean } = {}): Promise<void> {
+  const transports = Array.from(localSessions.values());
+  logger.info('Closing local session servers', { count: transports.length, handover });
+  await Promise.all(transports.map(transport => handover ? transport.close() : transport.shutdown()));
+}
+
+/**
+ * Takes over a session whose server is no longer running anywhere, e.g.
+ * because its node was stopped during a deploy.
+ *
+ * The session must be owned by userId and have no heartbeat. One node wins
+ * the claim and re-creates the MCP server from the persisted state, replaying
+ * the client's original initialize request so the server knows the client's
+ * capabilities again.
+ *
+ * @returns true if the session was rehydrated on this node
+ */
+export async function recoverOrphanedSession(sessionId: string, userId: string, timeouts: SessionTimeouts = {}): Promise<boolean> {
+  if ((await getSessionOwner(sessionId)) !== userId) {
+    return false;
+  }
+
+  const metadata = await getSessionMetadata(sessionId);
+  if (!metadata) {
+    logger.debug('Not recovering session without metadata', { sessionId });
+    return false;
+  }
+
+  const expiresAt = getExpiresAt(metadata.createdAt, timeouts.maxLifetimeMs);
+  if (expiresAt !== undefined && expiresAt <= Date.now()) {
+    logger.debug('Not recovering session past its maximum lifetime', { sessionId, expiresAt });
+    return false;
+  }
+
+  if (!(await claimOrphanedSession(sessionId))) {
+    logger.debug('Session is still served elsewhere or already being recovered', { sessionId });
+    return false;
+  }
+
+  logger.info('Recovering orphaned session', { sessionId, userId });
+
+  const transport = await startSessionServer(sessionId, metadata, timeouts, await loadServerState(sessionId));
+
+  // The server learns the client's capabilities from its initialize request;
+  // the response is not sent anywhere, the client got it the first time
+  const response = await transport.replayRequest({
+    method: 'initialize',
+    params: {
+      protocolVersion: metadata.protocolVersion ?? LATEST_PROTOCOL_VERSION,
+      capabilities: metadata.clientCapabilities ?? {},
+      clientInfo: metadata.clientInfo ?? { name: 'unknown', version: 'unknown' }
+    }
+  });
+  if (isJSONRPCErrorResponse(response)) {
+    logger.warning('Server refused the replayed initialize request', { sessionId, error: response.error.message });
+  }
+
+  logger.info('Session recovered', { sessionId, userId });
+  return true;
+}
@@ -0,0 +1,59 @@
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { IUpstreamTokenSource, UpstreamToken, UpstreamTokenUnavailableError } from "../../../interfaces/upstream-tokens.js";
+
+const UPSTREAM_API_TIMEOUT_MS = 10 * 1000;
+
+export interface UpstreamApiConfig {
+  /** Where upstream access tokens come from */
+  tokens: IUpstreamTokenSource;
+  /** Base URL of the upstream API tools call on the user's behalf */
+  apiUrl: string;
+}
+
+let upstreamApi: UpstreamApiConfig | undefined;
+
+/**
+ * Sets up upstream API access for this process's MCP servers; without it,
+ * tools can't act on the user's behalf upstream.
+ */
+export function configureUpstreamApi(config: UpstreamApiConfig | undefined): void {
+  upstreamApi = config;
+}
+
+export function isUpstreamApiConfigured(): boolean {
+  return !!upstreamApi;
+}
+
+/**
+ * Returns a valid upstream access token for the user a request was
+ * authenticated as. Tools should call this for every upstream call rather
+ * than keep the token, as the auth server refreshes it when it nears expiry.
+ * @throws UpstreamTokenUnavailableError
+ */
+export async function getUpstreamToken(authInfo: AuthInfo | undefined): Promise<UpstreamToken> {
+  if (!upstreamApi) {
+    throw new UpstreamTokenUnavailableError('Upstream API access is not configured');
+  }
+  if (!authInfo) {
+    throw new UpstreamTokenUnavailableError('Request is not authenticated');
+  }
+  return upstreamApi.tokens.getUpstreamToken(authInfo.token);
+}
+
+/**
+ * Calls the upstream API on behalf of the user a request was authenticated as.
+ * @param path Path relative to the upstream API's base URL
+ * @throws UpstreamTokenUnavailableError
+ */
+export async function callUpstreamApi(authInfo: AuthInfo | undefined, path: string, init: RequestInit = {}): Promise<Response> {
+  const { accessToken } = await getUpstreamToken(authInfo);
+  const baseUrl = upstreamApi!.apiUrl.endsWith('/') ? upstreamApi!.apiUrl : `${upstreamApi!.apiUrl}/`;
+
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${accessToken}`);
+  return fetch(new URL(path, baseUrl), {
+    ...init,
+    headers,
+    signal: init.signal ?? AbortSignal.timeout(UPSTREAM_API_TIMEOUT_MS)
+  });
+}
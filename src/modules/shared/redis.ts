@@ -3,6 +3,14 @@ import { logger } from "./logger.js";
 
 const REDIS_URL = process.env.REDIS_URL || "redis://localhost:6379";
 
+/**
+ * A single entry read back from a Redis stream.
+ */
+export interface StreamEntry {
+  id: string;
+  message: Record<string, string>;
+}
+
 /**
  * Describes the Redis primitives we use in this application, to be able to mock
  * them in tests (so we don't need to actually hit Redis).
@@ -15,7 +23,15 @@ export interface RedisClient {
   expire(key: string, seconds: number): Promise<boolean>;
   lpush(key: string, ...values: string[]): Promise<number>;
   lrange(key: string, start: number, stop: number): Promise<string[]>;
+  xadd(key: string, fields: Record<string, string>, maxLen?: number): Promise<string>;
+  xrange(key: string, start: string, end: string): Promise<StreamEntry[]>;
+  sadd(key: string, ...members: string[]): Promise<number>;
+  srem(key: string, ...members: string[]): Promise<number>;
+  smembers(key: string): Promise<string[]>;
   connect(): Promise<void>;
+  /** Closes the connection once pending commands have completed */
+  disconnect(): Promise<void>;
+  ping(): Promise<string>;
   on(event: string, callback: (error: Error) => void): void;
   options?: { url: string };
   exists(key: string): Promise<boolean>;
@@ -90,10 +106,43 @@ export class RedisClientImpl implements RedisClient {
     return await this.redis.lRange(key, start, stop);
   }
 
+  async xadd(key: string, fields: Record<string, string>, maxLen?: number): Promise<string> {
+    return await this.redis.xAdd(
+      key,
+      "*",
+      fields,
+      maxLen ? { TRIM: { strategy: "MAXLEN", strategyModifier: "~", threshold: maxLen } } : undefined,
+    );
+  }
+
+  async xrange(key: string, start: string, end: string): Promise<StreamEntry[]> {
+    return await this.redis.xRange(key, start, end);
+  }
+
+  async sadd(key: string, ...members: string[]): Promise<number> {
+    return await this.redis.sAdd(key, members);
+  }
+
+  async srem(key: string, ...members: string[]): Promise<number> {
+    return await this.redis.sRem(key, members);
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    return await this.redis.sMembers(key);
+  }
+
   async connect(): Promise<void> {
     await this.redis.connect();
   }
 
+  async disconnect(): Promise<void> {
+    await this.redis.quit();
+  }
+
+  async ping(): Promise<string> {
+    return await this.redis.ping();
+  }
+
   on(event: string, callback: (error: Error) => void): void {
     this.redis.on(event, callback);
   }
@@ -146,6 +195,9 @@ export class MockRedisClient implements RedisClient {
   options = { url: "redis://localhost:6379" };
   private store = new Map<string, string>();
   private lists = new Map<string, string[]>();
+  private streams = new Map<string, StreamEntry[]>();
+  private sets = new Map<string, Set<string>>();
+  private lastStreamId = { ms: 0, seq: 0 };
   public subscribers = new Map<string, ((message: string) => void)[]>(); // Public for testing access
   private errorCallbacks = new Map<string, ((error: Error) => void)[]>();
 
@@ -160,12 +212,18 @@ export class MockRedisClient implements RedisClient {
   }
 
   async set(key: string, value: string, options?: SetOptions): Promise<string | null> {
+    if (options?.NX && this.store.has(key)) {
+      return null;
+    }
+    if (options?.XX && !this.store.has(key)) {
+      return null;
+    }
     let oldValue: string | null = null;
     if (options?.GET) {
       oldValue = this.store.get(key) ?? null;
     }
     this.store.set(key, value);
-    return oldValue;
+    return options?.NX || options?.XX ? "OK" : oldValue;
   }
 
   async del(key: string): Promise<number> {
@@ -178,12 +236,20 @@ export class MockRedisClient implements RedisClient {
       this.lists.delete(key);
       deleted++;
     }
+    if (this.streams.has(key)) {
+      this.streams.delete(key);
+      deleted++;
+    }
+    if (this.sets.has(key)) {
+      this.sets.delete(key);
+      deleted++;
+    }
     return deleted;
   }
 
   async expire(key: string, _seconds: number): Promise<boolean> {
     // Mock implementation - just return true if key exists
-    return this.store.has(key) || this.lists.has(key);
+    return this.store.has(key) || this.lists.has(key) || this.streams.has(key) || this.sets.has(key);
   }
 
   async lpush(key: string, ...values: string[]): Promise<number> {
@@ -201,10 +267,84 @@ export class MockRedisClient implements RedisClient {
     return list.slice(start, stop + 1);
   }
 
+  async xadd(key: string, fields: Record<string, string>, maxLen?: number): Promise<string> {
+    // Generate monotonically increasing "<ms>-<seq>" IDs like Redis does
+    const now = Date.now();
+    if (now > this.lastStreamId.ms) {
+      this.lastStreamId = { ms: now, seq: 0 };
+    } else {
+      this.lastStreamId.seq++;
+    }
+    const id = `${this.lastStreamId.ms}-${this.lastStreamId.seq}`;
+
+    const stream = this.streams.get(key) || [];
+    stream.push({ id, message: { ...fields } });
+    if (maxLen && stream.length > maxLen) {
+      stream.splice(0, stream.length - maxLen);
+    }
+    this.streams.set(key, stream);
+    return id;
+  }
+
+  async xrange(key: string, start: string, end: string): Promise<StreamEntry[]> {
+    const stream = this.streams.get(key) || [];
+    return stream.filter((entry) =>
+      MockRedisClient.streamIdInRange(entry.id, start, "start") &&
+      MockRedisClient.streamIdInRange(entry.id, end, "end")
+    );
+  }
+
+  async sadd(key: string, ...members: string[]): Promise<number> {
+    const set = this.sets.get(key) || new Set<string>();
+    const before = set.size;
+    members.forEach((member) => set.add(member));
+    this.sets.set(key, set);
+    return set.size - before;
+  }
+
+  async srem(key: string, ...members: string[]): Promise<number> {
+    const set = this.sets.get(key);
+    if (!set) {
+      return 0;
+    }
+    const removed = members.filter((member) => set.delete(member)).length;
+    if (set.size === 0) {
+      this.sets.delete(key);
+    }
+    return removed;
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    return Array.from(this.sets.get(key) || []);
+  }
+
+  private static streamIdInRange(id: string, bound: string, side: "start" | "end"): boolean {
+    if (bound === "-" || bound === "+") {
+      return true;
+    }
+    const exclusive = bound.startsWith("(");
+    const [boundMs, boundSeq = side === "start" ? "0" : `${Number.MAX_SAFE_INTEGER}`] =
+      (exclusive ? bound.slice(1) : bound).split("-");
+    const [idMs, idSeq] = id.split("-");
+    const cmp = Number(idMs) - Number(boundMs) || Number(idSeq) - Number(boundSeq);
+    if (side === "start") {
+      return exclusive ? cmp > 0 : cmp >= 0;
+    }
+    return exclusive ? cmp < 0 : cmp <= 0;
+  }
+
   async connect(): Promise<void> {
     // No-op in mock
   }
 
+  async disconnect(): Promise<void> {
+    // No-op in mock
+  }
+
+  async ping(): Promise<string> {
+    return "PONG";
+  }
+
   on(event: string, callback: (error: Error) => void): void {
     if (event === "error") {
       const callbacks = this.errorCallbacks.get("global") ?? [];
@@ -260,7 +400,7 @@ export class MockRedisClient implements RedisClient {
   }
 
   async exists(key: string): Promise<boolean> {
-    return this.store.has(key) || this.lists.has(key);
+    return this.store.has(key) || this.lists.has(key) || this.streams.has(key) || this.sets.has(key);
   }
 
   async numsub(key: string): Promise<number> {
@@ -270,6 +410,8 @@ export class MockRedisClient implements RedisClient {
   clear() {
     this.store.clear();
     this.lists.clear();
+    this.streams.clear();
+    this.sets.clear();
     this.subscribers.clear();
     this.errorCallbacks.clear();
   }
@@ -0,0 +1,97 @@
+import { jest } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { Request, Response } from 'express';
+import { ShutdownCoordinator } from './shutdown.js';
+
+describe('ShutdownCoordinator', () => {
+  // Passes a request through the coordinator's middleware; emitting 'finish'
+  // on the returned response ends it
+  const startRequest = (coordinator: ShutdownCoordinator, method = 'POST', accept = 'application/json') => {
+    const req = { method, headers: { accept } } as unknown as Request;
+    const res = new EventEmitter() as unknown as Response;
+    const next = jest.fn();
+    coordinator.middleware()(req, res, next);
+    expect(next).toHaveBeenCalled();
+    return res;
+  };
+
+  it('should start draining and run steps in order', async () => {
+    const coordinator = new ShutdownCoordinator({ drainTimeoutMs: 1000 });
+    const calls: string[] = [];
+    coordinator.onShutdown('first', () => { calls.push('first'); });
+    coordinator.onShutdown('second', async () => { calls.push('second'); });
+
+    expect(coordinator.isDraining).toBe(false);
+    await coordinator.shutdown('SIGTERM');
+
+    expect(coordinator.isDraining).toBe(true);
+    expect(calls).toEqual(['first', 'second']);
+  });
+
+  it('should wait for in-flight requests before running steps', async () => {
+    const coordinator = new ShutdownCoordinator({ drainTimeoutMs: 1000 });
+    const step = jest.fn();
+    coordinator.onShutdown('step', step);
+    const res = startRequest(coordinator);
+
+    const done = coordinator.shutdown('SIGTERM');
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(coordinator.inFlightRequests).toBe(1);
+    expect(step).not.toHaveBeenCalled();
+
+    res.emit('finish');
+    await done;
+    expect(step).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up waiting at the drain deadline', async () => {
+    const coordinator = new ShutdownCoordinator({ drainTimeoutMs: 20 });
+    const step = jest.fn();
+    coordinator.onShutdown('step', step);
+    startRequest(coordinator);
+
+    await coordinator.shutdown('SIGTERM');
+
+    expect(coordinator.inFlightRequests).toBe(1);
+    expect(step).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not wait for event streams', async () => {
+    const coordinator = new ShutdownCoordinator({ drainTimeoutMs: 1000 });
+    startRequest(coordinator, 'GET', 'text/event-stream');
+
+    expect(coordinator.inFlightRequests).toBe(0);
+  });
+
+  it('should count a request once when it both finishes and closes', () => {
+    const coordinator = new ShutdownCoordinator({ drainTimeoutMs: 1000 });
+    startRequest(coordinator);
+    const res = startRequest(coordinator);
+
+    res.emit('finish');
+    res.emit('close');
+
+    expect(coordinator.inFlightRequests).toBe(1);
+  });
+
+  it('should keep running steps after one fails', async () => {
+    const coordinator = new ShutdownCoordinator({ drainTimeoutMs: 1000 });
+    const step = jest.fn();
+    coordinator.onShutdown('failing', () => { throw new Error('boom'); });
+    coordinator.onShutdown('step', step);
+
+    await coordinator.shutdown('SIGTERM');
+
+    expect(step).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only shut down once', async () => {
+    const coordinator = new ShutdownCoordinator({ drainTimeoutMs: 1000 });
+    const step = jest.fn();
+    coordinator.onShutdown('step', step);
+
+    await Promise.all([coordinator.shutdown('SIGTERM'), coordinator.shutdown('SIGINT')]);
+
+    expect(step).toHaveBeenCalledTimes(1);
+  });
+});
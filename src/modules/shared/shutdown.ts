@@ -0,0 +1,130 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from './logger.js';
+
+export interface ShutdownOptions {
+  /** How long to wait for in-flight requests before shutting down anyway */
+  drainTimeoutMs: number;
+}
+
+interface ShutdownStep {
+  name: string;
+  run: () => void | Promise<void>;
+}
+
+// Long-lived streams (GET /mcp, /sse) never finish on their own, so they are
+// not waited for; they end when their connection is closed.
+function isEventStream(req: Request): boolean {
+  return req.method === 'GET' && (req.headers.accept ?? '').includes('text/event-stream');
+}
+
+/**
+ * Coordinates a graceful shutdown, e.g. on SIGTERM during a rollout.
+ *
+ * Shutting down first marks the process as draining, so handlers can turn
+ * away new work (such as initialize requests) while in-flight requests are
+ * allowed to finish, up to drainTimeoutMs. The registered steps then run in
+ * registration order; a failing step is logged and does not stop the rest.
+ */
+export class ShutdownCoordinator {
+  private draining = false;
+  private inFlight = 0;
+  private idleWaiters: (() => void)[] = [];
+  private steps: ShutdownStep[] = [];
+  private shutdownPromise?: Promise<void>;
+
+  constructor(private options: ShutdownOptions) {}
+
+  get isDraining(): boolean {
+    return this.draining;
+  }
+
+  get inFlightRequests(): number {
+    return this.inFlight;
+  }
+
+  /**
+   * Tracks in-flight requests so shutdown can wait for them.
+   */
+  middleware() {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (isEventStream(req)) {
+        next();
+        return;
+      }
+
+      this.inFlight++;
+      let done = false;
+      const onDone = () => {
+        if (done) {
+          return;
+        }
+        done = true;
+        this.inFlight--;
+        if (this.inFlight === 0) {
+          this.idleWaiters.splice(0).forEach(resolve => resolve());
+        }
+      };
+      res.on('finish', onDone);
+      res.on('close', onDone);
+      next();
+    };
+  }
+
+  /**
+   * Registers a step to run once in-flight requests have drained.
+   */
+  onShutdown(name: string, run: () => void | Promise<void>): void {
+    this.steps.push({ name, run });
+  }
+
+  /**
+   * Drains and shuts down. Calling it again returns the same shutdown.
+   */
+  shutdown(reason: string): Promise<void> {
+    if (!this.shutdownPromise) {
+      this.shutdownPromise = this.runShutdown(reason);
+    }
+    return this.shutdownPromise;
+  }
+
+  private async runShutdown(reason: string): Promise<void> {
+    logger.info('Shutting down', {
+      reason,
+      inFlightRequests: this.inFlight,
+      drainTimeoutMs: this.options.drainTimeoutMs
+    });
+    this.draining = true;
+
+    const drained = await this.waitForInFlightRequests();
+    if (!drained) {
+      logger.warning('Drain deadline reached with requests still in flight', {
+        inFlightRequests: this.inFlight
+      });
+    }
+
+    for (const step of this.steps) {
+      try {
+        logger.debug('Running shutdown step', { step: step.name });
+        await step.run();
+      } catch (error) {
+        logger.error('Shutdown step failed', error as Error, { step: step.name });
+      }
+    }
+
+    logger.info('Shutdown complete', { reason });
+  }
+
+  // Resolves true once no requests are in flight, or false at the deadline
+  private waitForInFlightRequests(): Promise<boolean> {
+    if (this.inFlight === 0) {
+      return Promise.resolve(true);
+    }
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => resolve(false), this.options.drainTimeoutMs);
+      this.idleWaiters.push(() => {
+        clearTimeout(timeout);
+        resolve(true);
+      });
+    });
+  }
+}